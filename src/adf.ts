@@ -1,16 +1,18 @@
 import { CancellationToken, Uri, workspace, FileType, EventEmitter } from "vscode";
-import { ExecutorHelper } from "./execHelper";
 import * as path from 'path';
 import { VASMCompiler } from "./vasm";
 import { FileProxy } from "./fsProxy";
 import { ExtensionState } from "./extension";
 import { substituteVariables } from "./configVariables";
+import { ADFDisk, ADFDiskOptions } from "./adfDisk";
+import { BootBlockAnalyzer, BootBlockIssueSeverity } from "./bootBlockAnalyzer";
 
 /**
  * Definition of the adf properties
  */
 export interface AdfGeneratorProperties {
-    ADFToolsParentDir: string;
+    /** @deprecated the ADF file is generated without external tools */
+    ADFToolsParentDir?: string;
     sourceRootDir: string;
     outputADFFile: string;
     includes: string;
@@ -24,7 +26,6 @@ export interface AdfGeneratorProperties {
  */
 export class ADFTools {
     static readonly DEFAULT_BUILD_CONFIGURATION = <AdfGeneratorProperties>{
-        ADFToolsParentDir: "${config:amiga-assembly.binDir}",
         sourceRootDir: "uae/dh0",
         outputADFFile: "./build/disk.adf",
         includes: "**/*",
@@ -34,34 +35,6 @@ export class ADFTools {
         ]
     };
 
-    /** Path to the adftools executable */
-    private adfCreateFilePath = "";
-    private adfCopyFilePath = "";
-    private adfInstallFilePath = "";
-    private adfMkDirFilePath = "";
-    /** Executor to run the tools */
-    private executor: ExecutorHelper;
-
-    /**
-     * Constructor
-     * @param adfToolsRootPath Path to ADFTools
-     */
-    public constructor(adfToolsRootPath: string) {
-        this.executor = new ExecutorHelper();
-        this.setToolsRootPath(substituteVariables(adfToolsRootPath, true));
-    }
-
-    /**
-     * Sets the tools rot path and generates the binaries paths
-     * @param adfToolsRootPath Path to ADFTools
-     */
-    private setToolsRootPath(adfToolsRootPath: string) {
-        this.adfCreateFilePath = path.join(adfToolsRootPath, 'adfcreate');
-        this.adfCopyFilePath = path.join(adfToolsRootPath, 'adfcopy');
-        this.adfInstallFilePath = path.join(adfToolsRootPath, 'adfinst');
-        this.adfMkDirFilePath = path.join(adfToolsRootPath, 'adfmakedir');
-    }
-
     /**
      * Create a bootable disk using the vscode configuration
      * @param conf Configuration
@@ -70,7 +43,6 @@ export class ADFTools {
      * @param cancellationToken Token to cancel the process
      */
     public async createBootableADFDisk(conf: AdfGeneratorProperties, logEmitter?: EventEmitter<string>, compiler?: VASMCompiler, cancellationToken?: CancellationToken): Promise<void> {
-        this.setToolsRootPath(substituteVariables(conf.ADFToolsParentDir, true));
         const filename = substituteVariables(conf.outputADFFile, true);
         let rootSourceDir = "";
         if (conf.sourceRootDir) {
@@ -131,13 +103,16 @@ export class ADFTools {
                     bootBlockFilename = bootBlockDataFilename.replace(".o", ".bb");
                     const bootBlockDataFilenameUri = Uri.file(bootBlockDataFilename);
                     const bootBlockFile = new FileProxy(bootBlockDataFilenameUri);
+                    const bootBlockData = Buffer.from(await bootBlockFile.readFile());
+                    // The issues are reported on the source before the installation
+                    const dosType = ADFDisk.getDosTypeOf(this.parseCreateOptions(adfCreateOptions));
+                    await this.analyzeBootBlock(sourceFullPath, bootBlockData, dosType, logEmitter);
                     // create the bootblock
                     try {
-                        const bootBlock = await bootBlockFile.readFile();
                         logEmitter?.fire(`Adding bootblock to ADF\r\n`);
-                        await this.writeBootBlockFile(Buffer.from(bootBlock), Uri.file(bootBlockFilename));
+                        await this.writeBootBlockFile(bootBlockData, Uri.file(bootBlockFilename));
                     } catch (err) {
-                        throw new Error(`Error writing boot block '${bootBlockSourceFilename}'`);
+                        throw new Error(`Error writing boot block '${bootBlockSourceFilename}': ${err.message}`);
                     }
                 }
             } else {
@@ -146,7 +121,7 @@ export class ADFTools {
         }
         // Create a disk
         logEmitter?.fire(`Creating ADF file ${filename}\r\n`);
-        await this.createADFDisk(filename, adfCreateOptions, cancellationToken);
+        await this.createADFDisk(filename, adfCreateOptions, cancellationToken, logEmitter);
         // Install the disk
         logEmitter?.fire(`Installing ADF file ${filename}\r\n`);
         await this.installADFDisk(filename, bootBlockFilename, cancellationToken);
@@ -191,6 +166,29 @@ export class ADFTools {
         }
     }
 
+    /**
+     * Analyzes the compiled bootblock and reports the issues on the source file
+     * @param sourceUri Uri of the bootblock source file
+     * @param bootBlockData Compiled bootblock binary
+     * @param dosType Flags of the dos type of the disk
+     * @param logEmitter Log emitter
+     */
+    public async analyzeBootBlock(sourceUri: Uri, bootBlockData: Buffer, dosType: number, logEmitter?: EventEmitter<string>): Promise<void> {
+        logEmitter?.fire(`Analyzing bootblock ${sourceUri.fsPath}\r\n`);
+        const analyzer = new BootBlockAnalyzer();
+        const issues = analyzer.analyze(bootBlockData, dosType);
+        if (issues.length > 0) {
+            const sourceText = await new FileProxy(sourceUri).readFileText("utf8");
+            analyzer.report(sourceUri, sourceText, issues);
+            for (const issue of issues) {
+                logEmitter?.fire(`Bootblock ${issue.severity}: ${issue.message}\r\n`);
+            }
+            if (issues.some(i => i.severity === BootBlockIssueSeverity.ERROR)) {
+                throw new Error(`Invalid bootblock '${sourceUri.fsPath}'`);
+            }
+        }
+    }
+
     /**
      * Create a new disk
      * @param filename Filename of the new adf disk file
@@ -204,6 +202,9 @@ export class ADFTools {
             const normPath = dirPath.replace(/\\/g, '/');
             let concatPath = "";
             for (const pathElement of normPath.split('/')) {
+                if (concatPath.length > 0) {
+                    concatPath += '/';
+                }
                 concatPath += pathElement;
                 if (!(createdDirs.includes(concatPath))) {
                     logEmitter?.fire(`Creating ADF directory ${concatPath}\r\n`);
@@ -215,13 +216,16 @@ export class ADFTools {
     }
 
     /**
-     * Create a new disk
-     * @param filename Filename of the new adf disk file
+     * Create a new directory in the disk
+     * @param filename Filename of the adf disk file
      * @param dirPath Path of the directory to create
      * @param cancellationToken Token to cancel the process
      */
     public async mkdir(filename: string, dirPath: string, cancellationToken?: CancellationToken): Promise<void> {
-        await this.executeADFCommand(this.adfMkDirFilePath, [filename, dirPath], cancellationToken);
+        this.checkCancellation(cancellationToken);
+        const disk = await this.readDisk(filename);
+        disk.mkdir(dirPath);
+        await this.writeDisk(filename, disk);
     }
 
     /**
@@ -229,12 +233,43 @@ export class ADFTools {
      * @param filename Filename of the new adf disk file
      * @param adfCreateOptions Option for the create command
      * @param cancellationToken Token to cancel the process
+     * @param logEmitter Log emitter
+     */
+    public async createADFDisk(filename: string, adfCreateOptions: Array<string>, cancellationToken?: CancellationToken, logEmitter?: EventEmitter<string>): Promise<void> {
+        this.checkCancellation(cancellationToken);
+        const disk = ADFDisk.create(this.parseCreateOptions(adfCreateOptions, logEmitter));
+        await this.writeDisk(filename, disk);
+    }
+
+    /**
+     * Parses the options of the create command
+     * The options of the former adfcreate tool which are not supported are ignored.
+     * @param adfCreateOptions Options: --label=NAME, --ffs, --ofs, --intl, --dircache, --hd
+     * @param logEmitter Log emitter of the ignored options
+     * @return Format options
      */
-    public async createADFDisk(filename: string, adfCreateOptions: Array<string>, cancellationToken?: CancellationToken): Promise<void> {
-        let args = new Array<string>();
-        args = args.concat(adfCreateOptions);
-        args.push(filename);
-        await this.executeADFCommand(this.adfCreateFilePath, args, cancellationToken);
+    public parseCreateOptions(adfCreateOptions: Array<string>, logEmitter?: EventEmitter<string>): ADFDiskOptions {
+        const options = <ADFDiskOptions>{};
+        for (let i = 0; i < adfCreateOptions.length; i++) {
+            const option = adfCreateOptions[i];
+            const labelMatch = /^(--label=|-l=?)(.*)$/.exec(option);
+            if (labelMatch) {
+                options.label = (labelMatch[2].length > 0 || i + 1 >= adfCreateOptions.length) ? labelMatch[2] : adfCreateOptions[++i];
+            } else if (option === "--ffs" || option === "-f") {
+                options.ffs = true;
+            } else if (option === "--ofs") {
+                options.ffs = false;
+            } else if (option === "--intl" || option === "-i") {
+                options.intl = true;
+            } else if (option === "--dircache" || option === "-d") {
+                options.dirCache = true;
+            } else if (option === "--hd") {
+                options.highDensity = true;
+            } else {
+                logEmitter?.fire(`Ignoring unsupported ADF create option '${option}'\r\n`);
+            }
+        }
+        return options;
     }
 
     /**
@@ -244,48 +279,77 @@ export class ADFTools {
      * @param cancellationToken Token to cancel the process
      */
     public async installADFDisk(filename: string, bootBlockFilename?: string, cancellationToken?: CancellationToken): Promise<void> {
+        this.checkCancellation(cancellationToken);
+        const disk = await this.readDisk(filename);
         if (bootBlockFilename) {
-            await this.executeADFCommand(this.adfInstallFilePath, [`--install=${bootBlockFilename}`, filename], cancellationToken);
+            const bootBlock = await new FileProxy(this.getFileUri(bootBlockFilename)).readFile();
+            disk.installBootBlock(Buffer.from(bootBlock));
         } else {
-            await this.executeADFCommand(this.adfInstallFilePath, ["-i", filename], cancellationToken);
+            disk.installBootBlock();
         }
+        await this.writeDisk(filename, disk);
     }
 
     /**
-     * Copy a file or a directory to the ADF disk
+     * Copy a file to the ADF disk
      * @param filename Filename of the new adf disk file
      * @param sourceFilename Filename of the new adf disk file
      * @param destinationDir Destination directory in the Adf disk
      * @param cancellationToken Token to cancel the process
      */
     public async copyToADFDisk(filename: string, sourceFilename: string, destinationDir: string, cancellationToken?: CancellationToken): Promise<void> {
-        await this.executeADFCommand(this.adfCopyFilePath, [filename, sourceFilename, destinationDir], cancellationToken);
+        this.checkCancellation(cancellationToken);
+        const disk = await this.readDisk(filename);
+        const contents = await new FileProxy(this.getFileUri(sourceFilename)).readFile();
+        disk.writeFile(`${destinationDir}/${path.basename(sourceFilename)}`, Buffer.from(contents));
+        await this.writeDisk(filename, disk);
     }
 
     /**
-     * Create a new disk
-     * @param commandFilename Filename of the command to execute
-     * @param args Arguments for the command
-     * @param cancellationToken Token to cancel the process
+     * Read a file from the ADF disk
+     * @param filename Filename of the adf disk file
+     * @param filePath Path of the file in the disk
+     * @return Contents of the file
      */
-    private async executeADFCommand(commandFilename: string, args: Array<string>, cancellationToken?: CancellationToken): Promise<void> {
-        const workspaceRootDir = this.getWorkspaceRootDir();
-        let rootPath: string | null = null;
-        if (workspaceRootDir) {
-            rootPath = workspaceRootDir.fsPath;
-        }
-        const stdout = await this.executor.runToolRetrieveStdout(args, rootPath, commandFilename, null, cancellationToken);
-        if (stdout.indexOf("Done.") < 0) {
-            throw new Error(stdout);
-        }
+    public async readFromADFDisk(filename: string, filePath: string): Promise<Buffer> {
+        const disk = await this.readDisk(filename);
+        return disk.readFile(filePath);
+    }
+
+    /**
+     * Reads an adf disk file
+     * @param filename Filename of the adf disk file
+     */
+    public async readDisk(filename: string): Promise<ADFDisk> {
+        const contents = await new FileProxy(this.getFileUri(filename)).readFile();
+        return new ADFDisk(Buffer.from(contents));
     }
 
     /**
-     * Setting the context to run the tests.
-     * @param executor mocked executor
+     * Writes an adf disk file
+     * @param filename Filename of the adf disk file
+     * @param disk Disk to write
      */
-    public setTestContext(executor: ExecutorHelper): void {
-        this.executor = executor;
+    public async writeDisk(filename: string, disk: ADFDisk): Promise<void> {
+        await new FileProxy(this.getFileUri(filename)).writeFile(disk.getBuffer());
+    }
+
+    /**
+     * Resolves a filename relative to the workspace
+     * @param filename Filename
+     */
+    private getFileUri(filename: string): Uri {
+        const workspaceRootDir = this.getWorkspaceRootDir();
+        if (!path.isAbsolute(filename) && workspaceRootDir) {
+            return Uri.file(path.join(workspaceRootDir.fsPath, filename));
+        }
+        return Uri.file(filename);
+    }
+
+    private checkCancellation(cancellationToken?: CancellationToken): void {
+        if (cancellationToken && cancellationToken.isCancellationRequested) {
+            throw new Error("ADF generation cancelled");
+        }
     }
 
     /**
@@ -300,17 +364,7 @@ export class ADFTools {
      * @param bootblock Complete bootblock
      */
     public calculateChecksum(bootblock: Buffer): number {
-        let newSum = 0;
-        for (let i = 0; i < 256; i++) { // The boot block must be 1024
-            if (i !== 1) { // skip the checksum value ni the bootblock
-                newSum += bootblock.readUInt32BE(i * 4); // Read unsigned int 32b in Big Endian
-                if (newSum > 0xffffffff) { // Int32 overflow
-                    newSum -= 0x100000000; // Simulating overflow
-                    newSum++; // part of the checksum calculation
-                }
-            }
-        }
-        return ~newSum >>> 0;	/* not unsigned */
+        return ADFDisk.calculateBootBlockChecksum(bootblock);
     }
 
     /**
@@ -318,6 +372,9 @@ export class ADFTools {
      * @param bootblockData Boot block binary data
      */
     public createBootBlock(bootblockData: Buffer): Buffer {
+        if (bootblockData.length > 1024) {
+            throw new Error(`Boot block too large: ${bootblockData.length} bytes, the maximum is 1024 bytes`);
+        }
         const bootblock = Buffer.alloc(1024);
         bootblockData.copy(bootblock);
         const checksum = this.calculateChecksum(bootblock);
@@ -0,0 +1,909 @@
+/**
+ * Type of an entry in an ADF disk
+ */
+export enum ADFEntryType {
+    FILE,
+    DIRECTORY
+}
+
+/**
+ * Entry (file or directory) of an ADF disk
+ */
+export interface ADFEntry {
+    name: string;
+    type: ADFEntryType;
+    size: number;
+    /** Header block of the entry */
+    block: number;
+    date: Date;
+    protection: number;
+    comment: string;
+}
+
+/**
+ * Options to format an ADF disk
+ */
+export interface ADFDiskOptions {
+    /** Volume name */
+    label?: string;
+    /** Fast file system, Old file system if not set */
+    ffs?: boolean;
+    /** International mode: case insensitive names with accented characters */
+    intl?: boolean;
+    /** Directory cache (implies intl) */
+    dirCache?: boolean;
+    /** High density disk (1760KB) */
+    highDensity?: boolean;
+}
+
+/**
+ * Amiga Disk File with an OFS or FFS file system, read and written in memory.
+ */
+export class ADFDisk {
+    public static readonly BLOCK_SIZE = 512;
+    public static readonly DD_BLOCKS_COUNT = 1760;
+    public static readonly HD_BLOCKS_COUNT = 3520;
+    public static readonly BOOTBLOCK_SIZE = 1024;
+    public static readonly MAX_NAME_LENGTH = 30;
+    public static readonly MAX_COMMENT_LENGTH = 79;
+    /** Flags of the dos type */
+    public static readonly DOSTYPE_FFS = 1;
+    public static readonly DOSTYPE_INTL = 2;
+    public static readonly DOSTYPE_DIRCACHE = 4;
+    // Block types
+    private static readonly T_HEADER = 2;
+    private static readonly T_DATA = 8;
+    private static readonly T_LIST = 16;
+    private static readonly T_DIRC = 33;
+    private static readonly ST_ROOT = 1;
+    private static readonly ST_USERDIR = 2;
+    private static readonly ST_FILE = -3;
+    // Common offsets in the blocks
+    private static readonly HASH_TABLE_SIZE = 72;
+    private static readonly OFFSET_TYPE = 0;
+    private static readonly OFFSET_HEADER_KEY = 4;
+    private static readonly OFFSET_HIGH_SEQ = 8;
+    private static readonly OFFSET_DATA_SIZE = 12;
+    private static readonly OFFSET_FIRST_DATA = 16;
+    private static readonly OFFSET_CHECKSUM = 20;
+    private static readonly OFFSET_HASH_TABLE = 24;
+    private static readonly OFFSET_BM_FLAG = ADFDisk.BLOCK_SIZE - 200;
+    private static readonly OFFSET_BM_PAGES = ADFDisk.BLOCK_SIZE - 196;
+    private static readonly OFFSET_PROTECTION = ADFDisk.BLOCK_SIZE - 192;
+    private static readonly OFFSET_BYTE_SIZE = ADFDisk.BLOCK_SIZE - 188;
+    private static readonly OFFSET_COMMENT = ADFDisk.BLOCK_SIZE - 184;
+    private static readonly OFFSET_DATE = ADFDisk.BLOCK_SIZE - 92;
+    private static readonly OFFSET_NAME = ADFDisk.BLOCK_SIZE - 80;
+    private static readonly OFFSET_VOLUME_DATE = ADFDisk.BLOCK_SIZE - 40;
+    private static readonly OFFSET_CREATION_DATE = ADFDisk.BLOCK_SIZE - 28;
+    private static readonly OFFSET_HASH_CHAIN = ADFDisk.BLOCK_SIZE - 16;
+    private static readonly OFFSET_PARENT = ADFDisk.BLOCK_SIZE - 12;
+    private static readonly OFFSET_EXTENSION = ADFDisk.BLOCK_SIZE - 8;
+    private static readonly OFFSET_SEC_TYPE = ADFDisk.BLOCK_SIZE - 4;
+    // Directory cache block
+    private static readonly OFFSET_DIRC_PARENT = 8;
+    private static readonly OFFSET_DIRC_RECORDS = 12;
+    private static readonly OFFSET_DIRC_NEXT = 16;
+    private static readonly OFFSET_DIRC_DATA = 24;
+    /** Count of blocks in a bitmap block */
+    private static readonly BITMAP_BLOCKS_PER_PAGE = 127 * 32;
+    /** Amiga dates start on 1978-01-01 */
+    private static readonly AMIGA_EPOCH = Date.UTC(1978, 0, 1);
+    /** Standard bootblock code: finds dos.library and returns its init */
+    private static readonly DEFAULT_BOOTBLOCK_CODE = Buffer.from("43fa00184eaeffa04a80670a20402068001670004e7570ff60fa646f732e6c6962726172790000", "hex");
+
+    private data: Buffer;
+    private blocksCount: number;
+    private rootBlock: number;
+
+    /**
+     * Constructor
+     * @param data Contents of the ADF file
+     */
+    public constructor(data: Buffer) {
+        if (data.length === ADFDisk.DD_BLOCKS_COUNT * ADFDisk.BLOCK_SIZE) {
+            this.blocksCount = ADFDisk.DD_BLOCKS_COUNT;
+        } else if (data.length === ADFDisk.HD_BLOCKS_COUNT * ADFDisk.BLOCK_SIZE) {
+            this.blocksCount = ADFDisk.HD_BLOCKS_COUNT;
+        } else {
+            throw new Error(`Invalid ADF size: ${data.length} bytes`);
+        }
+        this.data = data;
+        this.rootBlock = this.blocksCount / 2;
+    }
+
+    /**
+     * Creates a new formatted disk
+     * @param options Format options
+     */
+    public static create(options?: ADFDiskOptions): ADFDisk {
+        const blocksCount = (options && options.highDensity) ? ADFDisk.HD_BLOCKS_COUNT : ADFDisk.DD_BLOCKS_COUNT;
+        const disk = new ADFDisk(Buffer.alloc(blocksCount * ADFDisk.BLOCK_SIZE));
+        disk.format(options);
+        return disk;
+    }
+
+    /**
+     * Contents of the ADF file
+     */
+    public getBuffer(): Buffer {
+        return this.data;
+    }
+
+    /**
+     * Computes the flags of the dos type of a disk format
+     * @param options Format options
+     * @return Flags of the dos type (DOSTYPE_FFS | DOSTYPE_INTL | DOSTYPE_DIRCACHE)
+     */
+    public static getDosTypeOf(options: ADFDiskOptions): number {
+        let dosType = 0;
+        if (options.ffs) {
+            dosType |= ADFDisk.DOSTYPE_FFS;
+        }
+        if (options.intl || options.dirCache) {
+            dosType |= ADFDisk.DOSTYPE_INTL;
+        }
+        if (options.dirCache) {
+            dosType |= ADFDisk.DOSTYPE_DIRCACHE;
+        }
+        return dosType;
+    }
+
+    /**
+     * Formats the disk: all the contents are erased
+     * @param options Format options
+     */
+    public format(options?: ADFDiskOptions): void {
+        const opts = options ? options : {};
+        const dosType = ADFDisk.getDosTypeOf(opts);
+        this.data.fill(0);
+        this.data.write("DOS", 0, "latin1");
+        this.data.writeUInt8(dosType, 3);
+        // Bitmap: all the blocks except the boot blocks are free
+        const bitmapBlock = this.rootBlock + 1;
+        for (let b = 2; b < this.blocksCount; b++) {
+            this.setBitmapBit(bitmapBlock, b, true);
+        }
+        const root = this.rootBlock;
+        this.writeLong(root, ADFDisk.OFFSET_TYPE, ADFDisk.T_HEADER);
+        this.writeLong(root, ADFDisk.OFFSET_DATA_SIZE, ADFDisk.HASH_TABLE_SIZE);
+        this.writeLong(root, ADFDisk.OFFSET_BM_FLAG, 0xffffffff);
+        this.writeLong(root, ADFDisk.OFFSET_BM_PAGES, bitmapBlock);
+        this.writeLong(root, ADFDisk.OFFSET_SEC_TYPE, ADFDisk.ST_ROOT);
+        const now = new Date();
+        this.writeDate(root, ADFDisk.OFFSET_DATE, now);
+        this.writeDate(root, ADFDisk.OFFSET_VOLUME_DATE, now);
+        this.writeDate(root, ADFDisk.OFFSET_CREATION_DATE, now);
+        this.writeName(root, ADFDisk.OFFSET_NAME, opts.label ? opts.label : "Empty");
+        this.setBlockFree(root, false);
+        this.setBlockFree(bitmapBlock, false);
+        if (this.hasDirCache()) {
+            this.rebuildDirCache(root);
+        }
+        this.updateChecksum(root);
+    }
+
+    /**
+     * Flags of the dos type (DOSTYPE_FFS | DOSTYPE_INTL | DOSTYPE_DIRCACHE)
+     */
+    public getDosType(): number {
+        this.checkDosDisk();
+        return this.data.readUInt8(3);
+    }
+
+    public isFFS(): boolean {
+        return (this.getDosType() & ADFDisk.DOSTYPE_FFS) !== 0;
+    }
+
+    public isIntl(): boolean {
+        return (this.getDosType() & (ADFDisk.DOSTYPE_INTL | ADFDisk.DOSTYPE_DIRCACHE)) !== 0;
+    }
+
+    public hasDirCache(): boolean {
+        return (this.getDosType() & ADFDisk.DOSTYPE_DIRCACHE) !== 0;
+    }
+
+    public isHighDensity(): boolean {
+        return this.blocksCount === ADFDisk.HD_BLOCKS_COUNT;
+    }
+
+    /**
+     * Volume name
+     */
+    public getLabel(): string {
+        this.checkDosDisk();
+        return this.readName(this.rootBlock, ADFDisk.OFFSET_NAME);
+    }
+
+    /**
+     * Count of free blocks
+     */
+    public getFreeBlocksCount(): number {
+        this.checkDosDisk();
+        let count = 0;
+        for (let b = 2; b < this.blocksCount; b++) {
+            if (this.isBlockFree(b)) {
+                count++;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * Installs a bootblock.
+     * The dos type and the rootblock pointer are kept from the disk, the code starts at byte 12.
+     * @param bootblock Bootblock, if none the standard bootblock is installed
+     */
+    public installBootBlock(bootblock?: Buffer): void {
+        const dosType = this.getDosType();
+        const newBootBlock = Buffer.alloc(ADFDisk.BOOTBLOCK_SIZE);
+        if (bootblock) {
+            if (bootblock.length > ADFDisk.BOOTBLOCK_SIZE) {
+                throw new Error(`Bootblock too large: ${bootblock.length} bytes`);
+            }
+            bootblock.copy(newBootBlock, 12, Math.min(12, bootblock.length));
+        } else {
+            ADFDisk.DEFAULT_BOOTBLOCK_CODE.copy(newBootBlock, 12);
+        }
+        newBootBlock.write("DOS", 0, "latin1");
+        newBootBlock.writeUInt8(dosType, 3);
+        newBootBlock.writeUInt32BE(this.isHighDensity() ? this.rootBlock : ADFDisk.DD_BLOCKS_COUNT / 2, 8);
+        newBootBlock.writeUInt32BE(ADFDisk.calculateBootBlockChecksum(newBootBlock), 4);
+        newBootBlock.copy(this.data, 0);
+    }
+
+    /**
+     * Copy of the bootblock
+     */
+    public getBootBlock(): Buffer {
+        return Buffer.from(this.data.subarray(0, ADFDisk.BOOTBLOCK_SIZE));
+    }
+
+    /**
+     * Compute checksum of a bootblock
+     * @param bootblock Complete bootblock
+     */
+    public static calculateBootBlockChecksum(bootblock: Buffer): number {
+        let newSum = 0;
+        for (let i = 0; i < 256; i++) { // The boot block must be 1024
+            if (i !== 1) { // skip the checksum value ni the bootblock
+                newSum += bootblock.readUInt32BE(i * 4); // Read unsigned int 32b in Big Endian
+                if (newSum > 0xffffffff) { // Int32 overflow
+                    newSum -= 0x100000000; // Simulating overflow
+                    newSum++; // part of the checksum calculation
+                }
+            }
+        }
+        return ~newSum >>> 0;	/* not unsigned */
+    }
+
+    /**
+     * Creates a directory, the parent directory must exist
+     * @param dirPath Path of the directory
+     */
+    public mkdir(dirPath: string): ADFEntry {
+        const [parent, name] = this.findParent(dirPath);
+        const block = this.createHeader(parent, name, ADFDisk.ST_USERDIR);
+        if (this.hasDirCache()) {
+            this.rebuildDirCache(block);
+            this.updateChecksum(block);
+        }
+        this.updateParent(parent);
+        return this.readEntry(block);
+    }
+
+    /**
+     * Writes a file, an existing file is replaced
+     * @param filePath Path of the file
+     * @param contents Contents of the file
+     */
+    public writeFile(filePath: string, contents: Buffer): ADFEntry {
+        const [parent, name] = this.findParent(filePath);
+        const existing = this.findInDirectory(parent, name);
+        if (existing) {
+            if (this.readSecType(existing) !== ADFDisk.ST_FILE) {
+                throw new Error(`'${filePath}' is a directory`);
+            }
+            this.removeEntry(parent, existing);
+        }
+        const dataBlockSize = this.getDataBlockSize();
+        const dataBlocksCount = Math.ceil(contents.length / dataBlockSize);
+        // The header is needed in the data blocks
+        const header = this.createHeader(parent, name, ADFDisk.ST_FILE);
+        try {
+            const dataBlocks = new Array<number>();
+            let listBlock = header;
+            for (let i = 0; i < dataBlocksCount; i++) {
+                const indexInList = i % ADFDisk.HASH_TABLE_SIZE;
+                if (i > 0 && indexInList === 0) {
+                    // new extension block
+                    const extension = this.allocateBlock();
+                    this.writeLong(extension, ADFDisk.OFFSET_TYPE, ADFDisk.T_LIST);
+                    this.writeLong(extension, ADFDisk.OFFSET_HEADER_KEY, extension);
+                    this.writeLong(extension, ADFDisk.OFFSET_PARENT, header);
+                    this.writeLong(extension, ADFDisk.OFFSET_SEC_TYPE, ADFDisk.ST_FILE);
+                    this.writeLong(listBlock, ADFDisk.OFFSET_EXTENSION, extension);
+                    this.updateChecksum(listBlock);
+                    listBlock = extension;
+                }
+                const dataBlock = this.allocateBlock();
+                const start = i * dataBlockSize;
+                const chunk = contents.subarray(start, Math.min(start + dataBlockSize, contents.length));
+                if (this.isFFS()) {
+                    chunk.copy(this.data, dataBlock * ADFDisk.BLOCK_SIZE);
+                } else {
+                    this.writeLong(dataBlock, ADFDisk.OFFSET_TYPE, ADFDisk.T_DATA);
+                    this.writeLong(dataBlock, ADFDisk.OFFSET_HEADER_KEY, header);
+                    this.writeLong(dataBlock, ADFDisk.OFFSET_HIGH_SEQ, i + 1);
+                    this.writeLong(dataBlock, ADFDisk.OFFSET_DATA_SIZE, chunk.length);
+                    chunk.copy(this.data, dataBlock * ADFDisk.BLOCK_SIZE + ADFDisk.OFFSET_HASH_TABLE);
+                    if (dataBlocks.length > 0) {
+                        const previous = dataBlocks[dataBlocks.length - 1];
+                        this.writeLong(previous, ADFDisk.OFFSET_FIRST_DATA, dataBlock);
+                        this.updateChecksum(previous);
+                    }
+                    this.updateChecksum(dataBlock);
+                }
+                dataBlocks.push(dataBlock);
+                // Data blocks pointers are stored from the end of the table
+                this.writeLong(listBlock, ADFDisk.OFFSET_HASH_TABLE + (ADFDisk.HASH_TABLE_SIZE - 1 - indexInList) * 4, dataBlock);
+                this.writeLong(listBlock, ADFDisk.OFFSET_HIGH_SEQ, indexInList + 1);
+            }
+            if (dataBlocks.length > 0) {
+                this.writeLong(header, ADFDisk.OFFSET_FIRST_DATA, dataBlocks[0]);
+            }
+            this.writeLong(header, ADFDisk.OFFSET_BYTE_SIZE, contents.length);
+            this.updateChecksum(listBlock);
+            this.updateChecksum(header);
+        } catch (err) {
+            // Disk full: release the blocks of the partial file
+            this.removeEntry(parent, header);
+            this.updateParent(parent);
+            throw err;
+        }
+        this.updateParent(parent);
+        return this.readEntry(header);
+    }
+
+    /**
+     * Reads a file
+     * @param filePath Path of the file
+     * @return Contents of the file
+     */
+    public readFile(filePath: string): Buffer {
+        const block = this.findBlock(filePath);
+        if (this.readSecType(block) !== ADFDisk.ST_FILE) {
+            throw new Error(`'${filePath}' is not a file`);
+        }
+        const size = this.readLong(block, ADFDisk.OFFSET_BYTE_SIZE);
+        const contents = Buffer.alloc(size);
+        let pos = 0;
+        for (const dataBlock of this.getDataBlocks(block)) {
+            const start = dataBlock * ADFDisk.BLOCK_SIZE;
+            if (this.isFFS()) {
+                pos += this.data.copy(contents, pos, start, start + Math.min(ADFDisk.BLOCK_SIZE, size - pos));
+            } else {
+                const dataSize = this.readLong(dataBlock, ADFDisk.OFFSET_DATA_SIZE);
+                const dataStart = start + ADFDisk.OFFSET_HASH_TABLE;
+                pos += this.data.copy(contents, pos, dataStart, dataStart + Math.min(dataSize, size - pos));
+            }
+        }
+        return contents;
+    }
+
+    /**
+     * Deletes a file or an empty directory
+     * @param entryPath Path of the entry
+     */
+    public delete(entryPath: string): void {
+        const [parent, name] = this.findParent(entryPath);
+        const block = this.findInDirectory(parent, name);
+        if (block === undefined) {
+            throw new Error(`'${entryPath}' not found`);
+        }
+        this.removeEntry(parent, block);
+        this.updateParent(parent);
+    }
+
+    /**
+     * Renames or moves an entry
+     * @param oldPath Path of the entry
+     * @param newPath New path of the entry, the parent directory must exist
+     */
+    public rename(oldPath: string, newPath: string): ADFEntry {
+        const [oldParent, oldName] = this.findParent(oldPath);
+        const block = this.findInDirectory(oldParent, oldName);
+        if (block === undefined) {
+            throw new Error(`'${oldPath}' not found`);
+        }
+        const [newParent, newName] = this.findParent(newPath);
+        this.checkName(newName);
+        const existing = this.findInDirectory(newParent, newName);
+        if (existing !== undefined && existing !== block) {
+            throw new Error(`'${newName}' already exists`);
+        }
+        // A directory cannot be moved in its own tree
+        let ancestor = newParent;
+        while (ancestor !== this.rootBlock) {
+            if (ancestor === block) {
+                throw new Error(`Cannot move '${oldPath}' into itself`);
+            }
+            ancestor = this.readLong(ancestor, ADFDisk.OFFSET_PARENT);
+        }
+        this.unlinkFromDirectory(oldParent, block);
+        this.writeName(block, ADFDisk.OFFSET_NAME, newName);
+        this.writeLong(block, ADFDisk.OFFSET_PARENT, newParent);
+        this.linkInDirectory(newParent, block);
+        this.updateChecksum(block);
+        this.updateParent(oldParent);
+        if (newParent !== oldParent) {
+            this.updateParent(newParent);
+        }
+        return this.readEntry(block);
+    }
+
+    /**
+     * Lists a directory
+     * @param dirPath Path of the directory
+     * @return Entries sorted by name
+     */
+    public readDir(dirPath: string): Array<ADFEntry> {
+        const block = this.findBlock(dirPath);
+        const secType = this.readSecType(block);
+        if (secType !== ADFDisk.ST_ROOT && secType !== ADFDisk.ST_USERDIR) {
+            throw new Error(`'${dirPath}' is not a directory`);
+        }
+        const entries = this.getDirectoryBlocks(block).map(b => this.readEntry(b));
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        return entries;
+    }
+
+    /**
+     * Retrieves an entry
+     * @param entryPath Path of the entry
+     * @return The entry or undefined if it does not exist
+     */
+    public getEntry(entryPath: string): ADFEntry | undefined {
+        this.checkDosDisk();
+        const block = this.lookup(entryPath);
+        if (block !== undefined) {
+            return this.readEntry(block);
+        }
+        return undefined;
+    }
+
+    /**
+     * Hash of a name in the directories hash tables
+     * @param name Name of the entry
+     * @param intl International mode
+     */
+    public static hashName(name: string, intl: boolean): number {
+        let hash = name.length;
+        for (let i = 0; i < name.length; i++) {
+            hash = hash * 13;
+            hash += ADFDisk.toUpperCode(name.charCodeAt(i), intl);
+            hash &= 0x7ff;
+        }
+        return hash % ADFDisk.HASH_TABLE_SIZE;
+    }
+
+    private static toUpperCode(c: number, intl: boolean): number {
+        if ((c >= 0x61 && c <= 0x7a) || (intl && c >= 0xe0 && c <= 0xfe && c !== 0xf7)) {
+            return c - 0x20;
+        }
+        return c;
+    }
+
+    private static toUpperName(name: string, intl: boolean): string {
+        let upper = "";
+        for (let i = 0; i < name.length; i++) {
+            upper += String.fromCharCode(ADFDisk.toUpperCode(name.charCodeAt(i), intl));
+        }
+        return upper;
+    }
+
+    private checkDosDisk(): void {
+        if (this.data.toString("latin1", 0, 3) !== "DOS") {
+            throw new Error("Not a DOS disk");
+        }
+        if (this.readLong(this.rootBlock, ADFDisk.OFFSET_TYPE) !== ADFDisk.T_HEADER || this.readSecType(this.rootBlock) !== ADFDisk.ST_ROOT) {
+            throw new Error(`Invalid root block ${this.rootBlock}`);
+        }
+    }
+
+    private getDataBlockSize(): number {
+        return this.isFFS() ? ADFDisk.BLOCK_SIZE : ADFDisk.BLOCK_SIZE - ADFDisk.OFFSET_HASH_TABLE;
+    }
+
+    private readLong(block: number, offset: number): number {
+        return this.data.readUInt32BE(block * ADFDisk.BLOCK_SIZE + offset);
+    }
+
+    private writeLong(block: number, offset: number, value: number): void {
+        this.data.writeUInt32BE(value >>> 0, block * ADFDisk.BLOCK_SIZE + offset);
+    }
+
+    private readSecType(block: number): number {
+        return this.data.readInt32BE(block * ADFDisk.BLOCK_SIZE + ADFDisk.OFFSET_SEC_TYPE);
+    }
+
+    private readName(block: number, offset: number): string {
+        const start = block * ADFDisk.BLOCK_SIZE + offset;
+        const length = Math.min(this.data.readUInt8(start), ADFDisk.MAX_NAME_LENGTH);
+        return this.data.toString("latin1", start + 1, start + 1 + length);
+    }
+
+    private writeName(block: number, offset: number, name: string): void {
+        const start = block * ADFDisk.BLOCK_SIZE + offset;
+        const bytes = Buffer.from(name.substring(0, ADFDisk.MAX_NAME_LENGTH), "latin1");
+        this.data.fill(0, start, start + ADFDisk.MAX_NAME_LENGTH + 1);
+        this.data.writeUInt8(bytes.length, start);
+        bytes.copy(this.data, start + 1);
+    }
+
+    private readDate(block: number, offset: number): Date {
+        const days = this.readLong(block, offset);
+        const mins = this.readLong(block, offset + 4);
+        const ticks = this.readLong(block, offset + 8);
+        return new Date(ADFDisk.AMIGA_EPOCH + days * 86400000 + mins * 60000 + ticks * 20);
+    }
+
+    private writeDate(block: number, offset: number, date: Date): void {
+        const time = Math.max(0, date.getTime() - ADFDisk.AMIGA_EPOCH);
+        const days = Math.floor(time / 86400000);
+        const msInDay = time - days * 86400000;
+        this.writeLong(block, offset, days);
+        this.writeLong(block, offset + 4, Math.floor(msInDay / 60000));
+        this.writeLong(block, offset + 8, Math.floor((msInDay % 60000) / 20));
+    }
+
+    /**
+     * Updates the standard checksum of a block: the sum of all the longs is 0
+     * @param block Block number
+     */
+    private updateChecksum(block: number): void {
+        this.writeLong(block, ADFDisk.OFFSET_CHECKSUM, 0);
+        this.writeLong(block, ADFDisk.OFFSET_CHECKSUM, -this.sumBlock(block));
+    }
+
+    private sumBlock(block: number): number {
+        let sum = 0;
+        for (let i = 0; i < ADFDisk.BLOCK_SIZE / 4; i++) {
+            sum = (sum + this.readLong(block, i * 4)) >>> 0;
+        }
+        return sum;
+    }
+
+    private getBitmapBlock(block: number): [number, number] {
+        const index = block - 2;
+        const page = Math.floor(index / ADFDisk.BITMAP_BLOCKS_PER_PAGE);
+        const bitmapBlock = this.readLong(this.rootBlock, ADFDisk.OFFSET_BM_PAGES + page * 4);
+        return [bitmapBlock, index % ADFDisk.BITMAP_BLOCKS_PER_PAGE];
+    }
+
+    private setBitmapBit(bitmapBlock: number, block: number, free: boolean): void {
+        const index = (block - 2) % ADFDisk.BITMAP_BLOCKS_PER_PAGE;
+        const offset = 4 + (index >>> 5) * 4;
+        const mask = 1 << (index & 31);
+        const value = this.readLong(bitmapBlock, offset);
+        this.writeLong(bitmapBlock, offset, free ? (value | mask) : (value & ~mask));
+        // Bitmap checksum is the first long
+        this.writeLong(bitmapBlock, 0, 0);
+        this.writeLong(bitmapBlock, 0, -this.sumBlock(bitmapBlock));
+    }
+
+    private isBlockFree(block: number): boolean {
+        const [bitmapBlock, index] = this.getBitmapBlock(block);
+        return (this.readLong(bitmapBlock, 4 + (index >>> 5) * 4) & (1 << (index & 31))) !== 0;
+    }
+
+    private setBlockFree(block: number, free: boolean): void {
+        const [bitmapBlock,] = this.getBitmapBlock(block);
+        this.setBitmapBit(bitmapBlock, block, free);
+    }
+
+    /**
+     * Allocates a block near the root block
+     * @return Cleared block
+     */
+    private allocateBlock(): number {
+        for (let i = 0; i < this.blocksCount - 2; i++) {
+            const block = 2 + ((this.rootBlock - 2 + i) % (this.blocksCount - 2));
+            if (this.isBlockFree(block)) {
+                this.setBlockFree(block, false);
+                const start = block * ADFDisk.BLOCK_SIZE;
+                this.data.fill(0, start, start + ADFDisk.BLOCK_SIZE);
+                return block;
+            }
+        }
+        throw new Error("Disk full");
+    }
+
+    private splitPath(entryPath: string): Array<string> {
+        return entryPath.split(/[\\/]/).filter(p => p.length > 0 && p !== ".");
+    }
+
+    private lookup(entryPath: string): number | undefined {
+        let block = this.rootBlock;
+        for (const name of this.splitPath(entryPath)) {
+            const secType = this.readSecType(block);
+            if (secType !== ADFDisk.ST_ROOT && secType !== ADFDisk.ST_USERDIR) {
+                return undefined;
+            }
+            const child = this.findInDirectory(block, name);
+            if (child === undefined) {
+                return undefined;
+            }
+            block = child;
+        }
+        return block;
+    }
+
+    private findBlock(entryPath: string): number {
+        this.checkDosDisk();
+        const block = this.lookup(entryPath);
+        if (block === undefined) {
+            throw new Error(`'${entryPath}' not found`);
+        }
+        return block;
+    }
+
+    /**
+     * Finds the parent directory of a path
+     * @return [parent directory block, name of the entry]
+     */
+    private findParent(entryPath: string): [number, string] {
+        const elements = this.splitPath(entryPath);
+        const name = elements.pop();
+        if (!name) {
+            throw new Error(`Invalid path '${entryPath}'`);
+        }
+        const parent = this.findBlock(elements.join("/"));
+        const secType = this.readSecType(parent);
+        if (secType !== ADFDisk.ST_ROOT && secType !== ADFDisk.ST_USERDIR) {
+            throw new Error(`'${elements.join("/")}' is not a directory`);
+        }
+        return [parent, name];
+    }
+
+    private findInDirectory(dirBlock: number, name: string): number | undefined {
+        const intl = this.isIntl();
+        const upperName = ADFDisk.toUpperName(name, intl);
+        let block = this.readLong(dirBlock, ADFDisk.OFFSET_HASH_TABLE + ADFDisk.hashName(name, intl) * 4);
+        while (block !== 0) {
+            if (ADFDisk.toUpperName(this.readName(block, ADFDisk.OFFSET_NAME), intl) === upperName) {
+                return block;
+            }
+            block = this.readLong(block, ADFDisk.OFFSET_HASH_CHAIN);
+        }
+        return undefined;
+    }
+
+    private getDirectoryBlocks(dirBlock: number): Array<number> {
+        const blocks = new Array<number>();
+        for (let i = 0; i < ADFDisk.HASH_TABLE_SIZE; i++) {
+            let block = this.readLong(dirBlock, ADFDisk.OFFSET_HASH_TABLE + i * 4);
+            while (block !== 0) {
+                blocks.push(block);
+                block = this.readLong(block, ADFDisk.OFFSET_HASH_CHAIN);
+            }
+        }
+        return blocks;
+    }
+
+    private getDataBlocks(header: number): Array<number> {
+        const blocks = new Array<number>();
+        let listBlock = header;
+        while (listBlock !== 0) {
+            const count = this.readLong(listBlock, ADFDisk.OFFSET_HIGH_SEQ);
+            for (let i = 0; i < count; i++) {
+                blocks.push(this.readLong(listBlock, ADFDisk.OFFSET_HASH_TABLE + (ADFDisk.HASH_TABLE_SIZE - 1 - i) * 4));
+            }
+            listBlock = this.readLong(listBlock, ADFDisk.OFFSET_EXTENSION);
+        }
+        return blocks;
+    }
+
+    private getExtensionBlocks(header: number): Array<number> {
+        const blocks = new Array<number>();
+        let listBlock = this.readLong(header, ADFDisk.OFFSET_EXTENSION);
+        while (listBlock !== 0) {
+            blocks.push(listBlock);
+            listBlock = this.readLong(listBlock, ADFDisk.OFFSET_EXTENSION);
+        }
+        return blocks;
+    }
+
+    private readEntry(block: number): ADFEntry {
+        const secType = this.readSecType(block);
+        const isFile = secType === ADFDisk.ST_FILE;
+        const isRoot = secType === ADFDisk.ST_ROOT;
+        // The root block has the bitmap pointers instead of the protection and the comment
+        const commentStart = block * ADFDisk.BLOCK_SIZE + ADFDisk.OFFSET_COMMENT;
+        const commentLength = isRoot ? 0 : Math.min(this.data.readUInt8(commentStart), ADFDisk.MAX_COMMENT_LENGTH);
+        return <ADFEntry>{
+            name: this.readName(block, ADFDisk.OFFSET_NAME),
+            type: isFile ? ADFEntryType.FILE : ADFEntryType.DIRECTORY,
+            size: isFile ? this.readLong(block, ADFDisk.OFFSET_BYTE_SIZE) : 0,
+            block: block,
+            date: this.readDate(block, ADFDisk.OFFSET_DATE),
+            protection: isRoot ? 0 : this.readLong(block, ADFDisk.OFFSET_PROTECTION),
+            comment: this.data.toString("latin1", commentStart + 1, commentStart + 1 + commentLength),
+        };
+    }
+
+    private checkName(name: string): void {
+        if (name.length > ADFDisk.MAX_NAME_LENGTH || /[:/]/.test(name)) {
+            throw new Error(`Invalid name '${name}'`);
+        }
+    }
+
+    /**
+     * Creates a header block and links it in the parent hash table
+     * @return Header block
+     */
+    private createHeader(parent: number, name: string, secType: number): number {
+        this.checkName(name);
+        if (this.findInDirectory(parent, name) !== undefined) {
+            throw new Error(`'${name}' already exists`);
+        }
+        const block = this.allocateBlock();
+        this.writeLong(block, ADFDisk.OFFSET_TYPE, ADFDisk.T_HEADER);
+        this.writeLong(block, ADFDisk.OFFSET_HEADER_KEY, block);
+        this.writeLong(block, ADFDisk.OFFSET_SEC_TYPE, secType);
+        this.writeLong(block, ADFDisk.OFFSET_PARENT, parent);
+        this.writeName(block, ADFDisk.OFFSET_NAME, name);
+        this.writeDate(block, ADFDisk.OFFSET_DATE, new Date());
+        this.linkInDirectory(parent, block);
+        this.updateChecksum(block);
+        return block;
+    }
+
+    /**
+     * Links an entry in the hash chain of a directory, the chains are sorted by block number
+     */
+    private linkInDirectory(parent: number, block: number): void {
+        const hashOffset = ADFDisk.OFFSET_HASH_TABLE + ADFDisk.hashName(this.readName(block, ADFDisk.OFFSET_NAME), this.isIntl()) * 4;
+        let next = this.readLong(parent, hashOffset);
+        if (next === 0 || next > block) {
+            this.writeLong(block, ADFDisk.OFFSET_HASH_CHAIN, next);
+            this.writeLong(parent, hashOffset, block);
+        } else {
+            let previous = next;
+            next = this.readLong(previous, ADFDisk.OFFSET_HASH_CHAIN);
+            while (next !== 0 && next < block) {
+                previous = next;
+                next = this.readLong(previous, ADFDisk.OFFSET_HASH_CHAIN);
+            }
+            this.writeLong(block, ADFDisk.OFFSET_HASH_CHAIN, next);
+            this.writeLong(previous, ADFDisk.OFFSET_HASH_CHAIN, block);
+            this.updateChecksum(previous);
+        }
+    }
+
+    /**
+     * Removes an entry from the hash chain of a directory
+     */
+    private unlinkFromDirectory(parent: number, block: number): void {
+        const hashOffset = ADFDisk.OFFSET_HASH_TABLE + ADFDisk.hashName(this.readName(block, ADFDisk.OFFSET_NAME), this.isIntl()) * 4;
+        const next = this.readLong(block, ADFDisk.OFFSET_HASH_CHAIN);
+        let current = this.readLong(parent, hashOffset);
+        if (current === block) {
+            this.writeLong(parent, hashOffset, next);
+        } else {
+            while (current !== 0) {
+                const following = this.readLong(current, ADFDisk.OFFSET_HASH_CHAIN);
+                if (following === block) {
+                    this.writeLong(current, ADFDisk.OFFSET_HASH_CHAIN, next);
+                    this.updateChecksum(current);
+                    break;
+                }
+                current = following;
+            }
+        }
+    }
+
+    /**
+     * Removes a file or an empty directory and releases its blocks
+     */
+    private removeEntry(parent: number, block: number): void {
+        if (this.readSecType(block) === ADFDisk.ST_FILE) {
+            for (const b of this.getDataBlocks(block).concat(this.getExtensionBlocks(block))) {
+                this.setBlockFree(b, true);
+            }
+        } else {
+            if (this.getDirectoryBlocks(block).length > 0) {
+                throw new Error(`Directory '${this.readName(block, ADFDisk.OFFSET_NAME)}' not empty`);
+            }
+            if (this.hasDirCache()) {
+                this.freeDirCache(block);
+            }
+        }
+        this.unlinkFromDirectory(parent, block);
+        this.setBlockFree(block, true);
+    }
+
+    /**
+     * Updates a parent directory after a change of its entries
+     */
+    private updateParent(parent: number): void {
+        const now = new Date();
+        this.writeDate(parent, ADFDisk.OFFSET_DATE, now);
+        if (parent === this.rootBlock) {
+            this.writeDate(parent, ADFDisk.OFFSET_VOLUME_DATE, now);
+        }
+        if (this.hasDirCache()) {
+            this.rebuildDirCache(parent);
+        }
+        this.updateChecksum(parent);
+    }
+
+    private freeDirCache(dirBlock: number): void {
+        let cacheBlock = this.readLong(dirBlock, ADFDisk.OFFSET_EXTENSION);
+        while (cacheBlock !== 0) {
+            this.setBlockFree(cacheBlock, true);
+            cacheBlock = this.readLong(cacheBlock, ADFDisk.OFFSET_DIRC_NEXT);
+        }
+        this.writeLong(dirBlock, ADFDisk.OFFSET_EXTENSION, 0);
+    }
+
+    /**
+     * Rewrites the directory cache blocks of a directory.
+     * The checksum of the directory block must be updated by the caller.
+     */
+    private rebuildDirCache(dirBlock: number): void {
+        this.freeDirCache(dirBlock);
+        const records = this.getDirectoryBlocks(dirBlock).map(b => this.createDirCacheRecord(b));
+        const capacity = ADFDisk.BLOCK_SIZE - ADFDisk.OFFSET_DIRC_DATA;
+        let cacheBlock = this.allocateDirCacheBlock(dirBlock);
+        this.writeLong(dirBlock, ADFDisk.OFFSET_EXTENSION, cacheBlock);
+        let used = 0;
+        let count = 0;
+        for (const record of records) {
+            if (used + record.length > capacity) {
+                this.writeLong(cacheBlock, ADFDisk.OFFSET_DIRC_RECORDS, count);
+                const next = this.allocateDirCacheBlock(dirBlock);
+                this.writeLong(cacheBlock, ADFDisk.OFFSET_DIRC_NEXT, next);
+                this.updateChecksum(cacheBlock);
+                cacheBlock = next;
+                used = 0;
+                count = 0;
+            }
+            record.copy(this.data, cacheBlock * ADFDisk.BLOCK_SIZE + ADFDisk.OFFSET_DIRC_DATA + used);
+            used += record.length;
+            count++;
+        }
+        this.writeLong(cacheBlock, ADFDisk.OFFSET_DIRC_RECORDS, count);
+        this.updateChecksum(cacheBlock);
+    }
+
+    private allocateDirCacheBlock(dirBlock: number): number {
+        const cacheBlock = this.allocateBlock();
+        this.writeLong(cacheBlock, ADFDisk.OFFSET_TYPE, ADFDisk.T_DIRC);
+        this.writeLong(cacheBlock, ADFDisk.OFFSET_HEADER_KEY, cacheBlock);
+        this.writeLong(cacheBlock, ADFDisk.OFFSET_DIRC_PARENT, dirBlock);
+        return cacheBlock;
+    }
+
+    private createDirCacheRecord(block: number): Buffer {
+        const entry = this.readEntry(block);
+        const name = Buffer.from(entry.name, "latin1");
+        const comment = Buffer.from(entry.comment, "latin1");
+        // header, size, protection, uid/gid, date, type, name, comment, padded to a word
+        let length = 25 + name.length + comment.length;
+        length += length % 2;
+        const record = Buffer.alloc(length);
+        record.writeUInt32BE(block, 0);
+        record.writeUInt32BE(entry.size, 4);
+        record.writeUInt32BE(entry.protection, 8);
+        record.writeUInt16BE(this.readLong(block, ADFDisk.OFFSET_DATE) & 0xffff, 16);
+        record.writeUInt16BE(this.readLong(block, ADFDisk.OFFSET_DATE + 4) & 0xffff, 18);
+        record.writeUInt16BE(this.readLong(block, ADFDisk.OFFSET_DATE + 8) & 0xffff, 20);
+        record.writeInt8(this.readSecType(block), 22);
+        record.writeUInt8(name.length, 23);
+        name.copy(record, 24);
+        record.writeUInt8(comment.length, 24 + name.length);
+        comment.copy(record, 25 + name.length);
+        return record;
+    }
+}
@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ADFDisk, ADFEntry, ADFEntryType } from './adfDisk';
+import { FileProxy } from './fsProxy';
+
+/**
+ * File system provider to browse the contents of the ADF files.
+ *
+ * The uri of an entry is adf://<hex encoded uri of the ADF file>/<path in the disk>.
+ * The authority is hex encoded because it is lower cased by vscode.
+ */
+export class ADFFileSystemProvider implements vscode.FileSystemProvider {
+    public static readonly SCHEME = 'adf';
+    private emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    public readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this.emitter.event;
+
+    /**
+     * Registers the provider
+     */
+    public static register(): vscode.Disposable {
+        return vscode.workspace.registerFileSystemProvider(ADFFileSystemProvider.SCHEME, new ADFFileSystemProvider(), { isCaseSensitive: false });
+    }
+
+    /**
+     * Creates the uri of an entry in an ADF file
+     * @param adfFileUri Uri of the ADF file
+     * @param entryPath Path in the disk
+     */
+    public static toAdfUri(adfFileUri: vscode.Uri, entryPath = "/"): vscode.Uri {
+        const authority = Buffer.from(adfFileUri.toString(), "utf8").toString("hex");
+        return vscode.Uri.from({
+            scheme: ADFFileSystemProvider.SCHEME,
+            authority: authority,
+            path: path.posix.join("/", entryPath)
+        });
+    }
+
+    /**
+     * Retrieves the ADF file of an entry uri
+     * @param uri Uri in the adf scheme
+     */
+    public static getAdfFileUri(uri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.parse(Buffer.from(uri.authority, "hex").toString("utf8"));
+    }
+
+    /**
+     * Adds an ADF file to the workspace folders
+     * @param adfFileUri Uri of the ADF file
+     */
+    public static mount(adfFileUri: vscode.Uri): boolean {
+        const uri = ADFFileSystemProvider.toAdfUri(adfFileUri);
+        const folders = vscode.workspace.workspaceFolders;
+        if (folders && folders.find(f => f.uri.toString() === uri.toString())) {
+            return true;
+        }
+        const start = folders ? folders.length : 0;
+        return vscode.workspace.updateWorkspaceFolders(start, 0, { uri: uri, name: `ADF: ${path.basename(adfFileUri.fsPath)}` });
+    }
+
+    public watch(): vscode.Disposable {
+        // The changes are only notified for the modifications done by this provider
+        return new vscode.Disposable(() => { /* nothing to dispose */ });
+    }
+
+    public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const disk = await this.readDisk(uri);
+        if (this.isRoot(uri)) {
+            const entries = disk.readDir("/");
+            const mtime = entries.reduce((t, e) => Math.max(t, e.date.getTime()), 0);
+            return <vscode.FileStat>{
+                type: vscode.FileType.Directory,
+                ctime: 0,
+                mtime: mtime,
+                size: 0
+            };
+        }
+        return this.toFileStat(this.getEntry(disk, uri));
+    }
+
+    public async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const disk = await this.readDisk(uri);
+        if (!this.isRoot(uri) && this.getEntry(disk, uri).type !== ADFEntryType.DIRECTORY) {
+            throw vscode.FileSystemError.FileNotADirectory(uri);
+        }
+        return disk.readDir(uri.path).map(e => [e.name, this.toFileType(e)]);
+    }
+
+    public async createDirectory(uri: vscode.Uri): Promise<void> {
+        const disk = await this.readDisk(uri);
+        this.checkParent(disk, uri);
+        if (disk.getEntry(uri.path)) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+        this.applyChange(() => disk.mkdir(uri.path));
+        await this.writeDisk(uri, disk);
+        this.fireChanges([{ type: vscode.FileChangeType.Created, uri: uri }, { type: vscode.FileChangeType.Changed, uri: this.getParentUri(uri) }]);
+    }
+
+    public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const disk = await this.readDisk(uri);
+        const entry = this.getEntry(disk, uri);
+        if (entry.type === ADFEntryType.DIRECTORY) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
+        return disk.readFile(uri.path);
+    }
+
+    public async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean, overwrite: boolean }): Promise<void> {
+        const disk = await this.readDisk(uri);
+        this.checkParent(disk, uri);
+        const entry = disk.getEntry(uri.path);
+        if (entry) {
+            if (entry.type === ADFEntryType.DIRECTORY) {
+                throw vscode.FileSystemError.FileIsADirectory(uri);
+            }
+            if (options.create && !options.overwrite) {
+                throw vscode.FileSystemError.FileExists(uri);
+            }
+        } else if (!options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        this.applyChange(() => disk.writeFile(uri.path, Buffer.from(content)));
+        await this.writeDisk(uri, disk);
+        if (entry) {
+            this.fireChanges([{ type: vscode.FileChangeType.Changed, uri: uri }]);
+        } else {
+            this.fireChanges([{ type: vscode.FileChangeType.Created, uri: uri }, { type: vscode.FileChangeType.Changed, uri: this.getParentUri(uri) }]);
+        }
+    }
+
+    public async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        const disk = await this.readDisk(uri);
+        if (this.isRoot(uri)) {
+            throw vscode.FileSystemError.NoPermissions(uri);
+        }
+        const entry = this.getEntry(disk, uri);
+        if (entry.type === ADFEntryType.DIRECTORY && !options.recursive && disk.readDir(uri.path).length > 0) {
+            throw vscode.FileSystemError.NoPermissions(`Directory '${uri.path}' not empty`);
+        }
+        this.applyChange(() => this.deleteRecursive(disk, uri.path));
+        await this.writeDisk(uri, disk);
+        this.fireChanges([{ type: vscode.FileChangeType.Deleted, uri: uri }, { type: vscode.FileChangeType.Changed, uri: this.getParentUri(uri) }]);
+    }
+
+    public async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        if (oldUri.authority !== newUri.authority) {
+            throw vscode.FileSystemError.NoPermissions("Moving files between ADF files is not supported");
+        }
+        const disk = await this.readDisk(oldUri);
+        const entry = this.getEntry(disk, oldUri);
+        this.checkParent(disk, newUri);
+        const existing = disk.getEntry(newUri.path);
+        if (existing && existing.block !== entry.block) {
+            if (!options.overwrite) {
+                throw vscode.FileSystemError.FileExists(newUri);
+            }
+            this.applyChange(() => this.deleteRecursive(disk, newUri.path));
+        }
+        this.applyChange(() => disk.rename(oldUri.path, newUri.path));
+        await this.writeDisk(oldUri, disk);
+        this.fireChanges([{ type: vscode.FileChangeType.Deleted, uri: oldUri }, { type: vscode.FileChangeType.Created, uri: newUri }]);
+    }
+
+    private deleteRecursive(disk: ADFDisk, entryPath: string): void {
+        const entry = disk.getEntry(entryPath);
+        if (entry && entry.type === ADFEntryType.DIRECTORY) {
+            for (const child of disk.readDir(entryPath)) {
+                this.deleteRecursive(disk, path.posix.join(entryPath, child.name));
+            }
+        }
+        disk.delete(entryPath);
+    }
+
+    /**
+     * Runs a modification of the disk, the errors are converted to file system errors
+     * @param change Modification
+     */
+    private applyChange<T>(change: () => T): T {
+        try {
+            return change();
+        } catch (err) {
+            throw vscode.FileSystemError.NoPermissions(err.message);
+        }
+    }
+
+    private async readDisk(uri: vscode.Uri): Promise<ADFDisk> {
+        const fileProxy = new FileProxy(ADFFileSystemProvider.getAdfFileUri(uri));
+        if (!await fileProxy.exists()) {
+            throw vscode.FileSystemError.Unavailable(uri);
+        }
+        const contents = Buffer.from(await fileProxy.readFile());
+        try {
+            return new ADFDisk(contents);
+        } catch (err) {
+            throw vscode.FileSystemError.Unavailable(err.message);
+        }
+    }
+
+    private async writeDisk(uri: vscode.Uri, disk: ADFDisk): Promise<void> {
+        const fileProxy = new FileProxy(ADFFileSystemProvider.getAdfFileUri(uri));
+        await fileProxy.writeFile(disk.getBuffer());
+    }
+
+    private isRoot(uri: vscode.Uri): boolean {
+        return uri.path.split('/').filter(p => p.length > 0).length === 0;
+    }
+
+    private getEntry(disk: ADFDisk, uri: vscode.Uri): ADFEntry {
+        const entry = disk.getEntry(uri.path);
+        if (!entry) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return entry;
+    }
+
+    private getParentUri(uri: vscode.Uri): vscode.Uri {
+        return uri.with({ path: path.posix.dirname(uri.path) });
+    }
+
+    private checkParent(disk: ADFDisk, uri: vscode.Uri): void {
+        const parentUri = this.getParentUri(uri);
+        if (!this.isRoot(parentUri)) {
+            const parent = disk.getEntry(parentUri.path);
+            if (!parent) {
+                throw vscode.FileSystemError.FileNotFound(parentUri);
+            } else if (parent.type !== ADFEntryType.DIRECTORY) {
+                throw vscode.FileSystemError.FileNotADirectory(parentUri);
+            }
+        }
+    }
+
+    private toFileType(entry: ADFEntry): vscode.FileType {
+        return (entry.type === ADFEntryType.DIRECTORY) ? vscode.FileType.Directory : vscode.FileType.File;
+    }
+
+    private toFileStat(entry: ADFEntry): vscode.FileStat {
+        return <vscode.FileStat>{
+            type: this.toFileType(entry),
+            ctime: entry.date.getTime(),
+            mtime: entry.date.getTime(),
+            size: entry.size
+        };
+    }
+
+    private fireChanges(events: vscode.FileChangeEvent[]): void {
+        this.emitter.fire(events);
+    }
+}
@@ -3,6 +3,20 @@ import { FileProxy } from './fsProxy';
 import { Uri } from 'vscode';
 
 const DEBUG_LINE = 0x4c494e45;
+// SAS/C compressed line numbers
+const DEBUG_HCLN = 0x48434c4e;
+// a.out magic number starting the stabs debug blocks emitted by gcc/vlink
+const DEBUG_STABS_MAGIC = 0x10b;
+// Stab types used to retrieve the source lines
+const N_FUN = 0x24;
+const N_SLINE = 0x44;
+const N_SO = 0x64;
+const N_SOL = 0x84;
+// External definitions types lower than this value, references above
+const EXT_REF_FIRST = 129;
+const EXT_COMMON = 130;
+// Size of a stab entry: strx(4), type(1), other(1), desc(2), value(4)
+const STAB_ENTRY_SIZE = 12;
 
 export enum HunkType {
     HEADER = 1011, // 0x3f3
@@ -12,9 +26,15 @@ export enum HunkType {
     DATA = 1002,
     BSS = 1003,
     RELOC32 = 1004,
+    EXT = 1007,
     DEBUG = 1009,
     SYMBOL = 1008,
     END = 1010,
+    OVERLAY = 1013,
+    BREAK = 1014,
+    DREL32 = 1015, // data relative relocations in objects, used as RELOC32SHORT in executables
+    RELOC32SHORT = 1020,
+    RELRELOC32 = 1021,
 }
 
 export interface RelocInfo32 {
@@ -38,6 +58,13 @@ export interface SourceFile {
     lines: Array<SourceLine>;
 }
 
+/** Debug block with an unsupported tag (ex: SAS/C ODEF symbol definitions) */
+export interface DebugBlock {
+    tag: string;
+    baseOffset: number;
+    data: Uint8Array;
+}
+
 export interface Hunk {
     index: number;
     fileOffset: number;
@@ -48,9 +75,13 @@ export interface Hunk {
     dataOffset: number;
     codeData?: Uint32Array;
     reloc32?: Array<RelocInfo32>;
+    relReloc32?: Array<RelocInfo32>;
+    /** Relocations relative to the small data base of an object file */
+    drel32?: Array<RelocInfo32>;
     // eslint-disable-next-line @typescript-eslint/ban-types
     symbols?: Array<Symbol>;
     lineDebugInfo?: Array<SourceFile>;
+    debugBlocks?: Array<DebugBlock>;
     segmentsId?: number;
     segmentsAddress?: number;
 }
@@ -104,17 +135,33 @@ export class HunkParser {
         // BSS contains the The number of long words of zeroed memory to allocate
         hunk.hunkType = HunkType.BSS;
         hunk.dataSize = size;
+        this.fill_object_sizes(hunk, size);
         return fileOffset + 4;
     }
 
+    /**
+     * Object files have no header table: the memory type and size come from the block
+     */
+    protected fill_object_sizes(hunk: Hunk, sizeType: number): void {
+        const [size, memType] = this.get_size_type(sizeType);
+        if (hunk.memType === undefined) {
+            hunk.memType = memType;
+        }
+        if (hunk.allocSize === undefined) {
+            hunk.allocSize = size;
+        }
+    }
+
     public parse_code_or_data(hunkType: HunkType, hunk: Hunk, fileData: DataView, fileOffset: number): number {
-        const [size,] = this.get_size_type(fileData.getUint32(fileOffset, false));
+        const sizeType = fileData.getUint32(fileOffset, false);
+        const [size,] = this.get_size_type(sizeType);
         const codeData = new Uint32Array(size / 4);
         let pos = fileOffset + 4;
 
         hunk.dataSize = size;
         hunk.dataOffset = pos;
         hunk.hunkType = hunkType;
+        this.fill_object_sizes(hunk, sizeType);
 
         for (let i = 0; i < (size / 4); i += 1) {
             codeData[i] = fileData.getInt32(pos, false);
@@ -178,6 +225,43 @@ export class HunkParser {
         }
         return pos;
     }
+    protected parse_ext(hunk: Hunk, fileData: DataView, fileOffset: number): number {
+        // eslint-disable-next-line @typescript-eslint/ban-types
+        const symbols = hunk.symbols ? hunk.symbols : new Array<Symbol>();
+        let pos = fileOffset;
+        let typeLength = fileData.getUint32(pos, false);
+        pos += 4;
+        while (typeLength !== 0) {
+            const extType = typeLength >>> 24;
+            const num_longs = typeLength & 0xffffff;
+            const name = this.read_name_size(fileData, pos, num_longs);
+            pos += num_longs * 4;
+            if (extType < EXT_REF_FIRST) {
+                // definition
+                // eslint-disable-next-line @typescript-eslint/ban-types
+                symbols.push(<Symbol>{
+                    name: name,
+                    offset: fileData.getUint32(pos, false),
+                });
+                pos += 4;
+            } else {
+                // reference: offsets of the code using the symbol
+                if (extType === EXT_COMMON) {
+                    pos += 4;
+                }
+                const count = fileData.getUint32(pos, false);
+                pos += 4 + count * 4;
+            }
+            typeLength = fileData.getUint32(pos, false);
+            pos += 4;
+        }
+        if (symbols.length > 0) {
+            symbols.sort(function (a, b) { return (a.offset > b.offset) ? 1 : ((b.offset > a.offset) ? -1 : 0); });
+            hunk.symbols = symbols;
+        }
+        return pos;
+    }
+
     protected fill_debug_info(baseOffset: number, num_longs: number, fileData: DataView, fileOffset: number): SourceFile {
         let pos = fileOffset;
         const num_name_longs = fileData.getUint32(pos, false);
@@ -205,30 +289,206 @@ export class HunkParser {
         };
     }
 
-    protected parse_debug(hunk: Hunk, fileData: DataView, fileOffset: number): number {
+    /**
+     * Reads the SAS/C compressed line numbers (HCLN): the name of the source, the count of lines
+     * and for each line the deltas of the line number and of the offset. A delta is a byte,
+     * a null byte is followed by a word and a null word by a long.
+     */
+    protected fill_compressed_debug_info(baseOffset: number, fileData: DataView, fileOffset: number): SourceFile {
         let pos = fileOffset;
-        const num_longs = fileData.getUint32(pos, false) - 2; // skip base offset and tag
-        pos += 4;
-        const baseOffset = fileData.getUint32(pos, false);
+        const num_name_longs = fileData.getUint32(pos, false);
         pos += 4;
-        const debug_tag = fileData.getUint32(pos, false);
+        const name = this.read_name_size(fileData, pos, num_name_longs);
+        pos += num_name_longs * 4;
+        const num_lines = fileData.getUint32(pos, false);
         pos += 4;
+        const readDelta = (): number => {
+            let value = fileData.getUint8(pos++);
+            if (value === 0) {
+                value = fileData.getUint16(pos, false);
+                pos += 2;
+                if (value === 0) {
+                    value = fileData.getUint32(pos, false);
+                    pos += 4;
+                }
+            }
+            return value;
+        };
+        const lines = new Array<SourceLine>();
+        let line_no = 0;
+        let offset = baseOffset;
+        for (let i = 0; i < num_lines; i++) {
+            line_no += readDelta();
+            offset += readDelta();
+            lines.push(<SourceLine>{
+                line: line_no,
+                offset: offset,
+            });
+        }
+        return <SourceFile>{
+            name: name,
+            baseOffset: baseOffset,
+            lines: lines,
+        };
+    }
+
+    protected get_debug_info(hunk: Hunk): Array<SourceFile> {
+        let debug_info = hunk.lineDebugInfo;
+        if (!debug_info) {
+            debug_info = new Array<SourceFile>();
+            hunk.lineDebugInfo = debug_info;
+        }
+        return debug_info;
+    }
 
-        // We only support debug line as debug format currently so skip if not found
-        if (debug_tag === DEBUG_LINE) {
-            let debug_info = hunk.lineDebugInfo;
-            if (!debug_info) {
-                debug_info = new Array<SourceFile>();
-                hunk.lineDebugInfo = debug_info;
+    protected read_tag(value: number): string | null {
+        const chars = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+        for (const c of chars) {
+            if (c < 0x20 || c > 0x7e) {
+                return null;
             }
-            const source_file = this.fill_debug_info(baseOffset, num_longs, fileData, pos);
-            debug_info.push(source_file);
         }
-        return pos + num_longs * 4;
+        return String.fromCharCode(...chars);
     }
 
+    protected read_c_string(fileData: DataView, fileOffset: number, endOffset: number): string {
+        const chars = new Array<number>();
+        let pos = fileOffset;
+        while (pos < endOffset) {
+            const v = fileData.getUint8(pos++);
+            if (v === 0) {
+                break;
+            }
+            chars.push(v);
+        }
+        return String.fromCharCode(...chars);
+    }
+
+    protected parse_debug(hunk: Hunk, fileData: DataView, fileOffset: number): number {
+        let pos = fileOffset;
+        const total_longs = fileData.getUint32(pos, false);
+        pos += 4;
+        const end = pos + total_longs * 4;
+        const first = fileData.getUint32(pos, false);
+        const debug_tag = fileData.getUint32(pos + 4, false);
+        const tag = this.read_tag(debug_tag);
+        if ((first === DEBUG_STABS_MAGIC) && (tag === null)) {
+            // stabs format emitted by gcc
+            this.parse_stabs(hunk, fileData, pos + 4, end);
+        } else if (debug_tag === DEBUG_LINE) {
+            const num_longs = total_longs - 2; // skip base offset and tag
+            const source_file = this.fill_debug_info(first, num_longs, fileData, pos + 8);
+            this.get_debug_info(hunk).push(source_file);
+        } else if (debug_tag === DEBUG_HCLN) {
+            this.get_debug_info(hunk).push(this.fill_compressed_debug_info(first, fileData, pos + 8));
+        } else if (tag !== null) {
+            // Other tagged blocks (SAS/C ODEF, OPTS...) are kept as is
+            let debugBlocks = hunk.debugBlocks;
+            if (!debugBlocks) {
+                debugBlocks = new Array<DebugBlock>();
+                hunk.debugBlocks = debugBlocks;
+            }
+            debugBlocks.push(<DebugBlock>{
+                tag: tag,
+                baseOffset: first,
+                data: new Uint8Array(fileData.buffer.slice(pos + 8, end)),
+            });
+        }
+        return end;
+    }
+
+    protected parse_stabs(hunk: Hunk, fileData: DataView, fileOffset: number, endOffset: number): void {
+        let pos = fileOffset;
+        const symtab_size = fileData.getUint32(pos, false);
+        pos += 4;
+        const symtab_offset = pos;
+        // The string table starts with its size, the string indexes start at this size
+        const strtab_offset = symtab_offset + symtab_size;
+        const files = new Map<string, SourceFile>();
+        let directory = "";
+        let current: SourceFile | undefined;
+        // eslint-disable-next-line @typescript-eslint/ban-types
+        const functions = new Array<Symbol>();
+        for (pos = symtab_offset; pos + STAB_ENTRY_SIZE <= strtab_offset; pos += STAB_ENTRY_SIZE) {
+            const strx = fileData.getUint32(pos, false);
+            const stab_type = fileData.getUint8(pos + 4);
+            const desc = fileData.getUint16(pos + 6, false);
+            const value = fileData.getUint32(pos + 8, false);
+            let name = "";
+            if (strx > 0 && strtab_offset + strx < endOffset) {
+                name = this.read_c_string(fileData, strtab_offset + strx, endOffset);
+            }
+            switch (stab_type) {
+                case N_SO:
+                case N_SOL:
+                    if (name.length === 0) {
+                        // end of the compilation unit
+                        directory = "";
+                        current = undefined;
+                    } else if ((stab_type === N_SO) && (name.endsWith("/") || name.endsWith("\\"))) {
+                        directory = name;
+                    } else {
+                        const isAbsolute = name.startsWith("/") || name.startsWith("\\") || /^[a-z]:/i.test(name);
+                        const fileName = isAbsolute ? name : directory + name;
+                        current = files.get(fileName);
+                        if (!current) {
+                            current = <SourceFile>{
+                                name: fileName,
+                                baseOffset: 0,
+                                lines: new Array<SourceLine>(),
+                            };
+                            files.set(fileName, current);
+                        }
+                    }
+                    break;
+                case N_SLINE:
+                    if (current) {
+                        current.lines.push(<SourceLine>{
+                            line: desc,
+                            offset: value,
+                        });
+                    }
+                    break;
+                case N_FUN:
+                    if (name.length > 0) {
+                        // eslint-disable-next-line @typescript-eslint/ban-types
+                        functions.push(<Symbol>{
+                            name: name.split(":")[0],
+                            offset: value,
+                        });
+                    }
+                    break;
+                default:
+                    break;
+            }
+        }
+        const debug_info = this.get_debug_info(hunk);
+        for (const sourceFile of files.values()) {
+            if (sourceFile.lines.length > 0) {
+                debug_info.push(sourceFile);
+            }
+        }
+        // Functions are added to the symbols if there is no HUNK_SYMBOL for them
+        if (functions.length > 0) {
+            // eslint-disable-next-line @typescript-eslint/ban-types
+            const symbols = hunk.symbols ? hunk.symbols : new Array<Symbol>();
+            for (const f of functions) {
+                if (!symbols.find(s => s.name === f.name)) {
+                    symbols.push(f);
+                }
+            }
+            symbols.sort(function (a, b) { return (a.offset > b.offset) ? 1 : ((b.offset > a.offset) ? -1 : 0); });
+            hunk.symbols = symbols;
+        }
+    }
 
     protected parse_reloc32(hunk: Hunk, fileData: DataView, fileOffset: number): number {
+        const [relocs, pos] = this.read_reloc32(fileData, fileOffset);
+        hunk.reloc32 = relocs;
+        return pos;
+    }
+
+    protected read_reloc32(fileData: DataView, fileOffset: number): [Array<RelocInfo32>, number] {
         const relocs = new Array<RelocInfo32>();
         let pos = fileOffset;
         let count = fileData.getUint32(pos, false);
@@ -248,11 +508,51 @@ export class HunkParser {
             count = fileData.getUint32(pos, false);
             pos += 4;
         }
-        hunk.reloc32 = relocs;
-        return pos;
+        return [relocs, pos];
     }
 
-    public fill_hunk(hunk: Hunk, fileData: DataView, fileOffset: number): number {
+    protected parse_reloc32short(fileData: DataView, fileOffset: number): [Array<RelocInfo32>, number] {
+        const relocs = new Array<RelocInfo32>();
+        let pos = fileOffset;
+        let count = fileData.getUint16(pos, false);
+        pos += 2;
+        while (count > 0) {
+            const target = fileData.getUint16(pos, false);
+            pos += 2;
+            const reloc = <RelocInfo32>{
+                target: target,
+                offsets: Array<number>(),
+            };
+            for (let i = 0; i < count; i++) {
+                reloc.offsets.push(fileData.getUint16(pos, false));
+                pos += 2;
+            }
+            relocs.push(reloc);
+            count = fileData.getUint16(pos, false);
+            pos += 2;
+        }
+        // Padding to a long word
+        if ((pos - fileOffset) % 4 !== 0) {
+            pos += 2;
+        }
+        return [relocs, pos];
+    }
+
+    protected skip_overlay(fileData: DataView, fileOffset: number): number {
+        // The overlay table size does not count the first long of the table
+        const table_size = fileData.getUint32(fileOffset, false);
+        return fileOffset + (table_size + 2) * 4;
+    }
+
+    /**
+     * Reads the blocks of a hunk until its end
+     * @param hunk Hunk to fill
+     * @param fileData Data of the file
+     * @param fileOffset Offset of the first block
+     * @param isObjectFile True in an object file: the DREL32 blocks are data relative relocations
+     * @return Offset after the end of the hunk
+     */
+    public fill_hunk(hunk: Hunk, fileData: DataView, fileOffset: number, isObjectFile = false): number {
         let pos = fileOffset;
         let hunkType = fileData.getUint32(pos, false);
         pos += 4;
@@ -278,6 +578,35 @@ export class HunkParser {
                     winston.info(`Block RELOC32 offset $${pos.toString(16)}`);
                     pos = this.parse_reloc32(hunk, fileData, pos);
                     break;
+                case HunkType.RELOC32SHORT:
+                case HunkType.DREL32: {
+                    winston.info(`Block ${HunkType[hunkType]} offset $${pos.toString(16)}`);
+                    let relocs: Array<RelocInfo32>;
+                    if (isObjectFile && (hunkType === HunkType.DREL32)) {
+                        // 32 bits data relative relocations
+                        [relocs, pos] = this.read_reloc32(fileData, pos);
+                        hunk.drel32 = (hunk.drel32 ? hunk.drel32 : new Array<RelocInfo32>()).concat(relocs);
+                    } else {
+                        // Used as RELOC32SHORT in the executables
+                        [relocs, pos] = this.parse_reloc32short(fileData, pos);
+                        hunk.reloc32 = (hunk.reloc32 ? hunk.reloc32 : new Array<RelocInfo32>()).concat(relocs);
+                    }
+                    break;
+                }
+                case HunkType.RELRELOC32: {
+                    winston.info(`Block RELRELOC32 offset $${pos.toString(16)}`);
+                    let relocs: Array<RelocInfo32>;
+                    [relocs, pos] = this.parse_reloc32short(fileData, pos);
+                    hunk.relReloc32 = (hunk.relReloc32 ? hunk.relReloc32 : new Array<RelocInfo32>()).concat(relocs);
+                    break;
+                }
+                case HunkType.OVERLAY:
+                    winston.info(`Block OVERLAY offset $${pos.toString(16)}`);
+                    pos = this.skip_overlay(fileData, pos);
+                    break;
+                case HunkType.BREAK:
+                    winston.info(`Block BREAK offset $${pos.toString(16)}`);
+                    break;
                 case HunkType.SYMBOL:
                     winston.info(`Block SYMBOL offset $${pos.toString(16)}`);
                     pos = this.parse_symbols(hunk, fileData, pos);
@@ -288,6 +617,11 @@ export class HunkParser {
                     break;
                 case HunkType.NAME:
                     winston.info(`Block NAME offset $${pos.toString(16)}`);
+                    pos = this.skip_hunk(fileData, pos);
+                    break;
+                case HunkType.EXT:
+                    winston.info(`Block EXT offset $${pos.toString(16)}`);
+                    pos = this.parse_ext(hunk, fileData, pos);
                     break;
                 case HunkType.END:
                     winston.info(`Block END offset $${pos.toString(16)}`);
@@ -325,6 +659,21 @@ export class HunkParser {
                 winston.info(`    > reloc[${reloc.target}] : ${s}`);
             }
         }
+        if (hunk.relReloc32) {
+            for (const reloc of hunk.relReloc32) {
+                const offsets = Array<string>();
+                for (const relocOffset of reloc.offsets) {
+                    offsets.push(`$${relocOffset.toString(16)}`);
+                }
+                const s = offsets.join(',');
+                winston.info(`    > relReloc[${reloc.target}] : ${s}`);
+            }
+        }
+        if (hunk.drel32) {
+            for (const reloc of hunk.drel32) {
+                winston.info(`    > drel32[${reloc.target}] : ${reloc.offsets.map(o => `$${o.toString(16)}`).join(',')}`);
+            }
+        }
         if (hunk.symbols) {
             for (const symbol of hunk.symbols) {
                 winston.info(`    > symbol[${symbol.name}] : $${symbol.offset.toString(16)}`);
@@ -335,6 +684,11 @@ export class HunkParser {
                 winston.info(`    > lineDebugInfo : ${sourceFile.name}`);
             }
         }
+        if (hunk.debugBlocks) {
+            for (const debugBlock of hunk.debugBlocks) {
+                winston.info(`    > debugBlock[${debugBlock.tag}] : ${debugBlock.data.length} bytes`);
+            }
+        }
     }
 
     public parse_file(contents: Buffer): Array<Hunk> {
@@ -342,6 +696,9 @@ export class HunkParser {
         const fileData = new DataView(this.toArrayBuffer(contents)); // Reading in Big Endian
 
         const hunk_header = fileData.getUint32(fileOffset, false);
+        if (hunk_header === HunkType.UNIT) {
+            return this.parse_object_file(fileData);
+        }
         fileOffset += 4;
         if (hunk_header !== HunkType.HEADER) {
             throw new Error("Not a valid hunk file : Unable to find correct HUNK_HEADER");
@@ -392,6 +749,29 @@ export class HunkParser {
         }
     }
 
+    /**
+     * Parses an object file: there is no header, the hunks follow the unit until the end of the file
+     */
+    protected parse_object_file(fileData: DataView): Array<Hunk> {
+        const hunks = new Array<Hunk>();
+        let fileOffset = 0;
+        while (fileOffset < fileData.byteLength - 4) {
+            const hunk = <Hunk>{
+                index: hunks.length,
+                fileOffset: fileOffset,
+            };
+            winston.info(`____ Parsing Hunk index #${hunk.index}`)
+            fileOffset = this.fill_hunk(hunk, fileData, fileOffset, true);
+            if (hunk.hunkType === undefined) {
+                // only unit or name blocks
+                break;
+            }
+            this.logHunk(hunk);
+            hunks.push(hunk);
+        }
+        return hunks;
+    }
+
     public async readFile(fileUri: Uri): Promise<Array<Hunk>> {
         winston.info(`Parsing file "${fileUri.fsPath}"`);
         const fileProxy = new FileProxy(fileUri);
@@ -0,0 +1,306 @@
+import { Uri, window } from 'vscode';
+import * as path from 'path';
+import { FileProxy } from './fsProxy';
+import { FileConverter } from './fileConverter';
+
+/**
+ * Paula clocks of the video standards
+ */
+export enum PaulaClock {
+    PAL = 3546895,
+    NTSC = 3579545
+}
+
+/**
+ * Decoded WAV file, mixed to mono
+ */
+export interface WavSound {
+    sampleRate: number;
+    /** Samples between -1 and 1 */
+    samples: Float32Array;
+}
+
+/**
+ * Conversions between the notes, the frequencies and the Paula periods
+ */
+export class PaulaCalculator {
+    /** Lowest period accepted by Paula with the DMA */
+    public static readonly MIN_PERIOD = 124;
+    /** ProTracker periods of the notes C-1 to B-3 (finetune 0) */
+    private static readonly PROTRACKER_PERIODS = [
+        856, 808, 762, 720, 678, 640, 604, 570, 538, 508, 480, 453,
+        428, 404, 381, 360, 339, 320, 302, 285, 269, 254, 240, 226,
+        214, 202, 190, 180, 170, 160, 151, 143, 135, 127, 120, 113];
+    private static readonly NOTE_NAMES = ["C-", "C#", "D-", "D#", "E-", "F-", "F#", "G-", "G#", "A-", "A#", "B-"];
+
+    /**
+     * Computes the frequency of a period
+     * @param period Paula period
+     * @param clock Paula clock
+     * @return Frequency in Hz
+     */
+    public static periodToFrequency(period: number, clock: PaulaClock = PaulaClock.PAL): number {
+        return clock / period;
+    }
+
+    /**
+     * Computes the period of a frequency
+     * @param frequency Frequency in Hz
+     * @param clock Paula clock
+     * @return Paula period
+     */
+    public static frequencyToPeriod(frequency: number, clock: PaulaClock = PaulaClock.PAL): number {
+        return Math.round(clock / frequency);
+    }
+
+    /**
+     * Parses a note name: C-1 to B-3 in the ProTracker range, the octaves 0 to 5 are computed
+     * @param note Note name (e.g. "C-2", "C#3", "a2")
+     * @return Index of the semitone from C-1, or undefined if it is not a note
+     */
+    public static parseNote(note: string): number | undefined {
+        const match = /^([a-g])([-#]?)(\d)$/i.exec(note.trim());
+        if (match) {
+            const name = `${match[1].toUpperCase()}${(match[2] === "#") ? "#" : "-"}`;
+            const index = PaulaCalculator.NOTE_NAMES.indexOf(name);
+            if (index >= 0) {
+                return (parseInt(match[3]) - 1) * 12 + index;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Computes the period of a note
+     * @param semitone Index of the semitone from C-1
+     * @return Paula period (from the ProTracker table in its range)
+     */
+    public static noteToPeriod(semitone: number): number {
+        if ((semitone >= 0) && (semitone < PaulaCalculator.PROTRACKER_PERIODS.length)) {
+            return PaulaCalculator.PROTRACKER_PERIODS[semitone];
+        }
+        return Math.round(PaulaCalculator.PROTRACKER_PERIODS[0] / Math.pow(2, semitone / 12));
+    }
+
+    /**
+     * Retrieves the nearest note of a period
+     * @param period Paula period
+     * @return Name of the note
+     */
+    public static periodToNote(period: number): string {
+        const semitone = Math.round(12 * Math.log2(PaulaCalculator.PROTRACKER_PERIODS[0] / period));
+        const octave = Math.floor(semitone / 12) + 1;
+        return `${PaulaCalculator.NOTE_NAMES[((semitone % 12) + 12) % 12]}${octave}`;
+    }
+}
+
+/**
+ * Decoder of the WAV files
+ */
+export class WavDecoder {
+    private static readonly FORMAT_PCM = 1;
+    private static readonly FORMAT_FLOAT = 3;
+    private static readonly FORMAT_EXTENSIBLE = 0xfffe;
+
+    /**
+     * Decodes a WAV file and mixes its channels
+     * @param buffer Content of the file
+     * @return The sound
+     */
+    public static decode(buffer: Uint8Array): WavSound {
+        const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+        const readId = (offset: number) => String.fromCharCode(buffer[offset], buffer[offset + 1], buffer[offset + 2], buffer[offset + 3]);
+        if ((buffer.length < 12) || (readId(0) !== "RIFF") || (readId(8) !== "WAVE")) {
+            throw new Error("Not a WAV file");
+        }
+        let format = 0;
+        let channels = 0;
+        let sampleRate = 0;
+        let bitsPerSample = 0;
+        let data: Uint8Array | undefined;
+        let offset = 12;
+        while (offset + 8 <= buffer.length) {
+            const id = readId(offset);
+            const size = view.getUint32(offset + 4, true);
+            if (id === "fmt ") {
+                format = view.getUint16(offset + 8, true);
+                channels = view.getUint16(offset + 10, true);
+                sampleRate = view.getUint32(offset + 12, true);
+                bitsPerSample = view.getUint16(offset + 22, true);
+                if ((format === WavDecoder.FORMAT_EXTENSIBLE) && (size >= 26)) {
+                    // The format is the first field of the sub format GUID
+                    format = view.getUint16(offset + 32, true);
+                }
+            } else if (id === "data") {
+                data = buffer.subarray(offset + 8, Math.min(offset + 8 + size, buffer.length));
+            }
+            // Chunks are padded to an even size
+            offset += 8 + size + (size & 1);
+        }
+        if (!data || (channels === 0)) {
+            throw new Error("Invalid WAV file");
+        }
+        const bytesPerSample = bitsPerSample / 8;
+        let read: (position: number) => number;
+        if ((format === WavDecoder.FORMAT_PCM) && (bitsPerSample === 8)) {
+            read = position => (data ? data[position] - 128 : 0) / 128;
+        } else if ((format === WavDecoder.FORMAT_PCM) && (bitsPerSample === 16)) {
+            read = position => view.getInt16(position, true) / 32768;
+        } else if ((format === WavDecoder.FORMAT_PCM) && (bitsPerSample === 24)) {
+            read = position => ((view.getInt8(position + 2) << 16) | (view.getUint8(position + 1) << 8) | view.getUint8(position)) / 8388608;
+        } else if ((format === WavDecoder.FORMAT_PCM) && (bitsPerSample === 32)) {
+            read = position => view.getInt32(position, true) / 2147483648;
+        } else if ((format === WavDecoder.FORMAT_FLOAT) && (bitsPerSample === 32)) {
+            read = position => view.getFloat32(position, true);
+        } else {
+            throw new Error(`Unsupported WAV format ${format} with ${bitsPerSample} bits per sample`);
+        }
+        const dataOffset = data.byteOffset - buffer.byteOffset;
+        const frameSize = bytesPerSample * channels;
+        const count = Math.floor(data.length / frameSize);
+        const samples = new Float32Array(count);
+        for (let i = 0; i < count; i++) {
+            let sum = 0;
+            for (let c = 0; c < channels; c++) {
+                // 8 bits samples are read in the data array
+                const position = (bitsPerSample === 8) ? (i * frameSize + c) : (dataOffset + i * frameSize + c * bytesPerSample);
+                sum += read(position);
+            }
+            samples[i] = sum / channels;
+        }
+        return { sampleRate: sampleRate, samples: samples };
+    }
+}
+
+/**
+ * Converts the WAV files to Amiga samples
+ */
+export class AudioConverter extends FileConverter {
+    /** Maximum length of a sample played by the DMA: AUDxLEN is a count of words */
+    public static readonly MAX_LENGTH = 0xffff * 2;
+
+    /**
+     * Resamples and converts a sound to signed 8 bits samples.
+     * The length is padded to an even number of bytes.
+     * @param sound Decoded sound
+     * @param frequency Target frequency in Hz
+     * @return Signed 8 bits samples
+     */
+    public static toSamples(sound: WavSound, frequency: number): Int8Array {
+        const ratio = sound.sampleRate / frequency;
+        const count = Math.floor(sound.samples.length / ratio);
+        const output = new Int8Array(count + (count & 1));
+        for (let i = 0; i < count; i++) {
+            // Linear interpolation
+            const position = i * ratio;
+            const index = Math.floor(position);
+            const fraction = position - index;
+            const next = (index + 1 < sound.samples.length) ? sound.samples[index + 1] : sound.samples[index];
+            const value = sound.samples[index] * (1 - fraction) + next * fraction;
+            output[i] = Math.max(-128, Math.min(127, Math.round(value * 128)));
+        }
+        return output;
+    }
+
+    /**
+     * Generates the include file with the sample constants
+     * @param label Label of the sample
+     * @param period Paula period
+     * @param length Length of the sample in bytes
+     * @param binaryFile Path of the samples file, relative to the include file
+     * @return Source code
+     */
+    public static toIncludeSource(label: string, period: number, length: number, binaryFile: string): string {
+        const constantPrefix = label.toUpperCase();
+        return [
+            `${constantPrefix}_PER equ ${period}`,
+            `${constantPrefix}_LEN equ ${length / 2}`,
+            "",
+            "; The samples must be in chip RAM",
+            `${label}:`,
+            `    incbin "${binaryFile}"`,
+            `${label}_end:`,
+            ""].join("\n");
+    }
+
+    /**
+     * Converts a WAV file
+     * @param input WAV file
+     * @param output Samples file
+     * @param include Include file
+     * @param period Paula period of the playback
+     * @param clock Paula clock
+     * @return The length of the sample in bytes
+     */
+    public async convert(input: FileProxy, output: FileProxy, include: FileProxy, period: number, clock: PaulaClock): Promise<number> {
+        if (period < PaulaCalculator.MIN_PERIOD) {
+            throw new Error(`The period must be at least ${PaulaCalculator.MIN_PERIOD}`);
+        }
+        const sound = WavDecoder.decode(await input.readFile());
+        const samples = AudioConverter.toSamples(sound, PaulaCalculator.periodToFrequency(period, clock));
+        if (samples.length > AudioConverter.MAX_LENGTH) {
+            throw new Error(`The sample is too long: ${samples.length} bytes, the maximum is ${AudioConverter.MAX_LENGTH}`);
+        }
+        await this.writeFile(output, Buffer.from(samples.buffer));
+        const label = FileConverter.toLabel(output.getPath());
+        const relativePath = path.relative(path.dirname(include.getPath()), output.getPath()).replace(/\\/g, "/");
+        await this.writeFile(include, Buffer.from(AudioConverter.toIncludeSource(label, period, samples.length, relativePath)));
+        return samples.length;
+    }
+
+    /**
+     * Asks the playback period and converts a WAV file next to it
+     * @param soundUri WAV file, if not set a file is selected
+     */
+    public async showConversionPanel(soundUri?: Uri): Promise<void> {
+        let selectedUri = soundUri;
+        if (!selectedUri) {
+            const selectedFiles = await window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: "Convert",
+                filters: { "WAV sounds": ["wav"] }
+            });
+            if (!selectedFiles || (selectedFiles.length === 0)) {
+                return;
+            }
+            selectedUri = selectedFiles[0];
+        }
+        const clockName = await window.showQuickPick(["PAL", "NTSC"], { placeHolder: "Paula clock" });
+        if (!clockName) {
+            return;
+        }
+        const clock = (clockName === "NTSC") ? PaulaClock.NTSC : PaulaClock.PAL;
+        const periodText = await window.showInputBox({
+            prompt: "Playback period or note (e.g. 428 or C-2)",
+            value: "428",
+            validateInput: (value: string) => (AudioConverter.parsePeriod(value) === undefined) ? "Invalid period or note" : undefined
+        });
+        if (!periodText) {
+            return;
+        }
+        const period = AudioConverter.parsePeriod(periodText);
+        if (period !== undefined) {
+            const inputPath = selectedUri.fsPath;
+            const basePath = path.join(path.dirname(inputPath), path.basename(inputPath, path.extname(inputPath)));
+            const length = await this.convert(new FileProxy(selectedUri), new FileProxy(Uri.file(`${basePath}.raw`)), new FileProxy(Uri.file(`${basePath}.i`)), period, clock);
+            window.showInformationMessage(`${path.basename(inputPath)} converted: ${length} bytes at ${Math.round(PaulaCalculator.periodToFrequency(period, clock))} Hz`);
+        }
+    }
+
+    /**
+     * Parses a period or a note
+     * @param text Period value or note name
+     * @return The period or undefined if it is invalid
+     */
+    public static parsePeriod(text: string): number | undefined {
+        const semitone = PaulaCalculator.parseNote(text);
+        if (semitone !== undefined) {
+            return PaulaCalculator.noteToPeriod(semitone);
+        }
+        const value = parseInt(text.trim());
+        if (!isNaN(value) && (value >= PaulaCalculator.MIN_PERIOD) && (value <= 0xffff)) {
+            return value;
+        }
+        return undefined;
+    }
+}
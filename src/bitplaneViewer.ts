@@ -0,0 +1,392 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DebugProtocol } from 'vscode-debugprotocol/lib/debugProtocol';
+import { CopperTimeline, CopperTimelinePanel, DebugSessionMemoryResolver } from './copperTimeline';
+import { MemoryLabelsRegistry } from './customMemoryAddresses';
+import { FileProxy } from './fsProxy';
+import { StringUtils } from './stringUtils';
+import { WebviewUtils } from './webviewUtils';
+
+/**
+ * Layout of the bitplanes in memory
+ */
+export interface BitplaneLayout {
+    /** Width in pixels */
+    width: number;
+    /** Height in lines */
+    height: number;
+    /** Number of bitplanes */
+    depth: number;
+    /** Bytes skipped at the end of each line of a bitplane (BPLxMOD) */
+    modulo: number;
+    /** The lines of the bitplanes are interleaved: the next plane starts after a line */
+    interleaved: boolean;
+}
+
+/** Palette color: red, green, blue components (0-255) */
+export type BitplaneColor = [number, number, number];
+
+/**
+ * Decodes the planar images
+ */
+export class BitplaneDecoder {
+    /** Maximum size of memory read for an image */
+    public static readonly MAX_MEMORY_SIZE = 0x100000;
+
+    /**
+     * Number of bytes of a line of a bitplane
+     * @param layout Bitplanes layout
+     */
+    public static getBytesPerRow(layout: BitplaneLayout): number {
+        return Math.ceil(layout.width / 16) * 2;
+    }
+
+    /**
+     * Offset between two consecutive bitplanes
+     * @param layout Bitplanes layout
+     */
+    public static getPlaneOffset(layout: BitplaneLayout): number {
+        const bytesPerRow = BitplaneDecoder.getBytesPerRow(layout);
+        if (layout.interleaved) {
+            return bytesPerRow;
+        }
+        return (bytesPerRow + layout.modulo) * layout.height;
+    }
+
+    /**
+     * Size of the memory containing all the bitplanes
+     * @param layout Bitplanes layout
+     */
+    public static getMemorySize(layout: BitplaneLayout): number {
+        const bytesPerRow = BitplaneDecoder.getBytesPerRow(layout);
+        const lastPlane = BitplaneDecoder.getPlaneOffset(layout) * (layout.depth - 1);
+        return lastPlane + (bytesPerRow + layout.modulo) * (layout.height - 1) + bytesPerRow;
+    }
+
+    /**
+     * Checks the layout values
+     * @param layout Bitplanes layout
+     */
+    public static checkLayout(layout: BitplaneLayout): void {
+        if (!(layout.width > 0) || !(layout.height > 0)) {
+            throw new Error("The width and the height must be positive");
+        } else if (!(layout.depth >= 1) || (layout.depth > 8)) {
+            throw new Error("The depth must be between 1 and 8");
+        } else if (isNaN(layout.modulo)) {
+            throw new Error("Invalid modulo");
+        } else if (BitplaneDecoder.getMemorySize(layout) > BitplaneDecoder.MAX_MEMORY_SIZE) {
+            throw new Error(`The image is too big: more than ${BitplaneDecoder.MAX_MEMORY_SIZE} bytes`);
+        }
+    }
+
+    /**
+     * Converts the bitplanes to the color indexes of the pixels
+     * @param memory Memory containing the bitplanes
+     * @param layout Bitplanes layout
+     * @return Color index of each pixel, line by line
+     */
+    public static decode(memory: Uint8Array, layout: BitplaneLayout): Uint8Array {
+        const pixels = new Uint8Array(layout.width * layout.height);
+        const bytesPerRow = BitplaneDecoder.getBytesPerRow(layout);
+        const planeOffset = BitplaneDecoder.getPlaneOffset(layout);
+        for (let plane = 0; plane < layout.depth; plane++) {
+            const bit = 1 << plane;
+            for (let y = 0; y < layout.height; y++) {
+                const rowOffset = plane * planeOffset + y * (bytesPerRow + layout.modulo);
+                for (let x = 0; x < layout.width; x++) {
+                    const byte = memory[rowOffset + (x >> 3)];
+                    if (byte & (0x80 >> (x & 7))) {
+                        pixels[y * layout.width + x] |= bit;
+                    }
+                }
+            }
+        }
+        return pixels;
+    }
+
+    /**
+     * Reads the palette from the color registers values
+     * @param memory Hex string of the COLOR00-COLOR31 registers
+     * @return Palette
+     */
+    public static parseColorRegisters(memory: string): Array<BitplaneColor> {
+        const palette = new Array<BitplaneColor>();
+        for (let i = 0; i + 4 <= memory.length; i += 4) {
+            const value = parseInt(memory.substring(i, i + 4), 16);
+            palette.push([((value >> 8) & 0xf) * 0x11, ((value >> 4) & 0xf) * 0x11, (value & 0xf) * 0x11]);
+        }
+        return palette;
+    }
+
+    /**
+     * Reads the palette from the color registers set by the copper list
+     * @param values Values of the registers by name
+     * @return Palette of 32 colors, black for the colors not set
+     */
+    public static getCopperPalette(values: Map<string, number>): Array<BitplaneColor> {
+        let memory = "";
+        for (let i = 0; i < 32; i++) {
+            const value = values.get(`COLOR${i.toString().padStart(2, "0")}`);
+            memory += ((value !== undefined) ? value : 0).toString(16).padStart(4, "0");
+        }
+        return BitplaneDecoder.parseColorRegisters(memory);
+    }
+
+    /**
+     * Reads the palette of an IFF ILBM file (CMAP chunk)
+     * @param buffer Content of the file
+     * @return Palette
+     */
+    public static parseIffPalette(buffer: Uint8Array): Array<BitplaneColor> {
+        const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+        const readId = (offset: number) => String.fromCharCode(buffer[offset], buffer[offset + 1], buffer[offset + 2], buffer[offset + 3]);
+        if ((buffer.length < 12) || (readId(0) !== "FORM")) {
+            throw new Error("Not an IFF file");
+        }
+        let offset = 12;
+        while (offset + 8 <= buffer.length) {
+            const id = readId(offset);
+            const size = view.getUint32(offset + 4, false);
+            if (id === "CMAP") {
+                const palette = new Array<BitplaneColor>();
+                for (let i = 0; i + 3 <= size; i += 3) {
+                    const colorOffset = offset + 8 + i;
+                    palette.push([buffer[colorOffset], buffer[colorOffset + 1], buffer[colorOffset + 2]]);
+                }
+                return palette;
+            }
+            // Chunks are padded to an even size
+            offset += 8 + size + (size & 1);
+        }
+        throw new Error("No palette (CMAP) in the IFF file");
+    }
+
+    /**
+     * Completes the palette for the depth: the colors 32-63 are the half bright colors (EHB)
+     * @param palette Palette
+     * @param depth Number of bitplanes
+     * @return Palette with a color for each index
+     */
+    public static expandPalette(palette: Array<BitplaneColor>, depth: number): Array<BitplaneColor> {
+        const count = 1 << depth;
+        const expanded = new Array<BitplaneColor>();
+        for (let i = 0; i < count; i++) {
+            if (i < palette.length) {
+                expanded.push(palette[i]);
+            } else if ((i >= 32) && (i < 64) && (i - 32 < palette.length)) {
+                const [r, g, b] = palette[i - 32];
+                expanded.push([(r >> 4) << 3, (g >> 4) << 3, (b >> 4) << 3]);
+            } else {
+                const gray = Math.round(i * 255 / (count - 1));
+                expanded.push([gray, gray, gray]);
+            }
+        }
+        return expanded;
+    }
+}
+
+/**
+ * Webview panel showing the bitplanes of the debugged program memory
+ */
+export class BitplaneViewerPanel {
+    public static readonly VIEW_TYPE = 'bitplaneView';
+    private static readonly SCRIPTS_PATH = 'webviews/bitplaneviewer';
+    private static currentPanel: BitplaneViewerPanel | undefined;
+
+    /** Refreshes the image when the debugged program stops */
+    public static readonly TRACKER_FACTORY: vscode.DebugAdapterTrackerFactory = {
+        createDebugAdapterTracker: (session: vscode.DebugSession) => {
+            return {
+                onDidSendMessage: (message: DebugProtocol.ProtocolMessage) => {
+                    const panel = BitplaneViewerPanel.currentPanel;
+                    if (panel && (message.type === 'event') && ((<DebugProtocol.Event>message).event === 'stopped')) {
+                        panel.update(session).catch(() => {
+                            // The image will be read at the next refresh
+                        });
+                    }
+                }
+            };
+        }
+    };
+
+    private readonly panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private addressExpression = "BPL1PT";
+    private layout: BitplaneLayout = { width: 320, height: 256, depth: 1, modulo: 0, interleaved: false };
+    private iffPalette: Array<BitplaneColor> | undefined;
+
+    /**
+     * Shows the bitplane viewer
+     * @param extensionPath Path of the extension
+     */
+    public static show(extensionPath: string): void {
+        if (BitplaneViewerPanel.currentPanel) {
+            BitplaneViewerPanel.currentPanel.panel.reveal();
+            return;
+        }
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+        const panel = vscode.window.createWebviewPanel(
+            BitplaneViewerPanel.VIEW_TYPE,
+            'Bitplane Viewer',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                localResourceRoots: [vscode.Uri.file(path.join(extensionPath, BitplaneViewerPanel.SCRIPTS_PATH))],
+                retainContextWhenHidden: true
+            }
+        );
+        BitplaneViewerPanel.currentPanel = new BitplaneViewerPanel(panel, extensionPath);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, extensionPath: string) {
+        this.panel = panel;
+        this.panel.webview.html = this.getHtmlForWebview(extensionPath);
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage(
+            async message => {
+                try {
+                    if (message.command === 'refresh') {
+                        this.addressExpression = message.address;
+                        this.layout = message.layout;
+                        if (!message.iffPalette) {
+                            this.iffPalette = undefined;
+                        }
+                        if (vscode.debug.activeDebugSession) {
+                            await this.update(vscode.debug.activeDebugSession);
+                        } else {
+                            throw new Error("The bitplanes are read during a debug session");
+                        }
+                    } else if (message.command === 'selectPalette') {
+                        await this.selectIffPalette();
+                        if (vscode.debug.activeDebugSession) {
+                            await this.update(vscode.debug.activeDebugSession);
+                        }
+                    }
+                } catch (err) {
+                    vscode.window.showErrorMessage(err.message);
+                }
+            },
+            null,
+            this.disposables
+        );
+    }
+
+    public dispose(): void {
+        BitplaneViewerPanel.currentPanel = undefined;
+        this.panel.dispose();
+        while (this.disposables.length) {
+            const x = this.disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    /**
+     * Reads the bitplanes and the palette in the memory of the debugged program and shows the image
+     * @param session Debug session
+     */
+    public async update(session: vscode.DebugSession): Promise<void> {
+        BitplaneDecoder.checkLayout(this.layout);
+        const resolver = new DebugSessionMemoryResolver(session);
+        // The custom registers are write only: the pointers and colors are set by the copper list
+        let copperRegisters: Map<string, number> | undefined;
+        const getCopperRegisters = async () => {
+            if (!copperRegisters) {
+                copperRegisters = await CopperTimelinePanel.readCopperRegisters(resolver);
+            }
+            return copperRegisters;
+        };
+        const address = await this.resolveAddress(session, getCopperRegisters);
+        const memory = await resolver.getMemory(address, BitplaneDecoder.getMemorySize(this.layout));
+        const pixels = BitplaneDecoder.decode(new Uint8Array(StringUtils.hexToBytes(memory)), this.layout);
+        let palette = this.iffPalette;
+        if (!palette) {
+            palette = BitplaneDecoder.getCopperPalette(await getCopperRegisters());
+        }
+        this.panel.title = `Bitplanes: ${this.addressExpression}`;
+        await this.panel.webview.postMessage({
+            command: 'showImage',
+            address: address,
+            width: this.layout.width,
+            height: this.layout.height,
+            pixels: Array.from(pixels),
+            palette: BitplaneDecoder.expandPalette(palette, this.layout.depth)
+        });
+    }
+
+    /**
+     * Evaluates the bitplane pointer expression.
+     * A pointer register name (e.g. BPL1PT) is replaced by the value set by the copper list.
+     * @param session Debug session
+     * @param getCopperRegisters Reader of the registers set by the copper list
+     */
+    private async resolveAddress(session: vscode.DebugSession, getCopperRegisters: () => Promise<Map<string, number>>): Promise<number> {
+        let name = this.addressExpression.trim().toUpperCase();
+        if (/^\w+(PT|LC)H$/.test(name)) {
+            name = name.substring(0, name.length - 1);
+        }
+        if (MemoryLabelsRegistry.getCustomAddress(`${name}H`) !== undefined) {
+            const pointer = CopperTimeline.getPointer(await getCopperRegisters(), name);
+            if (pointer === undefined) {
+                throw new Error(`${name} is not set by the copper list`);
+            }
+            return pointer;
+        }
+        const response = await session.customRequest('evaluateAddress', { expression: this.addressExpression });
+        return response.address;
+    }
+
+    private async selectIffPalette(): Promise<void> {
+        const selectedFiles = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: "Use palette",
+            filters: { "IFF images": ["iff", "ilbm", "lbm"] }
+        });
+        if (selectedFiles && (selectedFiles.length > 0)) {
+            const contents = await new FileProxy(selectedFiles[0]).readFile();
+            this.iffPalette = BitplaneDecoder.parseIffPalette(contents);
+            await this.panel.webview.postMessage({ command: 'paletteSelected', name: path.basename(selectedFiles[0].fsPath) });
+        }
+    }
+
+    private getHtmlForWebview(extensionPath: string) {
+        const mainUri = this.panel.webview.asWebviewUri(vscode.Uri.file(path.join(extensionPath, BitplaneViewerPanel.SCRIPTS_PATH, 'main.js')));
+        const nonce = WebviewUtils.getNonce();
+        const layout = this.layout;
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <style nonce="${nonce}">
+                    form { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 8px; }
+                    input[type=number] { width: 60px; }
+                    canvas { image-rendering: pixelated; border: 1px solid var(--vscode-panel-border); }
+                    #info { margin: 4px 0; }
+                </style>
+                <title>Bitplane Viewer</title>
+            </head>
+            <body>
+                <form id="layout">
+                    <label>Address <input id="address" type="text" value="${WebviewUtils.escapeHtml(this.addressExpression)}"></label>
+                    <label>Width <input id="width" type="number" min="1" value="${layout.width}"></label>
+                    <label>Height <input id="height" type="number" min="1" value="${layout.height}"></label>
+                    <label>Depth <input id="depth" type="number" min="1" max="8" value="${layout.depth}"></label>
+                    <label>Modulo <input id="modulo" type="number" value="${layout.modulo}"></label>
+                    <label><input id="interleaved" type="checkbox"> Interleaved</label>
+                    <label>Palette <select id="palette"><option value="registers">Copper list colors</option><option value="iff">IFF file...</option></select></label>
+                    <label>Zoom <select id="zoom"><option>1</option><option selected>2</option><option>3</option><option>4</option></select></label>
+                    <button id="refresh" type="submit">Refresh</button>
+                </form>
+                <div id="info"></div>
+                <canvas id="bitplane_canvas"></canvas>
+                <script nonce="${nonce}" src="${mainUri}"></script>
+            </body>
+        </html>`;
+    }
+}
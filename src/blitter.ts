@@ -0,0 +1,878 @@
+import * as vscode from 'vscode';
+import { DebugSessionMemoryResolver } from './copperTimeline';
+import { MemoryLabelsRegistry } from './customMemoryAddresses';
+import { ExtensionState } from './extension';
+import { StringUtils } from './stringUtils';
+import { WebviewUtils } from './webviewUtils';
+
+/** Offsets of the blitter registers from the custom chips base */
+const BLTCON0 = 0x040;
+const BLTCON1 = 0x042;
+const BLTAFWM = 0x044;
+const BLTALWM = 0x046;
+const BLTCPTH = 0x048;
+const BLTBPTH = 0x04c;
+const BLTAPTH = 0x050;
+const BLTDPTH = 0x054;
+const BLTSIZE = 0x058;
+const BLTCON0L = 0x05a;
+const BLTSIZV = 0x05c;
+const BLTSIZH = 0x05e;
+const BLTCMOD = 0x060;
+const BLTBMOD = 0x062;
+const BLTAMOD = 0x064;
+const BLTDMOD = 0x066;
+const BLTCDAT = 0x070;
+const BLTBDAT = 0x072;
+const BLTADAT = 0x074;
+
+/**
+ * Evaluates an expression of the source
+ */
+export type BlitterExpressionEvaluator = (expression: string) => Promise<number>;
+
+/**
+ * Values written to the blitter registers
+ */
+export class BlitterRegisters {
+    /** Start of the blitter registers */
+    public static readonly FIRST_ADDRESS = 0xdff040;
+    /** Size of the blitter registers area */
+    public static readonly SIZE = 0x38;
+    private static readonly INSTRUCTION_REGEXP = /^(move|clr)(?:\.([bwl]))?\s+(?:([^,\s]+)\s*,\s*)?([^,\s]+)$/i;
+    private static readonly DESTINATION_REGEXP = /^\(?([^()+]+?)(?:\+([^()]+))?\)?(?:\.[wl])?(?:\(a[0-7]\))?$/i;
+    /** Values of the words by offset from the custom chips base */
+    private values = new Map<number, number>();
+
+    /**
+     * Sets the value of a register
+     * @param address Address of the register
+     * @param value Value to set
+     * @param size Size of the write: 2 or 4 bytes
+     */
+    public set(address: number, value: number, size = 2): void {
+        const offset = address & 0x1fe;
+        if (size === 4) {
+            this.values.set(offset, (value >>> 16) & 0xffff);
+            this.values.set(offset + 2, value & 0xffff);
+        } else {
+            this.values.set(offset, value & 0xffff);
+        }
+    }
+
+    /**
+     * Value of a register
+     * @param address Address or offset of the register
+     * @return Value or undefined if it was not set
+     */
+    public get(address: number): number | undefined {
+        return this.values.get(address & 0x1fe);
+    }
+
+    /**
+     * Value of a register, 0 if it was not set
+     * @param address Address or offset of the register
+     */
+    public getValue(address: number): number {
+        const value = this.get(address);
+        return (value !== undefined) ? value : 0;
+    }
+
+    /**
+     * Signed value of a modulo register
+     * @param address Address or offset of the register
+     */
+    public getSignedValue(address: number): number {
+        const value = this.getValue(address);
+        return (value & 0x8000) ? value - 0x10000 : value;
+    }
+
+    /**
+     * Value of a pointer register
+     * @param address Address of the high word of the pointer
+     * @return Pointer or undefined if it was not set
+     */
+    public getPointer(address: number): number | undefined {
+        const high = this.get(address);
+        const low = this.get(address + 2);
+        if ((high === undefined) && (low === undefined)) {
+            return undefined;
+        }
+        return ((((high !== undefined) ? high : 0) << 16) | ((low !== undefined) ? low : 0)) >>> 0;
+    }
+
+    /**
+     * True if no register was set
+     */
+    public isEmpty(): boolean {
+        return this.values.size === 0;
+    }
+
+    /**
+     * Reads the registers from a memory dump of the blitter registers area
+     * @param memory Memory in hexadecimal starting at $dff040
+     */
+    public static fromMemory(memory: string): BlitterRegisters {
+        const registers = new BlitterRegisters();
+        for (let i = 0; (i + 4 <= memory.length) && (i / 2 < BlitterRegisters.SIZE); i += 4) {
+            registers.set(BlitterRegisters.FIRST_ADDRESS + i / 2, parseInt(memory.substring(i, i + 4), 16));
+        }
+        return registers;
+    }
+
+    /**
+     * Reads the registers written by the move and clr instructions of a source
+     * @param text Source text
+     * @param evaluator Evaluator of the immediate values
+     */
+    public static async fromSource(text: string, evaluator?: BlitterExpressionEvaluator): Promise<BlitterRegisters> {
+        const registers = new BlitterRegisters();
+        for (const line of text.split(/\r?\n/)) {
+            let code = BlitterRegisters.removeComment(line).trim();
+            // Removes the label
+            const labelMatch = /^(\S+)\s+(.*)$/.exec(code);
+            if (labelMatch && !/^(move|clr)(\.[bwl])?$/i.test(labelMatch[1])) {
+                code = labelMatch[2];
+            }
+            const match = BlitterRegisters.INSTRUCTION_REGEXP.exec(code);
+            if (!match) {
+                continue;
+            }
+            const address = await BlitterRegisters.parseDestination(match[4], evaluator);
+            if ((address === undefined) || (address < BlitterRegisters.FIRST_ADDRESS) || (address >= BlitterRegisters.FIRST_ADDRESS + BlitterRegisters.SIZE)) {
+                continue;
+            }
+            const size = (match[2] && match[2].toLowerCase() === "l") ? 4 : 2;
+            if (match[1].toLowerCase() === "clr") {
+                registers.set(address, 0, size);
+            } else if (match[3] && match[3].startsWith("#")) {
+                try {
+                    registers.set(address, await BlitterRegisters.evaluate(match[3].substring(1), evaluator), size);
+                } catch (err) {
+                    // The value is not known: a label or a variable not resolved
+                }
+            }
+        }
+        return registers;
+    }
+
+    private static removeComment(line: string): string {
+        if (/^\s*\*/.test(line)) {
+            return "";
+        }
+        const pos = line.indexOf(";");
+        return (pos >= 0) ? line.substring(0, pos) : line;
+    }
+
+    /**
+     * Address of the register written by an operand: NAME(a6), $40(a6), $dff040 or NAME
+     */
+    private static async parseDestination(operand: string, evaluator?: BlitterExpressionEvaluator): Promise<number | undefined> {
+        const match = BlitterRegisters.DESTINATION_REGEXP.exec(operand);
+        if (!match) {
+            return undefined;
+        }
+        let address = MemoryLabelsRegistry.getCustomAddress(match[1].toUpperCase());
+        if (address === undefined) {
+            try {
+                address = await BlitterRegisters.evaluate(match[1], evaluator);
+            } catch (err) {
+                return undefined;
+            }
+        }
+        if (match[2]) {
+            try {
+                address += await BlitterRegisters.evaluate(match[2], evaluator);
+            } catch (err) {
+                return undefined;
+            }
+        }
+        if (address < 0x200) {
+            // Offset from the custom chips base register
+            address += 0xdff000;
+        }
+        return address;
+    }
+
+    private static async evaluate(expression: string, evaluator?: BlitterExpressionEvaluator): Promise<number> {
+        let match = /^(-)?\$([\da-f]+)$/i.exec(expression);
+        if (match) {
+            return (match[1] ? -1 : 1) * parseInt(match[2], 16);
+        }
+        match = /^(-)?%([01]+)$/.exec(expression);
+        if (match) {
+            return (match[1] ? -1 : 1) * parseInt(match[2], 2);
+        }
+        if (/^-?\d+$/.test(expression)) {
+            return parseInt(expression, 10);
+        }
+        if (evaluator) {
+            return evaluator(expression);
+        }
+        throw new Error(`Cannot evaluate '${expression}'`);
+    }
+}
+
+/**
+ * Line of the description of a blitter operation
+ */
+export interface BlitterDescriptionItem {
+    name: string;
+    value: string;
+}
+
+/**
+ * Decodes the blitter registers to a human description
+ */
+export class BlitterDecoder {
+    /** Names of the line mode octants by SUD, SUL, AUL code */
+    private static readonly OCTANTS = [6, 1, 5, 2, 7, 4, 0, 3];
+
+    /**
+     * Converts a minterm to a minimal sum of products.
+     * The uppercase letters are the sources and the lowercase letters their complement.
+     * @param minterm Minterm value (BLTCON0 low byte)
+     * @return Logic expression
+     */
+    public static mintermToExpression(minterm: number): string {
+        const value = minterm & 0xff;
+        if (value === 0) {
+            return "0";
+        } else if (value === 0xff) {
+            return "1";
+        }
+        // Implicants: cubes of the 3 variables, mask bit set when the variable is in the product
+        const implicants = new Array<[number, number]>();
+        for (let mask = 0; mask < 8; mask++) {
+            for (let bits = 0; bits < 8; bits++) {
+                if ((bits & ~mask) !== 0) {
+                    continue;
+                }
+                let covered = true;
+                for (let index = 0; index < 8; index++) {
+                    if (((index & mask) === bits) && !(value & (1 << index))) {
+                        covered = false;
+                        break;
+                    }
+                }
+                if (covered) {
+                    implicants.push([mask, bits]);
+                }
+            }
+        }
+        // Prime implicants are not contained in a larger implicant
+        const primes = implicants.filter(([mask, bits]) => !implicants.some(([otherMask, otherBits]) =>
+            (otherMask !== mask) && ((otherMask & mask) === otherMask) && ((bits & otherMask) === otherBits)));
+        // Smallest cover of the minterms
+        let best: Array<[number, number]> | undefined = undefined;
+        let bestCost = Number.MAX_VALUE;
+        for (let selection = 1; selection < (1 << primes.length); selection++) {
+            const selected = primes.filter((p, i) => selection & (1 << i));
+            let coverage = 0;
+            for (const [mask, bits] of selected) {
+                for (let index = 0; index < 8; index++) {
+                    if ((index & mask) === bits) {
+                        coverage |= 1 << index;
+                    }
+                }
+            }
+            if (coverage !== value) {
+                continue;
+            }
+            const cost = selected.length * 10 + selected.reduce((total, [mask]) => total + BlitterDecoder.countBits(mask), 0);
+            if (cost < bestCost) {
+                best = selected;
+                bestCost = cost;
+            }
+        }
+        if (!best) {
+            return "0";
+        }
+        // Products are sorted by variable, a source before its complement
+        const order = ([mask, bits]: [number, number]): string => [4, 2, 1].map(bit => (mask & bit) ? ((bits & bit) ? "0" : "1") : "2").join("");
+        best.sort((first, second) => order(first).localeCompare(order(second)));
+        return best.map(([mask, bits]) => {
+            let term = "";
+            for (const [bit, name] of [[4, "A"], [2, "B"], [1, "C"]]) {
+                if (mask & <number>bit) {
+                    term += (bits & <number>bit) ? name : (<string>name).toLowerCase();
+                }
+            }
+            return term;
+        }).join(" + ");
+    }
+
+    /**
+     * Computes the minterm of a logic expression of the channels A, B and C.
+     * The operators are ~ or ! (not), & or * (and, also implied between two terms), ^ (xor) and | or + (or),
+     * a lowercase channel is its complement.
+     * @param expression Logic expression, e.g. "A&B | ~A&C" or "AB + aC"
+     * @return Minterm value (LF bits)
+     */
+    public static expressionToMinterm(expression: string): number {
+        const tokens = expression.replace(/\s+/g, "").split("");
+        if (tokens.length === 0) {
+            throw new Error("Empty minterm expression");
+        }
+        let position = 0;
+        const fail = (): never => {
+            throw new Error(`Invalid minterm expression '${expression}' at position ${position + 1}`);
+        };
+        // Each sub expression is evaluated as a truth table of the 8 combinations of the sources
+        const parseOr = (): number => {
+            let value = parseXor();
+            while ((tokens[position] === "|") || (tokens[position] === "+")) {
+                position++;
+                value |= parseXor();
+            }
+            return value;
+        };
+        const parseXor = (): number => {
+            let value = parseAnd();
+            while (tokens[position] === "^") {
+                position++;
+                value ^= parseAnd();
+            }
+            return value;
+        };
+        const parseAnd = (): number => {
+            let value = parseUnary();
+            for (; ;) {
+                const token = tokens[position];
+                if ((token === "&") || (token === "*")) {
+                    position++;
+                } else if ((token === undefined) || !token.match(/[abc01(~!]/i)) {
+                    return value;
+                }
+                value &= parseUnary();
+            }
+        };
+        const parseUnary = (): number => {
+            const token = tokens[position];
+            if ((token === "~") || (token === "!")) {
+                position++;
+                return ~parseUnary() & 0xff;
+            } else if (token === "(") {
+                position++;
+                const value = parseOr();
+                if (tokens[position] !== ")") {
+                    fail();
+                }
+                position++;
+                return value;
+            }
+            const index = (token !== undefined) ? "ABC01abc".indexOf(token) : -1;
+            if (index < 0) {
+                return fail();
+            }
+            position++;
+            return [0xf0, 0xcc, 0xaa, 0x00, 0xff, 0x0f, 0x33, 0x55][index];
+        };
+        const minterm = parseOr();
+        if (position < tokens.length) {
+            fail();
+        }
+        return minterm;
+    }
+
+    /**
+     * Retrieves the BLTCON0 USEx bits needed by a minterm: the sources the result depends on and the destination
+     * @param minterm Minterm value
+     * @return USEA, USEB, USEC and USED bits
+     */
+    public static getUseBits(minterm: number): number {
+        const value = minterm & 0xff;
+        let use = 0x100;
+        if (((value >> 4) & 0x0f) !== (value & 0x0f)) {
+            use |= 0x800;
+        }
+        if (((value >> 2) & 0x33) !== (value & 0x33)) {
+            use |= 0x400;
+        }
+        if (((value >> 1) & 0x55) !== (value & 0x55)) {
+            use |= 0x200;
+        }
+        return use;
+    }
+
+    /**
+     * Retrieves the channels enabled by the USEx bits of BLTCON0
+     * @param bltcon0 BLTCON0 value
+     * @return Names of the channels
+     */
+    public static getChannels(bltcon0: number): Array<string> {
+        const channels = new Array<string>();
+        for (const [bit, channel] of <Array<[number, string]>>[[0x800, "A"], [0x400, "B"], [0x200, "C"], [0x100, "D"]]) {
+            if (bltcon0 & bit) {
+                channels.push(channel);
+            }
+        }
+        return channels;
+    }
+
+    private static countBits(value: number): number {
+        let count = 0;
+        for (let v = value; v > 0; v >>= 1) {
+            count += v & 1;
+        }
+        return count;
+    }
+
+    /**
+     * Applies a minterm to the sources
+     * @param minterm Minterm value
+     * @param a Shifted and masked A source
+     * @param b Shifted B source
+     * @param c C source
+     * @return Result word
+     */
+    public static applyMinterm(minterm: number, a: number, b: number, c: number): number {
+        let result = 0;
+        for (let index = 0; index < 8; index++) {
+            if (minterm & (1 << index)) {
+                result |= ((index & 4) ? a : ~a) & ((index & 2) ? b : ~b) & ((index & 1) ? c : ~c);
+            }
+        }
+        return result & 0xffff;
+    }
+
+    /**
+     * Minterm of the blit: the ECS BLTCON0L register is used if BLTCON0 was not set
+     * @param registers Blitter registers
+     */
+    public static getMinterm(registers: BlitterRegisters): number {
+        const bltcon0 = registers.get(BLTCON0);
+        if (bltcon0 === undefined) {
+            return registers.getValue(BLTCON0L) & 0xff;
+        }
+        return bltcon0 & 0xff;
+    }
+
+    /**
+     * Size of the blit: the ECS BLTSIZV/BLTSIZH registers are used if they were set
+     * @param registers Blitter registers
+     * @return [width in words, height in lines]
+     */
+    public static getSize(registers: BlitterRegisters): [number, number] {
+        const sizeV = registers.get(BLTSIZV);
+        const sizeH = registers.get(BLTSIZH);
+        if ((sizeV !== undefined) && (sizeH !== undefined) && (registers.get(BLTSIZE) === undefined)) {
+            return [(sizeH & 0x7ff) || 0x800, (sizeV & 0x7fff) || 0x8000];
+        }
+        const size = registers.getValue(BLTSIZE);
+        return [(size & 0x3f) || 64, (size >> 6) || 1024];
+    }
+
+    /**
+     * Decodes the blitter registers
+     * @param registers Blitter registers
+     * @return Description items
+     */
+    public static describe(registers: BlitterRegisters): Array<BlitterDescriptionItem> {
+        const bltcon0 = registers.getValue(BLTCON0);
+        const bltcon1 = registers.getValue(BLTCON1);
+        const minterm = BlitterDecoder.getMinterm(registers);
+        const [width, height] = BlitterDecoder.getSize(registers);
+        const items = new Array<BlitterDescriptionItem>();
+        const channels = BlitterDecoder.getChannels(bltcon0);
+        if (bltcon1 & 1) {
+            const octant = BlitterDecoder.OCTANTS[(bltcon1 >> 2) & 7];
+            const deltaMinor = registers.getSignedValue(BLTBMOD) / 4;
+            const deltaMajor = deltaMinor - registers.getSignedValue(BLTAMOD) / 4;
+            items.push({ name: "Mode", value: "Line" });
+            items.push({ name: "Minterm", value: `$${BlitterDecoder.formatByte(minterm)}: D = ${BlitterDecoder.mintermToExpression(minterm)}` });
+            items.push({ name: "Channels", value: channels.join(" ") });
+            items.push({ name: "Octant", value: `${octant} (${BlitterDecoder.describeOctant(bltcon1)})` });
+            items.push({ name: "Length", value: `${height} pixels` });
+            items.push({ name: "Deltas", value: `major ${deltaMajor}, minor ${deltaMinor}` });
+            items.push({ name: "Start pixel", value: `${(bltcon0 >> 12) & 0xf}` });
+            items.push({ name: "Texture", value: `$${BlitterDecoder.formatWord(registers.getValue(BLTBDAT))} rotated by ${(bltcon1 >> 12) & 0xf}` });
+            items.push({ name: "One dot per line", value: (bltcon1 & 2) ? "yes (SING)" : "no" });
+            items.push({ name: "Initial sign", value: (bltcon1 & 0x40) ? "negative (SIGN)" : "positive" });
+            items.push({ name: "Row size", value: `${registers.getSignedValue(BLTCMOD)} bytes` });
+            if (width !== 2) {
+                items.push({ name: "Warning", value: `The width must be 2 words in line mode (found ${width})` });
+            }
+        } else {
+            const descending = (bltcon1 & 2) !== 0;
+            items.push({ name: "Mode", value: "Area" });
+            items.push({ name: "Minterm", value: `$${BlitterDecoder.formatByte(minterm)}: D = ${BlitterDecoder.mintermToExpression(minterm)}` });
+            items.push({ name: "Channels", value: channels.join(" ") });
+            items.push({ name: "Size", value: `${width} words (${width * 16} pixels) x ${height} lines` });
+            items.push({ name: "Shifts", value: `A ${(bltcon0 >> 12) & 0xf}, B ${(bltcon1 >> 12) & 0xf} (${descending ? "left" : "right"})` });
+            items.push({ name: "Direction", value: descending ? "Descending" : "Ascending" });
+            items.push({ name: "Masks", value: `first $${BlitterDecoder.formatWord(registers.getValue(BLTAFWM))}, last $${BlitterDecoder.formatWord(registers.getValue(BLTALWM))}` });
+            if (bltcon1 & 0x18) {
+                items.push({ name: "Fill", value: `${(bltcon1 & 0x10) ? "Exclusive" : "Inclusive"}, carry in ${(bltcon1 & 4) ? 1 : 0}` });
+                if (!descending) {
+                    items.push({ name: "Warning", value: "The fill mode works from right to left: it needs the descending mode" });
+                }
+            }
+            const modulos = new Array<string>();
+            for (const [channel, address] of <Array<[string, number]>>[["A", BLTAMOD], ["B", BLTBMOD], ["C", BLTCMOD], ["D", BLTDMOD]]) {
+                if (channels.includes(channel)) {
+                    modulos.push(`${channel} ${registers.getSignedValue(address)}`);
+                }
+            }
+            if (modulos.length > 0) {
+                items.push({ name: "Modulos", value: modulos.join(", ") });
+            }
+            for (const [channel, address] of <Array<[string, number]>>[["A", BLTADAT], ["B", BLTBDAT], ["C", BLTCDAT]]) {
+                if (!channels.includes(channel)) {
+                    const data = registers.get(address);
+                    if (data !== undefined) {
+                        items.push({ name: `${channel} data`, value: `$${BlitterDecoder.formatWord(data)}` });
+                    }
+                }
+            }
+            if (!channels.includes("D")) {
+                items.push({ name: "Warning", value: "The destination D is not enabled: only the zero flag is computed" });
+            }
+        }
+        const pointers = new Array<string>();
+        for (const [channel, address] of <Array<[string, number]>>[["A", BLTAPTH], ["B", BLTBPTH], ["C", BLTCPTH], ["D", BLTDPTH]]) {
+            const pointer = registers.getPointer(address);
+            if (pointer !== undefined) {
+                pointers.push(`${channel} $${pointer.toString(16)}`);
+            }
+        }
+        if (pointers.length > 0) {
+            items.push({ name: "Pointers", value: pointers.join(", ") });
+        }
+        return items;
+    }
+
+    /**
+     * Short description of the value written to a blitter register, used by the hover
+     * @param name Name of the register
+     * @param value Value written
+     * @return Description or undefined for the other registers
+     */
+    public static describeRegister(name: string, value: number): string | undefined {
+        switch (name.toUpperCase()) {
+            case "BLTCON0": {
+                const minterm = value & 0xff;
+                return `Channels ${BlitterDecoder.getChannels(value).join(" ")}, shift A ${(value >> 12) & 0xf}, minterm $${BlitterDecoder.formatByte(minterm)}: D = ${BlitterDecoder.mintermToExpression(minterm)}`;
+            }
+            case "BLTCON0L":
+                return `Minterm $${BlitterDecoder.formatByte(value & 0xff)}: D = ${BlitterDecoder.mintermToExpression(value)}`;
+            case "BLTCON1":
+                if (value & 1) {
+                    return `Line mode, octant ${BlitterDecoder.OCTANTS[(value >> 2) & 7]} (${BlitterDecoder.describeOctant(value)})${(value & 2) ? ", one dot per line" : ""}${(value & 0x40) ? ", sign" : ""}`;
+                } else {
+                    let description = `Area mode, shift B ${(value >> 12) & 0xf}, ${(value & 2) ? "descending" : "ascending"}`;
+                    if (value & 0x18) {
+                        description += `, ${(value & 0x10) ? "exclusive" : "inclusive"} fill${(value & 4) ? " with carry in" : ""}`;
+                    }
+                    return description;
+                }
+            case "BLTSIZE":
+                return `${(value & 0x3f) || 64} words x ${(value >> 6) || 1024} lines`;
+            default:
+                return undefined;
+        }
+    }
+
+    private static describeOctant(bltcon1: number): string {
+        const sud = (bltcon1 & 0x10) !== 0;
+        const sul = (bltcon1 & 0x08) !== 0;
+        const aul = (bltcon1 & 0x04) !== 0;
+        if (sud) {
+            return `always ${aul ? "left" : "right"}, sometimes ${sul ? "up" : "down"}`;
+        }
+        return `always ${aul ? "up" : "down"}, sometimes ${sul ? "left" : "right"}`;
+    }
+
+    private static formatByte(value: number): string {
+        return StringUtils.padStart(value.toString(16), 2, "0");
+    }
+
+    private static formatWord(value: number): string {
+        return StringUtils.padStart(value.toString(16), 4, "0");
+    }
+}
+
+/**
+ * Bitplane image: rows of words
+ */
+export type BlitterImage = Array<Array<number>>;
+
+/**
+ * Preview of a blit: the sources and the result
+ */
+export interface BlitterPreview {
+    /** Width in words */
+    width: number;
+    height: number;
+    sources: Map<string, BlitterImage>;
+    result: BlitterImage;
+}
+
+/**
+ * Simulates a blit on test patterns to preview its result
+ */
+export class BlitterSimulator {
+    /** Maximum size of the preview */
+    public static readonly MAX_WIDTH = 16;
+    public static readonly MAX_HEIGHT = 64;
+
+    /**
+     * Simulates the blit on the test patterns.
+     * The enabled sources are an ellipse (A), a checkerboard (B) and diagonal stripes (C),
+     * the disabled sources use their data register.
+     * @param registers Blitter registers
+     */
+    public static preview(registers: BlitterRegisters): BlitterPreview {
+        const bltcon1 = registers.getValue(BLTCON1);
+        if (bltcon1 & 1) {
+            return BlitterSimulator.previewLine(registers);
+        }
+        const bltcon0 = registers.getValue(BLTCON0);
+        const minterm = BlitterDecoder.getMinterm(registers);
+        let [width, height] = BlitterDecoder.getSize(registers);
+        width = Math.min(width, BlitterSimulator.MAX_WIDTH);
+        height = Math.min(height, BlitterSimulator.MAX_HEIGHT);
+        const descending = (bltcon1 & 2) !== 0;
+        const fill = (bltcon1 & 0x18) !== 0;
+        const exclusive = (bltcon1 & 0x10) !== 0;
+        const shiftA = (bltcon0 >> 12) & 0xf;
+        const shiftB = (bltcon1 >> 12) & 0xf;
+        const sources = new Map<string, BlitterImage>();
+        const patterns: { [channel: string]: (x: number, y: number) => boolean } = {
+            A: (x, y) => {
+                const dx = (x + 0.5 - width * 8) / (width * 8);
+                const dy = (y + 0.5 - height / 2) / (height / 2);
+                return dx * dx + dy * dy <= 0.8;
+            },
+            B: (x, y) => ((x >> 2) + (y >> 2)) % 2 === 0,
+            C: (x, y) => (x + y) % 8 < 3
+        };
+        const dataRegisters: { [channel: string]: number } = { A: BLTADAT, B: BLTBDAT, C: BLTCDAT };
+        const enabled: { [channel: string]: number } = { A: 0x800, B: 0x400, C: 0x200 };
+        for (const channel of ["A", "B", "C"]) {
+            const image = new Array<Array<number>>();
+            for (let y = 0; y < height; y++) {
+                const row = new Array<number>();
+                for (let x = 0; x < width; x++) {
+                    if (bltcon0 & enabled[channel]) {
+                        let word = 0;
+                        for (let bit = 0; bit < 16; bit++) {
+                            if (patterns[channel](x * 16 + bit, y)) {
+                                word |= 0x8000 >> bit;
+                            }
+                        }
+                        row.push(word);
+                    } else {
+                        row.push(registers.getValue(dataRegisters[channel]));
+                    }
+                }
+                image.push(row);
+            }
+            sources.set(channel, image);
+        }
+        const imageA = <BlitterImage>sources.get("A");
+        const imageB = <BlitterImage>sources.get("B");
+        const imageC = <BlitterImage>sources.get("C");
+        const result = new Array<Array<number>>();
+        let previousA = 0;
+        let previousB = 0;
+        for (let y = 0; y < height; y++) {
+            const row = new Array<number>(width).fill(0);
+            let carry = (bltcon1 & 4) ? 1 : 0;
+            for (let i = 0; i < width; i++) {
+                // The descending mode processes the words from the end
+                const x = descending ? width - 1 - i : i;
+                let a = imageA[y][x];
+                if (i === 0) {
+                    a &= registers.getValue(BLTAFWM);
+                }
+                if (i === width - 1) {
+                    a &= registers.getValue(BLTALWM);
+                }
+                const b = imageB[y][x];
+                let shiftedA: number;
+                let shiftedB: number;
+                if (descending) {
+                    shiftedA = ((a << shiftA) | (previousA >>> (16 - shiftA))) & 0xffff;
+                    shiftedB = ((b << shiftB) | (previousB >>> (16 - shiftB))) & 0xffff;
+                } else {
+                    shiftedA = (((previousA << 16) | a) >>> shiftA) & 0xffff;
+                    shiftedB = (((previousB << 16) | b) >>> shiftB) & 0xffff;
+                }
+                previousA = a;
+                previousB = b;
+                let d = BlitterDecoder.applyMinterm(minterm, shiftedA, shiftedB, imageC[y][x]);
+                if (fill) {
+                    // The fill goes from the right bit to the left bit
+                    let filled = 0;
+                    for (let bit = 0; bit < 16; bit++) {
+                        const value = (d >> bit) & 1;
+                        if (exclusive) {
+                            carry ^= value;
+                            filled |= carry << bit;
+                        } else {
+                            filled |= (value | carry) << bit;
+                            carry ^= value;
+                        }
+                    }
+                    d = filled;
+                }
+                row[x] = d;
+            }
+            result.push(row);
+        }
+        return { width: width, height: height, sources: sources, result: result };
+    }
+
+    /**
+     * Draws the line described by the line mode registers
+     */
+    private static previewLine(registers: BlitterRegisters): BlitterPreview {
+        const bltcon0 = registers.getValue(BLTCON0);
+        const bltcon1 = registers.getValue(BLTCON1);
+        const [, length] = BlitterDecoder.getSize(registers);
+        const deltaMinor = Math.abs(registers.getSignedValue(BLTBMOD) / 4);
+        const deltaMajor = Math.max(Math.abs(deltaMinor - registers.getSignedValue(BLTAMOD) / 4), deltaMinor);
+        const sud = (bltcon1 & 0x10) !== 0;
+        const majorStep = (bltcon1 & 0x04) ? -1 : 1;
+        const minorStep = (bltcon1 & 0x08) ? -1 : 1;
+        const points = new Array<[number, number]>();
+        let x = (bltcon0 >> 12) & 0xf;
+        let y = 0;
+        let error = 2 * deltaMinor - deltaMajor;
+        const count = Math.min(length, BlitterSimulator.MAX_WIDTH * 16);
+        for (let i = 0; i < count; i++) {
+            points.push([x, y]);
+            if (error >= 0) {
+                if (sud) {
+                    y += minorStep;
+                } else {
+                    x += minorStep;
+                }
+                error -= 2 * deltaMajor;
+            }
+            error += 2 * deltaMinor;
+            if (sud) {
+                x += majorStep;
+            } else {
+                y += majorStep;
+            }
+        }
+        const minX = Math.min(0, ...points.map(p => p[0]));
+        const minY = Math.min(...points.map(p => p[1]));
+        const width = Math.min(Math.ceil((Math.max(...points.map(p => p[0])) - minX + 1) / 16), BlitterSimulator.MAX_WIDTH);
+        const height = Math.min(Math.max(...points.map(p => p[1])) - minY + 1, BlitterSimulator.MAX_HEIGHT);
+        const result = new Array<Array<number>>();
+        for (let row = 0; row < height; row++) {
+            result.push(new Array<number>(width).fill(0));
+        }
+        for (const [px, py] of points) {
+            const column = px - minX;
+            const row = py - minY;
+            if ((row < height) && (column < width * 16)) {
+                result[row][column >> 4] |= 0x8000 >> (column & 15);
+            }
+        }
+        return { width: width, height: height, sources: new Map<string, BlitterImage>(), result: result };
+    }
+
+    /**
+     * Renders an image as svg
+     * @param image Image to render
+     * @param width Width in words
+     * @param color Color of the set pixels
+     */
+    public static renderImage(image: BlitterImage, width: number, color: string): string {
+        const height = image.length;
+        let svg = `<svg class="bitplane" viewBox="0 0 ${width * 16} ${height}" width="${width * 16 * 4}" height="${height * 4}" shape-rendering="crispEdges">`;
+        svg += `<rect x="0" y="0" width="${width * 16}" height="${height}" fill="#000"/>`;
+        for (let y = 0; y < height; y++) {
+            let start = -1;
+            for (let x = 0; x <= width * 16; x++) {
+                const set = (x < width * 16) && ((image[y][x >> 4] & (0x8000 >> (x & 15))) !== 0);
+                if (set && (start < 0)) {
+                    start = x;
+                } else if (!set && (start >= 0)) {
+                    svg += `<rect x="${start}" y="${y}" width="${x - start}" height="1" fill="${color}"/>`;
+                    start = -1;
+                }
+            }
+        }
+        return svg + "</svg>";
+    }
+}
+
+/**
+ * Webview panel showing a decoded blitter operation
+ */
+export class BlitterPanel {
+    public static readonly VIEW_TYPE = 'blitterOperation';
+
+    /**
+     * Shows the blitter operation of the selected source or the blitter registers of the debugged program
+     */
+    public static async showBlitterOperation(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        let registers: BlitterRegisters;
+        let title: string;
+        if (editor && !editor.selection.isEmpty) {
+            const definitionHandler = ExtensionState.getCurrent().getDefinitionHandler();
+            registers = await BlitterRegisters.fromSource(editor.document.getText(editor.selection), (expression) => definitionHandler.evaluateFormula(expression));
+            title = "Blitter operation: selection";
+        } else if (vscode.debug.activeDebugSession) {
+            const resolver = new DebugSessionMemoryResolver(vscode.debug.activeDebugSession);
+            registers = BlitterRegisters.fromMemory(await resolver.getMemory(BlitterRegisters.FIRST_ADDRESS, BlitterRegisters.SIZE));
+            title = "Blitter operation: registers";
+        } else {
+            throw new Error("Select the blitter registers writes or start a debug session");
+        }
+        if (registers.isEmpty()) {
+            throw new Error("No blitter register found");
+        }
+        const panel = vscode.window.createWebviewPanel(BlitterPanel.VIEW_TYPE, title, vscode.ViewColumn.Beside, {});
+        panel.webview.html = BlitterPanel.getHtml(title, registers);
+    }
+
+    /**
+     * Html of the panel
+     * @param title Title of the page
+     * @param registers Blitter registers
+     */
+    public static getHtml(title: string, registers: BlitterRegisters): string {
+        const nonce = WebviewUtils.getNonce();
+        const escape = WebviewUtils.escapeHtml;
+        let table = "<table>";
+        for (const item of BlitterDecoder.describe(registers)) {
+            table += `<tr><th>${escape(item.name)}</th><td>${escape(item.value)}</td></tr>`;
+        }
+        table += "</table>";
+        const preview = BlitterSimulator.preview(registers);
+        let images = "";
+        const colors: { [channel: string]: string } = { A: "#f44", B: "#4f4", C: "#48f" };
+        for (const [channel, image] of preview.sources) {
+            images += `<figure>${BlitterSimulator.renderImage(image, preview.width, colors[channel])}<figcaption>${channel}</figcaption></figure>`;
+        }
+        images += `<figure>${BlitterSimulator.renderImage(preview.result, preview.width, "#fff")}<figcaption>D</figcaption></figure>`;
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>${escape(title)}</title>
+                <style nonce="${nonce}">
+                    body { font-family: var(--vscode-editor-font-family); }
+                    th, td { text-align: left; vertical-align: top; padding: 2px 8px; }
+                    figure { display: inline-block; margin: 8px; }
+                    figcaption { text-align: center; }
+                </style>
+            </head>
+            <body>
+                ${table}
+                <h3>Preview on test patterns</h3>
+                ${images}
+            </body>
+        </html>`;
+    }
+}
@@ -0,0 +1,106 @@
+import { Diagnostic, DiagnosticSeverity, Range, Uri } from "vscode";
+import { ADFDisk } from "./adfDisk";
+import { ExtensionState } from "./extension";
+
+/**
+ * Severity of a bootblock issue
+ */
+export enum BootBlockIssueSeverity {
+    ERROR = "error",
+    WARNING = "warning"
+}
+
+/**
+ * Issue found in a bootblock
+ */
+export interface BootBlockIssue {
+    severity: BootBlockIssueSeverity;
+    message: string;
+    /** True if the issue concerns the header (DOS type, checksum, rootblock) */
+    header: boolean;
+}
+
+/**
+ * Sanity checks of a compiled bootblock before its installation on a disk.
+ * The installation rewrites the DOS type, the checksum and the rootblock pointer.
+ */
+export class BootBlockAnalyzer {
+    /** Size of the header: DOS type, checksum and rootblock pointer */
+    public static readonly HEADER_SIZE = 12;
+    /** Max size of the code after the header */
+    public static readonly MAX_CODE_SIZE = ADFDisk.BOOTBLOCK_SIZE - BootBlockAnalyzer.HEADER_SIZE;
+    /** jsr _LVOFindResident(a6) */
+    private static readonly FIND_RESIDENT_CALL = Buffer.from([0x4e, 0xae, 0xff, 0xa0]);
+    private static readonly DOS_LIBRARY = Buffer.from("dos.library", "latin1");
+
+    /**
+     * Analyzes a compiled bootblock
+     * @param source Compiled bootblock binary
+     * @param dosType Flags of the dos type of the disk
+     * @return Issues found
+     */
+    public analyze(source: Buffer, dosType: number): Array<BootBlockIssue> {
+        const issues = new Array<BootBlockIssue>();
+        if (source.length < BootBlockAnalyzer.HEADER_SIZE || source.toString("latin1", 0, 3) !== "DOS") {
+            issues.push(this.error("The bootblock must start with the 'DOS' header: the first 12 bytes are replaced by the header", true));
+        } else if (source.readUInt8(3) !== dosType) {
+            issues.push(this.warning(`The bootblock declares the ${this.getDosTypeName(source.readUInt8(3))} type, the disk type ${this.getDosTypeName(dosType)} is used`, true));
+        }
+        const codeSize = source.length - BootBlockAnalyzer.HEADER_SIZE;
+        if (codeSize > BootBlockAnalyzer.MAX_CODE_SIZE) {
+            issues.push(this.error(`The bootblock code is ${codeSize} bytes long, the maximum is ${BootBlockAnalyzer.MAX_CODE_SIZE} bytes`, false));
+        }
+        const code = source.subarray(BootBlockAnalyzer.HEADER_SIZE);
+        if (code.indexOf(BootBlockAnalyzer.DOS_LIBRARY) < 0) {
+            issues.push(this.warning("The bootblock code does not reference 'dos.library': the disk will not boot to AmigaDOS", false));
+        } else if (code.indexOf(BootBlockAnalyzer.FIND_RESIDENT_CALL) < 0) {
+            issues.push(this.warning("The bootblock code does not call FindResident to jump to the dos.library init", false));
+        }
+        return issues;
+    }
+
+    /**
+     * Reports the issues as diagnostics of the bootblock source file.
+     * The header issues are set on the 'DOS' declaration line, the others on the first line.
+     * @param sourceUri Uri of the bootblock source file
+     * @param sourceText Text of the source file
+     * @param issues Issues to report
+     */
+    public report(sourceUri: Uri, sourceText: string, issues: Array<BootBlockIssue>): void {
+        const lines = sourceText.split(/\r?\n/);
+        let headerLine = lines.findIndex(l => /^\s*[^;*\s]*\s*dc\.[bl]\s+["']DOS/i.test(l));
+        if (headerLine < 0) {
+            headerLine = 0;
+        }
+        const state = ExtensionState.getCurrent();
+        const errorDiagnosticCollection = state.getErrorDiagnosticCollection();
+        const warningDiagnosticCollection = state.getWarningDiagnosticCollection();
+        const errors = new Array<Diagnostic>();
+        const warnings = new Array<Diagnostic>();
+        for (const issue of issues) {
+            const line = issue.header ? headerLine : 0;
+            const range = new Range(line, 0, line, lines[line] ? lines[line].length : 0);
+            if (issue.severity === BootBlockIssueSeverity.ERROR) {
+                errors.push(new Diagnostic(range, issue.message, DiagnosticSeverity.Error));
+            } else {
+                warnings.push(new Diagnostic(range, issue.message, DiagnosticSeverity.Warning));
+            }
+        }
+        const existingErrors = errorDiagnosticCollection.get(sourceUri);
+        errorDiagnosticCollection.set(sourceUri, existingErrors ? existingErrors.concat(errors) : errors);
+        const existingWarnings = warningDiagnosticCollection.get(sourceUri);
+        warningDiagnosticCollection.set(sourceUri, existingWarnings ? existingWarnings.concat(warnings) : warnings);
+    }
+
+    private getDosTypeName(dosType: number): string {
+        return `DOS\\${dosType}`;
+    }
+
+    private error(message: string, header: boolean): BootBlockIssue {
+        return { severity: BootBlockIssueSeverity.ERROR, message: message, header: header };
+    }
+
+    private warning(message: string, header: boolean): BootBlockIssue {
+        return { severity: BootBlockIssueSeverity.WARNING, message: message, header: header };
+    }
+}
@@ -140,13 +140,17 @@ export class BreakpointManager {
         return debugBp;
     }
 
-    public createBreakpoint(source: DebugProtocol.Source, line: number): GdbBreakpoint {
+    public createBreakpoint(source: DebugProtocol.Source, line: number, condition?: string, hitCondition?: string, logMessage?: string): GdbBreakpoint {
         return <GdbBreakpoint>{
             breakpointType: GdbBreakpointType.SOURCE,
             id: this.nextBreakpointId++,
             line: line,
             source: source,
-            verified: false
+            verified: false,
+            condition: condition,
+            hitCondition: hitCondition,
+            hitCount: 0,
+            logMessage: logMessage
         };
     }
 
@@ -161,14 +165,17 @@ export class BreakpointManager {
         };
     }
 
-    public createInstructionBreakpoint(address: number): GdbBreakpoint {
+    public createInstructionBreakpoint(address: number, condition?: string, hitCondition?: string): GdbBreakpoint {
         return <GdbBreakpoint>{
             breakpointType: GdbBreakpointType.INSTRUCTION,
             id: this.nextBreakpointId++,
             segmentId: undefined,
             offset: address,
             temporary: false,
-            verified: false
+            verified: false,
+            condition: condition,
+            hitCondition: hitCondition,
+            hitCount: 0
         };
     }
 
@@ -350,6 +357,101 @@ export class BreakpointManager {
         return this.pendingBreakpoints;
     }
 
+    /**
+     * Checks if a breakpoint has a condition or a hit condition
+     * @param breakpoint Breakpoint to check
+     * @return true if it is conditional
+     */
+    public static isConditional(breakpoint: GdbBreakpoint): boolean {
+        return ((breakpoint.condition !== undefined) && (breakpoint.condition.trim().length > 0)) ||
+            ((breakpoint.hitCondition !== undefined) && (breakpoint.hitCondition.trim().length > 0));
+    }
+
+    /**
+     * Checks if a breakpoint is a logpoint : it prints a message instead of stopping
+     * @param breakpoint Breakpoint to check
+     * @return true if it is a logpoint
+     */
+    public static isLogpoint(breakpoint: GdbBreakpoint): boolean {
+        return (breakpoint.logMessage !== undefined) && (breakpoint.logMessage.length > 0);
+    }
+
+    /**
+     * Checks if there is at least one conditional breakpoint or logpoint set
+     * @return true if one breakpoint must be evaluated when reached
+     */
+    public hasBreakpointsToEvaluate(): boolean {
+        return this.breakpoints.some(bp => BreakpointManager.isConditional(bp) || BreakpointManager.isLogpoint(bp));
+    }
+
+    /**
+     * Retrieves the source and instruction breakpoints set at an address
+     * @param address Absolute address
+     * @return The list of breakpoints
+     */
+    public getBreakpointsAtAddress(address: number): Array<GdbBreakpoint> {
+        const [segmentId, offset] = this.gdbProxy.toRelativeOffset(address);
+        return this.breakpoints.filter(bp => {
+            if ((bp.breakpointType !== GdbBreakpointType.SOURCE) && (bp.breakpointType !== GdbBreakpointType.INSTRUCTION)) {
+                return false;
+            }
+            if ((bp.segmentId !== undefined) && (bp.segmentId >= 0)) {
+                return (bp.segmentId === segmentId) && (bp.offset === offset);
+            }
+            return bp.offset === address;
+        });
+    }
+
+    /**
+     * Checks if the hit count of a breakpoint matches its hit condition.
+     * Accepted forms are: 'N' or '==N' (exactly N hits), '>N', '>=N', '<N', '<=N' and '%N' (every N hits).
+     * @param hitCondition Hit condition expression
+     * @param hitCount Current hit count
+     * @return true if the condition is matched
+     */
+    public static checkHitCondition(hitCondition: string, hitCount: number): boolean {
+        const matches = /^\s*(==|=|>=|<=|>|<|%)?\s*(\d+)\s*$/.exec(hitCondition);
+        if (matches) {
+            const value = parseInt(matches[2]);
+            switch (matches[1]) {
+                case '>':
+                    return hitCount > value;
+                case '>=':
+                    return hitCount >= value;
+                case '<':
+                    return hitCount < value;
+                case '<=':
+                    return hitCount <= value;
+                case '%':
+                    return (value > 0) && ((hitCount % value) === 0);
+                default:
+                    return hitCount === value;
+            }
+        } else {
+            throw new Error(`Invalid hit condition '${hitCondition}'`);
+        }
+    }
+
+    /**
+     * Checks if the program should stop on a breakpoint.
+     * The hit count is only incremented when the condition is verified.
+     * @param breakpoint Breakpoint reached
+     * @param conditionEvaluator Function to evaluate the condition expression
+     * @return true if the program should stop
+     */
+    public async shouldStopOnBreakpoint(breakpoint: GdbBreakpoint, conditionEvaluator: (condition: string) => Promise<boolean>): Promise<boolean> {
+        if (breakpoint.condition && (breakpoint.condition.trim().length > 0)) {
+            if (!await conditionEvaluator(breakpoint.condition)) {
+                return false;
+            }
+        }
+        breakpoint.hitCount = (breakpoint.hitCount !== undefined) ? breakpoint.hitCount + 1 : 1;
+        if (breakpoint.hitCondition && (breakpoint.hitCondition.trim().length > 0)) {
+            return BreakpointManager.checkHitCondition(breakpoint.hitCondition, breakpoint.hitCount);
+        }
+        return true;
+    }
+
     public populateDataBreakpointInfoResponseBody(response: DebugProtocol.DataBreakpointInfoResponse, variableName: string, address: string, isRegister: boolean) {
         let variableDisplay;
         if (isRegister) {
@@ -487,6 +589,14 @@ export interface GdbBreakpoint extends DebugProtocol.Breakpoint {
     accessType?: GdbBreakpointAccessType;
     /** default message for the breakpoint */
     defaultMessage: string | undefined;
+    /** Expression to evaluate: the program stops only if it is true */
+    condition?: string;
+    /** Expression on the hit count to stop the program */
+    hitCondition?: string;
+    /** Number of times the breakpoint was hit with a true condition */
+    hitCount?: number;
+    /** Message to log instead of stopping, expressions in {} are interpolated */
+    logMessage?: string;
 }
 
 /**
@@ -1,10 +1,23 @@
 import { StatusBarAlignment, StatusBarItem, window, Disposable, TextDocument, Selection, Range } from 'vscode';
 import { NumberParser, ASMLine } from './parser';
 import { ExtensionState } from './extension';
+import { BlitterDecoder } from './blitter';
+import { StringUtils } from './stringUtils';
+import { PaulaCalculator, PaulaClock } from './audioConverter';
+
+/**
+ * Modes of the calculator
+ */
+export enum CalcMode {
+    ARITHMETIC,
+    MINTERM,
+    PAULA
+}
 
 export class CalcComponent {
     private statusBarItem: StatusBarItem | undefined;
     private numberParser = new NumberParser();
+    private mode = CalcMode.ARITHMETIC;
 
     public getStatusBar(): StatusBarItem | undefined {
         return this.statusBarItem;
@@ -32,6 +45,12 @@ export class CalcComponent {
                 if (docContent.length > 0) {
                     const definitionHandler = ExtensionState.getCurrent().getDefinitionHandler();
                     try {
+                        if (this.mode !== CalcMode.ARITHMETIC) {
+                            const [, description] = await this.calculateInMode(docContent);
+                            statusBarItemConst.text = description;
+                            statusBarItemConst.show();
+                            return;
+                        }
                         const result = await definitionHandler.evaluateFormula(docContent);
                         // Update the status bar
                         statusBarItemConst.text = this.formatResult(docContent, result);
@@ -73,6 +92,112 @@ export class CalcComponent {
         return await dHnd.evaluateFormula(expression);
     }
 
+    /**
+     * Returns true if the calculator is in minterm mode
+     */
+    public isMintermMode(): boolean {
+        return this.mode === CalcMode.MINTERM;
+    }
+
+    /**
+     * Returns true if the calculator is in Paula period mode
+     */
+    public isPaulaMode(): boolean {
+        return this.mode === CalcMode.PAULA;
+    }
+
+    /**
+     * Switches the calculator between the arithmetic and the minterm modes
+     */
+    public async toggleMintermMode(): Promise<void> {
+        await this.toggleMode(CalcMode.MINTERM, "minterm");
+    }
+
+    /**
+     * Switches the calculator between the arithmetic and the Paula period modes
+     */
+    public async togglePaulaMode(): Promise<void> {
+        await this.toggleMode(CalcMode.PAULA, "Paula period");
+    }
+
+    private async toggleMode(mode: CalcMode, name: string): Promise<void> {
+        this.mode = (this.mode === mode) ? CalcMode.ARITHMETIC : mode;
+        window.showInformationMessage(`Calculator ${name} mode ${(this.mode === mode) ? "enabled" : "disabled"}`);
+        await this.updateCalc();
+    }
+
+    /**
+     * Calculates an expression in the current minterm or Paula mode
+     * @param expression Expression to calculate
+     * @return The value to replace the expression and its description
+     */
+    private async calculateInMode(expression: string): Promise<[number, string]> {
+        if (this.mode === CalcMode.PAULA) {
+            return this.calculatePaula(expression);
+        }
+        return this.calculateMinterm(expression);
+    }
+
+    /**
+     * Calculates a minterm.
+     * A logic expression of the channels A, B and C gives the LF value and the USEx bits of BLTCON0,
+     * a numerical value gives the logic function of the BLTCON0 value.
+     * @param expression Logic expression or BLTCON0 value
+     * @return The BLTCON0 value and its description
+     */
+    public async calculateMinterm(expression: string): Promise<[number, string]> {
+        if (expression.match(/^[\sabc01()~!&*^|+]+$/i) && expression.match(/[abc]/i)) {
+            const minterm = BlitterDecoder.expressionToMinterm(expression);
+            const bltcon0 = BlitterDecoder.getUseBits(minterm) | minterm;
+            return [bltcon0, `LF $${this.formatHex(minterm, 2)}, BLTCON0 $${this.formatHex(bltcon0, 4)} (channels ${BlitterDecoder.getChannels(bltcon0).join(" ")})`];
+        }
+        const value = await this.calculate(expression);
+        if (value > 0xff) {
+            return [value, `BLTCON0 $${this.formatHex(value, 4)}: ${BlitterDecoder.describeRegister("BLTCON0", value)}`];
+        }
+        return [value, `LF $${this.formatHex(value, 2)}: D = ${BlitterDecoder.mintermToExpression(value)}`];
+    }
+
+    /**
+     * Converts between notes, frequencies and Paula periods.
+     * A note (e.g. C-2) gives its period, a frequency (e.g. 8287 Hz) gives the PAL and NTSC periods,
+     * any other expression is a period and gives the PAL and NTSC frequencies.
+     * @param expression Note, frequency or period expression
+     * @return The period and its description
+     */
+    public async calculatePaula(expression: string): Promise<[number, string]> {
+        const semitone = PaulaCalculator.parseNote(expression);
+        if (semitone !== undefined) {
+            const period = PaulaCalculator.noteToPeriod(semitone);
+            return [period, `${expression.trim().toUpperCase()}: period ${period}, ${this.formatFrequencies(period)}`];
+        }
+        const frequencyMatch = /^(.+?)\s*hz$/i.exec(expression.trim());
+        if (frequencyMatch) {
+            const frequency = await this.calculate(frequencyMatch[1]);
+            if (frequency <= 0) {
+                throw new Error("The frequency must be positive");
+            }
+            const palPeriod = PaulaCalculator.frequencyToPeriod(frequency, PaulaClock.PAL);
+            const ntscPeriod = PaulaCalculator.frequencyToPeriod(frequency, PaulaClock.NTSC);
+            return [palPeriod, `${frequency} Hz: period PAL ${palPeriod}, NTSC ${ntscPeriod} (${PaulaCalculator.periodToNote(palPeriod)})`];
+        }
+        const period = await this.calculate(expression);
+        if (period <= 0) {
+            throw new Error("The period must be positive");
+        }
+        return [period, `Period ${period}: ${this.formatFrequencies(period)} (${PaulaCalculator.periodToNote(period)})`];
+    }
+
+    private formatFrequencies(period: number): string {
+        const pal = PaulaCalculator.periodToFrequency(period, PaulaClock.PAL);
+        const ntsc = PaulaCalculator.periodToFrequency(period, PaulaClock.NTSC);
+        return `PAL ${Math.round(pal)} Hz, NTSC ${Math.round(ntsc)} Hz`;
+    }
+
+    private formatHex(value: number, digits: number): string {
+        return StringUtils.padStart(this.numberParser.hexToString(value, false), digits, "0");
+    }
+
     /**
      * Iterates over the selections
      * @param all view all elections
@@ -92,6 +217,18 @@ export class CalcComponent {
                     continue;
                 }
                 const text = document.getText(selection);
+                if (this.mode !== CalcMode.ARITHMETIC) {
+                    const [value, description] = await this.calculateInMode(text);
+                    if (replace) {
+                        const replacement = (this.mode === CalcMode.PAULA) ? value.toString(10) : `$${this.formatHex(value, 4)}`;
+                        await editor.edit((edit) => {
+                            edit.replace(selection, replacement);
+                        });
+                    } else {
+                        window.showInformationMessage(description);
+                    }
+                    continue;
+                }
                 const value = await this.calculate(text);
                 if (value !== undefined) {
                     let result: string;
@@ -127,6 +264,24 @@ export class CalcComponent {
      * Shows an input panel to calculate
      */
     public async showInputPanel(): Promise<void> {
+        if (this.mode !== CalcMode.ARITHMETIC) {
+            const value = await window.showInputBox((this.mode === CalcMode.PAULA) ? {
+                prompt: "Enter a note (e.g. C-2), a frequency (e.g. 8287 Hz) or a Paula period.",
+                placeHolder: "Note, frequency or period"
+            } : {
+                prompt: "Enter a logic expression of the channels A, B and C (e.g. A&B | ~A&C) or a BLTCON0 value.",
+                placeHolder: "Minterm"
+            });
+            if (value) {
+                try {
+                    const [, description] = await this.calculateInMode(value);
+                    window.showInformationMessage(description);
+                } catch (err) {
+                    window.showErrorMessage(err.message);
+                }
+            }
+            return;
+        }
         const value = await window.showInputBox({
             prompt: "Enter a Math Expression to evaluate.",
             placeHolder: "Expression"
@@ -3,9 +3,48 @@ import { ExecutorHelper } from "./execHelper";
 import { DebugInfo } from "./debugInfo";
 
 /**
- * Class to disassemble the m68k binaries
+ * Instruction disassembled with the labels of the addresses
  */
-export class Capstone {
+export interface LabeledInstruction {
+    address: number;
+    /** Bytes of the instruction in hexadecimal */
+    bytes: string;
+    mnemonic: string;
+    /** Operands with the labels, undefined if the instruction has none */
+    operands?: string;
+}
+
+/**
+ * Disassembler of the m68k binaries.
+ * The output has the cstool format: one instruction per line with the offset, the bytes and the instruction.
+ */
+export interface InstructionDisassembler {
+    /**
+     * Disassemble a buffer
+     * @param buffer Buffer to disassemble in hexadecimal
+     * @param cancellationToken Token to cancel the process
+     */
+    disassemble(buffer: string, cancellationToken?: CancellationToken): Promise<string>;
+    /**
+     * Disassemble an amiga hunk file
+     * @param filename File to disassemble
+     * @param cancellationToken Token to cancel the process
+     */
+    disassembleFile(filename: Uri, cancellationToken?: CancellationToken): Promise<string>;
+    /**
+     * Disassemble a buffer resolving the branch targets and the absolute addresses with labels.
+     * Optional: only the disassemblers decoding the operands implement it.
+     * @param buffer Buffer to disassemble in hexadecimal
+     * @param startAddress Address of the first byte
+     * @param labelResolver Resolver of the labels of the addresses
+     */
+    disassembleWithLabels?(buffer: string, startAddress: number, labelResolver: (address: number) => string | undefined): Array<LabeledInstruction>;
+}
+
+/**
+ * Class to disassemble the m68k binaries with the external cstool program
+ */
+export class Capstone implements InstructionDisassembler {
     /** Path to the capstone executable */
     private cstoolPath: string;
     /** Executor to run cstools */
@@ -0,0 +1,327 @@
+import * as vscode from 'vscode';
+import { M68kDefinitionHandler } from './definitionHandler';
+
+/**
+ * Conditional assembly directive of a source line
+ */
+export interface ConditionalDirective {
+    line: number;
+    /** Directive in lower case: if, ifd, ifnd, ifeq, ifne, else, endc... */
+    directive: string;
+    condition: string;
+}
+
+/**
+ * Checks if a line is assembled before a directive: its definitions are visible in the condition
+ */
+export type LineVisibility = (line: number) => boolean;
+
+/**
+ * Resolves the symbols and the expressions of the conditions
+ */
+export interface ConditionEvaluator {
+    isDefined(name: string, isVisible: LineVisibility): boolean;
+    evaluate(expression: string, isVisible: LineVisibility): Promise<number>;
+}
+
+/**
+ * State of an IF ... ENDC block during the evaluation
+ */
+interface ConditionalBlock {
+    /** The enclosing block is assembled */
+    parentActive: boolean;
+    /** The current branch is assembled */
+    active: boolean;
+    /** A branch has already been assembled */
+    taken: boolean;
+    /** The condition cannot be evaluated: all the branches are considered as assembled */
+    unknown: boolean;
+    /** First line of the current inactive branch, -1 if the branch is active */
+    inactiveStart: number;
+}
+
+/**
+ * Evaluates the conditional assembly directives as vasm
+ */
+export class ConditionalAssembly {
+    /** Directives depending on the macro parameters or on the assembler state: their blocks are considered as assembled */
+    static readonly UNKNOWN_IF_DIRECTIVES = ["ifc", "ifnc", "ifb", "ifnb", "ifmacrod", "ifmacrond", "ifp1"];
+    static readonly IF_DIRECTIVES = ["if", "ifd", "ifnd", "ifeq", "ifne", "ifgt", "ifge", "iflt", "ifle", ...ConditionalAssembly.UNKNOWN_IF_DIRECTIVES];
+    static readonly ELSE_DIRECTIVES = ["else", "elseif"];
+    static readonly END_DIRECTIVES = ["endc", "endif"];
+
+    /**
+     * Parses a line as a conditional assembly directive
+     * @param text Text of the line
+     * @param line Line number
+     * @return The directive or undefined if the line is not a conditional directive
+     */
+    public static parseDirective(text: string, line: number): ConditionalDirective | undefined {
+        const commentPos = text.indexOf(";");
+        const code = (commentPos >= 0) ? text.substring(0, commentPos) : text;
+        if (code.startsWith("*")) {
+            return undefined;
+        }
+        const words = code.trim().split(/\s+/);
+        // A word in the first column may be a label
+        const candidates = /^\s/.test(code) ? 1 : 2;
+        for (let i = 0; (i < candidates) && (i < words.length); i++) {
+            const directive = words[i].toLowerCase();
+            if (ConditionalAssembly.IF_DIRECTIVES.includes(directive) || ConditionalAssembly.ELSE_DIRECTIVES.includes(directive) || ConditionalAssembly.END_DIRECTIVES.includes(directive)) {
+                return {
+                    line: line,
+                    directive: directive,
+                    condition: words.slice(i + 1).join(" ")
+                };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Evaluates the condition of a directive
+     * @param directive IF or ELSEIF directive
+     * @param evaluator Evaluator of the symbols
+     * @param isVisible Lines of the visible definitions, all the preceding lines by default
+     * @return The result or undefined if it cannot be evaluated
+     */
+    public static async evaluateCondition(directive: ConditionalDirective, evaluator: ConditionEvaluator, isVisible: LineVisibility = line => line < directive.line): Promise<boolean | undefined> {
+        if (ConditionalAssembly.UNKNOWN_IF_DIRECTIVES.includes(directive.directive)) {
+            return undefined;
+        } else if (directive.directive === "ifd") {
+            return evaluator.isDefined(directive.condition, isVisible);
+        } else if (directive.directive === "ifnd") {
+            return !evaluator.isDefined(directive.condition, isVisible);
+        }
+        const value = await ConditionalAssembly.evaluateExpression(directive.condition, evaluator, isVisible);
+        if (value === undefined) {
+            return undefined;
+        }
+        switch (directive.directive) {
+            case "ifeq":
+                return value === 0;
+            case "ifgt":
+                return value > 0;
+            case "ifge":
+                return value >= 0;
+            case "iflt":
+                return value < 0;
+            case "ifle":
+                return value <= 0;
+            default:
+                return value !== 0;
+        }
+    }
+
+    /**
+     * Evaluates an expression with an optional comparison: the calculator does not handle them
+     * @param expression Expression to evaluate
+     * @param evaluator Evaluator of the symbols
+     * @param isVisible Lines of the visible definitions
+     * @return The value, 1 or 0 for a comparison, undefined if it cannot be evaluated
+     */
+    public static async evaluateExpression(expression: string, evaluator: ConditionEvaluator, isVisible: LineVisibility): Promise<number | undefined> {
+        try {
+            const match = /^([^<>=!]+)(==|=|!=|<>|<=|>=|<|>)([^<>=!]+)$/.exec(expression);
+            if (match) {
+                const left = await evaluator.evaluate(match[1].trim(), isVisible);
+                const right = await evaluator.evaluate(match[3].trim(), isVisible);
+                let result: boolean;
+                switch (match[2]) {
+                    case "<":
+                        result = left < right;
+                        break;
+                    case "<=":
+                        result = left <= right;
+                        break;
+                    case ">":
+                        result = left > right;
+                        break;
+                    case ">=":
+                        result = left >= right;
+                        break;
+                    case "!=":
+                    case "<>":
+                        result = left !== right;
+                        break;
+                    default:
+                        result = left === right;
+                }
+                return result ? 1 : 0;
+            }
+            return await evaluator.evaluate(expression.trim(), isVisible);
+        } catch (err) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Computes the lines which are not assembled.
+     * The blocks with a condition that cannot be evaluated are considered as assembled.
+     * The conditions are evaluated in the document order: only the definitions of the preceding assembled lines are visible.
+     * @param directives Conditional directives of the file
+     * @param evaluator Evaluator of the symbols
+     * @param lastLine Last line of the file, end of the unterminated blocks
+     * @return Ranges of the inactive lines, the directives lines are excluded
+     */
+    public static async getInactiveRanges(directives: Array<ConditionalDirective>, evaluator: ConditionEvaluator, lastLine: number): Promise<Array<vscode.Range>> {
+        const ranges = new Array<vscode.Range>();
+        const blocks = new Array<ConditionalBlock>();
+        const closeInactive = (block: ConditionalBlock, line: number) => {
+            if ((block.inactiveStart >= 0) && (block.inactiveStart <= line)) {
+                ranges.push(new vscode.Range(block.inactiveStart, 0, line, 0));
+            }
+            block.inactiveStart = -1;
+        };
+        const isInactive = (line: number) => ranges.some(r => (r.start.line <= line) && (line <= r.end.line)) ||
+            blocks.some(b => (b.inactiveStart >= 0) && (b.inactiveStart <= line));
+        for (const directive of directives) {
+            const isVisible = (line: number) => (line < directive.line) && !isInactive(line);
+            const current = blocks[blocks.length - 1];
+            if (ConditionalAssembly.IF_DIRECTIVES.includes(directive.directive)) {
+                const block: ConditionalBlock = {
+                    parentActive: !current || ((current.active || current.unknown) && current.parentActive),
+                    active: false,
+                    taken: true,
+                    unknown: false,
+                    inactiveStart: -1
+                };
+                if (block.parentActive) {
+                    const result = await ConditionalAssembly.evaluateCondition(directive, evaluator, isVisible);
+                    block.unknown = (result === undefined);
+                    block.active = (result === true);
+                    block.taken = block.active;
+                    if (!block.unknown && !block.active) {
+                        block.inactiveStart = directive.line + 1;
+                    }
+                }
+                blocks.push(block);
+            } else if (current && ConditionalAssembly.ELSE_DIRECTIVES.includes(directive.directive)) {
+                if (current.parentActive && !current.unknown) {
+                    closeInactive(current, directive.line - 1);
+                    if (current.taken) {
+                        current.active = false;
+                    } else if (directive.directive === "elseif") {
+                        const result = await ConditionalAssembly.evaluateCondition({ ...directive, directive: "if" }, evaluator, isVisible);
+                        current.unknown = (result === undefined);
+                        current.active = (result === true);
+                    } else {
+                        current.active = true;
+                    }
+                    current.taken = current.taken || current.active;
+                    if (!current.unknown && !current.active) {
+                        current.inactiveStart = directive.line + 1;
+                    }
+                }
+            } else if (current && ConditionalAssembly.END_DIRECTIVES.includes(directive.directive)) {
+                closeInactive(current, directive.line - 1);
+                blocks.pop();
+            }
+        }
+        for (const block of blocks) {
+            closeInactive(block, lastLine);
+        }
+        ranges.sort((a, b) => a.start.line - b.start.line);
+        return ranges;
+    }
+
+    /**
+     * Computes the folding ranges of the indented lines following a line, as the offside folding
+     * @param document Document to fold
+     * @return Folding ranges
+     */
+    public static getIndentationFoldingRanges(document: vscode.TextDocument): Array<vscode.FoldingRange> {
+        const ranges = new Array<vscode.FoldingRange>();
+        let start = -1;
+        let end = -1;
+        for (let i = 0; i < document.lineCount; i++) {
+            const text = document.lineAt(i).text;
+            if (text.trim().length > 0) {
+                if (/^\s/.test(text)) {
+                    end = i;
+                } else {
+                    if ((start >= 0) && (end > start)) {
+                        ranges.push(new vscode.FoldingRange(start, end));
+                    }
+                    start = i;
+                    end = i;
+                }
+            }
+        }
+        if ((start >= 0) && (end > start)) {
+            ranges.push(new vscode.FoldingRange(start, end));
+        }
+        return ranges;
+    }
+}
+
+/**
+ * Folds and dims the conditional assembly blocks which are not assembled
+ */
+export class ConditionalAssemblyProvider implements vscode.FoldingRangeProvider, vscode.Disposable {
+    static readonly UPDATE_DELAY = 500;
+    private definitionHandler: M68kDefinitionHandler;
+    private decorationType: vscode.TextEditorDecorationType;
+    private updateTimeout: NodeJS.Timeout | undefined;
+
+    /**
+     * Constructor
+     * @param definitionHandler Handler evaluating the conditions with the workspace variables
+     */
+    constructor(definitionHandler: M68kDefinitionHandler) {
+        this.definitionHandler = definitionHandler;
+        this.decorationType = vscode.window.createTextEditorDecorationType({
+            opacity: "0.5",
+            isWholeLine: true
+        });
+    }
+
+    public async provideFoldingRanges(document: vscode.TextDocument): Promise<vscode.FoldingRange[]> {
+        // Registering a provider replaces the indentation folding
+        const results = ConditionalAssembly.getIndentationFoldingRanges(document);
+        const inactiveRanges = await this.definitionHandler.getInactiveRanges(document);
+        for (const range of inactiveRanges) {
+            // Folded on the directive line
+            results.push(new vscode.FoldingRange(range.start.line - 1, range.end.line, vscode.FoldingRangeKind.Region));
+        }
+        return results;
+    }
+
+    /**
+     * Dims the inactive blocks of an editor
+     * @param editor Editor to update
+     */
+    public async updateDecorations(editor: vscode.TextEditor | undefined): Promise<void> {
+        if (editor && (editor.document.languageId === "m68k")) {
+            const inactiveRanges = await this.definitionHandler.getInactiveRanges(editor.document);
+            editor.setDecorations(this.decorationType, inactiveRanges);
+        }
+    }
+
+    /**
+     * Updates the decorations of the visible editors after the changes of a document
+     * @param document Changed document
+     */
+    public scheduleUpdate(document: vscode.TextDocument): void {
+        if (document.languageId === "m68k") {
+            if (this.updateTimeout) {
+                clearTimeout(this.updateTimeout);
+            }
+            this.updateTimeout = setTimeout(async () => {
+                this.updateTimeout = undefined;
+                for (const editor of vscode.window.visibleTextEditors) {
+                    if (editor.document === document) {
+                        await this.updateDecorations(editor);
+                    }
+                }
+            }, ConditionalAssemblyProvider.UPDATE_DELAY);
+        }
+    }
+
+    public dispose(): void {
+        if (this.updateTimeout) {
+            clearTimeout(this.updateTimeout);
+        }
+        this.decorationType.dispose();
+    }
+}
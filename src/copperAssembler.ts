@@ -0,0 +1,247 @@
+import { CopperInstruction } from "./copperDisassembler";
+import { MemoryLabelsRegistry } from "./customMemoryAddresses";
+
+/**
+ * Line of a copper list source
+ */
+interface CopperSourceLine {
+    /** Label and indentation before the instruction */
+    prefix: string;
+    /** Instruction without the comment */
+    instruction: string;
+}
+
+/**
+ * Copper list assembler.
+ *
+ * Parses the dc.w form produced by the disassembler and the symbolic form:
+ * - MOVE <register|$address>,<value>
+ * - WAIT <vpos>/<hpos> [MASK <vmask>/<hmask>] [BLIT]
+ * - SKIP <vpos>/<hpos> [MASK <vmask>/<hmask>] [BLIT]
+ * - END
+ * The CMOVE, CWAIT, CSKIP and CEND macro names are accepted too.
+ * The copper cannot write the registers below $40, and below $80 without the danger bit (CDANG of COPCON).
+ */
+export class CopperAssembler {
+    /** Key of the setting of the danger bit */
+    public static readonly DANGER_BIT_KEY = 'copper.dangerBit';
+    /** First register written by the copper with the danger bit */
+    private static readonly FIRST_DANGEROUS_REGISTER = 0x40;
+    /** First register written by the copper without the danger bit */
+    private static readonly FIRST_SAFE_REGISTER = 0x80;
+    private static readonly DCW_REGEXP = /^dc\.w\s+(.+)$/i;
+    private static readonly MOVE_REGEXP = /^c?move\s+([^,\s]+)\s*,\s*(\S+)$/i;
+    private static readonly CONDITION_REGEXP = /^c?(wait|skip)\s+([^/,\s]+)\s*[/,]\s*([^/,\s]+)(?:\s+mask\s+([^/,\s]+)\s*[/,]\s*([^/,\s]+))?(\s+blit)?$/i;
+    private static readonly END_REGEXP = /^c?end$/i;
+    /** The danger bit is set: the copper can write the registers from $40 */
+    private dangerBit: boolean;
+
+    /**
+     * Constructor
+     * @param dangerBit The danger bit (CDANG of COPCON) is set by the program
+     */
+    public constructor(dangerBit = false) {
+        this.dangerBit = dangerBit;
+    }
+
+    /**
+     * Assembles a copper list source
+     * @param text Source text
+     * @return Instructions
+     */
+    public assemble(text: string): Array<CopperInstruction> {
+        const instructions = new Array<CopperInstruction>();
+        const lines = text.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            try {
+                instructions.push(...this.assembleLine(lines[i]));
+            } catch (err) {
+                throw new Error(`Line ${i + 1}: ${err.message}`);
+            }
+        }
+        return instructions;
+    }
+
+    /**
+     * Assembles a line of a copper list
+     * @param line Line to assemble
+     * @return Instructions of the line, empty for a comment
+     */
+    public assembleLine(line: string): Array<CopperInstruction> {
+        const instruction = this.splitLine(line).instruction;
+        if (instruction.length === 0) {
+            return [];
+        }
+        let match = CopperAssembler.DCW_REGEXP.exec(instruction);
+        if (match) {
+            const words = match[1].split(",").map(v => this.parseValue(v.trim(), 0xffff));
+            if (words.length % 2 !== 0) {
+                throw new Error("A copper instruction needs two words");
+            }
+            const instructions = new Array<CopperInstruction>();
+            for (let i = 0; i < words.length; i += 2) {
+                instructions.push(this.createInstruction(words[i], words[i + 1]));
+            }
+            return instructions;
+        }
+        match = CopperAssembler.MOVE_REGEXP.exec(instruction);
+        if (match) {
+            const register = this.parseRegister(match[1]);
+            const value = this.parseValue(match[2], 0xffff);
+            return [this.createInstruction(register, value)];
+        }
+        match = CopperAssembler.CONDITION_REGEXP.exec(instruction);
+        if (match) {
+            const vertical = this.parseValue(match[2], 0xff);
+            const horizontal = this.parseValue(match[3], 0xfe);
+            let verticalMask = 0x7f;
+            let horizontalMask = 0xfe;
+            if (match[4] !== undefined) {
+                verticalMask = this.parseValue(match[4], 0x7f);
+                horizontalMask = this.parseValue(match[5], 0xfe);
+            }
+            if ((horizontal & 1) || (horizontalMask & 1)) {
+                throw new Error("The horizontal position must be even");
+            }
+            const bfd = match[6] ? 0 : 0x8000;
+            const skip = (match[1].toLowerCase() === "skip") ? 1 : 0;
+            return [this.createInstruction((vertical << 8) | horizontal | 1, bfd | (verticalMask << 8) | horizontalMask | skip)];
+        }
+        if (CopperAssembler.END_REGEXP.test(instruction)) {
+            return [this.createInstruction(0xffff, 0xfffe)];
+        }
+        throw new Error(`Invalid copper instruction '${instruction}'`);
+    }
+
+    /**
+     * Converts the instructions to binary
+     * @param instructions Instructions to convert
+     */
+    public toBinary(instructions: Array<CopperInstruction>): Buffer {
+        const buffer = Buffer.alloc(instructions.length * 4);
+        for (let i = 0; i < instructions.length; i++) {
+            buffer.writeUInt16BE(instructions[i].first, i * 4);
+            buffer.writeUInt16BE(instructions[i].second, i * 4 + 2);
+        }
+        return buffer;
+    }
+
+    /**
+     * Converts the instructions to dc.w source lines
+     * @param instructions Instructions to convert
+     * @param indent Indentation of the lines
+     */
+    public toSource(instructions: Array<CopperInstruction>, indent = "    "): string {
+        return instructions.map(i => indent + i.toString()).join("\n");
+    }
+
+    /**
+     * Switches a copper list source between the dc.w form and the symbolic form.
+     * If all the instructions are dc.w lines, they are converted to the symbolic form,
+     * otherwise the lines are assembled to dc.w lines.
+     * The labels, indentation and comment lines are kept.
+     * @param text Source text
+     * @return Converted text
+     */
+    public toggleSource(text: string): string {
+        const lines = text.split(/\r?\n/);
+        const sourceLines = lines.map(l => this.splitLine(l));
+        const toSymbolic = sourceLines.every(l => (l.instruction.length === 0) || CopperAssembler.DCW_REGEXP.test(l.instruction));
+        const output = new Array<string>();
+        for (let i = 0; i < lines.length; i++) {
+            const sourceLine = sourceLines[i];
+            if (sourceLine.instruction.length === 0) {
+                output.push(lines[i]);
+                continue;
+            }
+            let instructions: Array<CopperInstruction>;
+            try {
+                instructions = this.assembleLine(lines[i]);
+            } catch (err) {
+                throw new Error(`Line ${i + 1}: ${err.message}`);
+            }
+            // The next instructions of the line are aligned after the label
+            const indent = sourceLine.prefix.replace(/\S/g, " ");
+            for (let j = 0; j < instructions.length; j++) {
+                const prefix = (j === 0) ? sourceLine.prefix : indent;
+                const instruction = toSymbolic ? instructions[j].getSymbolicInstruction() : instructions[j].toString();
+                output.push(prefix + instruction);
+            }
+        }
+        return output.join("\n");
+    }
+
+    private createInstruction(first: number, second: number): CopperInstruction {
+        return CopperInstruction.parse(this.formatWord(first) + this.formatWord(second));
+    }
+
+    private formatWord(value: number): string {
+        return value.toString(16).padStart(4, "0");
+    }
+
+    /**
+     * Splits the label and the comment of a line
+     * @param line Line to split
+     */
+    private splitLine(line: string): CopperSourceLine {
+        if (/^\s*[*;]/.test(line)) {
+            return { prefix: line, instruction: "" };
+        }
+        const commentPos = line.indexOf(";");
+        const code = (commentPos >= 0) ? line.substring(0, commentPos) : line;
+        const trimmed = code.trim();
+        if (/^\s/.test(code) || (!/^\S+:/.test(trimmed) && this.isInstruction(trimmed))) {
+            // Indented or selected without the indentation
+            return { prefix: code.substring(0, code.length - code.trimStart().length), instruction: trimmed };
+        }
+        // Label at the first column
+        const match = /^(\S+\s*)(.*)$/.exec(trimmed);
+        if (match) {
+            return { prefix: match[1], instruction: match[2] };
+        }
+        return { prefix: "", instruction: "" };
+    }
+
+    private isInstruction(text: string): boolean {
+        return CopperAssembler.DCW_REGEXP.test(text) || CopperAssembler.MOVE_REGEXP.test(text) || CopperAssembler.CONDITION_REGEXP.test(text) || CopperAssembler.END_REGEXP.test(text);
+    }
+
+    private parseRegister(register: string): number {
+        let address = MemoryLabelsRegistry.getCustomAddress(register.toUpperCase());
+        if (address === undefined) {
+            address = this.parseValue(register, 0xdff1fe);
+        }
+        if (address >= 0xdff000) {
+            address -= 0xdff000;
+        }
+        if ((address & 1) || (address > 0x1fe)) {
+            throw new Error(`Invalid copper register '${register}'`);
+        }
+        if (address < CopperAssembler.FIRST_DANGEROUS_REGISTER) {
+            throw new Error(`The copper cannot write the register '${register}'`);
+        }
+        if (!this.dangerBit && (address < CopperAssembler.FIRST_SAFE_REGISTER)) {
+            throw new Error(`The copper writes the register '${register}' only with the danger bit (CDANG of COPCON)`);
+        }
+        return address;
+    }
+
+    private parseValue(value: string, max: number): number {
+        let parsed: number;
+        if (/^\$[\da-f]+$/i.test(value)) {
+            parsed = parseInt(value.substring(1), 16);
+        } else if (/^0x[\da-f]+$/i.test(value)) {
+            parsed = parseInt(value.substring(2), 16);
+        } else if (/^%[01]+$/.test(value)) {
+            parsed = parseInt(value.substring(1), 2);
+        } else if (/^\d+$/.test(value)) {
+            parsed = parseInt(value, 10);
+        } else {
+            throw new Error(`Invalid value '${value}'`);
+        }
+        if (parsed > max) {
+            throw new Error(`Value '${value}' out of range (max $${max.toString(16)})`);
+        }
+        return parsed;
+    }
+}
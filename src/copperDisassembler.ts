@@ -40,6 +40,12 @@ export class CopperInstruction {
     public getAsmInstruction(): string {
         return `dc.w $${this.format(this.first)},$${this.format(this.second)}`;
     }
+    /**
+     * Instruction in the symbolic form parsed by the copper assembler
+     */
+    public getSymbolicInstruction(): string {
+        return this.getAsmInstruction();
+    }
     public getInstructionBytes(): string {
         const f = this.format(this.first);
         const s = this.format(this.second);
@@ -80,6 +86,10 @@ export class CopperMove extends CopperInstruction {
         const value = `$${this.format(this.RD)}`;
         return `${inst}; ${l} := ${value}`;
     }
+    public getSymbolicInstruction(): string {
+        const l = this.label ? this.label : `$${this.format(this.DA)}`;
+        return `MOVE ${l},$${this.format(this.RD)}`;
+    }
 }
 export class CopperCondition extends CopperInstruction {
     /** Vertical beam position unmasked */
@@ -106,6 +116,24 @@ export class CopperCondition extends CopperInstruction {
         this.vertical = this.VP & this.VE;
         this.horizontal = this.HP & this.HE;
     }
+    /**
+     * Symbolic form of the condition: "<name> $vp/$hp [MASK $ve/$he] [BLIT]"
+     * @param name Name of the instruction
+     */
+    protected getSymbolicCondition(name: string): string {
+        let str = `${name} $${this.formatByte(this.VP)}/$${this.formatByte(this.HP)}`;
+        const verticalMask = (this.second >> 8) & 0x7f;
+        if ((verticalMask !== 0x7f) || (this.HE !== 0xfe)) {
+            str += ` MASK $${this.formatByte(verticalMask)}/$${this.formatByte(this.HE)}`;
+        }
+        if (this.BFD === 0) {
+            str += " BLIT";
+        }
+        return str;
+    }
+    private formatByte(value: number): string {
+        return StringUtils.padStart(value.toString(16), 2, "0");
+    }
 }
 export class CopperWait extends CopperCondition {
     constructor(first: number, second: number) {
@@ -130,6 +158,12 @@ export class CopperWait extends CopperCondition {
             return str + wait.join(' and ');
         }
     }
+    public getSymbolicInstruction(): string {
+        if (this.isEnd()) {
+            return "END";
+        }
+        return this.getSymbolicCondition("WAIT");
+    }
     public isEnd(): boolean {
         return ((this.first === 0xffff) && (this.second === 0xfffe));
     }
@@ -142,6 +176,9 @@ export class CopperSkip extends CopperCondition {
         const inst = this.getPaddedAsmInstruction();
         return `${inst}; Skip if vpos >= 0x${this.vertical.toString(16)} and hpos >= 0x${this.horizontal.toString(16)}`;
     }
+    public getSymbolicInstruction(): string {
+        return this.getSymbolicCondition("SKIP");
+    }
 }
 
 /**
@@ -0,0 +1,332 @@
+import * as vscode from 'vscode';
+import { ConfigurationHelper } from './configurationHelper';
+import { CopperAssembler } from './copperAssembler';
+import { CopperDisassembler, CopperInstruction, CopperMove, CopperSkip, CopperWait } from './copperDisassembler';
+import { MemoryLabelsRegistry } from './customMemoryAddresses';
+import { DebugVariableResolver } from './debugVariableResolver';
+import { StringUtils } from './stringUtils';
+import { WebviewUtils } from './webviewUtils';
+
+/**
+ * Register change of the copper list
+ */
+export interface CopperTimelineMove {
+    /** Register name or address */
+    register: string;
+    value: number;
+    /** Html color of a COLORxx register */
+    color?: string;
+}
+
+/**
+ * Point of the copper list: beam position and register changes
+ */
+export interface CopperTimelineEvent {
+    /** Index of the wait instruction, -1 for the start of the list */
+    index: number;
+    /** Vertical beam position, the lines after 255 are unwrapped */
+    vertical: number;
+    horizontal: number;
+    /** True if the wait is also waiting for the blitter */
+    blitter: boolean;
+    /** Skips found after the wait */
+    skips: Array<CopperSkip>;
+    moves: Array<CopperTimelineMove>;
+}
+
+/**
+ * Builds the timeline of a copper list
+ */
+export class CopperTimeline {
+    /** Lines of a PAL frame */
+    public static readonly LINES = 313;
+    /** Horizontal positions of a line */
+    public static readonly COLUMNS = 0xe3;
+
+    /**
+     * Groups the moves of the copper list by wait position
+     * @param instructions Copper instructions
+     * @return Events of the timeline
+     */
+    public static build(instructions: Array<CopperInstruction>): Array<CopperTimelineEvent> {
+        const events = new Array<CopperTimelineEvent>();
+        let current: CopperTimelineEvent = { index: -1, vertical: 0, horizontal: 0, blitter: false, skips: [], moves: [] };
+        let lineOffset = 0;
+        for (let i = 0; i < instructions.length; i++) {
+            const instruction = instructions[i];
+            if (instruction instanceof CopperWait) {
+                if (instruction.isEnd()) {
+                    break;
+                }
+                if ((current.moves.length > 0) || (current.skips.length > 0) || (current.index >= 0)) {
+                    events.push(current);
+                }
+                // The vertical position is 8 bits: a lower position is after the line 255
+                let vertical = instruction.vertical + lineOffset;
+                if (vertical < current.vertical) {
+                    lineOffset += 0x100;
+                    vertical += 0x100;
+                }
+                current = { index: i, vertical: vertical, horizontal: instruction.horizontal, blitter: instruction.BFD === 0, skips: [], moves: [] };
+            } else if (instruction instanceof CopperSkip) {
+                current.skips.push(instruction);
+            } else if (instruction instanceof CopperMove) {
+                const register = instruction.label ? instruction.label : `$${StringUtils.padStart(instruction.DA.toString(16), 3, "0")}`;
+                const move: CopperTimelineMove = { register: register, value: instruction.RD };
+                if (/^COLOR\d\d$/.test(register)) {
+                    move.color = CopperTimeline.toHtmlColor(instruction.RD);
+                }
+                current.moves.push(move);
+            }
+        }
+        if ((current.moves.length > 0) || (current.skips.length > 0) || (current.index >= 0)) {
+            events.push(current);
+        }
+        return events;
+    }
+
+    /**
+     * Retrieves the values of the registers set by the moves of a copper list
+     * @param instructions Instructions of the copper list
+     * @return The last values of the registers by name
+     */
+    public static getRegisterValues(instructions: Array<CopperInstruction>): Map<string, number> {
+        const values = new Map<string, number>();
+        for (const instruction of instructions) {
+            if ((instruction instanceof CopperWait) && instruction.isEnd()) {
+                break;
+            } else if ((instruction instanceof CopperMove) && instruction.label) {
+                values.set(instruction.label, instruction.RD);
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Retrieves a pointer from the values of its high and low word registers
+     * @param values Values of the registers by name
+     * @param name Name of the pointer without the H/L suffix (ex: BPL1PT)
+     * @return The pointer or undefined if the copper list does not set it
+     */
+    public static getPointer(values: Map<string, number>, name: string): number | undefined {
+        const high = values.get(`${name}H`);
+        const low = values.get(`${name}L`);
+        if ((high === undefined) && (low === undefined)) {
+            return undefined;
+        }
+        return ((((high !== undefined) ? high : 0) << 16) | ((low !== undefined) ? low : 0)) >>> 0;
+    }
+
+    /**
+     * Converts a 12 bits color to html
+     * @param value Color register value
+     */
+    public static toHtmlColor(value: number): string {
+        return `#${((value >> 8) & 0xf).toString(16)}${((value >> 4) & 0xf).toString(16)}${(value & 0xf).toString(16)}`;
+    }
+
+    /**
+     * Renders the raster diagram: the background color bands and the wait positions
+     * @param events Events of the timeline
+     */
+    public static renderRaster(events: Array<CopperTimelineEvent>): string {
+        const lines = Math.max(CopperTimeline.LINES, ...events.map(e => e.vertical + 1));
+        let svg = `<svg class="raster" viewBox="0 0 ${CopperTimeline.COLUMNS} ${lines}" preserveAspectRatio="none">`;
+        svg += `<rect x="0" y="0" width="${CopperTimeline.COLUMNS}" height="${lines}" fill="#000"/>`;
+        // Background color bands
+        let background: string | undefined = undefined;
+        let start = 0;
+        for (const event of events) {
+            const move = event.moves.find(m => m.register === "COLOR00");
+            if (move && move.color) {
+                if (background) {
+                    svg += CopperTimeline.renderBand(start, event.vertical, background);
+                }
+                background = move.color;
+                start = event.vertical;
+            }
+        }
+        if (background) {
+            svg += CopperTimeline.renderBand(start, lines, background);
+        }
+        // Grid
+        for (let line = 0x20; line < lines; line += 0x20) {
+            svg += `<line class="grid" x1="0" y1="${line}" x2="${CopperTimeline.COLUMNS}" y2="${line}" stroke="#888" stroke-width="0.3"/>`;
+        }
+        // Waits
+        for (const event of events) {
+            if (event.index >= 0) {
+                const title = WebviewUtils.escapeHtml(`${CopperTimeline.formatPosition(event)}: ${event.moves.map(m => `${m.register} := $${CopperTimeline.formatValue(m.value)}`).join(", ")}`);
+                svg += `<circle class="wait" cx="${event.horizontal}" cy="${event.vertical}" r="1.5" fill="#fff" stroke="#f00" stroke-width="0.5"><title>${title}</title></circle>`;
+            }
+        }
+        return svg + "</svg>";
+    }
+
+    private static renderBand(start: number, end: number, color: string): string {
+        return `<rect class="band" x="0" y="${start}" width="${CopperTimeline.COLUMNS}" height="${end - start}" fill="${color}"/>`;
+    }
+
+    /**
+     * Renders the table of the register changes
+     * @param events Events of the timeline
+     */
+    public static renderTable(events: Array<CopperTimelineEvent>): string {
+        let html = "<table><tr><th>Position</th><th>Register changes</th></tr>";
+        for (const event of events) {
+            let position = CopperTimeline.formatPosition(event);
+            if (event.blitter) {
+                position += " + blitter";
+            }
+            const changes = event.moves.map(m => {
+                let change = `${WebviewUtils.escapeHtml(m.register)} := $${CopperTimeline.formatValue(m.value)}`;
+                if (m.color) {
+                    change += ` <svg class="swatch" width="12" height="12"><rect width="12" height="12" fill="${m.color}" stroke="#888"/></svg>`;
+                }
+                return change;
+            });
+            for (const skip of event.skips) {
+                changes.push(`SKIP if $${skip.vertical.toString(16)}/$${skip.horizontal.toString(16)}`);
+            }
+            html += `<tr><td>${position}</td><td>${changes.join("<br/>")}</td></tr>`;
+        }
+        return html + "</table>";
+    }
+
+    private static formatPosition(event: CopperTimelineEvent): string {
+        if (event.index < 0) {
+            return "Start";
+        }
+        return `line ${event.vertical} ($${event.vertical.toString(16)}) / hpos $${event.horizontal.toString(16)}`;
+    }
+
+    private static formatValue(value: number): string {
+        return StringUtils.padStart(value.toString(16), 4, "0");
+    }
+}
+
+/**
+ * Reads the memory with the debug adapter requests
+ */
+export class DebugSessionMemoryResolver implements DebugVariableResolver {
+    private session: vscode.DebugSession;
+
+    public constructor(session: vscode.DebugSession) {
+        this.session = session;
+    }
+
+    public async getMemory(address: number, size: number): Promise<string> {
+        const response = await this.session.customRequest('readMemory', { memoryReference: address.toString(), count: size });
+        return StringUtils.base64ToHex(response.data);
+    }
+
+    public async getVariableValue(): Promise<string> {
+        throw new Error("Variables are not available");
+    }
+
+    public async getVariablePointedMemory(): Promise<string> {
+        throw new Error("Variables are not available");
+    }
+}
+
+/**
+ * Webview panel showing a copper list timeline
+ */
+export class CopperTimelinePanel {
+    public static readonly VIEW_TYPE = 'copperTimeline';
+    /** Size of the memory read for a copper list */
+    private static readonly CHUNK_SIZE = 0x400;
+    private static readonly MAX_SIZE = 0x10000;
+
+    /**
+     * Shows the timeline of the selected copper list or the copper list of the debugged program
+     */
+    public static async showCopperList(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (editor && !editor.selection.isEmpty) {
+            const dangerBit = ConfigurationHelper.retrieveBooleanProperty(ConfigurationHelper.getDefaultConfiguration(editor.document.uri), CopperAssembler.DANGER_BIT_KEY, false);
+            const instructions = new CopperAssembler(dangerBit).assemble(editor.document.getText(editor.selection));
+            CopperTimelinePanel.show("Copper timeline: selection", instructions);
+        } else if (vscode.debug.activeDebugSession) {
+            const resolver = new DebugSessionMemoryResolver(vscode.debug.activeDebugSession);
+            const address = await MemoryLabelsRegistry.getCopperAddress(1, resolver);
+            const instructions = await CopperTimelinePanel.readCopperList(address, resolver);
+            CopperTimelinePanel.show(`Copper timeline: $${address.toString(16)}`, instructions);
+        } else {
+            throw new Error("Select a copper list or start a debug session");
+        }
+    }
+
+    /**
+     * Reads the registers set by the copper list of the debugged program.
+     * The custom registers are write only: their values are retrieved from the copper list.
+     * @param resolver Memory resolver
+     * @return The last values of the registers by name
+     */
+    public static async readCopperRegisters(resolver: DebugVariableResolver): Promise<Map<string, number>> {
+        const address = await MemoryLabelsRegistry.getCopperAddress(1, resolver);
+        if (address === 0) {
+            return new Map<string, number>();
+        }
+        return CopperTimeline.getRegisterValues(await CopperTimelinePanel.readCopperList(address, resolver));
+    }
+
+    /**
+     * Reads a copper list in memory until the end instruction
+     * @param address Address of the copper list
+     * @param resolver Memory resolver
+     */
+    public static async readCopperList(address: number, resolver: DebugVariableResolver): Promise<Array<CopperInstruction>> {
+        let memory = "";
+        let instructions = new Array<CopperInstruction>();
+        while (memory.length / 2 < CopperTimelinePanel.MAX_SIZE) {
+            memory += await resolver.getMemory(address + memory.length / 2, CopperTimelinePanel.CHUNK_SIZE);
+            instructions = new CopperDisassembler(memory).disassemble();
+            const last = instructions[instructions.length - 1];
+            if ((last instanceof CopperWait) && last.isEnd()) {
+                break;
+            }
+        }
+        return instructions;
+    }
+
+    /**
+     * Opens a panel with the timeline
+     * @param title Title of the panel
+     * @param instructions Copper instructions
+     */
+    public static show(title: string, instructions: Array<CopperInstruction>): vscode.WebviewPanel {
+        const panel = vscode.window.createWebviewPanel(CopperTimelinePanel.VIEW_TYPE, title, vscode.ViewColumn.Beside, {});
+        panel.webview.html = CopperTimelinePanel.getHtml(title, CopperTimeline.build(instructions));
+        return panel;
+    }
+
+    /**
+     * Html of the panel
+     * @param title Title of the page
+     * @param events Events of the timeline
+     */
+    public static getHtml(title: string, events: Array<CopperTimelineEvent>): string {
+        const nonce = WebviewUtils.getNonce();
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>${WebviewUtils.escapeHtml(title)}</title>
+                <style nonce="${nonce}">
+                    body { font-family: var(--vscode-editor-font-family); display: flex; align-items: flex-start; }
+                    svg.raster { width: 454px; height: 626px; flex: none; margin-right: 16px; }
+                    th, td { text-align: left; vertical-align: top; padding: 2px 8px; }
+                    svg.swatch { vertical-align: middle; }
+                </style>
+            </head>
+            <body>
+                ${CopperTimeline.renderRaster(events)}
+                ${CopperTimeline.renderTable(events)}
+            </body>
+        </html>`;
+    }
+}
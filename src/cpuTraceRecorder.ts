@@ -0,0 +1,326 @@
+import { InstructionDisassembler } from "./capstone";
+import { GdbProxy } from "./gdbProxy";
+import { GdbRegister } from "./gdbProxyCore";
+import { DebugExpressionHelper } from "./debugExpressionHelper";
+
+/** Memory overwritten by an instruction */
+export interface MemoryWriteRecord {
+    /** Address of the write */
+    address: number;
+    /** Memory content before the write (hex string) */
+    previousValue: string;
+}
+
+/** State of the cpu recorded before resuming the execution */
+export interface CpuTraceSnapshot {
+    /** Values of the registers */
+    registers: Array<GdbRegister>;
+    /** Memory that will be overwritten by the next instruction */
+    memoryWrites: Array<MemoryWriteRecord>;
+    /** Set if the memory written by the resumed execution was not captured */
+    uncapturedMemory?: UncapturedMemoryReason;
+}
+
+/** Reason why the memory written after a snapshot was not captured */
+export enum UncapturedMemoryReason {
+    /** Many instructions were executed by a continue */
+    CONTINUE,
+    /** A whole subroutine was executed by a step over */
+    SUBROUTINE
+}
+
+/** Way the execution is resumed after the record */
+export enum ResumeMode {
+    /** One instruction is executed */
+    STEP,
+    /** One instruction is executed, or a whole subroutine for a call */
+    STEP_OVER,
+    /** Many instructions are executed */
+    CONTINUE
+}
+
+/**
+ * Records the cpu states to step back in the execution history.
+ *
+ * Before each step the registers are stored in a ring buffer with the memory
+ * destination of the instruction at pc. Stepping back restores the registers and the memory.
+ * The memory written by the instructions of a continue or of a stepped over subroutine is unknown:
+ * the snapshot is recorded with a marker, stepping back across it only restores the registers.
+ */
+export class CpuTraceRecorder {
+    /** Default size of the ring buffer */
+    public static readonly DEFAULT_BUFFER_SIZE = 1000;
+    /** Names of the registers to record */
+    private static readonly RECORDED_REGISTERS = /^([ad][0-7]|pc|sr)$/;
+    /** Sizes in bytes for the size suffixes */
+    private static readonly SIZES_IN_BYTES: { [key: string]: number } = { b: 1, w: 2, l: 4, s: 4, d: 8, x: 12, p: 12 };
+    /** Instructions without memory write */
+    private static readonly NO_WRITE_INSTRUCTIONS = /^(b(cc|cs|eq|ge|gt|hi|le|ls|lt|mi|ne|pl|vc|vs|ra)|db\w+|jmp|cmp\w*|tst|btst|chk|lea|nop|rts|rte|rtr|trap\w*|stop|illegal|reset|unlk|ext\w*|swap|exg|moveq)$/;
+    /** Instructions executing a subroutine */
+    private static readonly CALL_INSTRUCTIONS = /^(jsr|bsr|trap)\b/i;
+    /** Proxy to Gdb */
+    private gdbProxy: GdbProxy;
+    /** Tool to disassemble the instruction at pc */
+    private capstone?: InstructionDisassembler;
+    /** Helper to parse the disassembled code */
+    private debugExpressionHelper = new DebugExpressionHelper();
+    /** Recorded states */
+    private snapshots = new Array<CpuTraceSnapshot>();
+    /** Size of the ring buffer */
+    private bufferSize: number;
+    /** Record activated */
+    private enabled = false;
+
+    /**
+     * Constructor
+     * @param gdbProxy Proxy to Gdb
+     * @param bufferSize Maximum count of recorded states
+     */
+    public constructor(gdbProxy: GdbProxy, bufferSize?: number) {
+        this.gdbProxy = gdbProxy;
+        this.bufferSize = (bufferSize && bufferSize > 0) ? bufferSize : CpuTraceRecorder.DEFAULT_BUFFER_SIZE;
+    }
+
+    /**
+     * Sets the disassembler used to find the memory writes
+     * @param capstone Instruction disassembler
+     */
+    public setCapstone(capstone: InstructionDisassembler | undefined): void {
+        this.capstone = capstone;
+    }
+
+    /**
+     * Activates or deactivates the record. The history is cleared on deactivation.
+     * @param enabled true to activate
+     */
+    public setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        if (!enabled) {
+            this.clear();
+        }
+    }
+
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Clears the history
+     */
+    public clear(): void {
+        this.snapshots = new Array<CpuTraceSnapshot>();
+    }
+
+    /**
+     * Count of recorded states
+     */
+    public getHistoryLength(): number {
+        return this.snapshots.length;
+    }
+
+    /**
+     * Records the current cpu state before resuming the execution
+     * @param mode Way the execution will be resumed
+     * @return The recorded state, undefined if the record is disabled
+     */
+    public async record(mode = ResumeMode.STEP): Promise<CpuTraceSnapshot | undefined> {
+        if (!this.enabled) {
+            return undefined;
+        }
+        let uncapturedMemory: UncapturedMemoryReason | undefined;
+        if (mode === ResumeMode.CONTINUE) {
+            uncapturedMemory = UncapturedMemoryReason.CONTINUE;
+        }
+        const registers = (await this.gdbProxy.registers(null, null)).filter(r => CpuTraceRecorder.RECORDED_REGISTERS.test(r.name));
+        const memoryWrites = new Array<MemoryWriteRecord>();
+        const pc = registers.find(r => r.name === "pc");
+        if (this.capstone && pc) {
+            const memory = await this.gdbProxy.getMemory(pc.value, 10);
+            const code = await this.capstone.disassemble(memory);
+            const [, instructions] = this.debugExpressionHelper.processOutputFromDisassembler(code, pc.value);
+            if (instructions.length > 0) {
+                if ((mode === ResumeMode.STEP_OVER) && CpuTraceRecorder.CALL_INSTRUCTIONS.test(instructions[0].instruction.trim())) {
+                    // The whole subroutine will be executed
+                    uncapturedMemory = UncapturedMemoryReason.SUBROUTINE;
+                }
+                const write = CpuTraceRecorder.getMemoryWrite(instructions[0].instruction, registers);
+                if (write) {
+                    const [address, size] = write;
+                    memoryWrites.push({
+                        address: address,
+                        previousValue: await this.gdbProxy.getMemory(address, size)
+                    });
+                }
+            }
+        }
+        const snapshot = <CpuTraceSnapshot>{
+            registers: registers,
+            memoryWrites: memoryWrites
+        };
+        if (uncapturedMemory !== undefined) {
+            snapshot.uncapturedMemory = uncapturedMemory;
+        }
+        this.snapshots.push(snapshot);
+        while (this.snapshots.length > this.bufferSize) {
+            this.snapshots.shift();
+        }
+        return snapshot;
+    }
+
+    /**
+     * Restores the last recorded state and removes it from the history
+     * @return The restored state or undefined if the history is empty
+     */
+    public async stepBack(): Promise<CpuTraceSnapshot | undefined> {
+        const snapshot = this.snapshots.pop();
+        if (snapshot) {
+            for (let i = snapshot.memoryWrites.length - 1; i >= 0; i--) {
+                const write = snapshot.memoryWrites[i];
+                await this.gdbProxy.setMemory(write.address, write.previousValue);
+            }
+            for (const r of snapshot.registers) {
+                await this.gdbProxy.setRegister(r.name, r.value.toString(16));
+            }
+        }
+        return snapshot;
+    }
+
+    /**
+     * Finds the memory written by an instruction
+     * @param instruction Disassembled instruction (ex: 'move.l    d0, $4(a1)')
+     * @param registers Values of the registers before the execution
+     * @return [address, size] of the memory written or undefined
+     */
+    public static getMemoryWrite(instruction: string, registers: Array<GdbRegister>): [number, number] | undefined {
+        const elms = instruction.trim().split(/\s+/);
+        const mnemonicElms = elms[0].toLowerCase().split('.');
+        const mnemonic = mnemonicElms[0];
+        let size = 2;
+        if (mnemonicElms.length > 1 && CpuTraceRecorder.SIZES_IN_BYTES[mnemonicElms[1]]) {
+            size = CpuTraceRecorder.SIZES_IN_BYTES[mnemonicElms[1]];
+        } else if (/^(bset|bclr|bchg|s\w\w|tas|nbcd|abcd|sbcd)$/.test(mnemonic)) {
+            size = 1;
+        }
+        if (/^(jsr|bsr|pea|link)$/.test(mnemonic)) {
+            return [(CpuTraceRecorder.getRegisterValue("a7", registers) - 4) >>> 0, 4];
+        }
+        if (CpuTraceRecorder.NO_WRITE_INSTRUCTIONS.test(mnemonic) || elms.length < 2) {
+            return undefined;
+        }
+        const operands = CpuTraceRecorder.splitOperands(elms.slice(1).join(""));
+        const destination = operands[operands.length - 1];
+        if (mnemonic === "movem") {
+            if (operands.length < 2 || /^[ad][0-7]([/-][ad][0-7])*$/i.test(destination)) {
+                return undefined;
+            }
+            size = size * CpuTraceRecorder.countRegisters(operands[0]);
+        }
+        const address = CpuTraceRecorder.getEffectiveAddress(destination, registers);
+        if (address !== undefined) {
+            if (destination.startsWith("-(")) {
+                return [(address - size) >>> 0, size];
+            }
+            return [address >>> 0, size];
+        }
+        return undefined;
+    }
+
+    /**
+     * Computes an effective address of a memory operand
+     * @param operand Operand
+     * @param registers Values of the registers
+     * @return the address or undefined if it is not a memory operand
+     */
+    private static getEffectiveAddress(operand: string, registers: Array<GdbRegister>): number | undefined {
+        const indirect = /^(-)?(\$?[\da-f]*)\(([ad][0-7]|sp|pc)(,([ad][0-7])(\.[wl])?(\*([1248]))?)?\)\+?$/i.exec(operand);
+        if (indirect) {
+            let address = CpuTraceRecorder.getRegisterValue(indirect[3].toLowerCase(), registers);
+            if (indirect[2] && indirect[2].length > 0) {
+                const displacement = CpuTraceRecorder.parseNumber(indirect[2]);
+                address += indirect[1] ? -displacement : displacement;
+            }
+            if (indirect[5]) {
+                let index = CpuTraceRecorder.getRegisterValue(indirect[5].toLowerCase(), registers);
+                if (indirect[6] && indirect[6].toLowerCase() === ".w") {
+                    index = (index << 16) >> 16;
+                }
+                if (indirect[8]) {
+                    index *= parseInt(indirect[8]);
+                }
+                address += index;
+            }
+            return address >>> 0;
+        }
+        const absolute = /^(\$[\da-f]+|\d+)(\.[wl])?$/i.exec(operand);
+        if (absolute) {
+            let address = CpuTraceRecorder.parseNumber(absolute[1]);
+            if (absolute[2] && absolute[2].toLowerCase() === ".w") {
+                address = (address << 16) >> 16;
+            }
+            return address >>> 0;
+        }
+        return undefined;
+    }
+
+    /**
+     * Splits the operands outside of the parenthesis
+     * @param operands Operands string
+     * @return list of operands
+     */
+    private static splitOperands(operands: string): Array<string> {
+        const result = new Array<string>();
+        let depth = 0;
+        let current = "";
+        for (const c of operands) {
+            if (c === '(') {
+                depth++;
+            } else if (c === ')') {
+                depth--;
+            }
+            if (c === ',' && depth === 0) {
+                result.push(current);
+                current = "";
+            } else {
+                current += c;
+            }
+        }
+        result.push(current);
+        return result;
+    }
+
+    /**
+     * Counts the registers in a movem register list
+     * @param registerList list like d0-d7/a0-a6
+     * @return Count of registers
+     */
+    private static countRegisters(registerList: string): number {
+        let count = 0;
+        for (const part of registerList.split('/')) {
+            const range = /^([ad])([0-7])-([ad])([0-7])$/i.exec(part);
+            if (range) {
+                const start = (range[1].toLowerCase() === 'a' ? 8 : 0) + parseInt(range[2]);
+                const end = (range[3].toLowerCase() === 'a' ? 8 : 0) + parseInt(range[4]);
+                count += Math.abs(end - start) + 1;
+            } else {
+                count++;
+            }
+        }
+        return count;
+    }
+
+    private static getRegisterValue(name: string, registers: Array<GdbRegister>): number {
+        const registerName = (name === "sp") ? "a7" : name;
+        const register = registers.find(r => r.name === registerName);
+        if (register) {
+            return register.value;
+        }
+        throw new Error(`Register ${name} not recorded`);
+    }
+
+    private static parseNumber(value: string): number {
+        if (value.startsWith("$")) {
+            return parseInt(value.substring(1), 16);
+        }
+        return parseInt(value);
+    }
+}
@@ -152,7 +152,7 @@ export class MemoryLabelsRegistry {
         <CustomData>{ name: "BLTBPTL", adr: 0xdff04E, rw: 2, special: 2 }, /* Blitter pointer to source B (low 15 bits) */
         <CustomData>{ name: "BLTAPTH", adr: 0xdff050, rw: 2, special: 1 }, /* Blitter pointer to source A (high 5 bits) */
         <CustomData>{ name: "BLTAPTL", adr: 0xdff052, rw: 2, special: 2 }, /* Blitter pointer to source A (low 15 bits) */
-        <CustomData>{ name: "BPTDPTH", adr: 0xdff054, rw: 2, special: 1 }, /* Blitter pointer to destn  D (high 5 bits) */
+        <CustomData>{ name: "BLTDPTH", adr: 0xdff054, rw: 2, special: 1 }, /* Blitter pointer to destn  D (high 5 bits) */
         <CustomData>{ name: "BLTDPTL", adr: 0xdff056, rw: 2, special: 2 }, /* Blitter pointer to destn  D (low 15 bits) */
         <CustomData>{ name: "BLTSIZE", adr: 0xdff058, rw: 2, special: 0 }, /* Blitter start and size (win/width,height) */
         <CustomData>{ name: "BLTCON0L", adr: 0xdff05A, rw: 2, special: 4 }, /* Blitter control 0 lower 8 bits (minterms) */
@@ -397,6 +397,14 @@ export class MemoryLabelsRegistry {
         }
         return undefined;
     }
+    /**
+     * Checks if a custom register is a blitter register (BLTCON0 to BLTADAT)
+     * @param name Name of the register
+     */
+    public static isBlitterRegister(name: string): boolean {
+        const address = MemoryLabelsRegistry.getCustomAddress(name);
+        return (address !== undefined) && (address >= 0xdff040) && (address <= 0xdff076) && name.startsWith("BLT");
+    }
     public static getCustomName(address: number): string | undefined {
         MemoryLabelsRegistry.prepareCustomMap();
         if (MemoryLabelsRegistry.customMapByAddr) {
@@ -2,6 +2,8 @@ import { commands, CustomExecution, Disposable, Event, EventEmitter, Pseudotermi
 import { AdfGeneratorProperties, ADFTools } from './adf';
 import { ConfigurationHelper } from './configurationHelper';
 import { ExtensionState } from './extension';
+import { IffConversion, IffConverter } from './iffConverter';
+import { PngConversion, PngConverter } from './pngConverter';
 import { VasmBuildProperties, VASMCompiler } from './vasm';
 import { VlinkBuildProperties, VLINKLinker } from './vlink';
 
@@ -9,6 +11,8 @@ interface AmigaBuildTaskDefinition extends TaskDefinition {
 	vasm?: VasmBuildProperties;
 	vlink?: VlinkBuildProperties;
 	adfgenerator?: AdfGeneratorProperties;
+	iffconversions?: Array<IffConversion>;
+	pngconversions?: Array<PngConversion>;
 }
 
 export class AmigaBuildTaskProvider implements TaskProvider {
@@ -76,7 +80,7 @@ export class AmigaBuildTaskProvider implements TaskProvider {
 		} else {
 			taskName = AmigaBuildTaskProvider.AMIGA_BUILD_TASK_NAME;
 		}
-		const task = new AmigaBuildTaskTerminal(this.extensionState, lDefinition.vasm, lDefinition.vlink, lDefinition.adfgenerator);
+		const task = new AmigaBuildTaskTerminal(this.extensionState, lDefinition.vasm, lDefinition.vlink, lDefinition.adfgenerator, lDefinition.iffconversions, lDefinition.pngconversions);
 		return new Task(lDefinition, TaskScope.Workspace, taskName,
 			AmigaBuildTaskProvider.AMIGA_BUILD_SCRIPT_TYPE, new CustomExecution(async (): Promise<Pseudoterminal> => {
 				return task;
@@ -92,11 +96,15 @@ class AmigaBuildTaskTerminal implements Pseudoterminal {
 	private vasmBuildProperties?: VasmBuildProperties;
 	private vlinkBuildProperties?: VlinkBuildProperties;
 	private adfGeneratorProperties?: AdfGeneratorProperties;
+	private iffConversions?: Array<IffConversion>;
+	private pngConversions?: Array<PngConversion>;
 
-	constructor(private extensionState: ExtensionState, vasmBuildProperties?: VasmBuildProperties, vlinkBuildProperties?: VlinkBuildProperties, adfGeneratorProperties?: AdfGeneratorProperties) {
+	constructor(private extensionState: ExtensionState, vasmBuildProperties?: VasmBuildProperties, vlinkBuildProperties?: VlinkBuildProperties, adfGeneratorProperties?: AdfGeneratorProperties, iffConversions?: Array<IffConversion>, pngConversions?: Array<PngConversion>) {
 		this.vasmBuildProperties = vasmBuildProperties;
 		this.vlinkBuildProperties = vlinkBuildProperties;
 		this.adfGeneratorProperties = adfGeneratorProperties;
+		this.iffConversions = iffConversions;
+		this.pngConversions = pngConversions;
 	}
 
 	open(): Promise<void> {
@@ -109,8 +117,16 @@ class AmigaBuildTaskTerminal implements Pseudoterminal {
 
 	private async doBuild(): Promise<void> {
 		try {
+			if (this.iffConversions && (this.iffConversions.length > 0)) {
+				this.writeEmitter.fire('\u001b[36mConverting IFF images...\r\n\u001b[0m');
+				await new IffConverter().convertAll(this.iffConversions, this.extensionState.getWorkspaceRootDir(), this.writeEmitter);
+			}
+			if (this.pngConversions && (this.pngConversions.length > 0)) {
+				this.writeEmitter.fire('\u001b[36mConverting PNG images...\r\n\u001b[0m');
+				await new PngConverter().convertAll(this.pngConversions, this.extensionState.getWorkspaceRootDir(), this.writeEmitter);
+			}
 			if (this.adfGeneratorProperties) {
-				const adfTools = new ADFTools(this.adfGeneratorProperties.ADFToolsParentDir);
+				const adfTools = new ADFTools();
 				this.writeEmitter.fire('\u001b[36mCreating ADF file...\r\n\u001b[0m');
 				await adfTools.createBootableADFDisk(this.adfGeneratorProperties, this.writeEmitter, this.extensionState.getCompiler());
 				this.writeEmitter.fire('\u001b[32mADF file done\r\n\u001b[0m');
@@ -1,6 +1,6 @@
-import { Capstone } from "./capstone";
+import { InstructionDisassembler } from "./capstone";
 import { GdbProxy } from "./gdbProxy";
-import { DebugExpressionHelper } from "./debugExpressionHelper";
+import { DebugExpressionHelper, DisassembledInstructionAdapter } from "./debugExpressionHelper";
 import { StackFrame, Source } from "vscode-debugadapter";
 import { DebugProtocol } from "vscode-debugprotocol";
 import { CopperDisassembler } from "./copperDisassembler";
@@ -167,7 +167,10 @@ export class DisassembleAddressArguments implements DebugProtocol.DisassembleArg
 
 export class DebugDisassembledManager {
     /** Tool to disassemble */
-    private capstone?: Capstone;
+    private capstone?: InstructionDisassembler;
+
+    /** Symbols of the program by address */
+    private labels = new Map<number, string>();
 
     /** Proxy to Gdb */
     private gdbProxy: GdbProxy;
@@ -178,7 +181,7 @@ export class DebugDisassembledManager {
     /** To evaluate addresses and symbols */
     private variableResolver: DebugVariableResolver;
 
-    public constructor(gdbProxy: GdbProxy, capstone: Capstone | undefined, variableResolver: DebugVariableResolver) {
+    public constructor(gdbProxy: GdbProxy, capstone: InstructionDisassembler | undefined, variableResolver: DebugVariableResolver) {
         this.capstone = capstone;
         this.gdbProxy = gdbProxy;
         this.variableResolver = variableResolver;
@@ -265,7 +268,7 @@ export class DebugDisassembledManager {
             }
             throw new Error(`Cannot retrieve line for segment ${segmentId}, offset ${offset}: line not found`);
         } else {
-            throw new Error(`Cannot retrieve line for segment ${segmentId}, offset ${offset} : capstone is not defined`);
+            throw new Error(`Cannot retrieve line for segment ${segmentId}, offset ${offset} : the disassembler is not defined`);
         }
     }
     public async disassembleSegment(segmentId: number): Promise<DebugProtocol.DisassembledInstruction[]> {
@@ -275,11 +278,9 @@ export class DebugDisassembledManager {
             const memory = await this.gdbProxy.getSegmentMemory(segmentId);
             const startAddress = this.gdbProxy.toAbsoluteOffset(segmentId, 0);
             // disassemble the code 
-            const code = await localCapstone.disassemble(memory);
-            const [, variables] = this.debugExpressionHelper.processOutputFromDisassembler(code, startAddress);
-            return variables;
+            return this.disassembleMemory(localCapstone, memory, startAddress);
         } else {
-            throw new Error("Capstone has not been defined");
+            throw new Error("The disassembler has not been defined");
         }
     }
 
@@ -326,18 +327,15 @@ export class DebugDisassembledManager {
             // ask for memory dump
             if (this.gdbProxy.isConnected()) {
                 const memory = await this.gdbProxy.getMemory(address, length);
-                const startAddress = address;
                 // disassemble the code 
-                const code = await localCapstone.disassemble(memory);
-                const [, variables] = this.debugExpressionHelper.processOutputFromDisassembler(code, startAddress);
-                return variables;
+                return this.disassembleMemory(localCapstone, memory, address);
             }
             else {
                 throw new Error("Debugger not started");
 
             }
         } else {
-            throw new Error("Capstone has not been defined");
+            throw new Error("The disassembler has not been defined");
         }
     }
 
@@ -347,13 +345,10 @@ export class DebugDisassembledManager {
             const localCapstone = this.capstone;
             // ask for memory dump
             const memory = await this.gdbProxy.getMemory(address, length);
-            const startAddress = address;
             // disassemble the code 
-            const code = await localCapstone.disassemble(memory);
-            const [, lines] = this.debugExpressionHelper.processOutputFromDisassembler(code, startAddress);
-            return lines;
+            return this.disassembleMemory(localCapstone, memory, address);
         } else {
-            throw new Error("Capstone has not been defined");
+            throw new Error("The disassembler has not been defined");
         }
     }
 
@@ -377,7 +372,7 @@ export class DebugDisassembledManager {
                 throw new Error(`Unable to disassemble; invalid parameters ${args}`);
             }
         } else {
-            throw new Error("Capstone cstool must be configured in the settings");
+            throw new Error("The disassembler has not been defined");
         }
     }
 
@@ -415,7 +410,50 @@ export class DebugDisassembledManager {
         }
     }
 
-    public setCapstone(capstone: Capstone) {
+    public setCapstone(capstone: InstructionDisassembler) {
         this.capstone = capstone;
     }
+
+    /**
+     * Sets the symbols used to label the branch targets
+     * @param symbols Addresses of the symbols by name
+     */
+    public setSymbols(symbols: Map<string, number>) {
+        this.labels.clear();
+        for (const [name, address] of symbols) {
+            if (!this.labels.has(address)) {
+                this.labels.set(address, name);
+            }
+        }
+    }
+
+    /**
+     * Disassembles a memory dump
+     * @param disassembler Disassembler to use
+     * @param memory Memory dump in hexadecimal
+     * @param startAddress Address of the dump
+     */
+    private async disassembleMemory(disassembler: InstructionDisassembler, memory: string, startAddress: number): Promise<Array<DisassembledInstructionAdapter>> {
+        if (disassembler.disassembleWithLabels) {
+            // The branch targets are resolved with the symbols
+            const instructions = disassembler.disassembleWithLabels(memory, startAddress, (address) => this.labels.get(address));
+            const lines = new Array<DisassembledInstructionAdapter>();
+            for (let i = 0; i < instructions.length; i++) {
+                const instruction = instructions[i];
+                const mnemonic = instruction.mnemonic;
+                const operands = instruction.operands;
+                const text = (operands !== undefined) ? mnemonic + StringUtils.createPad(mnemonic, 10) + operands : mnemonic;
+                const line = DisassembledInstructionAdapter.createNumerical(instruction.address, text);
+                line.instructionBytes = instruction.bytes;
+                line.symbol = this.labels.get(instruction.address);
+                line.line = i;
+                line.column = 0;
+                lines.push(line);
+            }
+            return lines;
+        }
+        const code = await disassembler.disassemble(memory);
+        const [, lines] = this.debugExpressionHelper.processOutputFromDisassembler(code, startAddress);
+        return lines;
+    }
 }
\ No newline at end of file
@@ -4,6 +4,9 @@ import { StringUtils } from './stringUtils';
 import { ExtensionState } from './extension';
 
 export class DebugExpressionHelper {
+    /** Sizes in bytes for the size suffixes */
+    private static readonly SIZES_IN_BYTES: { [key: string]: number } = { b: 1, w: 2, l: 4 };
+
     public async getAddressFromExpression(expression: string, frameIndex: number | undefined, variableResolver: DebugVariableResolver): Promise<number> {
         if (expression !== null) {
             if (expression.startsWith("0x")) {
@@ -36,6 +39,204 @@ export class DebugExpressionHelper {
         }
     }
 
+    /**
+     * Evaluates a boolean condition, like `d0 == $10 && (a1) > 4`.
+     * Registers may be used directly, `(an)` is the long word pointed by the address register.
+     * Comparison operators are: ==, !=, <, <=, >, >= and they can be combined with &&, || and !.
+     * @param condition Condition to evaluate
+     * @param frameIndex Index of the frame
+     * @param variableResolver Resolver for the variables
+     * @return true if the condition is verified
+     */
+    public async evaluateCondition(condition: string, frameIndex: number | undefined, variableResolver: DebugVariableResolver): Promise<boolean> {
+        const expression = condition.trim();
+        if (expression.length <= 0) {
+            throw new Error("Empty condition");
+        }
+        let parts = DebugExpressionHelper.splitTopLevel(expression, "||");
+        if (parts.length > 1) {
+            for (const part of parts) {
+                if (await this.evaluateCondition(part, frameIndex, variableResolver)) {
+                    return true;
+                }
+            }
+            return false;
+        }
+        parts = DebugExpressionHelper.splitTopLevel(expression, "&&");
+        if (parts.length > 1) {
+            for (const part of parts) {
+                if (!await this.evaluateCondition(part, frameIndex, variableResolver)) {
+                    return false;
+                }
+            }
+            return true;
+        }
+        if (expression.startsWith("!") && !expression.startsWith("!=")) {
+            return !await this.evaluateCondition(expression.substring(1), frameIndex, variableResolver);
+        }
+        if (DebugExpressionHelper.isWrappedInParenthesis(expression)) {
+            const inner = expression.substring(1, expression.length - 1);
+            if (/\|\||&&|==|!=|[<>]/.test(inner) && !/^\s*[ad][0-7]\s*$/i.test(inner)) {
+                return this.evaluateCondition(inner, frameIndex, variableResolver);
+            }
+        }
+        const comparison = DebugExpressionHelper.splitComparison(expression);
+        if (comparison) {
+            const [left, operator, right] = comparison;
+            const leftValue = await this.evaluateConditionOperand(left, frameIndex, variableResolver);
+            const rightValue = await this.evaluateConditionOperand(right, frameIndex, variableResolver);
+            switch (operator) {
+                case "==":
+                    return leftValue === rightValue;
+                case "!=":
+                    return leftValue !== rightValue;
+                case "<":
+                    return leftValue < rightValue;
+                case "<=":
+                    return leftValue <= rightValue;
+                case ">":
+                    return leftValue > rightValue;
+                default:
+                    return leftValue >= rightValue;
+            }
+        }
+        return (await this.evaluateConditionOperand(expression, frameIndex, variableResolver)) !== 0;
+    }
+
+    /**
+     * Interpolates the expressions between braces in a logpoint message, like `frame={d7} copper={$dff080.l}`.
+     * An expression suffixed by .b, .w or .l is an address and the value read in memory is displayed.
+     * @param message Message to interpolate
+     * @param frameIndex Index of the frame
+     * @param variableResolver Resolver for the variables
+     * @return The message with the values
+     */
+    public async interpolateLogMessage(message: string, frameIndex: number | undefined, variableResolver: DebugVariableResolver): Promise<string> {
+        let result = "";
+        let lastIndex = 0;
+        const expressionRegexp = /\{([^{}]+)\}/g;
+        let match = expressionRegexp.exec(message);
+        while (match) {
+            result += message.substring(lastIndex, match.index);
+            try {
+                result += await this.evaluateLogExpression(match[1], frameIndex, variableResolver);
+            } catch (err) {
+                result += `<${err.message}>`;
+            }
+            lastIndex = match.index + match[0].length;
+            match = expressionRegexp.exec(message);
+        }
+        return result + message.substring(lastIndex);
+    }
+
+    /**
+     * Evaluates an expression of a logpoint message
+     * @param expression Expression to evaluate
+     * @param frameIndex Index of the frame
+     * @param variableResolver Resolver for the variables
+     * @return Formatted value
+     */
+    private async evaluateLogExpression(expression: string, frameIndex: number | undefined, variableResolver: DebugVariableResolver): Promise<string> {
+        const sizeMatch = /^(.+)\.([bwl])\s*$/i.exec(expression.trim());
+        if (sizeMatch) {
+            const size = DebugExpressionHelper.SIZES_IN_BYTES[sizeMatch[2].toLowerCase()];
+            const address = await this.evaluateConditionOperand(sizeMatch[1], frameIndex, variableResolver);
+            const memory = await variableResolver.getMemory(address, size);
+            return "$" + memory;
+        }
+        const value = await this.evaluateConditionOperand(expression, frameIndex, variableResolver);
+        return "$" + value.toString(16);
+    }
+
+    /**
+     * Evaluates an operand of a condition
+     * @param operand Operand expression
+     * @param frameIndex Index of the frame
+     * @param variableResolver Resolver for the variables
+     * @return Numerical value
+     */
+    private evaluateConditionOperand(operand: string, frameIndex: number | undefined, variableResolver: DebugVariableResolver): Promise<number> {
+        const expression = operand.trim()
+            .replace(/\(\s*(a[0-7])\s*\)/gi, "#{$1}")
+            .replace(/(^|[^\w${#.])([ad][0-7]|pc|sr)(?![\w}])/gi, "$1${$2}");
+        return this.getAddressFromExpression(expression, frameIndex, variableResolver);
+    }
+
+    /**
+     * Splits an expression with a separator outside of the parenthesis
+     * @param expression Expression to split
+     * @param separator Separator
+     * @return Parts of the expression
+     */
+    private static splitTopLevel(expression: string, separator: string): Array<string> {
+        const parts = new Array<string>();
+        let depth = 0;
+        let start = 0;
+        for (let i = 0; i < expression.length; i++) {
+            const c = expression.charAt(i);
+            if (c === '(') {
+                depth++;
+            } else if (c === ')') {
+                depth--;
+            } else if ((depth === 0) && expression.startsWith(separator, i)) {
+                parts.push(expression.substring(start, i));
+                i += separator.length - 1;
+                start = i + 1;
+            }
+        }
+        parts.push(expression.substring(start));
+        return parts;
+    }
+
+    /**
+     * Splits a comparison outside of the parenthesis
+     * @param expression Expression to split
+     * @return [left, operator, right] or undefined if it is not a comparison
+     */
+    private static splitComparison(expression: string): [string, string, string] | undefined {
+        let depth = 0;
+        for (let i = 0; i < expression.length; i++) {
+            const c = expression.charAt(i);
+            if (c === '(') {
+                depth++;
+            } else if (c === ')') {
+                depth--;
+            } else if (depth === 0) {
+                const twoChars = expression.substring(i, i + 2);
+                if (["==", "!=", "<=", ">="].includes(twoChars)) {
+                    return [expression.substring(0, i), twoChars, expression.substring(i + 2)];
+                } else if ((c === '<' || c === '>') && (expression.charAt(i + 1) !== c) && (expression.charAt(i - 1) !== c)) {
+                    return [expression.substring(0, i), c, expression.substring(i + 1)];
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks if the whole expression is in parenthesis
+     * @param expression Expression to check
+     * @return true if it is wrapped
+     */
+    private static isWrappedInParenthesis(expression: string): boolean {
+        if (expression.startsWith("(") && expression.endsWith(")")) {
+            let depth = 0;
+            for (let i = 0; i < expression.length; i++) {
+                const c = expression.charAt(i);
+                if (c === '(') {
+                    depth++;
+                } else if (c === ')') {
+                    depth--;
+                    if ((depth === 0) && (i < expression.length - 1)) {
+                        return false;
+                    }
+                }
+            }
+            return true;
+        }
+        return false;
+    }
+
     public processOutputFromMemoryDump(memory: string, startAddress: number, mode: string, wordLength: number, rowLength: number): [string, Array<DebugProtocol.Variable>] {
         let firstRow = "";
         const variables = new Array<DebugProtocol.Variable>();
@@ -7,6 +7,9 @@ import { ASMLine } from './parser';
 import { FileProxy } from './fsProxy';
 import { StringUtils } from './stringUtils';
 import { logger } from 'vscode-debugadapter';
+import { MacroDefinition, MacroExpander } from './macroExpander';
+import { ConditionalAssembly, ConditionEvaluator, LineVisibility } from './conditionalAssembly';
+import { ConfigurationHelper } from './configurationHelper';
 
 export class M68kDefinitionHandler implements DefinitionProvider, ReferenceProvider, DocumentSymbolProvider {
     static readonly SOURCE_FILES_GLOB = "**/*.{asm,s,i,ASM,S,I}";
@@ -19,6 +22,14 @@ export class M68kDefinitionHandler implements DefinitionProvider, ReferenceProvi
     private includeDirs = new Map<string, Symbol>();
     private xrefs = new Map<string, Symbol>();
     private sortedVariablesNames = new Array<string>();
+    private macroExpander = new MacroExpander(name => this.getMacroDefinition(name));
+    /** Files including a file which cannot be found, directly or through their included files */
+    private unresolvedIncludes = new Set<string>();
+    /** Names of the symbols of each file to detect their changes */
+    private symbolsSignatures = new Map<string, string>();
+    private onDidChangeSymbolsEmitter = new vscode.EventEmitter<Uri>();
+    /** Fired when the symbols defined by a file have changed */
+    public readonly onDidChangeSymbols = this.onDidChangeSymbolsEmitter.event;
 
     public async provideDocumentSymbols(document: TextDocument, token: CancellationToken): Promise<SymbolInformation[]> {
         const symbolFile: void | SymbolFile = await this.scanFile(document.uri, document);
@@ -60,6 +71,10 @@ export class M68kDefinitionHandler implements DefinitionProvider, ReferenceProvi
                 const symbolKind = vscode.SymbolKind.Function;
                 results.push(new SymbolInformation(symbol.getLabel(), symbolKind, symbol.getParent(), new Location(symbol.getFile().getUri(), symbol.getRange())));
             }
+            symbols = symbolFile.getMacroLabels();
+            for (const symbol of symbols) {
+                results.push(new SymbolInformation(symbol.getLabel(), vscode.SymbolKind.Key, symbol.getParent(), new Location(symbol.getFile().getUri(), symbol.getRange())));
+            }
             symbols = symbolFile.getXrefs();
             for (const symbol of symbols) {
                 const symbolKind = vscode.SymbolKind.Function;
@@ -268,6 +283,7 @@ export class M68kDefinitionHandler implements DefinitionProvider, ReferenceProvi
             } else {
                 await file.readFile();
             }
+            await this.excludeInactiveSymbols(file);
             let symbol = file.getDefinedSymbols();
             for (const s of symbol) {
                 this.definedSymbols.set(s.getLabel(), s);
@@ -285,15 +301,7 @@ export class M68kDefinitionHandler implements DefinitionProvider, ReferenceProvi
                 lst.push(s);
             }
             this.referredSymbols.set(uri.fsPath, refs);
-            symbol = file.getVariables();
-            for (const s of symbol) {
-                this.variables.set(s.getLabel(), s);
-            }
-            // sort variables
-            this.sortedVariablesNames = Array.from(this.variables.keys());
-            this.sortedVariablesNames.sort((a, b) => {
-                return b.length - a.length;
-            });
+            this.addVariables(file.getVariables());
 
             symbol = file.getLabels();
             for (const s of symbol) {
@@ -314,14 +322,24 @@ export class M68kDefinitionHandler implements DefinitionProvider, ReferenceProvi
 
             // Scan any new included files
             const currentFile = new FileProxy(file.getUri());
+            let includesResolved = true;
             for (const symbol of file.getIncludedFiles()) {
                 const includedFile = await this.resolveIncludedFile(currentFile, symbol.getLabel());
                 if (includedFile && !this.files.has(includedFile.getPath())) {
                     if (await includedFile.exists() && await includedFile.isFile()) {
                         await this.scanFile(includedFile.getUri());
+                    } else {
+                        includesResolved = false;
                     }
                 }
+                includesResolved = includesResolved && (includedFile !== null) && !this.unresolvedIncludes.has(includedFile.getPath());
             }
+            if (includesResolved) {
+                this.unresolvedIncludes.delete(uri.fsPath);
+            } else {
+                this.unresolvedIncludes.add(uri.fsPath);
+            }
+            this.updateSymbolsSignature(uri, file);
             return file;
         } catch (error) {
             logger.error(`Error while scanning file '${uri}': ${error.message}`);
@@ -329,11 +347,90 @@ export class M68kDefinitionHandler implements DefinitionProvider, ReferenceProvi
         }
     }
 
+    /**
+     * Removes the symbols of the conditional assembly blocks which are not assembled
+     * @param file Scanned file
+     */
+    private async excludeInactiveSymbols(file: SymbolFile): Promise<void> {
+        const directives = file.getConditionalDirectives();
+        const document = file.getDocument();
+        if ((directives.length > 0) && document) {
+            const ranges = await ConditionalAssembly.getInactiveRanges(directives, this.createConditionEvaluator(file), document.lineCount - 1);
+            file.setInactiveRanges(ranges);
+            this.clearSymbolsForFile(file);
+        }
+    }
+
+    /**
+     * Creates the evaluator of the conditions of a file
+     * @param file File containing the conditions
+     * @returns Evaluator with the symbols of the workspace and the configured defines
+     */
+    private createConditionEvaluator(file: SymbolFile): ConditionEvaluator {
+        const configuration = ConfigurationHelper.getDefaultConfiguration(file.getUri());
+        const defines = new Map<string, number>(Object.entries(configuration.get<{ [name: string]: number }>('conditionalAssembly.defines', {})));
+        const isVisibleSymbol = (s: Symbol, isVisible: LineVisibility) => isVisible(s.getRange().start.line);
+        return {
+            isDefined: (name: string, isVisible: LineVisibility) => defines.has(name) || this.definedSymbols.has(name) ||
+                file.getDefinedSymbols().some(s => (s.getLabel() === name) && isVisibleSymbol(s, isVisible)),
+            evaluate: async (expression: string, isVisible: LineVisibility) => {
+                let formula = expression;
+                for (const [name, value] of defines) {
+                    formula = formula.replace(new RegExp(`\\b${name}\\b`, "g"), `(${value})`);
+                }
+                // The conditions may use the variables of the file defined before
+                for (const s of file.getVariables()) {
+                    if (this.variables.get(s.getLabel()) === s) {
+                        this.variables.delete(s.getLabel());
+                    }
+                }
+                this.addVariables(file.getVariables().filter(s => isVisibleSymbol(s, isVisible)));
+                return this.evaluateFormula(formula);
+            }
+        };
+    }
+
+    /**
+     * Retrieves the lines which are not assembled in a document
+     * @param document Document to scan
+     * @returns Ranges of the inactive lines
+     */
+    public async getInactiveRanges(document: TextDocument): Promise<Array<Range>> {
+        const file = await this.scanFile(document.uri, document);
+        return file.getInactiveRanges();
+    }
+
     public deleteFile(uri: Uri) {
         const file = this.files.get(uri.fsPath);
         if (file !== undefined) {
             this.clearSymbolsForFile(file);
             this.files.delete(uri.fsPath);
+            this.unresolvedIncludes.delete(uri.fsPath);
+            this.symbolsSignatures.delete(uri.fsPath);
+            this.onDidChangeSymbolsEmitter.fire(uri);
+        }
+    }
+
+    /**
+     * Checks if some included files of a file cannot be found: its symbols may be defined in them
+     * @param uri Uri of the scanned file
+     * @returns true if an included file is missing
+     */
+    public hasUnresolvedIncludes(uri: Uri): boolean {
+        return this.unresolvedIncludes.has(uri.fsPath);
+    }
+
+    /**
+     * Fires the change event if the names of the symbols of a file have changed
+     * @param uri Uri of the file
+     * @param file Scanned file
+     */
+    private updateSymbolsSignature(uri: Uri, file: SymbolFile): void {
+        const names = [file.getLabels(), file.getMacros(), file.getVariables(), file.getXrefs()].map(symbols => symbols.map(s => s.getLabel()).join(","));
+        const signature = `${names.join(";")};${this.unresolvedIncludes.has(uri.fsPath)}`;
+        if (this.symbolsSignatures.get(uri.fsPath) !== signature) {
+            this.symbolsSignatures.set(uri.fsPath, signature);
+            this.onDidChangeSymbolsEmitter.fire(uri);
         }
     }
 
@@ -345,6 +442,17 @@ export class M68kDefinitionHandler implements DefinitionProvider, ReferenceProvi
         return undefined;
     }
 
+    private addVariables(variables: Array<Symbol>): void {
+        for (const s of variables) {
+            this.variables.set(s.getLabel(), s);
+        }
+        // sort variables
+        this.sortedVariablesNames = Array.from(this.variables.keys());
+        this.sortedVariablesNames.sort((a, b) => {
+            return b.length - a.length;
+        });
+    }
+
     private clearSymbolsForFile(file: SymbolFile): void {
         const symbolMaps = [
             this.definedSymbols,
@@ -555,6 +663,27 @@ export class M68kDefinitionHandler implements DefinitionProvider, ReferenceProvi
         return this.macros.get(name);
     }
 
+    /**
+     * Get the body of a macro
+     * @param name Name of macro
+     * @returns Macro definition
+     */
+    getMacroDefinition(name: string): MacroDefinition | undefined {
+        const symbol = this.macros.get(name);
+        if (symbol) {
+            return MacroExpander.readDefinition(symbol);
+        }
+        return undefined;
+    }
+
+    /**
+     * Retrieves the macro expander of the scanned macros
+     * @returns Macro expander
+     */
+    getMacroExpander(): MacroExpander {
+        return this.macroExpander;
+    }
+
     /**
      * Find all the macros starting by word
      * @param word Word to search
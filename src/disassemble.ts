@@ -1,5 +1,7 @@
 import { window, OpenDialogOptions, InputBoxOptions, Uri, workspace } from 'vscode';
-import { Capstone } from './capstone';
+import { Capstone, InstructionDisassembler } from './capstone';
+import { M68kDisassembler } from './m68kDisassembler';
+import { HunkDisassembler } from './hunkDisassembler';
 import { DebugDisassembledFile } from './debugDisassembled';
 import { ConfigurationHelper } from './configurationHelper';
 
@@ -9,12 +11,27 @@ export enum DisassembleRequestType {
     COPPER
 }
 export class Disassembler {
-    public getCapstone(): (Capstone | null) {
-        const conf = ConfigurationHelper.retrieveStringPropertyInDefaultConf('cstool');
-        if (conf && (conf.length > 5)) {
-            return new Capstone(conf);
+    public getCapstone(): InstructionDisassembler {
+        return Disassembler.createInstructionDisassembler();
+    }
+
+    public getHunkDisassembler(): HunkDisassembler {
+        return new HunkDisassembler();
+    }
+
+    /**
+     * Creates the instruction disassembler selected in the settings.
+     * The external cstool is used only if it is selected and configured, otherwise the native disassembler is used.
+     */
+    public static createInstructionDisassembler(): InstructionDisassembler {
+        const selected = ConfigurationHelper.retrieveStringPropertyInDefaultConf('disassembler');
+        if (selected === "cstool") {
+            const conf = ConfigurationHelper.retrieveStringPropertyInDefaultConf('cstool');
+            if (conf && (conf.length > 5)) {
+                return new Capstone(conf);
+            }
         }
-        return null;
+        return new M68kDisassembler();
     }
 
     /**
@@ -40,42 +57,25 @@ export class Disassembler {
                 throw new Error("No input address expression");
             }
         } else if (disassembleRequestType === DisassembleRequestType.FILE) {
-            const capstone = this.getCapstone();
-            if (capstone) {
-                const selectedFiles = await window.showOpenDialog(<OpenDialogOptions>{
-                    prompt: "Select a file to disassemble",
-                    canSelectMany: false,
-                    canSelectFiles: true,
-                    canSelectFolders: false,
-                });
-                if (selectedFiles && (selectedFiles.length > 0)) {
-                    const selectedFile = selectedFiles[0];
-                    // Disassembles the file
-                    try {
-                        const data = await capstone.disassembleFile(selectedFile);
-                        let text = "";
-                        const lines = data.split(/\r\n|\r|\n/g);
-                        for (const l of lines) {
-                            const elms = l.split("  ");
-                            if (elms.length > 2) {
-                                text += " " + elms[2].replace(", ", ",") + ";" + l + '\n';
-                            } else {
-                                text += l.replace(", ", ",") + ";" + l + '\n';
-                            }
-                        }
-                        const document = await workspace.openTextDocument({ language: "m68k", content: text });
-                        await window.showTextDocument(document);
-                    } catch (err) {
-                        window.showErrorMessage(err.message);
-                        throw new Error(err.message);
-                    }
-                } else {
-                    const message = "No selected File to disassemble";
-                    window.showErrorMessage(message);
-                    throw new Error(message);
+            const selectedFiles = await window.showOpenDialog(<OpenDialogOptions>{
+                prompt: "Select a file to disassemble",
+                canSelectMany: false,
+                canSelectFiles: true,
+                canSelectFolders: false,
+            });
+            if (selectedFiles && (selectedFiles.length > 0)) {
+                const selectedFile = selectedFiles[0];
+                // Disassembles the file to a source with the symbols and relocations
+                try {
+                    const text = await this.getHunkDisassembler().disassembleFile(selectedFile);
+                    const document = await workspace.openTextDocument({ language: "m68k", content: text });
+                    await window.showTextDocument(document);
+                } catch (err) {
+                    window.showErrorMessage(err.message);
+                    throw new Error(err.message);
                 }
             } else {
-                const message = "To use this command: configure the capstone path in the settings";
+                const message = "No selected File to disassemble";
                 window.showErrorMessage(message);
                 throw new Error(message);
             }
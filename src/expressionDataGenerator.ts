@@ -1,6 +1,10 @@
 import { MathCalc } from "./mathcalc";
 import * as vscode from "vscode";
+import * as vm from "vm";
+import * as path from "path";
 import { StringUtils } from "./stringUtils";
+import { FileProxy } from "./fsProxy";
+import { ConfigurationHelper } from "./configurationHelper";
 
 export class ExpressionDataVariable {
     name: string;
@@ -26,35 +30,184 @@ export enum OutputDataType {
 
 export class ExpressionDataGenerator {
     static readonly SIGNED_VALUES_COMMENT = "; -> SIGNED values <-\n";
+    /** Maximum duration of a script execution in ms */
+    static readonly SCRIPT_TIMEOUT = 5000;
+    static readonly ALLOW_SCRIPTS_KEY = "dataGenerator.allowScripts";
+    /** Bytes per line of an embedded binary file without valuesPerLine */
+    static readonly BINARY_VALUES_PER_LINE = 16;
 
     calc = new MathCalc();
     expression: string;
-    variable: ExpressionDataVariable;
+    /** Variables of the nested loops: the first one is the outer loop */
+    variables: Array<ExpressionDataVariable>;
     outputDataType: OutputDataType = OutputDataType.WORD;
     outputInHex = false;
     valuesPerLine = 10;
-    constructor(expression: string, variable: ExpressionDataVariable) {
+    /** Label emitted before the data */
+    label = "";
+    /** Starts a new line for each row of the inner loop */
+    splitRows = false;
+    /** JavaScript file generating the data instead of the expression */
+    scriptFile = "";
+    /** Binary file embedded instead of the expression */
+    binaryFile = "";
+    binaryOffset = 0;
+    /** Length of the embedded binary data, -1 for the end of the file */
+    binaryLength = -1;
+    private fileContents: Buffer | undefined;
+    constructor(expression: string, variables: ExpressionDataVariable | Array<ExpressionDataVariable>) {
         this.expression = expression;
-        this.variable = variable;
+        this.variables = Array.isArray(variables) ? variables : [variables];
+    }
+    /**
+     * First variable: the only one of a simple table
+     */
+    public get variable(): ExpressionDataVariable {
+        return this.variables[0];
     }
     public eval(): Array<number> {
+        const values = new Array<number>();
+        for (const row of this.evalRows()) {
+            values.push(...row);
+        }
+        return values;
+    }
+    /**
+     * Evaluates the expression in the nested loops of the variables.
+     * The expression can use the helpers:
+     * - clamp(value, min, max)
+     * - fix(value, bits): rounded fixed point value
+     * - fsin(angle, bits) / fcos(angle, bits): fixed point sinus / cosinus of an angle in radians
+     * - prev(n): n-th previous generated value, 0 before the first value
+     * @return Values of each row of the inner loop
+     */
+    public evalRows(): Array<Array<number>> {
+        if (this.binaryFile.length > 0) {
+            return [this.evalBinary()];
+        } else if (this.scriptFile.length > 0) {
+            return this.evalScript();
+        }
+        if (this.variables.length === 0) {
+            throw new Error("At least one variable is needed");
+        }
+        const rows = new Array<Array<number>>();
         const values = new Array<number>();
         const expr = this.calc.parse(this.expression);
         if (expr.error) {
             throw new Error('Parsing error at ' + expr.error.pos + ': ' + expr.error.text);
-        } else {
-            for (let x = this.variable.startValue; x <= this.variable.endValue; x += this.variable.step) {
-                const value = expr.eval({ x: x });
-                if (expr.scope.runtimeError) {
-                    throw new Error('Error: ' + expr.error.text);
+        }
+        // "|| 0" avoids the negative zeros
+        const fix = (value: number, bits: number) => Math.round(value * Math.pow(2, bits)) || 0;
+        expr.scope = {
+            clamp: (value: number, min: number, max: number) => Math.min(Math.max(value, min), max),
+            fix: fix,
+            fsin: (angle: number, bits: number) => fix(Math.sin(angle), bits),
+            fcos: (angle: number, bits: number) => fix(Math.cos(angle), bits),
+            prev: (n: number) => (n > 0 && n <= values.length) ? values[values.length - n] : 0
+        };
+        const scope: { [name: string]: number } = {};
+        const loop = (level: number) => {
+            const variable = this.variables[level];
+            const isInner = (level === this.variables.length - 1);
+            const row = new Array<number>();
+            for (let v = variable.startValue; (variable.step > 0) ? v <= variable.endValue : v >= variable.endValue; v += variable.step) {
+                scope[variable.name] = v;
+                if (isInner) {
+                    const value = expr.eval(scope);
+                    if (expr.scope.runtimeError) {
+                        throw new Error('Error: ' + expr.scope.runtimeError.text);
+                    }
+                    values.push(value);
+                    row.push(value);
+                } else {
+                    loop(level + 1);
                 }
-                values.push(value);
             }
+            if (isInner) {
+                rows.push(row);
+            }
+        };
+        loop(0);
+        return rows;
+    }
+
+    /**
+     * Reads the script or the binary file of the generator
+     * @param rootDir Directory of the relative paths
+     * @param allowScripts The scripts can be run: they have the rights of the extension
+     */
+    public async loadFiles(rootDir: vscode.Uri, allowScripts = false): Promise<void> {
+        const filePath = (this.binaryFile.length > 0) ? this.binaryFile : this.scriptFile;
+        if ((filePath === this.scriptFile) && (filePath.length > 0) && !allowScripts) {
+            throw new Error(`The script '${filePath}' is only run in a trusted workspace with the '${ExpressionDataGenerator.ALLOW_SCRIPTS_KEY}' setting enabled`);
+        }
+        if (filePath.length > 0) {
+            this.fileContents = await new FileProxy(rootDir).getRelativeFile(filePath).readFile();
         }
-        return values;
+    }
+
+    private getFileContents(filePath: string): Buffer {
+        if (!this.fileContents) {
+            throw new Error(`File '${filePath}' not loaded`);
+        }
+        return this.fileContents;
+    }
+
+    /**
+     * Runs the script in a new context: the data is the result of the script or its 'data' variable.
+     * An array of arrays gives the rows.
+     * The context is not a sandbox: the script can reach the node process.
+     */
+    private evalScript(): Array<Array<number>> {
+        const source = this.getFileContents(this.scriptFile).toString();
+        const context = vm.createContext({ data: undefined });
+        const result = vm.runInContext(source, context, { filename: this.scriptFile, timeout: ExpressionDataGenerator.SCRIPT_TIMEOUT });
+        const data = Array.isArray(result) ? result : context.data;
+        if (!Array.isArray(data)) {
+            throw new Error(`The script '${this.scriptFile}' must return an array of numbers or set it in the 'data' variable`);
+        }
+        const rows: Array<Array<unknown>> = data.every(Array.isArray) ? data : [data];
+        return rows.map(row => row.map(value => {
+            if ((typeof value !== "number") || !isFinite(value)) {
+                throw new Error(`Invalid value '${value}' generated by the script '${this.scriptFile}'`);
+            }
+            return value;
+        }));
+    }
+
+    /**
+     * Reads the bytes of the binary file
+     */
+    private evalBinary(): Array<number> {
+        const contents = this.getFileContents(this.binaryFile);
+        const end = (this.binaryLength >= 0) ? this.binaryOffset + this.binaryLength : contents.length;
+        if ((this.binaryOffset < 0) || (end > contents.length)) {
+            throw new Error(`The range ${this.binaryOffset} - ${end} is outside of the file '${this.binaryFile}' (${contents.length} bytes)`);
+        }
+        return Array.from(contents.subarray(this.binaryOffset, end));
+    }
+
+    /**
+     * Formats the bytes of the binary file in dc.b lines commented with their offset in the file
+     */
+    private evalBinaryString(): string {
+        const values = this.evalBinary();
+        const valuesPerLine = (this.valuesPerLine > 0) ? this.valuesPerLine : ExpressionDataGenerator.BINARY_VALUES_PER_LINE;
+        const lines = [`; ${this.binaryFile}: ${values.length} bytes from offset ${this.binaryOffset}`];
+        if (this.label.length > 0) {
+            lines.push(`${this.label}:`);
+        }
+        for (let i = 0; i < values.length; i += valuesPerLine) {
+            const bytes = values.slice(i, i + valuesPerLine).map(v => this.outputInHex ? `$${StringUtils.padStart(v.toString(16), 2, "0")}` : v.toString());
+            lines.push(`dc.b ${bytes.join(", ")} ; $${StringUtils.padStart((this.binaryOffset + i).toString(16), 8, "0")}`);
+        }
+        return lines.join("\n");
     }
 
     public evalString(): string {
+        if (this.binaryFile.length > 0) {
+            return this.evalBinaryString();
+        }
         let posLine = 0;
         let value = "";
         let type = 'b';
@@ -66,7 +219,14 @@ export class ExpressionDataGenerator {
         } else if (this.outputDataType === OutputDataType.LONG) {
             type = 'l';
         }
-        for (const v of this.eval()) {
+        const values = new Array<number>();
+        const rowStarts = new Set<number>();
+        for (const row of this.evalRows()) {
+            rowStarts.add(values.length);
+            values.push(...row);
+        }
+        for (let i = 0; i < values.length; i++) {
+            const v = values[i];
             if (v > max) {
                 max = v;
             }
@@ -84,7 +244,7 @@ export class ExpressionDataGenerator {
             } else if ((this.outputDataType === OutputDataType.LONG) && (v > 0xffffffff)) {
                 throw new Error(`Value ${v} does not fit in a long (32bits) register`);
             }
-            if ((this.valuesPerLine > 0) && (posLine >= this.valuesPerLine)) {
+            if (((this.valuesPerLine > 0) && (posLine >= this.valuesPerLine)) || (this.splitRows && (i > 0) && rowStarts.has(i))) {
                 value += '\n';
                 posLine = 0;
             }
@@ -111,6 +271,11 @@ export class ExpressionDataGenerator {
             } else if ((this.outputDataType === OutputDataType.LONG) && ((max > 0x7fffffff) || (min < -0x80000000))) {
                 throw new Error(`The data boundaries ${min} - ${max} does not fit in a signed long (32bits) register`);
             }
+        }
+        if (this.label.length > 0) {
+            value = `${this.label}:\n${value}`;
+        }
+        if (signed) {
             value = ExpressionDataGenerator.SIGNED_VALUES_COMMENT + value;
         }
         return value;
@@ -153,6 +318,20 @@ export class ExpressionDataGenerator {
     public setValuesPerLine(valuesPerLine: number): void {
         this.valuesPerLine = valuesPerLine;
     }
+    public setLabel(label: string): void {
+        this.label = label;
+    }
+    public setSplitRows(splitRows: boolean): void {
+        this.splitRows = splitRows;
+    }
+    public setScriptFile(scriptFile: string): void {
+        this.scriptFile = scriptFile;
+    }
+    public setBinaryFile(binaryFile: string, offset = 0, length = -1): void {
+        this.binaryFile = binaryFile;
+        this.binaryOffset = offset;
+        this.binaryLength = length;
+    }
 }
 
 export class ExpressionDataGeneratorSerializer {
@@ -167,6 +346,12 @@ export class ExpressionDataGeneratorSerializer {
     static readonly OUTPUTTYPE_KEYWORD = "outputType";
     static readonly OUTPUTHEX_KEYWORD = "outputInHex";
     static readonly VALUES_PER_LINE_KEYWORD = "valuesPerLine";
+    static readonly LABEL_KEYWORD = "label";
+    static readonly SPLIT_ROWS_KEYWORD = "splitRows";
+    static readonly SCRIPT_KEYWORD = "script";
+    static readonly BINARY_FILE_KEYWORD = "binaryFile";
+    static readonly BINARY_OFFSET_KEYWORD = "offset";
+    static readonly BINARY_LENGTH_KEYWORD = "length";
 
     public parse(comment: string): ExpressionDataGenerator {
         let expression = "";
@@ -181,6 +366,12 @@ export class ExpressionDataGeneratorSerializer {
         let outputDataType: OutputDataType | null = null;
         let outputInHex = false;
         let valuesPerLine = -1;
+        let label = "";
+        let splitRows = false;
+        let scriptFile = "";
+        let binaryFile = "";
+        let binaryOffset = 0;
+        let binaryLength = -1;
         for (const line of lines) {
             if (line.includes(ExpressionDataGeneratorSerializer.START_KEYWORD)) {
                 parsing = true;
@@ -188,8 +379,20 @@ export class ExpressionDataGeneratorSerializer {
             if (parsing) {
                 if (line.includes(ExpressionDataGeneratorSerializer.END_KEYWORD)) {
                     break;
+                } else if (this.isParameter(line, ExpressionDataGeneratorSerializer.SCRIPT_KEYWORD)) {
+                    scriptFile = this.retrieveString(line);
+                } else if (this.isParameter(line, ExpressionDataGeneratorSerializer.BINARY_FILE_KEYWORD)) {
+                    binaryFile = this.retrieveString(line);
+                } else if (this.isParameter(line, ExpressionDataGeneratorSerializer.BINARY_OFFSET_KEYWORD)) {
+                    binaryOffset = this.retrieveNumber(line);
+                } else if (this.isParameter(line, ExpressionDataGeneratorSerializer.BINARY_LENGTH_KEYWORD)) {
+                    binaryLength = this.retrieveNumber(line);
                 } else if (line.includes(ExpressionDataGeneratorSerializer.EXPRESSION_KEYWORD)) {
                     expression = this.retrieveString(line);
+                } else if (this.isParameter(line, ExpressionDataGeneratorSerializer.LABEL_KEYWORD)) {
+                    label = this.retrieveString(line);
+                } else if (this.isParameter(line, ExpressionDataGeneratorSerializer.SPLIT_ROWS_KEYWORD)) {
+                    splitRows = this.retrieveBoolean(line);
                 } else if (line.includes(ExpressionDataGeneratorSerializer.VARIABLE_KEYWORD)) {
                     if (parsingVariable) {
                         // End of current variable
@@ -225,7 +428,7 @@ export class ExpressionDataGeneratorSerializer {
             // For the last variable definition
             variables.push(new ExpressionDataVariable(name, startValue, endValue, step));
         }
-        const expDataGen = new ExpressionDataGenerator(expression, variables[0]);
+        const expDataGen = new ExpressionDataGenerator(expression, variables);
         if (outputDataType) {
             expDataGen.setOutputDataType(outputDataType);
         }
@@ -233,8 +436,15 @@ export class ExpressionDataGeneratorSerializer {
             expDataGen.setValuesPerLine(valuesPerLine);
         }
         expDataGen.setOutputInHex(outputInHex);
+        expDataGen.setLabel(label);
+        expDataGen.setSplitRows(splitRows);
+        expDataGen.setScriptFile(scriptFile);
+        expDataGen.setBinaryFile(binaryFile, binaryOffset, binaryLength);
         return expDataGen;
     }
+    private isParameter(line: string, keyword: string): boolean {
+        return line.replace(/^[;\s]*/, "").startsWith(keyword);
+    }
     public retrieveValue(line: string): string {
         const idx = line.indexOf(":");
         if (idx >= 0) {
@@ -261,26 +471,45 @@ export class ExpressionDataGeneratorSerializer {
         }
     }
     public print(expDataGen: ExpressionDataGenerator): string {
-        const variable = expDataGen.variable;
+        const variablesNames = expDataGen.variables.map(v => v.name).join(", ");
         let output = `;${ExpressionDataGeneratorSerializer.START_KEYWORD}----------------\n`;
         output += "; This code was generated by Amiga Assembly extension\n";
         output += ";\n";
         output += ";----- parameters : modify ------\n";
-        output += `;${ExpressionDataGeneratorSerializer.EXPRESSION_KEYWORD}(x as variable): ${expDataGen.expression}\n`;
-        output += `;${ExpressionDataGeneratorSerializer.VARIABLE_KEYWORD}:\n`;
-        output += `;   ${ExpressionDataGeneratorSerializer.VARIABLE_NAME_KEYWORD}:${variable.name}\n`;
-        output += `;   ${ExpressionDataGeneratorSerializer.VARIABLE_STARTVALUE_KEYWORD}:${variable.startValue}\n`;
-        output += `;   ${ExpressionDataGeneratorSerializer.VARIABLE_ENDVALUE_KEYWORD}:${variable.endValue}\n`;
-        output += `;   ${ExpressionDataGeneratorSerializer.VARIABLE_STEP_KEYWORD}:${variable.step}\n`;
-        let outputDataTypeStr = 'W';
-        if (expDataGen.outputDataType === OutputDataType.BYTE) {
-            outputDataTypeStr = 'B';
-        } else if (expDataGen.outputDataType === OutputDataType.LONG) {
-            outputDataTypeStr = 'L';
-        }
-        output += `;${ExpressionDataGeneratorSerializer.OUTPUTTYPE_KEYWORD}(B,W,L): ${outputDataTypeStr}\n`;
+        if (expDataGen.binaryFile.length > 0) {
+            output += `;${ExpressionDataGeneratorSerializer.BINARY_FILE_KEYWORD}: ${expDataGen.binaryFile}\n`;
+            output += `;${ExpressionDataGeneratorSerializer.BINARY_OFFSET_KEYWORD}: ${expDataGen.binaryOffset}\n`;
+            output += `;${ExpressionDataGeneratorSerializer.BINARY_LENGTH_KEYWORD}: ${expDataGen.binaryLength}\n`;
+        } else if (expDataGen.scriptFile.length > 0) {
+            output += `;${ExpressionDataGeneratorSerializer.SCRIPT_KEYWORD}: ${expDataGen.scriptFile}\n`;
+        } else {
+            output += `;${ExpressionDataGeneratorSerializer.EXPRESSION_KEYWORD}(${variablesNames} as variable${(expDataGen.variables.length > 1) ? "s" : ""}): ${expDataGen.expression}\n`;
+            for (const variable of expDataGen.variables) {
+                output += `;${ExpressionDataGeneratorSerializer.VARIABLE_KEYWORD}:\n`;
+                output += `;   ${ExpressionDataGeneratorSerializer.VARIABLE_NAME_KEYWORD}:${variable.name}\n`;
+                output += `;   ${ExpressionDataGeneratorSerializer.VARIABLE_STARTVALUE_KEYWORD}:${variable.startValue}\n`;
+                output += `;   ${ExpressionDataGeneratorSerializer.VARIABLE_ENDVALUE_KEYWORD}:${variable.endValue}\n`;
+                output += `;   ${ExpressionDataGeneratorSerializer.VARIABLE_STEP_KEYWORD}:${variable.step}\n`;
+            }
+        }
+        if (expDataGen.binaryFile.length === 0) {
+            // The binary files are embedded as bytes
+            let outputDataTypeStr = 'W';
+            if (expDataGen.outputDataType === OutputDataType.BYTE) {
+                outputDataTypeStr = 'B';
+            } else if (expDataGen.outputDataType === OutputDataType.LONG) {
+                outputDataTypeStr = 'L';
+            }
+            output += `;${ExpressionDataGeneratorSerializer.OUTPUTTYPE_KEYWORD}(B,W,L): ${outputDataTypeStr}\n`;
+        }
         output += `;${ExpressionDataGeneratorSerializer.OUTPUTHEX_KEYWORD}: ${expDataGen.outputInHex}\n`;
         output += `;${ExpressionDataGeneratorSerializer.VALUES_PER_LINE_KEYWORD}: ${expDataGen.valuesPerLine}\n`;
+        if (expDataGen.label.length > 0) {
+            output += `;${ExpressionDataGeneratorSerializer.LABEL_KEYWORD}: ${expDataGen.label}\n`;
+        }
+        if (expDataGen.splitRows) {
+            output += `;${ExpressionDataGeneratorSerializer.SPLIT_ROWS_KEYWORD}: ${expDataGen.splitRows}\n`;
+        }
         output += ";--------------------------------\n";
         output += ";- DO NOT MODIFY following lines -\n";
         for (const line of expDataGen.evalString().split('\n')) {
@@ -291,6 +520,16 @@ export class ExpressionDataGeneratorSerializer {
     }
 }
 
+/**
+ * Result of the regeneration of the data of several files
+ */
+export interface DataRegenerationReport {
+    /** Updated and skipped files */
+    messages: Array<string>;
+    /** Generators which cannot be evaluated */
+    errors: Array<string>;
+}
+
 export class DataGeneratorCodeLensProvider implements vscode.CodeLensProvider {
     public provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken):
         vscode.CodeLens[] | Thenable<vscode.CodeLens[]> {
@@ -336,18 +575,19 @@ export class DataGeneratorCodeLensProvider implements vscode.CodeLensProvider {
     public async onGenerateData(range: vscode.Range): Promise<void> {
         const editor = vscode.window.activeTextEditor;
         if (editor) {
-            const edited = await editor.edit(async (edit) => {
-                let rangesArray = new Array<vscode.Range>();
-                if (range) {
-                    rangesArray.push(range);
-                } else {
-                    rangesArray = this.provideCodeLensesRanges(editor.document);
-                }
-                for (const rg of rangesArray) {
-                    const serializer = new ExpressionDataGeneratorSerializer();
-                    const oldText = editor.document.getText(rg);
-                    const generator = serializer.parse(oldText);
-                    const newText = serializer.print(generator);
+            let rangesArray = new Array<vscode.Range>();
+            if (range) {
+                rangesArray.push(range);
+            } else {
+                rangesArray = this.provideCodeLensesRanges(editor.document);
+            }
+            // The files of the generators are read before the edition
+            const replacements = new Array<[vscode.Range, string]>();
+            for (const rg of rangesArray) {
+                replacements.push([rg, await this.generate(editor.document, rg)]);
+            }
+            const edited = await editor.edit((edit) => {
+                for (const [rg, newText] of replacements) {
                     edit.replace(rg, newText);
                 }
             });
@@ -358,4 +598,66 @@ export class DataGeneratorCodeLensProvider implements vscode.CodeLensProvider {
             throw new Error("Please select an editing document");
         }
     }
+
+    /**
+     * Regenerates the data of the generators in the sources of the workspace.
+     * The documents with unsaved changes are skipped: only the regenerated data is saved.
+     * @param files Source files
+     * @return Messages of the updated and skipped files, and the errors
+     */
+    public async regenerateFiles(files: Array<vscode.Uri>): Promise<DataRegenerationReport> {
+        const messages = new Array<string>();
+        const errors = new Array<string>();
+        for (const file of files) {
+            const filePath = vscode.workspace.asRelativePath(file, false);
+            try {
+                const document = await vscode.workspace.openTextDocument(file);
+                if (this.provideCodeLensesRanges(document).length === 0) {
+                    continue;
+                } else if (document.isDirty) {
+                    messages.push(`${filePath}: skipped, the document has unsaved changes`);
+                } else if (await this.regenerateDocument(document)) {
+                    messages.push(`${filePath}: generated data updated`);
+                }
+            } catch (err) {
+                errors.push(`${filePath}: ${err.message}`);
+            }
+        }
+        return { messages: messages, errors: errors };
+    }
+
+    /**
+     * Regenerates the data of all the generators of a document and saves it if it has changed
+     * @param document Document to update
+     * @return true if the document was modified
+     */
+    public async regenerateDocument(document: vscode.TextDocument): Promise<boolean> {
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        let modified = false;
+        for (const rg of this.provideCodeLensesRanges(document)) {
+            const oldText = document.getText(rg);
+            const newText = await this.generate(document, rg);
+            if (newText !== oldText) {
+                workspaceEdit.replace(document.uri, rg, newText);
+                modified = true;
+            }
+        }
+        if (modified) {
+            await vscode.workspace.applyEdit(workspaceEdit);
+            await document.save();
+        }
+        return modified;
+    }
+
+    private async generate(document: vscode.TextDocument, range: vscode.Range): Promise<string> {
+        const serializer = new ExpressionDataGeneratorSerializer();
+        const generator = serializer.parse(document.getText(range));
+        // The paths of the files are relative to the workspace
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+        const rootDir = workspaceFolder ? workspaceFolder.uri : vscode.Uri.file(path.dirname(document.uri.fsPath));
+        const configuration = ConfigurationHelper.getDefaultConfiguration(document.uri);
+        const allowScripts = vscode.workspace.isTrusted && ConfigurationHelper.retrieveBooleanProperty(configuration, ExpressionDataGenerator.ALLOW_SCRIPTS_KEY, false);
+        await generator.loadFiles(rootDir, allowScripts);
+        return serializer.print(generator);
+    }
 }
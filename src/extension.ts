@@ -13,8 +13,22 @@ import { StatusManager } from "./status";
 import { Disassembler, DisassembleRequestType } from './disassemble';
 import { M68kDefinitionHandler } from './definitionHandler';
 import { DisassemblyContentProvider } from './disassemblyContentProvider';
+import { CopperAssembler } from './copperAssembler';
+import { CopperTimelinePanel } from './copperTimeline';
+import { BlitterPanel } from './blitter';
+import { MemoryMapDataProvider } from './memoryMap';
+import { BitplaneViewerPanel } from './bitplaneViewer';
 import { DataGeneratorCodeLensProvider } from './expressionDataGenerator';
 import { IFFViewerPanel } from './iffImageViewer';
+import { IffConverter } from './iffConverter';
+import { PngConverterPanel } from './pngConverterPanel';
+import { AudioConverter } from './audioConverter';
+import { HunkExplorerProvider } from './hunkExplorer';
+import { ModInspectorProvider } from './modInspector';
+import { MacroExpansionContentProvider } from './macroExpander';
+import { ConditionalAssemblyProvider } from './conditionalAssembly';
+import { M68kSemanticTokensProvider } from './semanticTokens';
+import { ADFFileSystemProvider } from './adfFileSystemProvider';
 import { M68kCompletionItemProvider } from './completion';
 import { DocumentationManager } from './documentation';
 import { M68kLanguage } from './language';
@@ -416,6 +430,69 @@ export async function activate(context: vscode.ExtensionContext): Promise<any> {
     });
     context.subscriptions.push(disposable);
 
+    // Hunk explorer
+    context.subscriptions.push(HunkExplorerProvider.register(disassembler));
+    disposable = vscode.commands.registerCommand('amiga-assembly.explore-hunks', async (fileUri?: vscode.Uri) => {
+        let uri = fileUri;
+        if (!uri) {
+            const selectedFiles = await vscode.window.showOpenDialog(<vscode.OpenDialogOptions>{
+                prompt: "Select a hunk file to explore",
+                canSelectMany: false,
+                canSelectFiles: true,
+                canSelectFolders: false,
+            });
+            if (selectedFiles && (selectedFiles.length > 0)) {
+                uri = selectedFiles[0];
+            }
+        }
+        if (uri) {
+            await vscode.commands.executeCommand('vscode.openWith', uri, HunkExplorerProvider.VIEW_TYPE);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    // ProTracker modules
+    context.subscriptions.push(ModInspectorProvider.register());
+    disposable = vscode.commands.registerCommand('amiga-assembly.mod-scaffolding', async (fileUri?: vscode.Uri) => {
+        try {
+            let uri = fileUri;
+            if (!uri) {
+                const selectedFiles = await vscode.window.showOpenDialog({ canSelectMany: false, filters: { "ProTracker modules": ["mod"] } });
+                if (selectedFiles && (selectedFiles.length > 0)) {
+                    uri = selectedFiles[0];
+                }
+            }
+            if (uri) {
+                await ModInspectorProvider.openScaffolding(uri);
+            }
+        } catch (err) {
+            vscode.window.showErrorMessage(err.message);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    // ADF file system
+    context.subscriptions.push(ADFFileSystemProvider.register());
+    disposable = vscode.commands.registerCommand('amiga-assembly.mount-adf', async (fileUri?: vscode.Uri) => {
+        let uri = fileUri;
+        if (!uri) {
+            const selectedFiles = await vscode.window.showOpenDialog(<vscode.OpenDialogOptions>{
+                prompt: "Select an ADF file to mount",
+                canSelectMany: false,
+                canSelectFiles: true,
+                canSelectFolders: false,
+                filters: { "ADF files": ["adf"] }
+            });
+            if (selectedFiles && (selectedFiles.length > 0)) {
+                uri = selectedFiles[0];
+            }
+        }
+        if (uri && !ADFFileSystemProvider.mount(uri)) {
+            vscode.window.showErrorMessage(`Unable to mount the ADF file '${uri.fsPath}'`);
+        }
+    });
+    context.subscriptions.push(disposable);
+
     // List all symbols in selection
     disposable = vscode.commands.registerCommand('amiga-assembly.list-used-registers', async () => {
         try {
@@ -427,6 +504,57 @@ export async function activate(context: vscode.ExtensionContext): Promise<any> {
     });
     context.subscriptions.push(disposable);
 
+    // Switch the selected copper list between dc.w and symbolic instructions
+    disposable = vscode.commands.registerCommand('amiga-assembly.edit-copper-list', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (editor) {
+            try {
+                const selection = editor.selection;
+                let endLine = selection.end.line;
+                if ((endLine > selection.start.line) && (selection.end.character === 0)) {
+                    endLine--;
+                }
+                const range = new vscode.Range(selection.start.line, 0, endLine, editor.document.lineAt(endLine).range.end.character);
+                const dangerBit = ConfigurationHelper.retrieveBooleanProperty(ConfigurationHelper.getDefaultConfiguration(editor.document.uri), CopperAssembler.DANGER_BIT_KEY, false);
+                const text = new CopperAssembler(dangerBit).toggleSource(editor.document.getText(range));
+                await editor.edit(editBuilder => editBuilder.replace(range, text));
+            } catch (err) {
+                vscode.window.showErrorMessage(err.message);
+            }
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    // Copper list timeline
+    disposable = vscode.commands.registerCommand('amiga-assembly.show-copper-timeline', async () => {
+        try {
+            await CopperTimelinePanel.showCopperList();
+        } catch (err) {
+            vscode.window.showErrorMessage(err.message);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    // Bitplane viewer
+    disposable = vscode.commands.registerCommand('amiga-assembly.view-bitplanes', () => {
+        try {
+            BitplaneViewerPanel.show(context.extensionPath);
+        } catch (err) {
+            vscode.window.showErrorMessage(err.message);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    // Blitter operation decoder
+    disposable = vscode.commands.registerCommand('amiga-assembly.show-blitter-operation', async () => {
+        try {
+            await BlitterPanel.showBlitterOperation();
+        } catch (err) {
+            vscode.window.showErrorMessage(err.message);
+        }
+    });
+    context.subscriptions.push(disposable);
+
     // create a new calculator
     const calc = state.getCalc();
     const controller = new CalcController(calc);
@@ -440,6 +568,14 @@ export async function activate(context: vscode.ExtensionContext): Promise<any> {
         return calc.showInputPanel();
     });
     context.subscriptions.push(disposable);
+    disposable = vscode.commands.registerCommand('amiga-assembly.calculator-minterm-mode', () => {
+        return calc.toggleMintermMode();
+    });
+    context.subscriptions.push(disposable);
+    disposable = vscode.commands.registerCommand('amiga-assembly.calculator-paula-mode', () => {
+        return calc.togglePaulaMode();
+    });
+    context.subscriptions.push(disposable);
     disposable = vscode.commands.registerCommand('amiga-assembly.evaluate-selection', () => {
         return calc.evaluateSelections();
     });
@@ -497,6 +633,39 @@ export async function activate(context: vscode.ExtensionContext): Promise<any> {
     context.subscriptions.push(vscode.languages.registerReferenceProvider(AMIGA_ASM_MODE, definitionHandler));
     context.subscriptions.push(vscode.languages.registerDocumentSymbolProvider(AMIGA_ASM_MODE, definitionHandler));
 
+    // Macro expansion
+    const macroExpansionProvider = new MacroExpansionContentProvider();
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(MacroExpansionContentProvider.SCHEME, macroExpansionProvider));
+    context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
+        macroExpansionProvider.onDidCloseTextDocument(document);
+        definitionHandler.getMacroExpander().forgetDocument(document.uri);
+    }));
+    disposable = vscode.commands.registerCommand('amiga-assembly.peek-macro-expansion', async () => {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            if (editor) {
+                await definitionHandler.scanFile(editor.document.uri, editor.document);
+                await macroExpansionProvider.peekExpansion(editor, definitionHandler.getMacroExpander());
+            }
+        } catch (err) {
+            vscode.window.showErrorMessage(err.message);
+        }
+    });
+    context.subscriptions.push(disposable);
+
+    // Conditional assembly
+    const conditionalAssemblyProvider = new ConditionalAssemblyProvider(definitionHandler);
+    context.subscriptions.push(conditionalAssemblyProvider);
+    context.subscriptions.push(vscode.languages.registerFoldingRangeProvider(AMIGA_ASM_MODE, conditionalAssemblyProvider));
+    vscode.window.onDidChangeActiveTextEditor(editor => conditionalAssemblyProvider.updateDecorations(editor), null, context.subscriptions);
+    vscode.workspace.onDidChangeTextDocument(event => conditionalAssemblyProvider.scheduleUpdate(event.document), null, context.subscriptions);
+    conditionalAssemblyProvider.updateDecorations(vscode.window.activeTextEditor);
+
+    // Semantic tokens
+    const semanticTokensProvider = new M68kSemanticTokensProvider(definitionHandler);
+    context.subscriptions.push(semanticTokensProvider);
+    context.subscriptions.push(vscode.languages.registerDocumentSemanticTokensProvider(AMIGA_ASM_MODE, semanticTokensProvider, M68kSemanticTokensProvider.LEGEND));
+
     // Diagnostics 
     const errorDiagnosticCollection = state.getErrorDiagnosticCollection();
     const warningDiagnosticCollection = state.getWarningDiagnosticCollection();
@@ -531,6 +700,25 @@ export async function activate(context: vscode.ExtensionContext): Promise<any> {
         }
     });
     context.subscriptions.push(disposable);
+    disposable = vscode.commands.registerCommand('amiga-assembly.regenerate-workspace-data', async () => {
+        try {
+            const files = await vscode.workspace.findFiles("**/*.{s,i,asm}");
+            const report = await state.getDataGenerator().regenerateFiles(files);
+            const messages = report.messages.concat(report.errors);
+            if (messages.length > 0) {
+                const outputChannel = state.getOutputChannel();
+                for (const message of messages) {
+                    outputChannel.appendLine(message);
+                }
+                outputChannel.show(true);
+            } else {
+                vscode.window.showInformationMessage("The generated data is up to date");
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(error.message);
+        }
+    });
+    context.subscriptions.push(disposable);
     context.subscriptions.push(vscode.languages.registerCodeLensProvider(AMIGA_ASM_MODE, state.getDataGenerator()));
 
     // Debugger View commands
@@ -555,12 +743,35 @@ export async function activate(context: vscode.ExtensionContext): Promise<any> {
         }
     });
     context.subscriptions.push(disposable);
+    disposable = vscode.commands.registerCommand('amiga-assembly.toggle-record-mode', async () => {
+        const ds = vscode.debug.activeDebugSession;
+        if (ds) {
+            try {
+                const current = await ds.customRequest('getRecordMode');
+                await ds.customRequest('setRecordMode', { enabled: !current.enabled });
+            } catch (error) {
+                vscode.window.showErrorMessage(error.message);
+            }
+        } else {
+            vscode.window.showErrorMessage("No active debug session");
+        }
+    });
+    context.subscriptions.push(disposable);
 
 
     // Views
     const disassembledMemoryDataProvider = new DisassembledMemoryDataProvider();
     vscode.window.registerTreeDataProvider('disassembledMemory', disassembledMemoryDataProvider);
     vscode.commands.registerCommand('disassembledMemory.setDisassembledMemory', (memory: DisassembledInstructionAdapter[]) => disassembledMemoryDataProvider.setDisassembledMemory(memory));
+    const memoryMapDataProvider = new MemoryMapDataProvider();
+    const memoryMapView = vscode.window.createTreeView('memoryMap', { treeDataProvider: memoryMapDataProvider });
+    memoryMapDataProvider.setVisible(memoryMapView.visible);
+    context.subscriptions.push(memoryMapView.onDidChangeVisibility((e) => memoryMapDataProvider.setVisible(e.visible)));
+    context.subscriptions.push(memoryMapView);
+    context.subscriptions.push(vscode.debug.registerDebugAdapterTrackerFactory('fs-uae', memoryMapDataProvider));
+    context.subscriptions.push(vscode.debug.registerDebugAdapterTrackerFactory('winuae', memoryMapDataProvider));
+    context.subscriptions.push(vscode.debug.registerDebugAdapterTrackerFactory('fs-uae', BitplaneViewerPanel.TRACKER_FACTORY));
+    context.subscriptions.push(vscode.debug.registerDebugAdapterTrackerFactory('winuae', BitplaneViewerPanel.TRACKER_FACTORY));
 
     // register a configuration provider for 'fs-uae' debug type
     context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('fs-uae', new FsUAEConfigurationProvider()));
@@ -584,6 +795,39 @@ export async function activate(context: vscode.ExtensionContext): Promise<any> {
             }
         });
     }
+    disposable = vscode.commands.registerCommand('amiga-assembly.convert-png', async (imageUri?: vscode.Uri) => {
+        try {
+            let selectedUri = imageUri;
+            if (!selectedUri) {
+                const selectedFiles = await vscode.window.showOpenDialog({ canSelectMany: false, filters: { "PNG images": ["png"] } });
+                if (selectedFiles && (selectedFiles.length > 0)) {
+                    selectedUri = selectedFiles[0];
+                }
+            }
+            if (selectedUri) {
+                await PngConverterPanel.create(context.extensionPath, selectedUri);
+            }
+        } catch (err) {
+            vscode.window.showErrorMessage(err.message);
+        }
+    });
+    context.subscriptions.push(disposable);
+    disposable = vscode.commands.registerCommand('amiga-assembly.convert-iff', async (imageUri?: vscode.Uri) => {
+        try {
+            await new IffConverter().showConversionPanel(imageUri);
+        } catch (err) {
+            vscode.window.showErrorMessage(err.message);
+        }
+    });
+    context.subscriptions.push(disposable);
+    disposable = vscode.commands.registerCommand('amiga-assembly.convert-wav', async (soundUri?: vscode.Uri) => {
+        try {
+            await new AudioConverter().showConversionPanel(soundUri);
+        } catch (err) {
+            vscode.window.showErrorMessage(err.message);
+        }
+    });
+    context.subscriptions.push(disposable);
     context.subscriptions.push(
         vscode.commands.registerCommand('amiga-assembly.view-iff', async (imageUri: vscode.Uri) => {
             const [panel, view] = await IFFViewerPanel.create(context.extensionPath, imageUri);
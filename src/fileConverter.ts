@@ -0,0 +1,87 @@
+import { Uri } from 'vscode';
+import * as path from 'path';
+import { FileProxy } from './fsProxy';
+import { substituteVariables } from './configVariables';
+
+/**
+ * Base of the converters of workspace files run by the build task
+ */
+export abstract class FileConverter {
+    /**
+     * Checks if the output files are newer than their input file and were converted with the same options
+     * @param input Input file
+     * @param outputs Output files, the first one is the main output
+     * @param options Options of the conversion
+     * @return true if the outputs do not need to be converted again
+     */
+    protected async isUpToDate(input: FileProxy, outputs: Array<FileProxy>, options: unknown): Promise<boolean> {
+        const inputStat = await input.stat();
+        for (const output of outputs) {
+            if (!(await output.exists()) || ((await output.stat()).mtime < inputStat.mtime)) {
+                return false;
+            }
+        }
+        const optionsFile = this.getOptionsFile(outputs[0]);
+        if (await optionsFile.exists()) {
+            return (await optionsFile.readFileText()) === JSON.stringify(options);
+        }
+        return false;
+    }
+
+    /**
+     * Saves the options of a conversion, checked by isUpToDate
+     * @param output Main output file
+     * @param options Options of the conversion
+     */
+    protected async saveOptions(output: FileProxy, options: unknown): Promise<void> {
+        await this.writeFile(this.getOptionsFile(output), Buffer.from(JSON.stringify(options)));
+    }
+
+    /**
+     * Hidden file of the options next to the main output: excluded from the ADF files by default
+     * @param output Main output file
+     */
+    private getOptionsFile(output: FileProxy): FileProxy {
+        const outputPath = output.getPath();
+        return new FileProxy(Uri.file(path.join(path.dirname(outputPath), `.${path.basename(outputPath)}.options`)));
+    }
+
+    /**
+     * Creates a label from a file name: the characters not allowed in a label are replaced by '_'
+     * @param filename File name
+     * @return Label
+     */
+    public static toLabel(filename: string): string {
+        let label = path.basename(filename, path.extname(filename)).replace(/[^a-zA-Z0-9_]/g, "_");
+        if (label.match(/^\d/)) {
+            label = `_${label}`;
+        }
+        return label;
+    }
+
+    /**
+     * Writes an output file, the parent directory is created if needed
+     * @param file Output file
+     * @param contents Contents of the file
+     */
+    protected async writeFile(file: FileProxy, contents: Buffer): Promise<void> {
+        await new FileProxy(Uri.file(path.dirname(file.getPath()))).mkdir();
+        await file.writeFile(contents);
+    }
+
+    /**
+     * Resolves a path of the configuration: a relative path is in the workspace
+     * @param filePath Path of the configuration
+     * @param rootDir Root directory of the workspace
+     * @return The file
+     */
+    protected resolveFile(filePath: string, rootDir: Uri | null): FileProxy {
+        const substitutedPath = substituteVariables(filePath, true);
+        if (!path.isAbsolute(substitutedPath)) {
+            if (rootDir) {
+                return new FileProxy(rootDir).getRelativeFile(substitutedPath);
+            }
+        }
+        return new FileProxy(Uri.file(substitutedPath));
+    }
+}
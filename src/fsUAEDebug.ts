@@ -6,11 +6,11 @@ import * as vscode from 'vscode';
 import { DebugProtocol } from 'vscode-debugprotocol/lib/debugProtocol';
 import { basename } from 'path';
 import { GdbProxy } from './gdbProxy';
-import { Segment, GdbHaltStatus } from './gdbProxyCore';
+import { Segment, GdbHaltStatus, GdbThread } from './gdbProxyCore';
 import { ExecutorHelper } from './execHelper';
 import { CancellationTokenSource, window, Uri } from 'vscode';
 import { DebugInfo } from './debugInfo';
-import { Capstone } from './capstone';
+import { InstructionDisassembler } from './capstone';
 import { DebugVariableResolver } from './debugVariableResolver';
 import { DebugExpressionHelper, DisassembledInstructionAdapter } from './debugExpressionHelper';
 import { DebugDisassembledManager, DisassembleAddressArguments } from './debugDisassembled';
@@ -22,6 +22,10 @@ import { FileProxy } from './fsProxy';
 import { VariableDisplayFormat, VariableDisplayFormatRequest, VariableFormatter } from './variableFormatter';
 import { ConfigurationHelper } from './configurationHelper';
 import { substituteVariables } from './configVariables';
+import { CpuTraceRecorder, ResumeMode, UncapturedMemoryReason } from './cpuTraceRecorder';
+import { Disassembler } from './disassemble';
+import { HunkType, MemoryType } from './amigaHunkParser';
+import { MemoryMapSegment } from './memoryMap';
 
 /**
  * This interface describes the mock-debug specific launch attributes
@@ -57,6 +61,10 @@ export interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArgum
     exceptionMask?: number;
     /** Waiting time for emulator start */
     emulatorStartDelay?: number;
+    /** Record the cpu states to step back */
+    recordMode?: boolean;
+    /** Maximum count of recorded cpu states */
+    recordBufferSize?: number;
 }
 
 export class FsUAEDebugSession extends DebugSession implements DebugVariableResolver {
@@ -104,7 +112,7 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
     protected debugInfo?: DebugInfo;
 
     /** Tool to disassemble */
-    protected capstone?: Capstone;
+    protected capstone: InstructionDisassembler;
 
     /** Cache for disassembled code */
     protected disassembledCache = new Map<number, string>();
@@ -124,6 +132,9 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
     /** Current memory display pc */
     protected currentMemoryViewPc = -1;
 
+    /** Recorder of the cpu states to step back */
+    protected cpuTraceRecorder: CpuTraceRecorder;
+
     /** trace the communication protocol */
     protected trace = false;
 
@@ -140,9 +151,12 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         this.gdbProxy.setMutexTimeout(FsUAEDebugSession.MUTEX_TIMEOUT);
         this.initProxy();
         this.executor = new ExecutorHelper();
-        this.debugDisassembledManager = new DebugDisassembledManager(this.gdbProxy, undefined, this);
+        this.capstone = Disassembler.createInstructionDisassembler();
+        this.debugDisassembledManager = new DebugDisassembledManager(this.gdbProxy, this.capstone, this);
         this.breakpointManager = new BreakpointManager(this.gdbProxy, this.debugDisassembledManager);
         this.breakpointManager.setMutexTimeout(FsUAEDebugSession.MUTEX_TIMEOUT);
+        this.cpuTraceRecorder = new CpuTraceRecorder(this.gdbProxy);
+        this.cpuTraceRecorder.setCapstone(this.capstone);
         // event handler to clean data breakpoints
         if (!FsUAEDebugSession.BREAKPOINT_EVENT_SET) {
             vscode.debug.onDidChangeBreakpoints(BreakpointManager.onDidChangeBreakpoints);
@@ -163,7 +177,7 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
      * @param executor mocked executor
      * @param capstone mocked capstone
      */
-    public setTestContext(gdbProxy: GdbProxy, executor: ExecutorHelper, capstone: Capstone): void {
+    public setTestContext(gdbProxy: GdbProxy, executor: ExecutorHelper, capstone: InstructionDisassembler): void {
         this.executor = executor;
         this.gdbProxy = gdbProxy;
         this.gdbProxy.setMutexTimeout(1000);
@@ -173,6 +187,16 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         this.debugDisassembledManager = new DebugDisassembledManager(gdbProxy, capstone, this);
         this.breakpointManager = new BreakpointManager(this.gdbProxy, this.debugDisassembledManager);
         this.breakpointManager.setMutexTimeout(1000);
+        this.cpuTraceRecorder = new CpuTraceRecorder(this.gdbProxy);
+        this.cpuTraceRecorder.setCapstone(capstone);
+    }
+
+    /**
+     * Returns the cpu trace recorder (for tests)
+     * @return the recorder
+     */
+    public getCpuTraceRecorder(): CpuTraceRecorder {
+        return this.cpuTraceRecorder;
     }
 
     /**
@@ -212,8 +236,10 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         this.gdbProxy.on('stopOnPause', (threadId: number) => {
             this.sendEvent(this.crateStoppedEvent(threadId, "pause", false));
         });
-        this.gdbProxy.on('stopOnBreakpoint', (threadId: number) => {
-            this.sendEvent(this.crateStoppedEvent(threadId, "breakpoint", false));
+        this.gdbProxy.on('stopOnBreakpoint', async (threadId: number) => {
+            if (await this.checkBreakpointConditions(threadId)) {
+                this.sendEvent(this.crateStoppedEvent(threadId, "breakpoint", false));
+            }
         });
         this.gdbProxy.on('stopOnException', (status: GdbHaltStatus, threadId: number) => {
             this.sendEvent(this.crateStoppedEvent(threadId, "exception", false));
@@ -279,14 +305,18 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         // make VS Code to use 'evaluate' when hovering over source
         response.body.supportsEvaluateForHovers = true;
 
-        // make VS Code to show a 'step back' button
-        response.body.supportsStepBack = false;
+        // make VS Code to show a 'step back' button : used with the record mode
+        response.body.supportsStepBack = true;
 
         // Restart frame not supported
         response.body.supportsRestartFrame = false;
 
-        // Conditional breakpoints not supported
-        response.body.supportsConditionalBreakpoints = false;
+        // Conditional breakpoints evaluated by the extension
+        response.body.supportsConditionalBreakpoints = true;
+        response.body.supportsHitConditionalBreakpoints = true;
+
+        // Logpoints : messages printed without stopping
+        response.body.supportsLogPoints = true;
 
         // Read memory
         response.body.supportsReadMemoryRequest = true;
@@ -319,13 +349,6 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         // This default debug adapter does support the 'setVariable' request.
         response.body.supportsSetVariable = true;
 
-        // Sets the capstone path
-        const conf = ConfigurationHelper.retrieveStringPropertyInDefaultConf('cstool');
-        if (!this.capstone && conf && (conf.length > 5)) {
-            this.capstone = new Capstone(conf);
-            this.debugDisassembledManager.setCapstone(this.capstone);
-        }
-
         this.sendResponse(response);
 
         // since this debug adapter can accept configuration requests like 'setBreakpoint' at any time,
@@ -375,6 +398,11 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
             if (args.exceptionMask) {
                 this.breakpointManager.setExceptionMask(args.exceptionMask);
             }
+            if (args.recordBufferSize) {
+                this.cpuTraceRecorder = new CpuTraceRecorder(this.gdbProxy, args.recordBufferSize);
+                this.cpuTraceRecorder.setCapstone(this.capstone);
+            }
+            this.cpuTraceRecorder.setEnabled(args.recordMode === true);
             dInfoLoaded = await this.loadDebugInfo(args);
             if (dInfoLoaded && this.debugInfo) {
                 this.breakpointManager.setDebugInfo(this.debugInfo);
@@ -513,11 +541,42 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
             }
             this.sendEvent(new InvalidatedEvent(['variables']));
             this.sendResponse(response);
+        } else if (command === 'setRecordMode') {
+            this.cpuTraceRecorder.setEnabled(args.enabled === true);
+            this.sendEvent(new OutputEvent(`Record mode ${this.cpuTraceRecorder.isEnabled() ? "activated" : "deactivated"}\n`));
+            response.body = {
+                enabled: this.cpuTraceRecorder.isEnabled()
+            };
+            this.sendResponse(response);
+        } else if (command === 'getRecordMode') {
+            response.body = {
+                enabled: this.cpuTraceRecorder.isEnabled()
+            };
+            this.sendResponse(response);
+        } else if (command === 'evaluateAddress') {
+            this.evaluateAddressRequest(response, args);
+        } else if (command === 'getMemoryMap') {
+            response.body = {
+                segments: this.getMemoryMap()
+            };
+            this.sendResponse(response);
         } else {
             super.customRequest(command, response, args);
         }
     }
 
+    protected async evaluateAddressRequest(response: DebugProtocol.Response, args: { expression: string, frameId?: number }): Promise<void> {
+        try {
+            const address = await this.debugExpressionHelper.getAddressFromExpression(args.expression, args.frameId, this);
+            response.body = {
+                address: address
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendStringErrorResponse(response, err.message);
+        }
+    }
+
     protected async disassembleRequestInner(response: DebugProtocol.DisassembleResponse, args: DisassembleAddressArguments): Promise<void> {
         const newArgs = { ...args };
         try {
@@ -606,7 +665,7 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         // set and verify breakpoint locations
         if (args.breakpoints) {
             for (const reqBp of args.breakpoints) {
-                const debugBp = this.breakpointManager.createInstructionBreakpoint(parseInt(reqBp.instructionReference));
+                const debugBp = this.breakpointManager.createInstructionBreakpoint(parseInt(reqBp.instructionReference), reqBp.condition, reqBp.hitCondition);
                 try {
                     const modifiedBp = await this.breakpointManager.setBreakpoint(debugBp);
                     debugBreakPoints.push(modifiedBp);
@@ -636,7 +695,7 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         // set and verify breakpoint locations
         if (args.breakpoints) {
             for (const reqBp of args.breakpoints) {
-                const debugBp = this.breakpointManager.createBreakpoint(args.source, reqBp.line);
+                const debugBp = this.breakpointManager.createBreakpoint(args.source, reqBp.line, reqBp.condition, reqBp.hitCondition, reqBp.logMessage);
                 try {
                     const modifiedBp = await this.breakpointManager.setBreakpoint(debugBp);
                     debugBreakPoints.push(modifiedBp);
@@ -653,6 +712,60 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         this.sendResponse(response);
     }
 
+    /**
+     * Checks the conditions of the breakpoints reached by the cpu and prints the logpoints messages.
+     * If no condition is verified or only logpoints are reached the execution is continued.
+     * @param threadId Id of the stopped thread
+     * @return true if the program should stay stopped
+     */
+    protected async checkBreakpointConditions(threadId: number): Promise<boolean> {
+        const thread = this.gdbProxy.getThread(threadId);
+        if (!thread || !this.gdbProxy.isCPUThread(thread) || !this.breakpointManager.hasBreakpointsToEvaluate()) {
+            return true;
+        }
+        try {
+            const values = await this.gdbProxy.getRegister("pc", undefined);
+            const pc = parseInt(values[0], 16);
+            const breakpoints = this.breakpointManager.getBreakpointsAtAddress(pc);
+            if (breakpoints.length <= 0) {
+                return true;
+            }
+            let shouldStop = false;
+            for (const bp of breakpoints) {
+                const stop = await this.breakpointManager.shouldStopOnBreakpoint(bp, (condition: string) => this.debugExpressionHelper.evaluateCondition(condition, undefined, this));
+                if (stop && bp.logMessage) {
+                    await this.sendLogpointMessage(bp, bp.logMessage);
+                } else {
+                    shouldStop = shouldStop || stop;
+                }
+            }
+            if (!shouldStop) {
+                await this.gdbProxy.continueExecution(thread);
+            }
+            return shouldStop;
+        } catch (err) {
+            this.sendEvent(new OutputEvent(`Error evaluating the breakpoint condition: ${err.message}\n`, 'stderr'));
+            return true;
+        }
+    }
+
+    /**
+     * Sends the message of a logpoint to the debug console
+     * @param bp Logpoint reached
+     * @param logMessage Message to interpolate
+     */
+    protected async sendLogpointMessage(bp: GdbBreakpoint, logMessage: string): Promise<void> {
+        const text = await this.debugExpressionHelper.interpolateLogMessage(logMessage, undefined, this);
+        const e: DebugProtocol.OutputEvent = new OutputEvent(`${text}\n`, 'console');
+        if (bp.source) {
+            e.body.source = bp.source;
+        }
+        if (bp.line !== undefined) {
+            e.body.line = bp.line;
+        }
+        this.sendEvent(e);
+    }
+
     protected async threadsRequest(response: DebugProtocol.ThreadsResponse): Promise<void> {
         try {
             await this.gdbProxy.waitConnected();
@@ -717,26 +830,24 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
                                 } else {
                                     // Get the disassembled line
                                     line += ": ";
-                                    if (this.capstone) {
-                                        try {
-                                            const memory = await this.gdbProxy.getMemory(f.pc, 10);
-                                            const disassembled = await this.capstone.disassemble(memory);
-                                            const lines = disassembled.split(/\r\n|\r|\n/g);
-                                            let selectedLine = lines[0];
-                                            for (const l of lines) {
-                                                if (l.trim().length > 0) {
-                                                    selectedLine = l;
-                                                    break;
-                                                }
-                                            }
-                                            const elms = selectedLine.split("  ");
-                                            if (elms.length > 2) {
-                                                selectedLine = elms[2];
+                                    try {
+                                        const memory = await this.gdbProxy.getMemory(f.pc, 10);
+                                        const disassembled = await this.capstone.disassemble(memory);
+                                        const lines = disassembled.split(/\r\n|\r|\n/g);
+                                        let selectedLine = lines[0];
+                                        for (const l of lines) {
+                                            if (l.trim().length > 0) {
+                                                selectedLine = l;
+                                                break;
                                             }
-                                            line += selectedLine.trim().replace(/\s\s+/g, ' ');
-                                        } catch (err) {
-                                            console.error("Error ignored: " + err.message);
                                         }
+                                        const elms = selectedLine.split("  ");
+                                        if (elms.length > 2) {
+                                            selectedLine = elms[2];
+                                        }
+                                        line += selectedLine.trim().replace(/\s\s+/g, ' ');
+                                    } catch (err) {
+                                        console.error("Error ignored: " + err.message);
                                     }
                                     this.disassembledCache.set(f.pc, line);
                                 }
@@ -940,6 +1051,7 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         const thread = this.gdbProxy.getThread(args.threadId);
         if (thread) {
             try {
+                await this.recordCpuState(thread, ResumeMode.CONTINUE);
                 await this.gdbProxy.continueExecution(thread);
                 response.body = {
                     allThreadsContinued: false
@@ -958,6 +1070,7 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         const thread = this.gdbProxy.getThread(args.threadId);
         if (thread) {
             try {
+                await this.recordCpuState(thread, ResumeMode.STEP_OVER);
                 await this.gdbProxy.stepToRange(thread, 0, 0);
                 this.sendResponse(response);
             } catch (err) {
@@ -973,6 +1086,7 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         const thread = this.gdbProxy.getThread(args.threadId);
         if (thread) {
             try {
+                await this.recordCpuState(thread, ResumeMode.STEP);
                 await this.gdbProxy.stepIn(thread);
                 this.sendResponse(response);
             } catch (err) {
@@ -992,6 +1106,7 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
                 const frame = stk.frames[1];
                 const startAddress = frame.pc + 1;
                 const endAddress = frame.pc + 10;
+                await this.recordCpuState(thread, ResumeMode.CONTINUE);
                 await this.gdbProxy.stepToRange(thread, startAddress, endAddress);
                 this.sendResponse(response);
             } catch (err) {
@@ -1002,6 +1117,97 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
         }
     }
 
+    /**
+     * Records the cpu state before resuming the execution if the record mode is on
+     * @param thread Thread to resume
+     * @param mode Way the execution will be resumed
+     */
+    protected async recordCpuState(thread: GdbThread, mode: ResumeMode): Promise<void> {
+        if (this.cpuTraceRecorder.isEnabled() && this.gdbProxy.isCPUThread(thread)) {
+            try {
+                await this.cpuTraceRecorder.record(mode);
+            } catch (err) {
+                this.sendEvent(new OutputEvent(`Error recording the cpu state: ${err.message}\n`, 'stderr'));
+            }
+        }
+    }
+
+    /**
+     * Restores the previous recorded cpu state
+     * @return the pc of the restored state or undefined if the history is empty
+     */
+    protected async restorePreviousCpuState(): Promise<number | undefined> {
+        const snapshot = await this.cpuTraceRecorder.stepBack();
+        if (snapshot) {
+            this.currentMemoryViewPc = -1;
+            if (snapshot.uncapturedMemory === UncapturedMemoryReason.CONTINUE) {
+                this.sendEvent(new OutputEvent("Stepped back across a continue: the memory written during the run was not captured and is not restored\n"));
+            } else if (snapshot.uncapturedMemory === UncapturedMemoryReason.SUBROUTINE) {
+                this.sendEvent(new OutputEvent("Stepped back across a subroutine call: the memory written by the subroutine was not captured and is not restored\n"));
+            }
+            const pc = snapshot.registers.find(r => r.name === "pc");
+            return pc ? pc.value : 0;
+        }
+        return undefined;
+    }
+
+    protected async stepBackRequest(response: DebugProtocol.StepBackResponse, args: DebugProtocol.StepBackArguments): Promise<void> {
+        await this.gdbProxy.waitConnected();
+        const thread = this.gdbProxy.getThread(args.threadId);
+        if (thread) {
+            if (!this.cpuTraceRecorder.isEnabled()) {
+                this.sendStringErrorResponse(response, "Record mode is not activated");
+            } else {
+                try {
+                    if (await this.restorePreviousCpuState() !== undefined) {
+                        this.sendResponse(response);
+                        this.sendEvent(this.crateStoppedEvent(thread.getId(), "step", false));
+                    } else {
+                        this.sendStringErrorResponse(response, "No more recorded history");
+                    }
+                } catch (err) {
+                    this.sendStringErrorResponse(response, err.message);
+                }
+            }
+        } else {
+            this.sendStringErrorResponse(response, "Unknown thread");
+        }
+    }
+
+    protected async reverseContinueRequest(response: DebugProtocol.ReverseContinueResponse, args: DebugProtocol.ReverseContinueArguments): Promise<void> {
+        await this.gdbProxy.waitConnected();
+        const thread = this.gdbProxy.getThread(args.threadId);
+        if (thread) {
+            if (!this.cpuTraceRecorder.isEnabled()) {
+                this.sendStringErrorResponse(response, "Record mode is not activated");
+            } else {
+                try {
+                    let reason = "step";
+                    let restored = false;
+                    let pc = await this.restorePreviousCpuState();
+                    while (pc !== undefined) {
+                        restored = true;
+                        if (this.breakpointManager.getBreakpointsAtAddress(pc).length > 0) {
+                            reason = "breakpoint";
+                            break;
+                        }
+                        pc = await this.restorePreviousCpuState();
+                    }
+                    if (restored) {
+                        this.sendResponse(response);
+                        this.sendEvent(this.crateStoppedEvent(thread.getId(), reason, false));
+                    } else {
+                        this.sendStringErrorResponse(response, "No more recorded history");
+                    }
+                } catch (err) {
+                    this.sendStringErrorResponse(response, err.message);
+                }
+            }
+        } else {
+            this.sendStringErrorResponse(response, "Unknown thread");
+        }
+    }
+
     protected async evaluateRequestRegister(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): Promise<void> {
         // It's a reg value
         try {
@@ -1172,22 +1378,18 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
                         };
                         this.sendResponse(response);
                     } else {
-                        if (this.capstone) {
-                            const constKey = key;
-                            // disassemble the code 
-                            const code = await this.capstone.disassemble(memory);
-                            const [firstRow, variables] = this.debugExpressionHelper.processVariablesFromDisassembler(code, startAddress);
-                            this.variableRefMap.set(constKey, variables);
-                            this.variableExpressionMap.set(args.expression, constKey);
-                            response.body = {
-                                result: firstRow,
-                                type: "array",
-                                variablesReference: constKey,
-                            };
-                            this.sendResponse(response);
-                        } else {
-                            this.sendStringErrorResponse(response, "Capstone cstool must be configured in the settings");
-                        }
+                        const constKey = key;
+                        // disassemble the code 
+                        const code = await this.capstone.disassemble(memory);
+                        const [firstRow, variables] = this.debugExpressionHelper.processVariablesFromDisassembler(code, startAddress);
+                        this.variableRefMap.set(constKey, variables);
+                        this.variableExpressionMap.set(args.expression, constKey);
+                        response.body = {
+                            result: firstRow,
+                            type: "array",
+                            variablesReference: constKey,
+                        };
+                        this.sendResponse(response);
                     }
                 } catch (err) {
                     this.sendStringErrorResponse(response, err.message);
@@ -1362,6 +1564,36 @@ export class FsUAEDebugSession extends DebugSession implements DebugVariableReso
                 }
             }
         }
+        this.debugDisassembledManager.setSymbols(this.symbolsMap);
+    }
+
+    /**
+     * Retrieves the segments of the program with the memory type of their hunks
+     * @return The memory map segments
+     */
+    public getMemoryMap(): Array<MemoryMapSegment> {
+        const memoryMap = new Array<MemoryMapSegment>();
+        const segments = this.gdbProxy.getSegments();
+        if (segments) {
+            for (const segment of segments) {
+                let memType = "ANY";
+                let hunkType = "";
+                if (this.debugInfo && (segment.id < this.debugInfo.hunks.length)) {
+                    const hunk = this.debugInfo.hunks[segment.id];
+                    memType = MemoryType[hunk.memType];
+                    hunkType = HunkType[hunk.hunkType];
+                }
+                memoryMap.push({
+                    id: segment.id,
+                    name: segment.name,
+                    address: segment.address,
+                    size: segment.size,
+                    memType: memType,
+                    hunkType: hunkType
+                });
+            }
+        }
+        return memoryMap;
     }
 
     public async updateDisassembledView(address: number, length: number): Promise<void> {
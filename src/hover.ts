@@ -3,6 +3,8 @@ import { ASMLine, NumberParser } from './parser';
 import { DocumentationManager, DocumentationInstruction } from './documentation';
 import { ExtensionState } from './extension';
 import { ConfigurationHelper } from './configurationHelper';
+import { BlitterDecoder } from './blitter';
+import { MemoryLabelsRegistry } from './customMemoryAddresses';
 
 /**
  * Hover provider class for le assembly language
@@ -53,6 +55,12 @@ export class M68kHoverProvider implements vscode.HoverProvider {
                         renderedLine2.appendText(description);
                         contents.push(renderedLine2);
                     }
+                    const expansion = definitionHandler.getMacroExpander().expandAt(document, position.line);
+                    if (expansion) {
+                        const renderedExpansion = new vscode.MarkdownString();
+                        renderedExpansion.appendCodeblock(expansion.join("\n"), "m68k");
+                        contents.push(renderedExpansion);
+                    }
                     return new vscode.Hover(contents, asmLine.instructionRange);
                 }
             }
@@ -80,6 +88,7 @@ export class M68kHoverProvider implements vscode.HoverProvider {
                 let text = prefix + document.getText(word);
                 let rendered = await this.renderWordHover(text.toUpperCase());
                 let renderedLine2 = null;
+                let renderedLine3 = null;
                 if (!rendered) {
                     const [cpuReg, label, xref] = await Promise.all([
                         this.documentationManager.getCpuRegister(text.toUpperCase()),
@@ -108,10 +117,12 @@ export class M68kHoverProvider implements vscode.HoverProvider {
                 } else {
                     // Is there a value next to the register ?
                     const elms = asmLine.data.split(",");
+                    let registerValue: number | null = null;
                     for (const elm of elms) {
                         if (elm.match(/[$#%@]([\dA-F]+)/i)) {
                             renderedLine2 = this.renderRegisterValue(elm);
                             if (renderedLine2) {
+                                registerValue = this.numberParser.parse(elm);
                                 break;
                             }
                         } else if (elm.match(/[$#%@+-/*]([\dA-Z_]+)/i)) {
@@ -122,6 +133,7 @@ export class M68kHoverProvider implements vscode.HoverProvider {
                                 if (value || value === 0) {
                                     renderedLine2 = this.renderRegisterValueNumber(value);
                                     if (renderedLine2) {
+                                        registerValue = value;
                                         break;
                                     }
                                 }
@@ -130,9 +142,14 @@ export class M68kHoverProvider implements vscode.HoverProvider {
                             }
                         }
                     }
+                    if (registerValue !== null) {
+                        renderedLine3 = this.renderBlitterRegisterValue(text.toUpperCase(), registerValue);
+                    }
                 }
                 if (rendered) {
-                    if (renderedLine2) {
+                    if (renderedLine2 && renderedLine3) {
+                        return new vscode.Hover([renderedLine3, renderedLine2, rendered], word);
+                    } else if (renderedLine2) {
                         return new vscode.Hover([renderedLine2, rendered], word);
                     } else {
                         return new vscode.Hover(rendered, word);
@@ -227,6 +244,22 @@ export class M68kHoverProvider implements vscode.HoverProvider {
         return new vscode.MarkdownString(head + sep + row);
     }
 
+    /**
+     * Renders the decoded value of a blitter register
+     * @param name Name of the register
+     * @param value Value of the register
+     * @return Markdown string or null if it is not a decoded blitter register
+     */
+    public renderBlitterRegisterValue(name: string, value: number): vscode.MarkdownString | null {
+        if (MemoryLabelsRegistry.isBlitterRegister(name)) {
+            const description = BlitterDecoder.describeRegister(name, value);
+            if (description) {
+                return new vscode.MarkdownString(`**${name}**: ${description}`);
+            }
+        }
+        return null;
+    }
+
     /**
      * Render a number if it is present
      * @param text Text to be examined
@@ -0,0 +1,449 @@
+import { Uri } from "vscode";
+import { Hunk, HunkParser, HunkType, MemoryType } from "./amigaHunkParser";
+import { MemoryLabelsRegistry } from "./customMemoryAddresses";
+import { M68kDisassembler, M68kInstruction, M68kOperand, M68kOperandKind } from "./m68kDisassembler";
+
+/**
+ * Labels and relocations of a hunk
+ */
+interface HunkContext {
+    hunk: Hunk;
+    /** Content of the hunk */
+    data: Buffer;
+    /** Size of the hunk in memory */
+    size: number;
+    /** Labels by offset */
+    labels: Map<number, string>;
+    /** Target hunk index of the relocated longs by offset */
+    relocations: Map<number, number>;
+    /** Instructions reached by the code flow by offset */
+    traced: Map<number, M68kInstruction>;
+    /** Instructions reached by the code flow in the offset order, the other bytes are data */
+    instructions: Array<M68kInstruction>;
+}
+
+/**
+ * Disassembles the hunk executables to a vasm source.
+ *
+ * The relocated longs are replaced by label references, the symbols are used as labels
+ * and the custom chip registers are named.
+ * Only the code reached from the start of the code hunks, the branches and the relocated
+ * jumps and pointers is disassembled: the other bytes are written as data.
+ */
+export class HunkDisassembler {
+    private static readonly INDENT = "    ";
+    private static readonly BYTES_PER_LINE = 16;
+    private static readonly LABEL_REGEXP = /^[A-Za-z_][\w.]*$/;
+    /** Instructions after which the code flow does not continue */
+    private static readonly END_OF_FLOW = ["bra", "jmp", "rts", "rte", "rtr", "rtd", "illegal"];
+    private disassembler = new M68kDisassembler();
+    /** Custom registers used by the code */
+    private customRegisters = new Map<string, number>();
+
+    /**
+     * Disassembles a hunk file
+     * @param filename File to disassemble
+     * @return vasm source
+     */
+    public async disassembleFile(filename: Uri): Promise<string> {
+        const hunks = await new HunkParser().readFile(filename);
+        return this.disassembleHunks(hunks);
+    }
+
+    /**
+     * Disassembles the hunks
+     * @param hunks Parsed hunks
+     * @return vasm source
+     */
+    public disassembleHunks(hunks: Array<Hunk>): string {
+        this.customRegisters.clear();
+        const contexts = hunks.map(h => this.createContext(h));
+        // First pass: code flow from the start of the code hunks
+        const entries = new Array<[HunkContext, number]>();
+        for (const context of contexts) {
+            if (context.hunk.hunkType === HunkType.CODE) {
+                entries.push([context, 0]);
+            }
+        }
+        let entry = entries.pop();
+        while (entry) {
+            this.traceCode(entry[0], entry[1], contexts, entries);
+            entry = entries.pop();
+        }
+        // Labels of the symbols, the relocated addresses and the branch targets
+        for (const context of contexts) {
+            if (context.hunk.hunkType === HunkType.CODE) {
+                context.instructions = Array.from(context.traced.values()).sort((a, b) => a.address - b.address);
+                for (const instruction of context.instructions) {
+                    for (const operand of instruction.operands) {
+                        if (((operand.kind === M68kOperandKind.BRANCH_TARGET) || (operand.kind === M68kOperandKind.PC_DISPLACEMENT) ||
+                            (operand.kind === M68kOperandKind.PC_INDEX)) && (operand.address !== undefined)) {
+                            this.addLabel(context, operand.address);
+                        }
+                    }
+                }
+            }
+            for (const [offset, target] of context.relocations) {
+                if ((offset + 4 <= context.data.length) && (target < contexts.length)) {
+                    this.addLabel(contexts[target], context.data.readUInt32BE(offset));
+                }
+            }
+        }
+        // Second pass: source of the sections
+        const sections = new Array<string>();
+        for (const context of contexts) {
+            sections.push(this.disassembleHunk(context, contexts));
+        }
+        let source = "; Assemble with: vasmm68k_mot -Fhunkexe -no-opt\n\n";
+        if (this.customRegisters.size > 0) {
+            const registers = Array.from(this.customRegisters.entries()).sort((a, b) => a[1] - b[1]);
+            for (const [name, address] of registers) {
+                source += `${name}${" ".repeat(Math.max(1, 12 - name.length))}equ $${address.toString(16)}\n`;
+            }
+            source += "\n";
+        }
+        return source + sections.join("\n");
+    }
+
+    private createContext(hunk: Hunk): HunkContext {
+        let data: Buffer;
+        if (hunk.codeData) {
+            data = Buffer.alloc(hunk.codeData.length * 4);
+            for (let i = 0; i < hunk.codeData.length; i++) {
+                data.writeUInt32BE(hunk.codeData[i] >>> 0, i * 4);
+            }
+        } else {
+            data = Buffer.alloc(0);
+        }
+        const context: HunkContext = {
+            hunk: hunk,
+            data: data,
+            size: Math.max(hunk.allocSize ? hunk.allocSize : 0, data.length),
+            labels: new Map<number, string>(),
+            relocations: new Map<number, number>(),
+            traced: new Map<number, M68kInstruction>(),
+            instructions: []
+        };
+        if (hunk.symbols) {
+            for (const symbol of hunk.symbols) {
+                if (!context.labels.has(symbol.offset) && HunkDisassembler.LABEL_REGEXP.test(symbol.name)) {
+                    context.labels.set(symbol.offset, symbol.name);
+                }
+            }
+        }
+        if (hunk.reloc32) {
+            for (const reloc of hunk.reloc32) {
+                for (const offset of reloc.offsets) {
+                    context.relocations.set(offset, reloc.target);
+                }
+            }
+        }
+        // A label at the start of each section is needed for the references with an offset
+        this.addLabel(context, 0);
+        return context;
+    }
+
+    /**
+     * Disassembles the instructions reached by the code flow from an offset
+     * @param context Context of the code hunk
+     * @param start Offset of the first instruction
+     * @param contexts Contexts of all the hunks
+     * @param entries Entry points to trace, completed with the branch targets
+     */
+    private traceCode(context: HunkContext, start: number, contexts: Array<HunkContext>, entries: Array<[HunkContext, number]>) {
+        let offset = start;
+        while ((offset < context.data.length) && ((offset & 1) === 0) && !context.traced.has(offset)) {
+            const instruction = this.disassembler.disassembleInstruction(context.data, offset, offset);
+            if (instruction.invalid) {
+                break;
+            }
+            context.traced.set(offset, instruction);
+            const end = offset + instruction.length;
+            if (instruction.branchTarget !== undefined) {
+                // The absolute jumps are followed with their relocations
+                const operand = instruction.operands.find(o => o.address === instruction.branchTarget);
+                if (!operand || ((operand.kind !== M68kOperandKind.ABSOLUTE_LONG) && (operand.kind !== M68kOperandKind.ABSOLUTE_SHORT))) {
+                    entries.push([context, instruction.branchTarget]);
+                }
+            }
+            for (let relocOffset = offset + 2; relocOffset + 4 <= end; relocOffset++) {
+                const target = context.relocations.get(relocOffset);
+                if ((target !== undefined) && (target < contexts.length) && (contexts[target].hunk.hunkType === HunkType.CODE)) {
+                    // Relocated jumps and code pointers (ex: interrupt handlers)
+                    const value = context.data.readUInt32BE(relocOffset);
+                    const operand = instruction.operands.find(o => this.isRelocatable(o, value));
+                    if (operand && ((operand.kind === M68kOperandKind.IMMEDIATE) || (instruction.mnemonic === "jsr") || (instruction.mnemonic === "jmp"))) {
+                        entries.push([contexts[target], value]);
+                    }
+                }
+            }
+            if (HunkDisassembler.END_OF_FLOW.includes(instruction.mnemonic)) {
+                break;
+            }
+            offset = end;
+        }
+    }
+
+    private addLabel(context: HunkContext, offset: number) {
+        if ((offset >= 0) && (offset <= context.size) && !context.labels.has(offset)) {
+            context.labels.set(offset, `lab_${context.hunk.index}_${offset.toString(16).padStart(4, "0")}`);
+        }
+    }
+
+    /**
+     * Reference to an offset of a hunk: label or nearest previous label with an offset
+     * @param context Context of the hunk
+     * @param offset Offset in the hunk
+     */
+    private getReference(context: HunkContext, offset: number): string | undefined {
+        const label = context.labels.get(offset);
+        if (label) {
+            return label;
+        }
+        let nearest = -1;
+        for (const labelOffset of context.labels.keys()) {
+            if ((labelOffset <= offset) && (labelOffset > nearest)) {
+                nearest = labelOffset;
+            }
+        }
+        if (nearest >= 0) {
+            return `${context.labels.get(nearest)}+$${(offset - nearest).toString(16)}`;
+        }
+        return undefined;
+    }
+
+    private getSectionType(hunk: Hunk): string {
+        let type: string;
+        switch (hunk.hunkType) {
+            case HunkType.CODE:
+                type = "CODE";
+                break;
+            case HunkType.DATA:
+                type = "DATA";
+                break;
+            default:
+                type = "BSS";
+                break;
+        }
+        if (hunk.memType === MemoryType.CHIP) {
+            type += "_C";
+        } else if (hunk.memType === MemoryType.FAST) {
+            type += "_F";
+        }
+        return type;
+    }
+
+    private disassembleHunk(context: HunkContext, contexts: Array<HunkContext>): string {
+        const hunk = context.hunk;
+        const name = `${HunkType[hunk.hunkType].toLowerCase()}_${hunk.index}`;
+        let source = `${HunkDisassembler.INDENT}SECTION ${name},${this.getSectionType(hunk)}\n`;
+        let offset = 0;
+        if (hunk.hunkType === HunkType.CODE) {
+            for (const instruction of context.instructions) {
+                if (instruction.address < offset) {
+                    // Branch inside a previous instruction
+                    continue;
+                }
+                if (instruction.address > offset) {
+                    source += this.formatData(context, contexts, offset, instruction.address, 1);
+                }
+                const end = instruction.address + instruction.length;
+                let text: string | undefined = undefined;
+                if (!instruction.invalid && !this.hasLabelInside(context, instruction.address + 1, end)) {
+                    text = this.formatInstruction(context, contexts, instruction);
+                }
+                if (text !== undefined) {
+                    source += this.formatLabel(context, instruction.address);
+                    source += `${HunkDisassembler.INDENT}${text}\n`;
+                } else {
+                    source += this.formatData(context, contexts, instruction.address, end, 2);
+                }
+                offset = end;
+            }
+            if (offset < context.data.length) {
+                source += this.formatData(context, contexts, offset, context.data.length, 1);
+                offset = context.data.length;
+            }
+        } else if (hunk.hunkType === HunkType.DATA) {
+            source += this.formatData(context, contexts, 0, context.data.length, 1);
+            offset = context.data.length;
+        }
+        // Uninitialized end of the section
+        source += this.formatSpace(context, offset, context.size);
+        return source;
+    }
+
+    private hasLabelInside(context: HunkContext, start: number, end: number): boolean {
+        for (let offset = start; offset < end; offset++) {
+            if (context.labels.has(offset)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private formatLabel(context: HunkContext, offset: number): string {
+        const label = context.labels.get(offset);
+        return label ? `${label}:\n` : "";
+    }
+
+    /**
+     * Formats an instruction with the relocations and labels
+     * @return Text of the instruction or undefined if the instruction must be written as data
+     */
+    private formatInstruction(context: HunkContext, contexts: Array<HunkContext>, instruction: M68kInstruction): string | undefined {
+        const operands = instruction.operands.map(o => o.text);
+        const assigned = new Array<boolean>(operands.length).fill(false);
+        // Relocated longs of the instruction, in the order of the extension words
+        for (let offset = instruction.address + 2; offset < instruction.address + instruction.length; offset++) {
+            const target = context.relocations.get(offset);
+            if (target === undefined) {
+                continue;
+            }
+            if ((offset + 4 > instruction.address + instruction.length) || (target >= contexts.length)) {
+                return undefined;
+            }
+            const reference = this.getReference(contexts[target], context.data.readUInt32BE(offset));
+            const index = instruction.operands.findIndex((o, i) => !assigned[i] && this.isRelocatable(o, context.data.readUInt32BE(offset)));
+            if ((reference === undefined) || (index < 0)) {
+                return undefined;
+            }
+            assigned[index] = true;
+            operands[index] = (instruction.operands[index].kind === M68kOperandKind.IMMEDIATE) ? `#${reference}` : `(${reference}).l`;
+        }
+        for (let i = 0; i < operands.length; i++) {
+            if (assigned[i]) {
+                continue;
+            }
+            const operand = instruction.operands[i];
+            switch (operand.kind) {
+                case M68kOperandKind.BRANCH_TARGET:
+                case M68kOperandKind.PC_DISPLACEMENT:
+                case M68kOperandKind.PC_INDEX: {
+                    if (operand.address === undefined) {
+                        if (operand.kind === M68kOperandKind.PC_INDEX) {
+                            continue;
+                        }
+                        return undefined;
+                    }
+                    const reference = this.getReference(context, operand.address);
+                    if (reference === undefined) {
+                        return undefined;
+                    }
+                    if (operand.kind === M68kOperandKind.BRANCH_TARGET) {
+                        operands[i] = reference;
+                    } else {
+                        // Replaces the displacement before the pc register
+                        const pcPos = operand.text.indexOf("(pc");
+                        if (pcPos < 0) {
+                            return undefined;
+                        }
+                        operands[i] = reference + operand.text.substring(pcPos);
+                    }
+                    break;
+                }
+                case M68kOperandKind.ABSOLUTE_SHORT:
+                case M68kOperandKind.ABSOLUTE_LONG: {
+                    // Absolute addresses not relocated: custom chip registers
+                    const name = (operand.address !== undefined) ? MemoryLabelsRegistry.getCustomName(operand.address) : undefined;
+                    if (name && (instruction.mnemonic !== "lea") && (instruction.mnemonic !== "pea") && HunkDisassembler.LABEL_REGEXP.test(name)) {
+                        this.customRegisters.set(name, <number>operand.address);
+                        operands[i] = `(${name}).${(operand.kind === M68kOperandKind.ABSOLUTE_SHORT) ? "w" : "l"}`;
+                    }
+                    break;
+                }
+            }
+        }
+        let text = instruction.mnemonic;
+        if (instruction.size) {
+            text += `.${instruction.size}`;
+        }
+        if (operands.length > 0) {
+            // vasm reads the blanks in the operands as the start of a comment
+            text += ` ${operands.join(",")}`;
+        }
+        return text;
+    }
+
+    private isRelocatable(operand: M68kOperand, value: number): boolean {
+        if (operand.kind === M68kOperandKind.ABSOLUTE_LONG) {
+            return operand.address === value;
+        } else if (operand.kind === M68kOperandKind.IMMEDIATE) {
+            return (operand.value !== undefined) && ((operand.value >>> 0) === value);
+        }
+        return false;
+    }
+
+    /**
+     * Formats data with dc directives
+     * @param context Context of the hunk
+     * @param contexts Contexts of all the hunks
+     * @param start Start offset
+     * @param end End offset
+     * @param unit Size of the values: 1 for bytes, 2 for words
+     */
+    private formatData(context: HunkContext, contexts: Array<HunkContext>, start: number, end: number, unit: number): string {
+        let source = "";
+        let values = new Array<string>();
+        const flush = () => {
+            if (values.length > 0) {
+                source += `${HunkDisassembler.INDENT}dc.${(unit === 2) ? "w" : "b"} ${values.join(",")}\n`;
+                values = new Array<string>();
+            }
+        };
+        let offset = start;
+        while (offset < end) {
+            if (context.labels.has(offset)) {
+                flush();
+                source += this.formatLabel(context, offset);
+            }
+            const target = context.relocations.get(offset);
+            if ((target !== undefined) && (offset + 4 <= end) && (target < contexts.length)) {
+                const reference = this.getReference(contexts[target], context.data.readUInt32BE(offset));
+                if (reference) {
+                    flush();
+                    source += `${HunkDisassembler.INDENT}dc.l ${reference}\n`;
+                    offset += 4;
+                    continue;
+                }
+            }
+            if ((unit === 2) && (offset + 2 <= end) && !context.labels.has(offset + 1)) {
+                values.push(`$${context.data.readUInt16BE(offset).toString(16).padStart(4, "0")}`);
+                offset += 2;
+            } else {
+                if (unit === 2) {
+                    flush();
+                    source += `${HunkDisassembler.INDENT}dc.b $${context.data.readUInt8(offset).toString(16).padStart(2, "0")}\n`;
+                } else {
+                    values.push(`$${context.data.readUInt8(offset).toString(16).padStart(2, "0")}`);
+                }
+                offset++;
+            }
+            if (values.length * unit >= HunkDisassembler.BYTES_PER_LINE) {
+                flush();
+            }
+        }
+        flush();
+        return source;
+    }
+
+    /**
+     * Formats the uninitialized space with the labels
+     */
+    private formatSpace(context: HunkContext, start: number, end: number): string {
+        let source = "";
+        const offsets = Array.from(context.labels.keys()).filter(o => (o >= start) && (o <= end)).sort((a, b) => a - b);
+        let offset = start;
+        for (const labelOffset of offsets) {
+            if (labelOffset > offset) {
+                source += `${HunkDisassembler.INDENT}ds.b ${labelOffset - offset}\n`;
+                offset = labelOffset;
+            }
+            source += this.formatLabel(context, labelOffset);
+        }
+        if (end > offset) {
+            source += `${HunkDisassembler.INDENT}ds.b ${end - offset}\n`;
+        }
+        return source;
+    }
+}
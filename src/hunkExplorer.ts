@@ -0,0 +1,305 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Hunk, HunkParser, HunkType, MemoryType, RelocInfo32 } from './amigaHunkParser';
+import { Disassembler } from './disassemble';
+import { DebugExpressionHelper } from './debugExpressionHelper';
+import { FileProxy } from './fsProxy';
+import { StringUtils } from './stringUtils';
+import { WebviewUtils } from './webviewUtils';
+
+/**
+ * Node of the hunks tree
+ */
+export interface HunkExplorerNode {
+    label: string;
+    description?: string;
+    children?: Array<HunkExplorerNode>;
+    /** Symbol to disassemble on click */
+    symbol?: HunkExplorerSymbol;
+}
+
+/**
+ * Symbol to disassemble
+ */
+export interface HunkExplorerSymbol {
+    name: string;
+    hunkIndex: number;
+    offset: number;
+}
+
+/**
+ * Parsed hunk file
+ */
+export class HunkDocument implements vscode.CustomDocument {
+    public readonly uri: vscode.Uri;
+    public readonly hunks: Array<Hunk>;
+    public readonly error?: string;
+
+    public constructor(uri: vscode.Uri, hunks: Array<Hunk>, error?: string) {
+        this.uri = uri;
+        this.hunks = hunks;
+        this.error = error;
+    }
+
+    public dispose(): void {
+        // Nothing to release
+    }
+}
+
+/**
+ * Read only editor showing the hunks of an executable or an object file
+ */
+export class HunkExplorerProvider implements vscode.CustomReadonlyEditorProvider<HunkDocument> {
+    public static readonly VIEW_TYPE = 'amiga-assembly.hunkExplorer';
+    private disassembler: Disassembler;
+
+    public constructor(disassembler: Disassembler) {
+        this.disassembler = disassembler;
+    }
+
+    /**
+     * Registers the editor provider
+     * @param disassembler Disassembler to retrieve capstone
+     */
+    public static register(disassembler: Disassembler): vscode.Disposable {
+        return vscode.window.registerCustomEditorProvider(HunkExplorerProvider.VIEW_TYPE, new HunkExplorerProvider(disassembler), {
+            supportsMultipleEditorsPerDocument: true
+        });
+    }
+
+    public async openCustomDocument(uri: vscode.Uri): Promise<HunkDocument> {
+        try {
+            const buffer = await new FileProxy(uri).readFile();
+            return new HunkDocument(uri, new HunkParser().parse_file(buffer));
+        } catch (err) {
+            return new HunkDocument(uri, [], err.message);
+        }
+    }
+
+    public async resolveCustomEditor(document: HunkDocument, webviewPanel: vscode.WebviewPanel): Promise<void> {
+        webviewPanel.webview.options = {
+            enableScripts: true
+        };
+        webviewPanel.webview.html = this.getHtmlForWebview(document);
+        webviewPanel.webview.onDidReceiveMessage(async message => {
+            if (message.command === 'disassemble') {
+                const hunk = document.hunks[message.hunkIndex];
+                if (hunk) {
+                    try {
+                        await this.disassembleSymbol(hunk, message.offset, message.name);
+                    } catch (err) {
+                        vscode.window.showErrorMessage(err.message);
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * Opens the disassembly of a symbol until the next symbol
+     * @param hunk Hunk of the symbol
+     * @param offset Offset of the symbol in the hunk
+     * @param name Name of the symbol
+     */
+    public async disassembleSymbol(hunk: Hunk, offset: number, name: string): Promise<void> {
+        const capstone = this.disassembler.getCapstone();
+        const code = HunkExplorerProvider.getCodeHex(hunk, offset, HunkExplorerProvider.getSymbolEnd(hunk, offset));
+        if (code.length === 0) {
+            throw new Error(`No code for the symbol '${name}'`);
+        }
+        const output = await capstone.disassemble(code);
+        const [, instructions] = new DebugExpressionHelper().processOutputFromDisassembler(output, offset);
+        let text = `; ${name} - hunk #${hunk.index} offset $${offset.toString(16)}\n${name}:\n`;
+        for (const instruction of instructions) {
+            const bytes = instruction.instructionBytes ? instruction.instructionBytes : "";
+            text += `    ${instruction.instruction}${StringUtils.createPad(instruction.instruction, 30)}; ${instruction.address}  ${bytes}\n`;
+        }
+        const textDocument = await vscode.workspace.openTextDocument({ language: "m68k", content: text });
+        await vscode.window.showTextDocument(textDocument);
+    }
+
+    /**
+     * Retrieves the end of the code of a symbol: next symbol or end of the hunk
+     * @param hunk Hunk of the symbol
+     * @param offset Offset of the symbol
+     */
+    public static getSymbolEnd(hunk: Hunk, offset: number): number {
+        let end = hunk.dataSize;
+        if (hunk.symbols) {
+            for (const symbol of hunk.symbols) {
+                if (symbol.offset > offset && symbol.offset < end) {
+                    end = symbol.offset;
+                }
+            }
+        }
+        return end;
+    }
+
+    /**
+     * Retrieves the hexadecimal string of the code of a hunk
+     * @param hunk Hunk containing the code
+     * @param start Start offset in bytes
+     * @param end End offset in bytes (excluded)
+     */
+    public static getCodeHex(hunk: Hunk, start: number, end: number): string {
+        if (!hunk.codeData) {
+            return "";
+        }
+        let hex = "";
+        for (const value of hunk.codeData) {
+            hex += (value >>> 0).toString(16).padStart(8, '0');
+        }
+        return hex.substring(start * 2, Math.max(start, end) * 2);
+    }
+
+    /**
+     * Builds the tree of the hunks
+     * @param hunks Parsed hunks
+     */
+    public static buildTree(hunks: Array<Hunk>): Array<HunkExplorerNode> {
+        const nodes = new Array<HunkExplorerNode>();
+        for (const hunk of hunks) {
+            const children = new Array<HunkExplorerNode>();
+            const memType = HunkExplorerProvider.getMemoryTypeName(hunk.memType);
+            children.push({ label: "Memory type", description: memType });
+            children.push({ label: "Allocation size", description: `${hunk.allocSize} bytes` });
+            if (hunk.hunkType !== HunkType.BSS && hunk.dataSize !== undefined) {
+                children.push({ label: "Data size", description: `${hunk.dataSize} bytes` });
+            }
+            if (hunk.reloc32 && hunk.reloc32.length > 0) {
+                children.push(HunkExplorerProvider.buildRelocationsNode("Relocations", hunk.reloc32));
+            }
+            if (hunk.relReloc32 && hunk.relReloc32.length > 0) {
+                children.push(HunkExplorerProvider.buildRelocationsNode("Relative relocations", hunk.relReloc32));
+            }
+            if (hunk.symbols && hunk.symbols.length > 0) {
+                children.push({
+                    label: "Symbols",
+                    description: `${hunk.symbols.length}`,
+                    children: hunk.symbols.map(s => <HunkExplorerNode>{
+                        label: s.name,
+                        description: `$${s.offset.toString(16)}`,
+                        symbol: hunk.codeData ? { name: s.name, hunkIndex: hunk.index, offset: s.offset } : undefined,
+                    })
+                });
+            }
+            if (hunk.lineDebugInfo && hunk.lineDebugInfo.length > 0) {
+                children.push({
+                    label: "Source lines",
+                    description: `${hunk.lineDebugInfo.length} files`,
+                    children: hunk.lineDebugInfo.map(f => <HunkExplorerNode>{
+                        label: f.name,
+                        description: `${f.lines.length} lines`,
+                        children: f.lines.map(l => <HunkExplorerNode>{
+                            label: `line ${l.line}`,
+                            description: `$${l.offset.toString(16)}`,
+                        })
+                    })
+                });
+            }
+            if (hunk.debugBlocks && hunk.debugBlocks.length > 0) {
+                children.push({
+                    label: "Debug blocks",
+                    description: `${hunk.debugBlocks.length}`,
+                    children: hunk.debugBlocks.map(b => <HunkExplorerNode>{
+                        label: b.tag,
+                        description: `${b.data.length} bytes`,
+                    })
+                });
+            }
+            nodes.push({
+                label: `Hunk #${hunk.index} ${HunkType[hunk.hunkType]}`,
+                description: `${memType} - ${hunk.allocSize} bytes`,
+                children: children
+            });
+        }
+        return nodes;
+    }
+
+    private static buildRelocationsNode(label: string, relocs: Array<RelocInfo32>): HunkExplorerNode {
+        let count = 0;
+        const children = new Array<HunkExplorerNode>();
+        for (const reloc of relocs) {
+            count += reloc.offsets.length;
+            children.push({
+                label: `To hunk #${reloc.target}`,
+                description: `${reloc.offsets.length} offsets`,
+                children: reloc.offsets.map(o => <HunkExplorerNode>{ label: `$${o.toString(16)}` })
+            });
+        }
+        return { label: label, description: `${count}`, children: children };
+    }
+
+    private static getMemoryTypeName(memType: MemoryType): string {
+        const name = MemoryType[memType];
+        return name ? name : "ANY";
+    }
+
+    /**
+     * Renders the tree nodes to html
+     * @param nodes Nodes to render
+     */
+    public static renderNodes(nodes: Array<HunkExplorerNode>): string {
+        let html = "<ul>";
+        for (const node of nodes) {
+            let label = WebviewUtils.escapeHtml(node.label);
+            if (node.symbol) {
+                label = `<a href="#" class="symbol" data-hunk="${node.symbol.hunkIndex}" data-offset="${node.symbol.offset}" data-name="${label}">${label}</a>`;
+            }
+            if (node.description) {
+                label += ` <span class="description">${WebviewUtils.escapeHtml(node.description)}</span>`;
+            }
+            if (node.children && node.children.length > 0) {
+                html += `<li><details><summary>${label}</summary>${HunkExplorerProvider.renderNodes(node.children)}</details></li>`;
+            } else {
+                html += `<li class="leaf">${label}</li>`;
+            }
+        }
+        return html + "</ul>";
+    }
+
+    private getHtmlForWebview(document: HunkDocument): string {
+        const nonce = WebviewUtils.getNonce();
+        let body: string;
+        if (document.error) {
+            body = `<p class="error">${WebviewUtils.escapeHtml(document.error)}</p>`;
+        } else {
+            body = HunkExplorerProvider.renderNodes(HunkExplorerProvider.buildTree(document.hunks));
+        }
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>${WebviewUtils.escapeHtml(path.basename(document.uri.fsPath))}</title>
+                <style nonce="${nonce}">
+                    body { font-family: var(--vscode-editor-font-family); }
+                    ul { list-style: none; padding-left: 16px; }
+                    li.leaf { padding-left: 12px; }
+                    .description { color: var(--vscode-descriptionForeground); margin-left: 8px; }
+                    .error { color: var(--vscode-errorForeground); }
+                    a.symbol { color: var(--vscode-textLink-foreground); }
+                </style>
+            </head>
+            <body>
+                ${body}
+                <script nonce="${nonce}">
+                    const vscode = acquireVsCodeApi();
+                    for (const element of document.querySelectorAll('a.symbol')) {
+                        element.addEventListener('click', event => {
+                            event.preventDefault();
+                            vscode.postMessage({
+                                command: 'disassemble',
+                                hunkIndex: parseInt(element.dataset.hunk),
+                                offset: parseInt(element.dataset.offset),
+                                name: element.dataset.name
+                            });
+                        });
+                    }
+                </script>
+            </body>
+        </html>`;
+    }
+}
@@ -0,0 +1,344 @@
+import { EventEmitter, Uri, window } from 'vscode';
+import * as path from 'path';
+import { FileProxy } from './fsProxy';
+import { FileConverter } from './fileConverter';
+
+/**
+ * Definition of a conversion of an IFF ILBM image in the build task
+ */
+export interface IffConversion {
+    /** IFF ILBM image to convert */
+    input: string;
+    /** Output binary file of the bitplanes */
+    output: string;
+    /** The lines of the bitplanes are interleaved */
+    interleaved?: boolean;
+    /** Output source file of the palette as copper moves */
+    palette?: string;
+    /** Output binary file of the mask plane */
+    mask?: string;
+}
+
+/** Palette color: red, green, blue components (0-255) */
+export type IlbmColor = [number, number, number];
+
+/**
+ * Decoded IFF ILBM image
+ */
+export interface IlbmImage {
+    width: number;
+    height: number;
+    depth: number;
+    /** Masking technique: 0 none, 1 mask plane, 2 transparent color */
+    masking: number;
+    transparentColor: number;
+    palette: Array<IlbmColor>;
+    /** Bitplanes in the ILBM order: each line contains the line of each plane */
+    body: Uint8Array;
+    /** Mask plane if the masking technique is 1 */
+    mask?: Uint8Array;
+}
+
+/**
+ * Parser of the IFF ILBM images
+ */
+export class IlbmParser {
+    private static readonly MASK_HAS_MASK = 1;
+
+    /**
+     * Parses an IFF ILBM file
+     * @param buffer Content of the file
+     * @return Decoded image
+     */
+    public static parse(buffer: Uint8Array): IlbmImage {
+        const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+        const readId = (offset: number) => String.fromCharCode(buffer[offset], buffer[offset + 1], buffer[offset + 2], buffer[offset + 3]);
+        if ((buffer.length < 12) || (readId(0) !== "FORM") || (readId(8) !== "ILBM")) {
+            throw new Error("Not an IFF ILBM file");
+        }
+        let width = 0;
+        let height = 0;
+        let depth = 0;
+        let masking = 0;
+        let compression = 0;
+        let transparentColor = 0;
+        let palette = new Array<IlbmColor>();
+        let bodyData: Uint8Array | undefined;
+        let offset = 12;
+        while (offset + 8 <= buffer.length) {
+            const id = readId(offset);
+            const size = view.getUint32(offset + 4, false);
+            const data = offset + 8;
+            if (id === "BMHD") {
+                width = view.getUint16(data, false);
+                height = view.getUint16(data + 2, false);
+                depth = buffer[data + 8];
+                masking = buffer[data + 9];
+                compression = buffer[data + 10];
+                transparentColor = view.getUint16(data + 12, false);
+            } else if (id === "CMAP") {
+                palette = new Array<IlbmColor>();
+                for (let i = 0; i + 3 <= size; i += 3) {
+                    palette.push([buffer[data + i], buffer[data + i + 1], buffer[data + i + 2]]);
+                }
+            } else if (id === "BODY") {
+                bodyData = buffer.subarray(data, Math.min(data + size, buffer.length));
+            }
+            // Chunks are padded to an even size
+            offset = data + size + (size & 1);
+        }
+        if ((width === 0) || (height === 0)) {
+            throw new Error("No bitmap header (BMHD) in the IFF file");
+        } else if (!bodyData) {
+            throw new Error("No image data (BODY) in the IFF file");
+        } else if ((depth < 1) || (depth > 8)) {
+            throw new Error(`Unsupported number of bitplanes: ${depth}`);
+        }
+        const rowBytes = IlbmParser.getRowBytes(width);
+        const planesInRow = depth + ((masking === IlbmParser.MASK_HAS_MASK) ? 1 : 0);
+        let rows: Uint8Array;
+        if (compression === 0) {
+            rows = bodyData;
+        } else if (compression === 1) {
+            rows = IlbmParser.unpackByteRun1(bodyData, rowBytes * planesInRow * height);
+        } else {
+            throw new Error(`Unsupported compression: ${compression}`);
+        }
+        if (rows.length < rowBytes * planesInRow * height) {
+            throw new Error("The image data (BODY) is truncated");
+        }
+        let body = rows;
+        let mask: Uint8Array | undefined;
+        if (planesInRow > depth) {
+            // Separate the mask plane from the bitplanes
+            body = new Uint8Array(rowBytes * depth * height);
+            mask = new Uint8Array(rowBytes * height);
+            for (let y = 0; y < height; y++) {
+                const rowStart = y * rowBytes * planesInRow;
+                body.set(rows.subarray(rowStart, rowStart + rowBytes * depth), y * rowBytes * depth);
+                mask.set(rows.subarray(rowStart + rowBytes * depth, rowStart + rowBytes * planesInRow), y * rowBytes);
+            }
+        }
+        return {
+            width: width,
+            height: height,
+            depth: depth,
+            masking: masking,
+            transparentColor: transparentColor,
+            palette: palette,
+            body: body,
+            mask: mask
+        };
+    }
+
+    /**
+     * Number of bytes of a line of a bitplane: the lines are word aligned
+     * @param width Width in pixels
+     */
+    public static getRowBytes(width: number): number {
+        return Math.ceil(width / 16) * 2;
+    }
+
+    /**
+     * Decompresses ByteRun1 data
+     * @param data Compressed data
+     * @param size Size of the decompressed data
+     * @return Decompressed data
+     */
+    public static unpackByteRun1(data: Uint8Array, size: number): Uint8Array {
+        const output = new Uint8Array(size);
+        let inPos = 0;
+        let outPos = 0;
+        while ((inPos < data.length) && (outPos < size)) {
+            const n = (data[inPos++] << 24) >> 24;
+            if (n >= 0) {
+                // Literal run of n+1 bytes
+                const count = Math.min(n + 1, size - outPos, data.length - inPos);
+                output.set(data.subarray(inPos, inPos + count), outPos);
+                inPos += count;
+                outPos += count;
+            } else if (n !== -128) {
+                // Replicate the next byte -n+1 times
+                const count = Math.min(-n + 1, size - outPos);
+                output.fill(data[inPos++], outPos, outPos + count);
+                outPos += count;
+            }
+        }
+        return output.subarray(0, outPos);
+    }
+}
+
+/**
+ * Converts the IFF ILBM images to raw bitplanes, palette and mask
+ */
+export class IffConverter extends FileConverter {
+    /**
+     * Converts the bitplanes to the raw Amiga layout
+     * @param image ILBM image
+     * @param interleaved If true the lines of the planes are interleaved, otherwise the planes follow each other
+     * @return Raw bitplanes
+     */
+    public static toBitplanes(image: IlbmImage, interleaved: boolean): Uint8Array {
+        if (interleaved) {
+            // The ILBM body is already interleaved
+            return image.body.slice(0, IlbmParser.getRowBytes(image.width) * image.depth * image.height);
+        }
+        const rowBytes = IlbmParser.getRowBytes(image.width);
+        const planeSize = rowBytes * image.height;
+        const output = new Uint8Array(planeSize * image.depth);
+        for (let y = 0; y < image.height; y++) {
+            for (let plane = 0; plane < image.depth; plane++) {
+                const source = (y * image.depth + plane) * rowBytes;
+                output.set(image.body.subarray(source, source + rowBytes), plane * planeSize + y * rowBytes);
+            }
+        }
+        return output;
+    }
+
+    /**
+     * Computes the mask plane: set bits for the opaque pixels.
+     * The mask plane of the image is used if present, otherwise the pixels with the transparent color
+     * (or the color 0) are transparent.
+     * In interleaved mode, the mask line is repeated for each plane to be used by the blitter with the same modulo.
+     * @param image ILBM image
+     * @param interleaved If true the mask lines are repeated for each plane
+     * @return Mask data
+     */
+    public static toMask(image: IlbmImage, interleaved: boolean): Uint8Array {
+        const rowBytes = IlbmParser.getRowBytes(image.width);
+        let mask = image.mask;
+        if (!mask) {
+            mask = new Uint8Array(rowBytes * image.height);
+            const transparentColor = (image.masking === 2) ? image.transparentColor : 0;
+            for (let y = 0; y < image.height; y++) {
+                for (let x = 0; x < image.width; x++) {
+                    let color = 0;
+                    for (let plane = 0; plane < image.depth; plane++) {
+                        const byte = image.body[(y * image.depth + plane) * rowBytes + (x >> 3)];
+                        if (byte & (0x80 >> (x & 7))) {
+                            color |= 1 << plane;
+                        }
+                    }
+                    if (color !== transparentColor) {
+                        mask[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+                    }
+                }
+            }
+        }
+        if (!interleaved) {
+            return mask;
+        }
+        const output = new Uint8Array(rowBytes * image.height * image.depth);
+        for (let y = 0; y < image.height; y++) {
+            for (let plane = 0; plane < image.depth; plane++) {
+                output.set(mask.subarray(y * rowBytes, (y + 1) * rowBytes), (y * image.depth + plane) * rowBytes);
+            }
+        }
+        return output;
+    }
+
+    /**
+     * Generates the palette as copper moves to the COLORxx registers
+     * @param palette Palette of the image
+     * @param label Label of the copper moves
+     * @return Source code
+     */
+    public static toPaletteSource(palette: Array<IlbmColor>, label: string): string {
+        if (palette.length > 32) {
+            throw new Error(`The palette has ${palette.length} colors: only 32 color registers can be set`);
+        }
+        const lines = [`${label}:`];
+        for (let i = 0; i < palette.length; i++) {
+            const [r, g, b] = palette[i];
+            const color = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+            lines.push(`    dc.w $${(0x180 + i * 2).toString(16).padStart(4, "0")},$${color.toString(16).padStart(4, "0")}`);
+        }
+        return lines.join("\n") + "\n";
+    }
+
+    /**
+     * Asks the conversion options and converts an image next to it
+     * @param imageUri IFF ILBM image, if not set a file is selected
+     */
+    public async showConversionPanel(imageUri?: Uri): Promise<void> {
+        let selectedUri = imageUri;
+        if (!selectedUri) {
+            const selectedFiles = await window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: "Convert",
+                filters: { "IFF images": ["iff", "ilbm", "lbm"] }
+            });
+            if (!selectedFiles || (selectedFiles.length === 0)) {
+                return;
+            }
+            selectedUri = selectedFiles[0];
+        }
+        const layout = await window.showQuickPick(["Non-interleaved bitplanes", "Interleaved bitplanes"], { placeHolder: "Bitplanes layout" });
+        if (!layout) {
+            return;
+        }
+        const withMask = await window.showQuickPick(["No mask", "With a mask plane"], { placeHolder: "Mask" });
+        if (!withMask) {
+            return;
+        }
+        const input = new FileProxy(selectedUri);
+        const inputPath = input.getPath();
+        const basePath = path.join(path.dirname(inputPath), path.basename(inputPath, path.extname(inputPath)));
+        const output = new FileProxy(Uri.file(`${basePath}.raw`));
+        const palette = new FileProxy(Uri.file(`${basePath}_palette.s`));
+        const mask = (withMask === "With a mask plane") ? new FileProxy(Uri.file(`${basePath}.mask`)) : undefined;
+        await this.convert(input, output, layout === "Interleaved bitplanes", palette, mask);
+        window.showInformationMessage(`${path.basename(inputPath)} converted to ${path.basename(output.getPath())}`);
+    }
+
+    /**
+     * Converts the images of the build configuration.
+     * An image is converted only if an output file is missing or older, or if the options changed.
+     * @param conversions Conversions to execute
+     * @param rootDir Root directory of the workspace, base of the relative paths
+     * @param logEmitter Log emitter
+     */
+    public async convertAll(conversions: Array<IffConversion>, rootDir: Uri | null, logEmitter?: EventEmitter<string>): Promise<void> {
+        for (const conversion of conversions) {
+            const input = this.resolveFile(conversion.input, rootDir);
+            const output = this.resolveFile(conversion.output, rootDir);
+            const palette = conversion.palette ? this.resolveFile(conversion.palette, rootDir) : undefined;
+            const mask = conversion.mask ? this.resolveFile(conversion.mask, rootDir) : undefined;
+            const outputs = [output];
+            if (palette) {
+                outputs.push(palette);
+            }
+            if (mask) {
+                outputs.push(mask);
+            }
+            if (await this.isUpToDate(input, outputs, conversion)) {
+                continue;
+            }
+            if (logEmitter) {
+                logEmitter.fire(`Converting ${conversion.input}\r\n`);
+            }
+            await this.convert(input, output, conversion.interleaved === true, palette, mask);
+            await this.saveOptions(output, conversion);
+        }
+    }
+
+    /**
+     * Converts an IFF ILBM file
+     * @param input IFF ILBM file
+     * @param output Bitplanes file
+     * @param interleaved If true the lines of the planes are interleaved
+     * @param palette Palette source file
+     * @param mask Mask file
+     */
+    public async convert(input: FileProxy, output: FileProxy, interleaved: boolean, palette?: FileProxy, mask?: FileProxy): Promise<void> {
+        const image = IlbmParser.parse(await input.readFile());
+        await this.writeFile(output, Buffer.from(IffConverter.toBitplanes(image, interleaved)));
+        if (palette) {
+            const source = IffConverter.toPaletteSource(image.palette, `${IffConverter.toLabel(input.getPath())}_palette`);
+            await this.writeFile(palette, Buffer.from(source));
+        }
+        if (mask) {
+            await this.writeFile(mask, Buffer.from(IffConverter.toMask(image, interleaved)));
+        }
+    }
+}
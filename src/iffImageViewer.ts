@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { WebviewUtils } from './webviewUtils';
 
 /**
  * Manages iff image view webview panels
@@ -106,7 +107,7 @@ export class IFFViewerPanel {
         // And the uri we use to load this script in the webview
         const mainUri = this.panel.webview.asWebviewUri(pathOnDisk);
         // Use a nonce to whitelist which scripts can be run
-        const nonce = getNonce();
+        const nonce = WebviewUtils.getNonce();
 
         return `
         <!DOCTYPE html>
@@ -131,12 +132,3 @@ export class IFFViewerPanel {
         </html>`;
     }
 }
-
-function getNonce() {
-    let text = '';
-    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    for (let i = 0; i < 32; i++) {
-        text += possible.charAt(Math.floor(Math.random() * possible.length));
-    }
-    return text;
-}
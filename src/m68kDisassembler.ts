@@ -0,0 +1,1360 @@
+import { CancellationToken, Uri } from "vscode";
+import { InstructionDisassembler, LabeledInstruction } from "./capstone";
+import { DebugInfo } from "./debugInfo";
+
+/**
+ * Kind of an instruction operand
+ */
+export enum M68kOperandKind {
+    DATA_REGISTER,
+    ADDRESS_REGISTER,
+    ADDRESS_INDIRECT,
+    POST_INCREMENT,
+    PRE_DECREMENT,
+    DISPLACEMENT,
+    INDEX,
+    MEMORY_INDIRECT,
+    PC_DISPLACEMENT,
+    PC_INDEX,
+    ABSOLUTE_SHORT,
+    ABSOLUTE_LONG,
+    IMMEDIATE,
+    REGISTER_LIST,
+    REGISTER_PAIR,
+    BRANCH_TARGET,
+    SPECIAL_REGISTER,
+    FP_REGISTER,
+    FP_REGISTER_LIST,
+    BITFIELD,
+    CACHE
+}
+
+/**
+ * Operand of a disassembled instruction
+ */
+export interface M68kOperand {
+    kind: M68kOperandKind;
+    /** Text of the operand */
+    text: string;
+    /** Immediate value or displacement */
+    value?: number;
+    /** Target address of a branch, absolute or pc relative operand */
+    address?: number;
+}
+
+/**
+ * Disassembled instruction
+ */
+export interface M68kInstruction {
+    /** Address of the instruction */
+    address: number;
+    /** Bytes of the instruction in hexadecimal */
+    bytes: string;
+    /** Length of the instruction in bytes */
+    length: number;
+    /** Mnemonic without the size */
+    mnemonic: string;
+    /** Size suffix: b, w, l, s, d, x or p */
+    size?: string;
+    operands: Array<M68kOperand>;
+    /** Target address of a branch or jump */
+    branchTarget?: number;
+    /** True if the data could not be decoded */
+    invalid?: boolean;
+}
+
+/**
+ * Resolves the label of an address
+ */
+export type M68kLabelResolver = (address: number) => string | undefined;
+
+/** Error raised when the opcode is not valid */
+class InvalidOpcodeError extends Error {
+}
+
+/** Addressing modes masks */
+const EA_DN = 0x001;
+const EA_AN = 0x002;
+const EA_IND = 0x004;
+const EA_POSTINC = 0x008;
+const EA_PREDEC = 0x010;
+const EA_DISP = 0x020;
+const EA_INDEX = 0x040;
+const EA_ABSW = 0x080;
+const EA_ABSL = 0x100;
+const EA_PCDISP = 0x200;
+const EA_PCINDEX = 0x400;
+const EA_IMM = 0x800;
+const EA_ALL = 0xfff;
+const EA_DATA = EA_ALL & ~EA_AN;
+const EA_MEMORY = EA_ALL & ~(EA_DN | EA_AN);
+const EA_CONTROL = EA_IND | EA_DISP | EA_INDEX | EA_ABSW | EA_ABSL | EA_PCDISP | EA_PCINDEX;
+const EA_ALTERABLE = EA_DN | EA_AN | EA_IND | EA_POSTINC | EA_PREDEC | EA_DISP | EA_INDEX | EA_ABSW | EA_ABSL;
+const EA_DATA_ALTERABLE = EA_ALTERABLE & ~EA_AN;
+const EA_MEMORY_ALTERABLE = EA_ALTERABLE & ~(EA_DN | EA_AN);
+const EA_CONTROL_ALTERABLE = EA_CONTROL & EA_ALTERABLE;
+
+const CONDITIONS = ["t", "f", "hi", "ls", "cc", "cs", "ne", "eq", "vc", "vs", "pl", "mi", "ge", "lt", "gt", "le"];
+const FPU_CONDITIONS = ["f", "eq", "ogt", "oge", "olt", "ole", "ogl", "or", "un", "ueq", "ugt", "uge", "ult", "ule", "ne", "t",
+    "sf", "seq", "gt", "ge", "lt", "le", "gl", "gle", "ngle", "ngl", "nle", "nlt", "nge", "ngt", "sne", "st"];
+const SIZES = ["b", "w", "l"];
+const FPU_FORMATS = ["l", "s", "x", "p", "w", "d", "b", "p"];
+const CONTROL_REGISTERS = new Map<number, string>([
+    [0x000, "sfc"], [0x001, "dfc"], [0x002, "cacr"], [0x003, "tc"], [0x004, "itt0"], [0x005, "itt1"], [0x006, "dtt0"], [0x007, "dtt1"], [0x008, "buscr"],
+    [0x800, "usp"], [0x801, "vbr"], [0x802, "caar"], [0x803, "msp"], [0x804, "isp"], [0x805, "mmusr"], [0x806, "urp"], [0x807, "srp"], [0x808, "pcr"]
+]);
+const FPU_OPERATIONS = new Map<number, string>([
+    [0x00, "fmove"], [0x01, "fint"], [0x02, "fsinh"], [0x03, "fintrz"], [0x04, "fsqrt"], [0x06, "flognp1"], [0x08, "fetoxm1"], [0x09, "ftanh"],
+    [0x0a, "fatan"], [0x0c, "fasin"], [0x0d, "fatanh"], [0x0e, "fsin"], [0x0f, "ftan"], [0x10, "fetox"], [0x11, "ftwotox"], [0x12, "ftentox"],
+    [0x14, "flogn"], [0x15, "flog10"], [0x16, "flog2"], [0x18, "fabs"], [0x19, "fcosh"], [0x1a, "fneg"], [0x1c, "facos"], [0x1d, "fcos"],
+    [0x1e, "fgetexp"], [0x1f, "fgetman"], [0x20, "fdiv"], [0x21, "fmod"], [0x22, "fadd"], [0x23, "fmul"], [0x24, "fsgldiv"], [0x25, "frem"],
+    [0x26, "fscale"], [0x27, "fsglmul"], [0x28, "fsub"], [0x38, "fcmp"], [0x3a, "ftst"], [0x40, "fsmove"], [0x41, "fssqrt"], [0x44, "fdmove"],
+    [0x45, "fdsqrt"], [0x58, "fsabs"], [0x5a, "fsneg"], [0x5c, "fdabs"], [0x5e, "fdneg"], [0x60, "fsdiv"], [0x62, "fsadd"], [0x63, "fsmul"],
+    [0x64, "fddiv"], [0x66, "fdadd"], [0x67, "fdmul"], [0x68, "fssub"], [0x6c, "fdsub"]
+]);
+
+/**
+ * Decoding of one instruction
+ */
+class InstructionDecoder {
+    private buffer: Buffer;
+    private start: number;
+    private pos: number;
+    private address: number;
+    private labelResolver?: M68kLabelResolver;
+    public mnemonic = "";
+    public size?: string;
+    public operands = new Array<M68kOperand>();
+    public branchTarget?: number;
+
+    public constructor(buffer: Buffer, offset: number, address: number, labelResolver?: M68kLabelResolver) {
+        this.buffer = buffer;
+        this.start = offset;
+        this.pos = offset;
+        this.address = address;
+        this.labelResolver = labelResolver;
+    }
+
+    /**
+     * Decodes the instruction
+     * @return length of the instruction
+     */
+    public decode(): number {
+        const op = this.readWord();
+        switch (op >> 12) {
+            case 0x0:
+                this.decodeImmediateAndBits(op);
+                break;
+            case 0x1:
+            case 0x2:
+            case 0x3:
+                this.decodeMove(op);
+                break;
+            case 0x4:
+                this.decodeMisc(op);
+                break;
+            case 0x5:
+                this.decodeQuick(op);
+                break;
+            case 0x6:
+                this.decodeBranch(op);
+                break;
+            case 0x7:
+                if (op & 0x0100) {
+                    throw new InvalidOpcodeError();
+                }
+                this.set("moveq", "l", this.immediate(this.signed8(op & 0xff)), this.dataRegister((op >> 9) & 7));
+                break;
+            case 0x8:
+                this.decodeOr(op);
+                break;
+            case 0x9:
+            case 0xd:
+                this.decodeAddSub(op);
+                break;
+            case 0xb:
+                this.decodeCmpEor(op);
+                break;
+            case 0xc:
+                this.decodeAnd(op);
+                break;
+            case 0xe:
+                this.decodeShift(op);
+                break;
+            case 0xf:
+                this.decodeCoprocessor(op);
+                break;
+            default:
+                // line A
+                throw new InvalidOpcodeError();
+        }
+        return this.pos - this.start;
+    }
+
+    // ---- Reading
+
+    private readWord(): number {
+        if (this.pos + 2 > this.buffer.length) {
+            throw new RangeError("End of buffer");
+        }
+        const value = this.buffer.readUInt16BE(this.pos);
+        this.pos += 2;
+        return value;
+    }
+
+    private readLong(): number {
+        if (this.pos + 4 > this.buffer.length) {
+            throw new RangeError("End of buffer");
+        }
+        const value = this.buffer.readUInt32BE(this.pos);
+        this.pos += 4;
+        return value;
+    }
+
+    private currentAddress(): number {
+        return this.address + this.pos - this.start;
+    }
+
+    private signed8(value: number): number {
+        return (value & 0x80) ? value - 0x100 : value;
+    }
+
+    private signed16(value: number): number {
+        return (value & 0x8000) ? value - 0x10000 : value;
+    }
+
+    private signed32(value: number): number {
+        return value | 0;
+    }
+
+    // ---- Formatting
+
+    private hex(value: number): string {
+        return (value < 0) ? `-$${(-value).toString(16)}` : `$${value.toString(16)}`;
+    }
+
+    private label(address: number): string {
+        if (this.labelResolver) {
+            const label = this.labelResolver(address);
+            if (label) {
+                return label;
+            }
+        }
+        return `$${address.toString(16)}`;
+    }
+
+    private set(mnemonic: string, size: string | undefined, ...operands: Array<M68kOperand>): void {
+        this.mnemonic = mnemonic;
+        this.size = size;
+        this.operands = operands;
+    }
+
+    private dataRegister(reg: number): M68kOperand {
+        return { kind: M68kOperandKind.DATA_REGISTER, text: `d${reg}` };
+    }
+
+    private addressRegister(reg: number): M68kOperand {
+        return { kind: M68kOperandKind.ADDRESS_REGISTER, text: `a${reg}` };
+    }
+
+    private register(reg: number): M68kOperand {
+        return (reg < 8) ? this.dataRegister(reg) : this.addressRegister(reg - 8);
+    }
+
+    private immediate(value: number): M68kOperand {
+        return { kind: M68kOperandKind.IMMEDIATE, text: `#${this.hex(value)}`, value: value };
+    }
+
+    private special(name: string): M68kOperand {
+        return { kind: M68kOperandKind.SPECIAL_REGISTER, text: name };
+    }
+
+    private fpRegister(reg: number): M68kOperand {
+        return { kind: M68kOperandKind.FP_REGISTER, text: `fp${reg}` };
+    }
+
+    private branch(target: number): M68kOperand {
+        this.branchTarget = target;
+        return { kind: M68kOperandKind.BRANCH_TARGET, text: this.label(target), address: target };
+    }
+
+    private readImmediate(size: string): M68kOperand {
+        switch (size) {
+            case "b":
+                return this.immediate(this.readWord() & 0xff);
+            case "w":
+                return this.immediate(this.readWord());
+            case "l":
+            case "s":
+                return this.immediate(this.readLong());
+            default: {
+                // Float formats: the value is displayed in hexadecimal
+                const count = (size === "d") ? 2 : 3;
+                let text = "#$";
+                for (let i = 0; i < count; i++) {
+                    text += this.readLong().toString(16).padStart(8, "0");
+                }
+                return { kind: M68kOperandKind.IMMEDIATE, text: text };
+            }
+        }
+    }
+
+    /**
+     * Decodes an effective address
+     * @param mode Mode field
+     * @param reg Register field
+     * @param size Size of the immediate data
+     * @param validModes Accepted modes
+     */
+    private ea(mode: number, reg: number, size: string, validModes: number): M68kOperand {
+        const modeMask = (mode < 7) ? (1 << mode) : ((reg < 5) ? (0x80 << reg) : 0);
+        if ((modeMask & validModes) === 0) {
+            throw new InvalidOpcodeError();
+        }
+        switch (mode) {
+            case 0:
+                return this.dataRegister(reg);
+            case 1:
+                return this.addressRegister(reg);
+            case 2:
+                return { kind: M68kOperandKind.ADDRESS_INDIRECT, text: `(a${reg})` };
+            case 3:
+                return { kind: M68kOperandKind.POST_INCREMENT, text: `(a${reg})+` };
+            case 4:
+                return { kind: M68kOperandKind.PRE_DECREMENT, text: `-(a${reg})` };
+            case 5: {
+                const disp = this.signed16(this.readWord());
+                return { kind: M68kOperandKind.DISPLACEMENT, text: `${this.hex(disp)}(a${reg})`, value: disp };
+            }
+            case 6:
+                return this.indexed(`a${reg}`, -1);
+            default:
+                switch (reg) {
+                    case 0: {
+                        const address = this.signed16(this.readWord()) >>> 0;
+                        return { kind: M68kOperandKind.ABSOLUTE_SHORT, text: `${this.label(address)}.w`, address: address };
+                    }
+                    case 1: {
+                        const address = this.readLong();
+                        return { kind: M68kOperandKind.ABSOLUTE_LONG, text: `${this.label(address)}.l`, address: address };
+                    }
+                    case 2: {
+                        const base = this.currentAddress();
+                        const disp = this.signed16(this.readWord());
+                        const address = (base + disp) >>> 0;
+                        const text = this.labelResolver && this.labelResolver(address) ? `${this.label(address)}(pc)` : `${this.hex(disp)}(pc)`;
+                        return { kind: M68kOperandKind.PC_DISPLACEMENT, text: text, value: disp, address: address };
+                    }
+                    case 3:
+                        return this.indexed("pc", this.currentAddress());
+                    default:
+                        return this.readImmediate(size);
+                }
+        }
+    }
+
+    /**
+     * Decodes an indexed mode with brief or full extension word
+     * @param base Base register name
+     * @param pcAddress Address of the extension word for the pc relative modes, -1 otherwise
+     */
+    private indexed(base: string, pcAddress: number): M68kOperand {
+        const ext = this.readWord();
+        const indexReg = ((ext & 0x8000) ? "a" : "d") + ((ext >> 12) & 7);
+        const scale = 1 << ((ext >> 9) & 3);
+        const index = `${indexReg}.${(ext & 0x0800) ? "l" : "w"}${(scale > 1) ? "*" + scale : ""}`;
+        const isPc = pcAddress >= 0;
+        if ((ext & 0x0100) === 0) {
+            // Brief extension word
+            const disp = this.signed8(ext & 0xff);
+            const operand: M68kOperand = {
+                kind: isPc ? M68kOperandKind.PC_INDEX : M68kOperandKind.INDEX,
+                text: `${this.hex(disp)}(${base},${index})`,
+                value: disp
+            };
+            if (isPc) {
+                operand.address = (pcAddress + disp) >>> 0;
+            }
+            return operand;
+        }
+        // Full extension word
+        if (ext & 0x0008) {
+            throw new InvalidOpcodeError();
+        }
+        const baseSuppress = (ext & 0x0080) !== 0;
+        const indexSuppress = (ext & 0x0040) !== 0;
+        const indirect = ext & 0x0007;
+        let baseDisp = 0;
+        switch ((ext >> 4) & 3) {
+            case 0:
+                throw new InvalidOpcodeError();
+            case 2:
+                baseDisp = this.signed16(this.readWord());
+                break;
+            case 3:
+                baseDisp = this.signed32(this.readLong());
+                break;
+        }
+        let outerDisp = 0;
+        switch (indirect & 3) {
+            case 2:
+                outerDisp = this.signed16(this.readWord());
+                break;
+            case 3:
+                outerDisp = this.signed32(this.readLong());
+                break;
+        }
+        const baseParts = new Array<string>();
+        if (baseDisp !== 0) {
+            baseParts.push(this.hex(baseDisp));
+        }
+        if (!baseSuppress) {
+            baseParts.push(base);
+        }
+        const operand: M68kOperand = { kind: isPc ? M68kOperandKind.PC_INDEX : M68kOperandKind.INDEX, text: "", value: baseDisp };
+        if (isPc && !baseSuppress) {
+            operand.address = (pcAddress + baseDisp) >>> 0;
+        }
+        if (indirect === 0) {
+            if (!indexSuppress) {
+                baseParts.push(index);
+            }
+            operand.text = `(${baseParts.join(",")})`;
+            return operand;
+        }
+        if ((indexSuppress && indirect > 3) || (indirect === 4)) {
+            throw new InvalidOpcodeError();
+        }
+        operand.kind = M68kOperandKind.MEMORY_INDIRECT;
+        const parts = new Array<string>();
+        if (indexSuppress) {
+            parts.push(`[${baseParts.join(",")}]`);
+        } else if (indirect < 4) {
+            // Pre-indexed
+            baseParts.push(index);
+            parts.push(`[${baseParts.join(",")}]`);
+        } else {
+            // Post-indexed
+            parts.push(`[${baseParts.join(",")}]`);
+            parts.push(index);
+        }
+        if (outerDisp !== 0) {
+            parts.push(this.hex(outerDisp));
+        }
+        operand.text = `(${parts.join(",")})`;
+        return operand;
+    }
+
+    /**
+     * Register list of movem
+     * @param mask Register mask
+     * @param reversed True for the predecrement mode
+     */
+    private registerList(mask: number, reversed: boolean): M68kOperand {
+        let registers = mask;
+        if (reversed) {
+            registers = 0;
+            for (let i = 0; i < 16; i++) {
+                if (mask & (1 << i)) {
+                    registers |= 1 << (15 - i);
+                }
+            }
+        }
+        const parts = new Array<string>();
+        for (const [offset, prefix] of [[0, "d"], [8, "a"]]) {
+            let i = 0;
+            while (i < 8) {
+                if (registers & (1 << (i + <number>offset))) {
+                    let j = i;
+                    while ((j < 7) && (registers & (1 << (j + 1 + <number>offset)))) {
+                        j++;
+                    }
+                    parts.push((j > i) ? `${prefix}${i}-${prefix}${j}` : `${prefix}${i}`);
+                    i = j + 1;
+                } else {
+                    i++;
+                }
+            }
+        }
+        return { kind: M68kOperandKind.REGISTER_LIST, text: parts.join("/"), value: registers };
+    }
+
+    private fpRegisterList(mask: number, reversed: boolean): M68kOperand {
+        const parts = new Array<string>();
+        for (let i = 0; i < 8; i++) {
+            const bit = reversed ? i : 7 - i;
+            if (mask & (1 << bit)) {
+                parts.push(`fp${i}`);
+            }
+        }
+        return { kind: M68kOperandKind.FP_REGISTER_LIST, text: parts.join("/"), value: mask };
+    }
+
+    // ---- Groups
+
+    private decodeImmediateAndBits(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        if ((op & 0xf138) === 0x0108) {
+            // movep
+            const dataReg = this.dataRegister((op >> 9) & 7);
+            const disp = this.signed16(this.readWord());
+            const memory: M68kOperand = { kind: M68kOperandKind.DISPLACEMENT, text: `${this.hex(disp)}(a${reg})`, value: disp };
+            const size = (op & 0x0040) ? "l" : "w";
+            if (op & 0x0080) {
+                this.set("movep", size, dataReg, memory);
+            } else {
+                this.set("movep", size, memory, dataReg);
+            }
+            return;
+        }
+        if (op & 0x0100) {
+            // Dynamic bit operation
+            const type = (op >> 6) & 3;
+            const validModes = (type === 0) ? EA_DATA : EA_DATA_ALTERABLE;
+            this.set(["btst", "bchg", "bclr", "bset"][type], (mode === 0) ? "l" : "b", this.dataRegister((op >> 9) & 7), this.ea(mode, reg, "b", validModes));
+            return;
+        }
+        const sizeBits = (op >> 6) & 3;
+        switch ((op >> 9) & 7) {
+            case 4: {
+                // Static bit operation
+                const type = sizeBits;
+                const bit = this.readWord() & 0xff;
+                const validModes = (type === 0) ? (EA_DATA & ~EA_IMM) : EA_DATA_ALTERABLE;
+                this.set(["btst", "bchg", "bclr", "bset"][type], (mode === 0) ? "l" : "b", this.immediate(bit), this.ea(mode, reg, "b", validModes));
+                return;
+            }
+            case 7:
+                if (sizeBits === 3) {
+                    throw new InvalidOpcodeError();
+                } else {
+                    // moves
+                    const size = SIZES[sizeBits];
+                    const ext = this.readWord();
+                    const register = this.register(ext >> 12);
+                    const ea = this.ea(mode, reg, size, EA_MEMORY_ALTERABLE);
+                    if (ext & 0x0800) {
+                        this.set("moves", size, register, ea);
+                    } else {
+                        this.set("moves", size, ea, register);
+                    }
+                }
+                return;
+        }
+        if (sizeBits === 3) {
+            this.decodeChk2CasRtm(op);
+            return;
+        }
+        const size = SIZES[sizeBits];
+        const name = ["ori", "andi", "subi", "addi", "", "eori", "cmpi"][(op >> 9) & 7];
+        if ((op & 0x00ff) === 0x003c && ["ori", "andi", "eori"].includes(name)) {
+            this.set(name, "b", this.immediate(this.readWord() & 0xff), this.special("ccr"));
+        } else if ((op & 0x00ff) === 0x007c && ["ori", "andi", "eori"].includes(name)) {
+            this.set(name, "w", this.immediate(this.readWord()), this.special("sr"));
+        } else {
+            const immediate = this.readImmediate(size);
+            const validModes = (name === "cmpi") ? (EA_DATA & ~EA_IMM) : EA_DATA_ALTERABLE;
+            this.set(name, size, immediate, this.ea(mode, reg, size, validModes));
+        }
+    }
+
+    private decodeChk2CasRtm(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const selector = (op >> 9) & 7;
+        if (selector <= 2) {
+            if ((op & 0xfff0) === 0x06c0) {
+                this.set("rtm", undefined, this.register(op & 0xf));
+            } else if (selector === 3) {
+                throw new InvalidOpcodeError();
+            } else if ((op & 0xffc0) === 0x06c0) {
+                this.set("callm", undefined, this.immediate(this.readWord() & 0xff), this.ea(mode, reg, "b", EA_CONTROL));
+            } else {
+                // chk2 / cmp2
+                const size = SIZES[selector];
+                const ext = this.readWord();
+                this.set((ext & 0x0800) ? "chk2" : "cmp2", size, this.ea(mode, reg, size, EA_CONTROL), this.register(ext >> 12));
+            }
+        } else if ((selector >= 5) && (selector <= 7)) {
+            const size = SIZES[selector - 5];
+            if ((op & 0x003f) === 0x003c && selector !== 5) {
+                // cas2
+                const ext1 = this.readWord();
+                const ext2 = this.readWord();
+                this.set("cas2", size,
+                    { kind: M68kOperandKind.REGISTER_PAIR, text: `d${ext1 & 7}:d${ext2 & 7}` },
+                    { kind: M68kOperandKind.REGISTER_PAIR, text: `d${(ext1 >> 6) & 7}:d${(ext2 >> 6) & 7}` },
+                    { kind: M68kOperandKind.REGISTER_PAIR, text: `(${this.register(ext1 >> 12).text}):(${this.register(ext2 >> 12).text})` });
+            } else {
+                const ext = this.readWord();
+                this.set("cas", size, this.dataRegister(ext & 7), this.dataRegister((ext >> 6) & 7), this.ea(mode, reg, size, EA_MEMORY_ALTERABLE));
+            }
+        } else {
+            throw new InvalidOpcodeError();
+        }
+    }
+
+    private decodeMove(op: number): void {
+        const size = ["", "b", "l", "w"][op >> 12];
+        const source = this.ea((op >> 3) & 7, op & 7, size, (size === "b") ? EA_DATA : EA_ALL);
+        const destMode = (op >> 6) & 7;
+        const destReg = (op >> 9) & 7;
+        if (destMode === 1) {
+            if (size === "b") {
+                throw new InvalidOpcodeError();
+            }
+            this.set("movea", size, source, this.addressRegister(destReg));
+        } else {
+            this.set("move", size, source, this.ea(destMode, destReg, size, EA_DATA_ALTERABLE));
+        }
+    }
+
+    private decodeMisc(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const fixed = ["reset", "nop", "", "rte", "", "rts", "trapv", "rtr"];
+        if (op === 0x4afc) {
+            this.set("illegal", undefined);
+        } else if ((op >= 0x4e70) && (op <= 0x4e77)) {
+            if (op === 0x4e72) {
+                this.set("stop", undefined, this.immediate(this.readWord()));
+            } else if (op === 0x4e74) {
+                this.set("rtd", undefined, this.immediate(this.signed16(this.readWord())));
+            } else {
+                this.set(fixed[op & 7], undefined);
+            }
+        } else if ((op & 0xfff0) === 0x4e40) {
+            this.set("trap", undefined, this.immediate(op & 0xf));
+        } else if ((op & 0xfff8) === 0x4e50) {
+            this.set("link", "w", this.addressRegister(reg), this.immediate(this.signed16(this.readWord())));
+        } else if ((op & 0xfff8) === 0x4808) {
+            this.set("link", "l", this.addressRegister(reg), this.immediate(this.signed32(this.readLong())));
+        } else if ((op & 0xfff8) === 0x4e58) {
+            this.set("unlk", undefined, this.addressRegister(reg));
+        } else if ((op & 0xfff8) === 0x4e60) {
+            this.set("move", "l", this.addressRegister(reg), this.special("usp"));
+        } else if ((op & 0xfff8) === 0x4e68) {
+            this.set("move", "l", this.special("usp"), this.addressRegister(reg));
+        } else if ((op & 0xfffe) === 0x4e7a) {
+            const ext = this.readWord();
+            const name = CONTROL_REGISTERS.get(ext & 0xfff);
+            if (!name) {
+                throw new InvalidOpcodeError();
+            }
+            if (op & 1) {
+                this.set("movec", "l", this.register(ext >> 12), this.special(name));
+            } else {
+                this.set("movec", "l", this.special(name), this.register(ext >> 12));
+            }
+        } else if ((op & 0xffc0) === 0x4e80) {
+            this.set("jsr", undefined, this.jumpTarget(this.ea(mode, reg, "l", EA_CONTROL)));
+        } else if ((op & 0xffc0) === 0x4ec0) {
+            this.set("jmp", undefined, this.jumpTarget(this.ea(mode, reg, "l", EA_CONTROL)));
+        } else if ((op & 0xfff8) === 0x4840) {
+            this.set("swap", undefined, this.dataRegister(reg));
+        } else if ((op & 0xfff8) === 0x4848) {
+            this.set("bkpt", undefined, this.immediate(reg));
+        } else if ((op & 0xffc0) === 0x4840) {
+            this.set("pea", undefined, this.ea(mode, reg, "l", EA_CONTROL));
+        } else if ((op & 0xfff8) === 0x4880) {
+            this.set("ext", "w", this.dataRegister(reg));
+        } else if ((op & 0xfff8) === 0x48c0) {
+            this.set("ext", "l", this.dataRegister(reg));
+        } else if ((op & 0xfff8) === 0x49c0) {
+            this.set("extb", "l", this.dataRegister(reg));
+        } else if ((op & 0xfb80) === 0x4880) {
+            // movem
+            const size = (op & 0x0040) ? "l" : "w";
+            const mask = this.readWord();
+            if (op & 0x0400) {
+                this.set("movem", size, this.ea(mode, reg, size, EA_CONTROL | EA_POSTINC), this.registerList(mask, false));
+            } else {
+                const ea = this.ea(mode, reg, size, EA_CONTROL_ALTERABLE | EA_PREDEC);
+                this.set("movem", size, this.registerList(mask, mode === 4), ea);
+            }
+        } else if ((op & 0xffc0) === 0x4c00) {
+            const ext = this.readWord();
+            const ea = this.ea(mode, reg, "l", EA_DATA);
+            const dl = ext >> 12 & 7;
+            const dh = ext & 7;
+            const name = (ext & 0x0800) ? "muls" : "mulu";
+            if (ext & 0x0400) {
+                this.set(name, "l", ea, { kind: M68kOperandKind.REGISTER_PAIR, text: `d${dh}:d${dl}` });
+            } else {
+                this.set(name, "l", ea, this.dataRegister(dl));
+            }
+        } else if ((op & 0xffc0) === 0x4c40) {
+            const ext = this.readWord();
+            const ea = this.ea(mode, reg, "l", EA_DATA);
+            const dq = ext >> 12 & 7;
+            const dr = ext & 7;
+            const signed = (ext & 0x0800) !== 0;
+            if (ext & 0x0400) {
+                this.set(signed ? "divs" : "divu", "l", ea, { kind: M68kOperandKind.REGISTER_PAIR, text: `d${dr}:d${dq}` });
+            } else if (dr !== dq) {
+                this.set(signed ? "divsl" : "divul", "l", ea, { kind: M68kOperandKind.REGISTER_PAIR, text: `d${dr}:d${dq}` });
+            } else {
+                this.set(signed ? "divs" : "divu", "l", ea, this.dataRegister(dq));
+            }
+        } else if ((op & 0xf1c0) === 0x41c0) {
+            this.set("lea", "l", this.ea(mode, reg, "l", EA_CONTROL), this.addressRegister((op >> 9) & 7));
+        } else if ((op & 0xf1c0) === 0x4180) {
+            this.set("chk", "w", this.ea(mode, reg, "w", EA_DATA), this.dataRegister((op >> 9) & 7));
+        } else if ((op & 0xf1c0) === 0x4100) {
+            this.set("chk", "l", this.ea(mode, reg, "l", EA_DATA), this.dataRegister((op >> 9) & 7));
+        } else if ((op & 0xffc0) === 0x40c0) {
+            this.set("move", "w", this.special("sr"), this.ea(mode, reg, "w", EA_DATA_ALTERABLE));
+        } else if ((op & 0xffc0) === 0x42c0) {
+            this.set("move", "w", this.special("ccr"), this.ea(mode, reg, "w", EA_DATA_ALTERABLE));
+        } else if ((op & 0xffc0) === 0x44c0) {
+            this.set("move", "w", this.ea(mode, reg, "w", EA_DATA), this.special("ccr"));
+        } else if ((op & 0xffc0) === 0x46c0) {
+            this.set("move", "w", this.ea(mode, reg, "w", EA_DATA), this.special("sr"));
+        } else if ((op & 0xffc0) === 0x4800) {
+            this.set("nbcd", "b", this.ea(mode, reg, "b", EA_DATA_ALTERABLE));
+        } else if ((op & 0xffc0) === 0x4ac0) {
+            this.set("tas", "b", this.ea(mode, reg, "b", EA_DATA_ALTERABLE));
+        } else if ((op & 0xff00) === 0x4a00) {
+            const size = SIZES[(op >> 6) & 3];
+            this.set("tst", size, this.ea(mode, reg, size, (size === "b") ? EA_DATA : EA_ALL));
+        } else if (((op & 0xf900) === 0x4000) && (((op >> 6) & 3) !== 3)) {
+            const size = SIZES[(op >> 6) & 3];
+            this.set(["negx", "clr", "neg", "not"][(op >> 9) & 3], size, this.ea(mode, reg, size, EA_DATA_ALTERABLE));
+        } else {
+            throw new InvalidOpcodeError();
+        }
+    }
+
+    /**
+     * Sets the branch target of a jump if it is known
+     * @param operand Operand of the jump
+     */
+    private jumpTarget(operand: M68kOperand): M68kOperand {
+        if ((operand.address !== undefined) && (operand.kind !== M68kOperandKind.MEMORY_INDIRECT) && (operand.kind !== M68kOperandKind.PC_INDEX)) {
+            this.branchTarget = operand.address;
+        }
+        return operand;
+    }
+
+    private decodeQuick(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const sizeBits = (op >> 6) & 3;
+        const condition = CONDITIONS[(op >> 8) & 0xf];
+        if (sizeBits === 3) {
+            if (mode === 1) {
+                const base = this.currentAddress();
+                const disp = this.signed16(this.readWord());
+                this.set(`db${condition}`, undefined, this.dataRegister(reg), this.branch((base + disp) >>> 0));
+            } else if ((op & 0x3f) === 0x3a) {
+                this.set(`trap${condition}`, "w", this.immediate(this.readWord()));
+            } else if ((op & 0x3f) === 0x3b) {
+                this.set(`trap${condition}`, "l", this.immediate(this.readLong()));
+            } else if ((op & 0x3f) === 0x3c) {
+                this.set(`trap${condition}`, undefined);
+            } else {
+                this.set(`s${condition}`, "b", this.ea(mode, reg, "b", EA_DATA_ALTERABLE));
+            }
+        } else {
+            const size = SIZES[sizeBits];
+            let data = (op >> 9) & 7;
+            if (data === 0) {
+                data = 8;
+            }
+            this.set((op & 0x0100) ? "subq" : "addq", size, this.immediate(data), this.ea(mode, reg, size, (size === "b") ? EA_DATA_ALTERABLE : EA_ALTERABLE));
+        }
+    }
+
+    private decodeBranch(op: number): void {
+        const condition = (op >> 8) & 0xf;
+        const mnemonic = (condition === 0) ? "bra" : ((condition === 1) ? "bsr" : `b${CONDITIONS[condition]}`);
+        const base = this.currentAddress();
+        let disp = op & 0xff;
+        let size: string;
+        if (disp === 0) {
+            disp = this.signed16(this.readWord());
+            size = "w";
+        } else if (disp === 0xff) {
+            disp = this.signed32(this.readLong());
+            size = "l";
+        } else {
+            disp = this.signed8(disp);
+            size = "b";
+        }
+        this.set(mnemonic, size, this.branch((base + disp) >>> 0));
+    }
+
+    private decodeOr(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const opmode = (op >> 6) & 7;
+        const dataReg = this.dataRegister((op >> 9) & 7);
+        if (opmode === 3) {
+            this.set("divu", "w", this.ea(mode, reg, "w", EA_DATA), dataReg);
+        } else if (opmode === 7) {
+            this.set("divs", "w", this.ea(mode, reg, "w", EA_DATA), dataReg);
+        } else if ((opmode >= 4) && (mode <= 1)) {
+            const rx = (op >> 9) & 7;
+            const name = ["sbcd", "pack", "unpk"][opmode - 4];
+            let operands: Array<M68kOperand>;
+            if (mode === 0) {
+                operands = [this.dataRegister(reg), this.dataRegister(rx)];
+            } else {
+                operands = [{ kind: M68kOperandKind.PRE_DECREMENT, text: `-(a${reg})` }, { kind: M68kOperandKind.PRE_DECREMENT, text: `-(a${rx})` }];
+            }
+            if (opmode > 4) {
+                operands.push(this.immediate(this.readWord()));
+            }
+            this.set(name, (opmode === 4) ? "b" : undefined, ...operands);
+        } else if (opmode < 3) {
+            const size = SIZES[opmode];
+            this.set("or", size, this.ea(mode, reg, size, EA_DATA), dataReg);
+        } else {
+            const size = SIZES[opmode - 4];
+            this.set("or", size, dataReg, this.ea(mode, reg, size, EA_MEMORY_ALTERABLE));
+        }
+    }
+
+    private decodeAddSub(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const opmode = (op >> 6) & 7;
+        const name = ((op >> 12) === 0xd) ? "add" : "sub";
+        const rx = (op >> 9) & 7;
+        if ((opmode === 3) || (opmode === 7)) {
+            const size = (opmode === 3) ? "w" : "l";
+            this.set(`${name}a`, size, this.ea(mode, reg, size, EA_ALL), this.addressRegister(rx));
+        } else if ((opmode >= 4) && (mode <= 1)) {
+            const size = SIZES[opmode - 4];
+            if (mode === 0) {
+                this.set(`${name}x`, size, this.dataRegister(reg), this.dataRegister(rx));
+            } else {
+                this.set(`${name}x`, size, { kind: M68kOperandKind.PRE_DECREMENT, text: `-(a${reg})` }, { kind: M68kOperandKind.PRE_DECREMENT, text: `-(a${rx})` });
+            }
+        } else if (opmode < 3) {
+            const size = SIZES[opmode];
+            this.set(name, size, this.ea(mode, reg, size, (size === "b") ? EA_DATA : EA_ALL), this.dataRegister(rx));
+        } else {
+            const size = SIZES[opmode - 4];
+            this.set(name, size, this.dataRegister(rx), this.ea(mode, reg, size, EA_MEMORY_ALTERABLE));
+        }
+    }
+
+    private decodeCmpEor(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const opmode = (op >> 6) & 7;
+        const rx = (op >> 9) & 7;
+        if ((opmode === 3) || (opmode === 7)) {
+            const size = (opmode === 3) ? "w" : "l";
+            this.set("cmpa", size, this.ea(mode, reg, size, EA_ALL), this.addressRegister(rx));
+        } else if (opmode < 3) {
+            const size = SIZES[opmode];
+            this.set("cmp", size, this.ea(mode, reg, size, (size === "b") ? EA_DATA : EA_ALL), this.dataRegister(rx));
+        } else if (mode === 1) {
+            this.set("cmpm", SIZES[opmode - 4], { kind: M68kOperandKind.POST_INCREMENT, text: `(a${reg})+` }, { kind: M68kOperandKind.POST_INCREMENT, text: `(a${rx})+` });
+        } else {
+            const size = SIZES[opmode - 4];
+            this.set("eor", size, this.dataRegister(rx), this.ea(mode, reg, size, EA_DATA_ALTERABLE));
+        }
+    }
+
+    private decodeAnd(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const opmode = (op >> 6) & 7;
+        const rx = (op >> 9) & 7;
+        if ((op & 0xf1f8) === 0xc140) {
+            this.set("exg", "l", this.dataRegister(rx), this.dataRegister(reg));
+        } else if ((op & 0xf1f8) === 0xc148) {
+            this.set("exg", "l", this.addressRegister(rx), this.addressRegister(reg));
+        } else if ((op & 0xf1f8) === 0xc188) {
+            this.set("exg", "l", this.dataRegister(rx), this.addressRegister(reg));
+        } else if (opmode === 3) {
+            this.set("mulu", "w", this.ea(mode, reg, "w", EA_DATA), this.dataRegister(rx));
+        } else if (opmode === 7) {
+            this.set("muls", "w", this.ea(mode, reg, "w", EA_DATA), this.dataRegister(rx));
+        } else if ((opmode === 4) && (mode <= 1)) {
+            if (mode === 0) {
+                this.set("abcd", "b", this.dataRegister(reg), this.dataRegister(rx));
+            } else {
+                this.set("abcd", "b", { kind: M68kOperandKind.PRE_DECREMENT, text: `-(a${reg})` }, { kind: M68kOperandKind.PRE_DECREMENT, text: `-(a${rx})` });
+            }
+        } else if (opmode < 3) {
+            const size = SIZES[opmode];
+            this.set("and", size, this.ea(mode, reg, size, EA_DATA), this.dataRegister(rx));
+        } else {
+            const size = SIZES[opmode - 4];
+            this.set("and", size, this.dataRegister(rx), this.ea(mode, reg, size, EA_MEMORY_ALTERABLE));
+        }
+    }
+
+    private decodeShift(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const sizeBits = (op >> 6) & 3;
+        const direction = (op & 0x0100) ? "l" : "r";
+        if ((op & 0xf8c0) === 0xe8c0) {
+            this.decodeBitField(op);
+        } else if (sizeBits === 3) {
+            if (op & 0x0800) {
+                throw new InvalidOpcodeError();
+            }
+            const type = ["as", "ls", "rox", "ro"][(op >> 9) & 3];
+            this.set(type + direction, "w", this.ea(mode, reg, "w", EA_MEMORY_ALTERABLE));
+        } else {
+            const type = ["as", "ls", "rox", "ro"][(op >> 3) & 3];
+            const count = (op >> 9) & 7;
+            const source = (op & 0x0020) ? this.dataRegister(count) : this.immediate((count === 0) ? 8 : count);
+            this.set(type + direction, SIZES[sizeBits], source, this.dataRegister(reg));
+        }
+    }
+
+    private decodeBitField(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const type = (op >> 8) & 7;
+        const name = ["bftst", "bfextu", "bfchg", "bfexts", "bfclr", "bfffo", "bfset", "bfins"][type];
+        const ext = this.readWord();
+        const offset = (ext & 0x0800) ? `d${(ext >> 6) & 7}` : `${(ext >> 6) & 0x1f}`;
+        const width = (ext & 0x0020) ? `d${ext & 7}` : `${((ext & 0x1f) === 0) ? 32 : (ext & 0x1f)}`;
+        const readOnly = (type === 0) || (type === 1) || (type === 3) || (type === 5);
+        const ea = this.ea(mode, reg, "l", EA_DN | (readOnly ? EA_CONTROL : EA_CONTROL_ALTERABLE));
+        const field: M68kOperand = { kind: M68kOperandKind.BITFIELD, text: `${ea.text}{${offset}:${width}}`, value: ea.value, address: ea.address };
+        const dataReg = this.dataRegister((ext >> 12) & 7);
+        if (type === 7) {
+            this.set(name, undefined, dataReg, field);
+        } else if (readOnly && (type !== 0)) {
+            this.set(name, undefined, field, dataReg);
+        } else {
+            this.set(name, undefined, field);
+        }
+    }
+
+    private decodeCoprocessor(op: number): void {
+        const cpid = (op >> 9) & 7;
+        if (cpid === 1) {
+            this.decodeFpu(op);
+        } else if (cpid === 0) {
+            this.decodePmmu(op);
+        } else if ((op & 0xff00) === 0xf400) {
+            this.decodeCache(op);
+        } else if ((op & 0xffe0) === 0xf500) {
+            const name = ["pflushn", "pflush", "pflushan", "pflusha"][(op >> 3) & 3];
+            if (((op >> 3) & 3) < 2) {
+                this.set(name, undefined, { kind: M68kOperandKind.ADDRESS_INDIRECT, text: `(a${op & 7})` });
+            } else {
+                this.set(name, undefined);
+            }
+        } else if ((op & 0xffd8) === 0xf548) {
+            this.set((op & 0x0020) ? "ptestr" : "ptestw", undefined, { kind: M68kOperandKind.ADDRESS_INDIRECT, text: `(a${op & 7})` });
+        } else if ((op & 0xffb8) === 0xf588) {
+            this.set((op & 0x0040) ? "plpar" : "plpaw", undefined, { kind: M68kOperandKind.ADDRESS_INDIRECT, text: `(a${op & 7})` });
+        } else if ((op & 0xfff8) === 0xf620) {
+            const ext = this.readWord();
+            if ((ext & 0x8fff) !== 0x8000) {
+                throw new InvalidOpcodeError();
+            }
+            this.set("move16", undefined, { kind: M68kOperandKind.POST_INCREMENT, text: `(a${op & 7})+` }, { kind: M68kOperandKind.POST_INCREMENT, text: `(a${(ext >> 12) & 7})+` });
+        } else if ((op & 0xffe0) === 0xf600) {
+            const address = this.readLong();
+            const absolute: M68kOperand = { kind: M68kOperandKind.ABSOLUTE_LONG, text: `${this.label(address)}.l`, address: address };
+            const opmode = (op >> 3) & 3;
+            const register: M68kOperand = (opmode & 2) ?
+                { kind: M68kOperandKind.ADDRESS_INDIRECT, text: `(a${op & 7})` } : { kind: M68kOperandKind.POST_INCREMENT, text: `(a${op & 7})+` };
+            if (opmode & 1) {
+                this.set("move16", undefined, absolute, register);
+            } else {
+                this.set("move16", undefined, register, absolute);
+            }
+        } else if (op === 0xf800) {
+            if (this.readWord() !== 0x01c0) {
+                throw new InvalidOpcodeError();
+            }
+            this.set("lpstop", undefined, this.immediate(this.readWord()));
+        } else {
+            throw new InvalidOpcodeError();
+        }
+    }
+
+    private decodeCache(op: number): void {
+        const cache = ["nc", "dc", "ic", "bc"][(op >> 6) & 3];
+        const scope = (op >> 3) & 3;
+        if (scope === 0) {
+            throw new InvalidOpcodeError();
+        }
+        const name = ((op & 0x0020) ? "cpush" : "cinv") + ["", "l", "p", "a"][scope];
+        const cacheOperand: M68kOperand = { kind: M68kOperandKind.CACHE, text: cache };
+        if (scope === 3) {
+            this.set(name, undefined, cacheOperand);
+        } else {
+            this.set(name, undefined, cacheOperand, { kind: M68kOperandKind.ADDRESS_INDIRECT, text: `(a${op & 7})` });
+        }
+    }
+
+    private decodeFpu(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const type = (op >> 6) & 7;
+        switch (type) {
+            case 0:
+                this.decodeFpuGeneral(op, this.readWord());
+                return;
+            case 1: {
+                const condition = FPU_CONDITIONS[this.readWord() & 0x1f];
+                if (mode === 1) {
+                    const base = this.currentAddress();
+                    const disp = this.signed16(this.readWord());
+                    this.set(`fdb${condition}`, undefined, this.dataRegister(reg), this.branch((base + disp) >>> 0));
+                } else if ((op & 0x3f) === 0x3a) {
+                    this.set(`ftrap${condition}`, "w", this.immediate(this.readWord()));
+                } else if ((op & 0x3f) === 0x3b) {
+                    this.set(`ftrap${condition}`, "l", this.immediate(this.readLong()));
+                } else if ((op & 0x3f) === 0x3c) {
+                    this.set(`ftrap${condition}`, undefined);
+                } else {
+                    this.set(`fs${condition}`, "b", this.ea(mode, reg, "b", EA_DATA_ALTERABLE));
+                }
+                return;
+            }
+            case 2:
+            case 3: {
+                const base = this.currentAddress();
+                const disp = (type === 2) ? this.signed16(this.readWord()) : this.signed32(this.readLong());
+                if ((op & 0x3f) === 0 && disp === 0 && type === 2) {
+                    this.set("fnop", undefined);
+                } else {
+                    this.set(`fb${FPU_CONDITIONS[op & 0x1f]}`, (type === 2) ? "w" : "l", this.branch((base + disp) >>> 0));
+                }
+                return;
+            }
+            case 4:
+                this.set("fsave", undefined, this.ea(mode, reg, "l", EA_CONTROL_ALTERABLE | EA_PREDEC));
+                return;
+            case 5:
+                this.set("frestore", undefined, this.ea(mode, reg, "l", EA_CONTROL | EA_POSTINC));
+                return;
+            default:
+                throw new InvalidOpcodeError();
+        }
+    }
+
+    private decodeFpuGeneral(op: number, ext: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        const opclass = ext >> 13;
+        const source = (ext >> 10) & 7;
+        const dest = (ext >> 7) & 7;
+        switch (opclass) {
+            case 0:
+            case 2: {
+                if ((opclass === 2) && (source === 7)) {
+                    // fmovecr
+                    this.set("fmovecr", "x", this.immediate(ext & 0x7f), this.fpRegister(dest));
+                    return;
+                }
+                const opmode = ext & 0x7f;
+                const name = FPU_OPERATIONS.get(opmode);
+                let sourceOperand: M68kOperand;
+                let size: string;
+                if (opclass === 0) {
+                    sourceOperand = this.fpRegister(source);
+                    size = "x";
+                } else {
+                    size = FPU_FORMATS[source];
+                    const validModes = ((size === "l") || (size === "s") || (size === "w") || (size === "b")) ? EA_DATA : EA_MEMORY;
+                    sourceOperand = this.ea(mode, reg, size, validModes);
+                }
+                if ((opmode & 0x78) === 0x30) {
+                    this.set("fsincos", size, sourceOperand, { kind: M68kOperandKind.REGISTER_PAIR, text: `fp${opmode & 7}:fp${dest}` });
+                    return;
+                }
+                if (!name) {
+                    throw new InvalidOpcodeError();
+                }
+                if (name === "ftst") {
+                    this.set(name, size, sourceOperand);
+                } else {
+                    this.set(name, size, sourceOperand, this.fpRegister(dest));
+                }
+                return;
+            }
+            case 3: {
+                // fmove fpn,<ea>
+                const size = FPU_FORMATS[source];
+                const validModes = ((size === "l") || (size === "s") || (size === "w") || (size === "b")) ? EA_DATA_ALTERABLE : EA_MEMORY_ALTERABLE;
+                const ea = this.ea(mode, reg, size, validModes);
+                if (source === 3) {
+                    const kFactor = ext & 0x7f;
+                    const k = (kFactor & 0x40) ? kFactor - 0x80 : kFactor;
+                    this.set("fmove", "p", this.fpRegister(dest), { kind: M68kOperandKind.BITFIELD, text: `${ea.text}{#${k}}`, value: k, address: ea.address });
+                } else if (source === 7) {
+                    this.set("fmove", "p", this.fpRegister(dest), { kind: M68kOperandKind.BITFIELD, text: `${ea.text}{d${(ext >> 4) & 7}}`, address: ea.address });
+                } else {
+                    this.set("fmove", size, this.fpRegister(dest), ea);
+                }
+                return;
+            }
+            case 4:
+            case 5: {
+                // Control registers
+                const names = new Array<string>();
+                if (source & 4) {
+                    names.push("fpcr");
+                }
+                if (source & 2) {
+                    names.push("fpsr");
+                }
+                if (source & 1) {
+                    names.push("fpiar");
+                }
+                const registers: M68kOperand = { kind: (names.length > 1) ? M68kOperandKind.FP_REGISTER_LIST : M68kOperandKind.SPECIAL_REGISTER, text: names.join("/") };
+                const name = (names.length > 1) ? "fmovem" : "fmove";
+                const single = (names.length === 1);
+                const validModes = single ? ((source === 1) ? EA_ALL : EA_DATA) : EA_MEMORY;
+                if (opclass === 4) {
+                    this.set(name, "l", this.ea(mode, reg, "l", validModes), registers);
+                } else {
+                    this.set(name, "l", registers, this.ea(mode, reg, "l", validModes & EA_ALTERABLE));
+                }
+                return;
+            }
+            default: {
+                // fmovem data registers
+                const dynamic = (ext & 0x0800) !== 0;
+                const predecrement = (ext & 0x1000) === 0;
+                let list: M68kOperand;
+                if (dynamic) {
+                    list = this.dataRegister((ext >> 4) & 7);
+                } else {
+                    list = this.fpRegisterList(ext & 0xff, predecrement);
+                }
+                if (opclass === 6) {
+                    this.set("fmovem", "x", this.ea(mode, reg, "x", EA_CONTROL | EA_POSTINC), list);
+                } else {
+                    this.set("fmovem", "x", list, this.ea(mode, reg, "x", EA_CONTROL_ALTERABLE | EA_PREDEC));
+                }
+            }
+        }
+    }
+
+    private decodePmmu(op: number): void {
+        const mode = (op >> 3) & 7;
+        const reg = op & 7;
+        if (((op >> 6) & 7) !== 0) {
+            throw new InvalidOpcodeError();
+        }
+        const ext = this.readWord();
+        const type = ext >> 13;
+        if (type === 1) {
+            if (ext === 0x2400) {
+                this.set("pflusha", undefined);
+            } else if ((ext & 0xfde0) === 0x2000) {
+                this.set((ext & 0x0200) ? "ploadr" : "ploadw", undefined, this.functionCode(ext), this.ea(mode, reg, "l", EA_CONTROL_ALTERABLE));
+            } else {
+                const flushMode = (ext >> 10) & 7;
+                const mask = this.immediate((ext >> 5) & 7);
+                if (flushMode === 4) {
+                    this.set("pflush", undefined, this.functionCode(ext), mask);
+                } else if (flushMode === 6) {
+                    this.set("pflush", undefined, this.functionCode(ext), mask, this.ea(mode, reg, "l", EA_CONTROL_ALTERABLE));
+                } else {
+                    throw new InvalidOpcodeError();
+                }
+            }
+        } else if ((type === 0) || (type === 2) || (type === 3)) {
+            let register: string | undefined;
+            if (type === 3) {
+                register = "mmusr";
+            } else if (type === 0) {
+                register = ["", "", "tt0", "tt1"][(ext >> 10) & 7];
+            } else {
+                register = ["tc", "", "srp", "crp"][(ext >> 10) & 7];
+            }
+            if (!register) {
+                throw new InvalidOpcodeError();
+            }
+            const name = (ext & 0x0100) ? "pmovefd" : "pmove";
+            const size = (register === "crp" || register === "srp") ? "d" : ((register === "mmusr") ? "w" : "l");
+            const ea = this.ea(mode, reg, size, EA_CONTROL_ALTERABLE | ((ext & 0x0200) ? 0 : EA_CONTROL));
+            if (ext & 0x0200) {
+                this.set(name, undefined, this.special(register), ea);
+            } else {
+                this.set(name, undefined, ea, this.special(register));
+            }
+        } else if (type === 4) {
+            const level = this.immediate((ext >> 10) & 7);
+            const ea = this.ea(mode, reg, "l", EA_CONTROL_ALTERABLE);
+            const operands = [this.functionCode(ext), ea, level];
+            if (ext & 0x0100) {
+                operands.push(this.addressRegister((ext >> 5) & 7));
+            }
+            this.set((ext & 0x0200) ? "ptestr" : "ptestw", undefined, ...operands);
+        } else {
+            throw new InvalidOpcodeError();
+        }
+    }
+
+    private functionCode(ext: number): M68kOperand {
+        const fc = ext & 0x1f;
+        if (fc === 0) {
+            return this.special("sfc");
+        } else if (fc === 1) {
+            return this.special("dfc");
+        } else if ((fc & 0x18) === 0x08) {
+            return this.dataRegister(fc & 7);
+        } else if ((fc & 0x18) === 0x10) {
+            return this.immediate(fc & 7);
+        }
+        throw new InvalidOpcodeError();
+    }
+}
+
+/**
+ * In-process 68000-68060 disassembler with the FPU and MMU instructions.
+ */
+export class M68kDisassembler implements InstructionDisassembler {
+    /**
+     * Disassembles a buffer to structured instructions.
+     * The words that cannot be decoded are returned as invalid dc.w instructions.
+     * @param buffer Buffer or hexadecimal string to disassemble
+     * @param startAddress Address of the first byte
+     * @param labelResolver Resolver of the labels of the branch targets and the absolute addresses
+     */
+    public disassembleInstructions(buffer: Buffer | string, startAddress = 0, labelResolver?: M68kLabelResolver): Array<M68kInstruction> {
+        const data = (typeof buffer === "string") ? Buffer.from(buffer.replace(/\s/g, ""), "hex") : buffer;
+        const instructions = new Array<M68kInstruction>();
+        let offset = 0;
+        while (offset < data.length) {
+            const instruction = this.disassembleInstruction(data, offset, (startAddress + offset) >>> 0, labelResolver);
+            instructions.push(instruction);
+            offset += instruction.length;
+        }
+        return instructions;
+    }
+
+    /**
+     * Disassembles the instruction at an offset of a buffer.
+     * A word that cannot be decoded is returned as an invalid dc.w instruction.
+     * @param data Buffer to disassemble
+     * @param offset Offset of the instruction in the buffer
+     * @param address Address of the instruction
+     * @param labelResolver Resolver of the labels of the branch targets and the absolute addresses
+     */
+    public disassembleInstruction(data: Buffer, offset: number, address: number, labelResolver?: M68kLabelResolver): M68kInstruction {
+        if (offset + 2 > data.length) {
+            return this.createInvalid(address, data.subarray(offset, offset + 1), "b", data.readUInt8(offset));
+        }
+        const decoder = new InstructionDecoder(data, offset, address, labelResolver);
+        try {
+            const length = decoder.decode();
+            return {
+                address: address,
+                bytes: this.formatBytes(data.subarray(offset, offset + length)),
+                length: length,
+                mnemonic: decoder.mnemonic,
+                size: decoder.size,
+                operands: decoder.operands,
+                branchTarget: decoder.branchTarget
+            };
+        } catch (err) {
+            if ((err instanceof InvalidOpcodeError) || (err instanceof RangeError)) {
+                return this.createInvalid(address, data.subarray(offset, offset + 2), "w", data.readUInt16BE(offset));
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Disassembles a buffer to the cstool text format
+     * @param buffer Buffer to disassemble in hexadecimal
+     * @param cancellationToken Token to cancel the process
+     */
+    public async disassemble(buffer: string, cancellationToken?: CancellationToken): Promise<string> {
+        let code = "\n";
+        for (const instruction of this.disassembleInstructions(buffer)) {
+            if (cancellationToken && cancellationToken.isCancellationRequested) {
+                break;
+            }
+            code += ` ${instruction.address.toString(16)}  ${instruction.bytes}  ${M68kDisassembler.formatInstruction(instruction, "\t")}\n`;
+        }
+        return code;
+    }
+
+    /**
+     * Disassembles a buffer resolving the branch targets and the absolute addresses with labels
+     * @param buffer Buffer to disassemble in hexadecimal
+     * @param startAddress Address of the first byte
+     * @param labelResolver Resolver of the labels of the addresses
+     */
+    public disassembleWithLabels(buffer: string, startAddress: number, labelResolver: M68kLabelResolver): Array<LabeledInstruction> {
+        return this.disassembleInstructions(buffer, startAddress, labelResolver).map(instruction => {
+            const [mnemonic, operands] = M68kDisassembler.formatInstruction(instruction, "\t").split("\t");
+            return {
+                address: instruction.address,
+                bytes: instruction.bytes,
+                mnemonic: mnemonic,
+                operands: operands
+            };
+        });
+    }
+
+    /**
+     * Disassembles an amiga hunk file
+     * @param filename File to disassemble
+     * @param cancellationToken Token to cancel the process
+     */
+    public async disassembleFile(filename: Uri, cancellationToken?: CancellationToken): Promise<string> {
+        const di = new DebugInfo(filename);
+        if (await di.load()) {
+            let allCode = "";
+            for (const codeData of di.getCodeData()) {
+                let s = "";
+                for (const b of codeData) {
+                    s += b.toString(16).padStart(8, "0");
+                }
+                allCode += await this.disassemble(s, cancellationToken) + "\n";
+            }
+            return allCode;
+        } else {
+            throw new Error(`File '${filename}' could not be parsed`);
+        }
+    }
+
+    /**
+     * Formats an instruction
+     * @param instruction Instruction to format
+     * @param separator Separator between the mnemonic and the operands
+     */
+    public static formatInstruction(instruction: M68kInstruction, separator = " "): string {
+        let text = instruction.mnemonic;
+        if (instruction.size) {
+            text += `.${instruction.size}`;
+        }
+        if (instruction.operands.length > 0) {
+            text += separator + instruction.operands.map(o => o.text).join(", ");
+        }
+        return text;
+    }
+
+    private createInvalid(address: number, bytes: Buffer, size: string, value: number): M68kInstruction {
+        return {
+            address: address,
+            bytes: this.formatBytes(bytes),
+            length: bytes.length,
+            mnemonic: "dc",
+            size: size,
+            operands: [{ kind: M68kOperandKind.IMMEDIATE, text: `$${value.toString(16).padStart(size === "b" ? 2 : 4, "0")}`, value: value }],
+            invalid: true
+        };
+    }
+
+    private formatBytes(bytes: Buffer): string {
+        const hex = new Array<string>();
+        for (const b of bytes) {
+            hex.push(b.toString(16).padStart(2, "0"));
+        }
+        return hex.join(" ");
+    }
+}
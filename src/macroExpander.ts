@@ -0,0 +1,319 @@
+/* eslint-disable @typescript-eslint/ban-types */
+import * as vscode from 'vscode';
+import { Symbol } from './symbols';
+import { StringUtils } from './stringUtils';
+
+/**
+ * Body of a macro
+ */
+export interface MacroDefinition {
+    name: string;
+    /** Lines between the macro and the endm directives */
+    body: Array<string>;
+}
+
+/**
+ * Line calling a macro
+ */
+export interface MacroInvocation {
+    label: string;
+    name: string;
+    /** Size qualifier: \0 in the body */
+    qualifier: string;
+    arguments: Array<string>;
+}
+
+/**
+ * \@ ids of the lines of a document version
+ */
+interface DocumentIds {
+    version: number;
+    /** Id of the first invocation of each line */
+    ids: Array<number>;
+}
+
+/**
+ * Expands the macros invocations as vasm
+ */
+export class MacroExpander {
+    public static readonly MAX_DEPTH = 16;
+    private resolver: (name: string) => MacroDefinition | undefined;
+    private nextId = 0;
+    private documentsIds = new Map<string, DocumentIds>();
+
+    /**
+     * Constructor
+     * @param resolver Retrieves the definition of a macro by name
+     */
+    constructor(resolver: (name: string) => MacroDefinition | undefined) {
+        this.resolver = resolver;
+    }
+
+    /**
+     * Reads the body of a macro in the document of its symbol
+     * @param symbol Symbol of the macro definition
+     * @return The definition or undefined if the document is not loaded or the endm is missing
+     */
+    public static readDefinition(symbol: Symbol): MacroDefinition | undefined {
+        const document = symbol.getFile().getDocument();
+        if (document) {
+            const body = new Array<string>();
+            for (let i = symbol.getRange().start.line + 1; i < document.lineCount; i++) {
+                const text = document.lineAt(i).text;
+                if (MacroExpander.isEndOfMacro(text)) {
+                    return { name: symbol.getLabel(), body: body };
+                }
+                body.push(text);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks if a line contains an endm directive
+     * @param text Text of the line
+     */
+    public static isEndOfMacro(text: string): boolean {
+        return /^(\S*\s+)?endm(\s|;|$)/i.test(text);
+    }
+
+    /**
+     * Parses a line as a macro invocation
+     * @param text Text of the line
+     * @return The invocation or undefined if there is no instruction
+     */
+    public static parseInvocation(text: string): MacroInvocation | undefined {
+        const code = MacroExpander.removeComment(text);
+        const match = /^(\S*)\s+(\S+)\s*(.*)$/.exec(code);
+        if (match) {
+            let name = match[2];
+            let qualifier = "";
+            const dotPos = name.indexOf(".");
+            if (dotPos > 0) {
+                qualifier = name.substring(dotPos + 1);
+                name = name.substring(0, dotPos);
+            }
+            return {
+                label: match[1],
+                name: name,
+                qualifier: qualifier,
+                arguments: MacroExpander.parseArguments(match[3])
+            };
+        }
+        return undefined;
+    }
+
+    /**
+     * Splits the arguments of an invocation: the commas in quotes, parenthesis and <> are kept
+     * @param data Arguments of the invocation
+     * @return The arguments, the <> are removed
+     */
+    public static parseArguments(data: string): Array<string> {
+        const args = new Array<string>();
+        if (data.trim().length === 0) {
+            return args;
+        }
+        let current = "";
+        let depth = 0;
+        let quote = "";
+        for (const c of data) {
+            if (quote.length > 0) {
+                if (c === quote) {
+                    quote = "";
+                }
+            } else if ((c === "\"") || (c === "'")) {
+                quote = c;
+            } else if ((c === "(") || (c === "<")) {
+                depth++;
+            } else if (((c === ")") || (c === ">")) && (depth > 0)) {
+                depth--;
+            } else if ((c === ",") && (depth === 0)) {
+                args.push(MacroExpander.unwrapArgument(current));
+                current = "";
+                continue;
+            }
+            current += c;
+        }
+        args.push(MacroExpander.unwrapArgument(current));
+        return args;
+    }
+
+    private static unwrapArgument(arg: string): string {
+        const trimmed = arg.trim();
+        if (trimmed.startsWith("<") && trimmed.endsWith(">")) {
+            return trimmed.substring(1, trimmed.length - 1);
+        }
+        return trimmed;
+    }
+
+    private static removeComment(text: string): string {
+        let quote = "";
+        for (let i = 0; i < text.length; i++) {
+            const c = text.charAt(i);
+            if (quote.length > 0) {
+                if (c === quote) {
+                    quote = "";
+                }
+            } else if ((c === "\"") || (c === "'")) {
+                quote = c;
+            } else if (c === ";") {
+                return text.substring(0, i).trimRight();
+            }
+        }
+        return text.trimRight();
+    }
+
+    /**
+     * Replaces the parameters of a line of a macro body
+     * @param line Line of the body
+     * @param invocation Invocation of the macro
+     * @param id Unique id of the invocation
+     * @return The substituted line
+     */
+    public static substitute(line: string, invocation: MacroInvocation, id: number): string {
+        return line.replace(/\\([0-9@#])|\bNARG\b/gi, (match: string, parameter?: string) => {
+            if (parameter === undefined) {
+                return invocation.arguments.length.toString();
+            } else if (parameter === "@") {
+                return `_${StringUtils.padStart(id.toString(), 6, "0")}`;
+            } else if (parameter === "#") {
+                return invocation.arguments.length.toString();
+            } else if (parameter === "0") {
+                return invocation.qualifier;
+            }
+            const arg = invocation.arguments[parseInt(parameter) - 1];
+            return (arg !== undefined) ? arg : "";
+        });
+    }
+
+    /**
+     * Expands an invocation and the nested invocations
+     * @param invocation Invocation of the macro
+     * @param depth Depth of the nested invocation
+     * @return The lines of the expansion or undefined if it is not a macro
+     */
+    public expand(invocation: MacroInvocation, depth = 0): Array<string> | undefined {
+        const definition = this.resolver(invocation.name);
+        if (!definition) {
+            return undefined;
+        }
+        const id = this.nextId++;
+        const lines = new Array<string>();
+        if (invocation.label.length > 0) {
+            lines.push(invocation.label);
+        }
+        for (const bodyLine of definition.body) {
+            const text = MacroExpander.substitute(bodyLine, invocation, id);
+            const nestedInvocation = MacroExpander.parseInvocation(text);
+            let nestedLines: Array<string> | undefined;
+            if (nestedInvocation && (depth < MacroExpander.MAX_DEPTH)) {
+                nestedLines = this.expand(nestedInvocation, depth + 1);
+            }
+            if (nestedLines) {
+                lines.push(...nestedLines);
+            } else {
+                lines.push(text);
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Expands the invocation of a line of a document.
+     * The \@ ids are computed once per document version.
+     * @param document Document containing the invocation
+     * @param lineNumber Line of the invocation
+     * @return The lines of the expansion or undefined if it is not a macro
+     */
+    public expandAt(document: vscode.TextDocument, lineNumber: number): Array<string> | undefined {
+        this.nextId = this.getDocumentIds(document)[lineNumber];
+        const invocation = MacroExpander.parseInvocation(document.lineAt(lineNumber).text);
+        if (invocation) {
+            return this.expand(invocation);
+        }
+        return undefined;
+    }
+
+    /**
+     * Releases the ids of a closed document
+     * @param uri Uri of the document
+     */
+    public forgetDocument(uri: vscode.Uri): void {
+        this.documentsIds.delete(uri.toString());
+    }
+
+    /**
+     * Retrieves the \@ ids of the lines: all the invocations of the document are expanded in order
+     * @param document Document to expand
+     * @return Id of the first invocation of each line
+     */
+    private getDocumentIds(document: vscode.TextDocument): Array<number> {
+        const key = document.uri.toString();
+        const cached = this.documentsIds.get(key);
+        if (cached && (cached.version === document.version) && (cached.ids.length === document.lineCount)) {
+            return cached.ids;
+        }
+        const ids = new Array<number>();
+        this.nextId = 0;
+        let inDefinition = false;
+        for (let i = 0; i < document.lineCount; i++) {
+            ids.push(this.nextId);
+            const invocation = MacroExpander.parseInvocation(document.lineAt(i).text);
+            if (invocation) {
+                const name = invocation.name.toLowerCase();
+                if (name === "macro") {
+                    inDefinition = true;
+                } else if (name === "endm") {
+                    inDefinition = false;
+                } else if (!inDefinition) {
+                    this.expand(invocation);
+                }
+            }
+        }
+        this.documentsIds.set(key, { version: document.version, ids: ids });
+        return ids;
+    }
+}
+
+/**
+ * Provides the documents of the macro expansions shown in a peek view
+ */
+export class MacroExpansionContentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly SCHEME = "amiga-macro-expansion";
+    private expansions = new Map<string, string>();
+    private peekCount = 0;
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        const expansion = this.expansions.get(uri.toString());
+        return (expansion !== undefined) ? expansion : "";
+    }
+
+    /**
+     * Releases the expansion of a closed peek document
+     * @param document Closed document
+     */
+    public onDidCloseTextDocument(document: vscode.TextDocument): void {
+        if (document.uri.scheme === MacroExpansionContentProvider.SCHEME) {
+            this.expansions.delete(document.uri.toString());
+        }
+    }
+
+    /**
+     * Shows the expansion of the macro invocation at the cursor in a peek view
+     * @param editor Editor of the invocation
+     * @param expander Expander of the macros
+     */
+    public async peekExpansion(editor: vscode.TextEditor, expander: MacroExpander): Promise<void> {
+        const position = editor.selection.active;
+        const lines = expander.expandAt(editor.document, position.line);
+        if (!lines) {
+            throw new Error("No macro invocation at the cursor");
+        }
+        const invocation = MacroExpander.parseInvocation(editor.document.lineAt(position.line).text);
+        const name = invocation ? invocation.name : "macro";
+        // A new uri for each peek: the documents are cached by uri
+        const uri = vscode.Uri.parse(`${MacroExpansionContentProvider.SCHEME}:/${name}.s?${this.peekCount++}`);
+        this.expansions.set(uri.toString(), lines.join("\n"));
+        await vscode.commands.executeCommand('editor.action.peekLocations', editor.document.uri, position, [new vscode.Location(uri, new vscode.Position(0, 0))], 'peek');
+    }
+}
@@ -0,0 +1,260 @@
+import * as vscode from 'vscode';
+import { DebugProtocol } from 'vscode-debugprotocol/lib/debugProtocol';
+import { CopperTimeline, CopperTimelinePanel, DebugSessionMemoryResolver } from './copperTimeline';
+import { MemoryLabelsRegistry } from './customMemoryAddresses';
+import { DebugVariableResolver } from './debugVariableResolver';
+
+/**
+ * Segment of the loaded program, as returned by the 'getMemoryMap' debug request
+ */
+export interface MemoryMapSegment {
+    id: number;
+    name: string;
+    address: number;
+    size: number;
+    /** Memory type requested by the hunk: ANY, CHIP or FAST */
+    memType: string;
+    /** Type of the hunk: CODE, DATA or BSS */
+    hunkType: string;
+}
+
+/**
+ * Current value of a DMA pointer register
+ */
+export interface MemoryMapPointer {
+    name: string;
+    address: number;
+}
+
+/**
+ * Tree view of the segments of the debugged program and of the DMA pointers
+ */
+export class MemoryMapDataProvider implements vscode.TreeDataProvider<MemoryMapItem>, vscode.DebugAdapterTrackerFactory {
+    /** Highest chip RAM address when the emulator configuration does not set it (2MB of chip RAM) */
+    public static readonly CHIP_RAM_END = 0x200000;
+    /**
+     * Pointer registers set by the copper list.
+     * The pointer registers are write only: they are not read from the custom chips.
+     */
+    private static readonly POINTER_REGISTERS = ["COP2LC", "BPL1PT", "BPL2PT", "BPL3PT", "BPL4PT", "BPL5PT", "BPL6PT",
+        "SPR0PT", "SPR1PT", "SPR2PT", "SPR3PT", "SPR4PT", "SPR5PT", "SPR6PT", "SPR7PT"];
+    private _onDidChangeTreeData: vscode.EventEmitter<MemoryMapItem | undefined> = new vscode.EventEmitter<MemoryMapItem | undefined>();
+    readonly onDidChangeTreeData: vscode.Event<MemoryMapItem | undefined> = this._onDidChangeTreeData.event;
+    private segments = new Array<MemoryMapSegment>();
+    private pointers = new Array<MemoryMapPointer>();
+    private chipRamEnd = MemoryMapDataProvider.CHIP_RAM_END;
+    private visible = false;
+    /** Session stopped while the view was hidden */
+    private pendingSession: vscode.DebugSession | undefined;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(element: MemoryMapItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: MemoryMapItem): Promise<MemoryMapItem[]> {
+        if (element) {
+            return element.children;
+        } else if ((this.segments.length > 0) || (this.pointers.length > 0)) {
+            return this.buildItems();
+        }
+        return [];
+    }
+
+    /**
+     * Tracks the debug sessions to update the view when the program stops
+     */
+    createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+        return {
+            onDidSendMessage: (message: DebugProtocol.ProtocolMessage) => {
+                if ((message.type === 'event') && ((<DebugProtocol.Event>message).event === 'stopped')) {
+                    if (this.visible) {
+                        this.safeUpdate(session);
+                    } else {
+                        // Read when the view is shown
+                        this.pendingSession = session;
+                    }
+                }
+            },
+            onWillStopSession: () => {
+                this.pendingSession = undefined;
+                this.setMemoryMap([], []);
+            }
+        };
+    }
+
+    /**
+     * Sets the visibility of the view: the memory map is only read when the view is visible
+     * @param visible True if the view is visible
+     */
+    public setVisible(visible: boolean): void {
+        this.visible = visible;
+        if (visible && this.pendingSession) {
+            const session = this.pendingSession;
+            this.pendingSession = undefined;
+            this.safeUpdate(session);
+        }
+    }
+
+    private safeUpdate(session: vscode.DebugSession): void {
+        this.update(session).catch(() => {
+            // The memory map is not available for this session
+        });
+    }
+
+    /**
+     * Reads the memory map of a debug session
+     * @param session Debug session
+     */
+    public async update(session: vscode.DebugSession): Promise<void> {
+        const response = await session.customRequest('getMemoryMap');
+        this.chipRamEnd = MemoryMapDataProvider.getChipRamEnd(session.configuration);
+        const pointers = await MemoryMapDataProvider.readPointers(new DebugSessionMemoryResolver(session));
+        this.setMemoryMap(response.segments, pointers);
+    }
+
+    /**
+     * Retrieves the end of the chip RAM from the emulator options of the launch configuration
+     * @param configuration Launch configuration of the debug session
+     * @return Highest chip RAM address
+     */
+    public static getChipRamEnd(configuration: vscode.DebugConfiguration): number {
+        const options: Array<string> = Array.isArray(configuration.options) ? configuration.options : [];
+        for (const option of options) {
+            // FS-UAE: --chip_memory=<size in KB>
+            let match = /^--chip_memory=(\d+)$/.exec(option);
+            if (match) {
+                return parseInt(match[1]) * 1024;
+            }
+            // WinUAE: -s chipmem_size=<size in 512KB, 0 for 256KB>
+            match = /^chipmem_size=(\d+)$/.exec(option);
+            if (match) {
+                const size = parseInt(match[1]);
+                return (size === 0) ? 0x40000 : size * 0x80000;
+            }
+        }
+        return MemoryMapDataProvider.CHIP_RAM_END;
+    }
+
+    /**
+     * Sets the content of the view
+     * @param segments Segments of the program
+     * @param pointers DMA pointers
+     */
+    public setMemoryMap(segments: Array<MemoryMapSegment>, pointers: Array<MemoryMapPointer>): void {
+        this.segments = segments;
+        this.pointers = pointers;
+        this.refresh();
+    }
+
+    /**
+     * Builds the items of the view
+     * @return Root items: the segments and the pointers
+     */
+    public buildItems(): Array<MemoryMapItem> {
+        const segmentItems = new Array<MemoryMapItem>();
+        for (const segment of this.segments) {
+            const region = MemoryMapDataProvider.getRegion(segment.address, this.chipRamEnd);
+            const end = segment.address + segment.size - 1;
+            const item = new MemoryMapItem(`#${segment.id} ${segment.hunkType}${(segment.memType !== "ANY") ? `_${segment.memType[0]}` : ""}`);
+            item.description = `${MemoryMapDataProvider.formatAddress(segment.address)}-${MemoryMapDataProvider.formatAddress(end)} ${segment.size} bytes, ${region}`;
+            item.tooltip = `${segment.name ? `${segment.name}\n` : ""}Hunk ${segment.hunkType}, memory type ${segment.memType}\nStart: ${MemoryMapDataProvider.formatAddress(segment.address)}\nEnd: ${MemoryMapDataProvider.formatAddress(end)}\nSize: ${segment.size} bytes\nLoaded in ${region}`;
+            if ((segment.memType === "CHIP") && (region !== "Chip RAM")) {
+                item.setWarning("The hunk requires chip RAM");
+            }
+            segmentItems.push(item);
+        }
+        const pointerItems = new Array<MemoryMapItem>();
+        for (const pointer of this.pointers) {
+            const item = new MemoryMapItem(pointer.name);
+            if (pointer.address === 0) {
+                item.description = "not set";
+            } else {
+                const region = MemoryMapDataProvider.getRegion(pointer.address, this.chipRamEnd);
+                item.description = `${MemoryMapDataProvider.formatAddress(pointer.address)} ${region}`;
+                const segment = this.findSegment(pointer.address);
+                if (segment) {
+                    item.description += `, segment #${segment.id} +$${(pointer.address - segment.address).toString(16)}`;
+                }
+                if (region !== "Chip RAM") {
+                    item.setWarning("The DMA can only access chip RAM");
+                }
+            }
+            pointerItems.push(item);
+        }
+        const items = new Array<MemoryMapItem>();
+        if (segmentItems.length > 0) {
+            items.push(new MemoryMapItem("Segments", segmentItems));
+        }
+        if (pointerItems.length > 0) {
+            items.push(new MemoryMapItem("Pointers", pointerItems));
+        }
+        return items;
+    }
+
+    private findSegment(address: number): MemoryMapSegment | undefined {
+        return this.segments.find(s => (address >= s.address) && (address < s.address + s.size));
+    }
+
+    /**
+     * Reads the DMA pointers: the address of the copper list and the pointers set by its moves
+     * @param resolver Memory resolver
+     * @return The pointers values, 0 if not set by the copper list
+     */
+    public static async readPointers(resolver: DebugVariableResolver): Promise<Array<MemoryMapPointer>> {
+        const copperAddress = await MemoryLabelsRegistry.getCopperAddress(1, resolver);
+        let values = new Map<string, number>();
+        if (copperAddress !== 0) {
+            values = CopperTimeline.getRegisterValues(await CopperTimelinePanel.readCopperList(copperAddress, resolver));
+        }
+        const pointers = new Array<MemoryMapPointer>();
+        pointers.push({ name: "COP1LC", address: copperAddress });
+        for (const name of MemoryMapDataProvider.POINTER_REGISTERS) {
+            const value = CopperTimeline.getPointer(values, name);
+            pointers.push({ name: name, address: (value !== undefined) ? value : 0 });
+        }
+        return pointers;
+    }
+
+    /**
+     * Retrieves the memory region of an address
+     * @param address Address
+     * @param chipRamEnd Highest chip RAM address
+     * @return Name of the region
+     */
+    public static getRegion(address: number, chipRamEnd = MemoryMapDataProvider.CHIP_RAM_END): string {
+        if (address < chipRamEnd) {
+            return "Chip RAM";
+        } else if ((address < 0xa00000) || (address >= 0x1000000)) {
+            return "Fast RAM";
+        } else if ((address >= 0xc00000) && (address < 0xd80000)) {
+            return "Slow RAM";
+        }
+        return "I/O or ROM";
+    }
+
+    private static formatAddress(address: number): string {
+        return `$${address.toString(16).padStart(8, "0")}`;
+    }
+}
+
+export class MemoryMapItem extends vscode.TreeItem {
+    public children: Array<MemoryMapItem>;
+
+    constructor(label: string, children?: Array<MemoryMapItem>) {
+        super(label, children ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+        this.children = children ? children : [];
+    }
+
+    /**
+     * Flags the item with a warning
+     * @param message Warning message
+     */
+    public setWarning(message: string): void {
+        this.iconPath = new vscode.ThemeIcon("warning");
+        this.tooltip = this.tooltip ? `${this.tooltip}\n${message}` : message;
+    }
+}
@@ -0,0 +1,375 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileProxy } from './fsProxy';
+import { PaulaCalculator } from './audioConverter';
+import { StringUtils } from './stringUtils';
+import { WebviewUtils } from './webviewUtils';
+import { FileConverter } from './fileConverter';
+import { ConfigurationHelper } from './configurationHelper';
+
+/**
+ * Sample of a module
+ */
+export interface ModSample {
+    name: string;
+    /** Length in bytes */
+    length: number;
+    /** Finetune from -8 to 7 */
+    finetune: number;
+    volume: number;
+    /** Loop start in bytes */
+    loopStart: number;
+    /** Loop length in bytes: 2 or less if the sample does not loop */
+    loopLength: number;
+}
+
+/**
+ * Cell of a pattern for a channel
+ */
+export interface ModCell {
+    sample: number;
+    period: number;
+    effect: number;
+    parameter: number;
+}
+
+/**
+ * Parsed ProTracker module
+ */
+export interface ModFile {
+    title: string;
+    /** Signature of the format (M.K., 8CHN...), empty for the 15 samples Soundtracker modules */
+    signature: string;
+    channels: number;
+    samples: Array<ModSample>;
+    restartPosition: number;
+    /** Patterns played by the song */
+    order: Array<number>;
+    /** Rows of the cells of each channel */
+    patterns: Array<Array<Array<ModCell>>>;
+    /** Total size of the sample data in bytes */
+    samplesSize: number;
+    /** Size of the file in bytes */
+    size: number;
+}
+
+/**
+ * Parser of the ProTracker modules
+ */
+export class ModParser {
+    public static readonly ROWS = 64;
+    private static readonly SAMPLE_HEADER_SIZE = 30;
+    private static readonly SIGNATURE_OFFSET = 1080;
+
+    /**
+     * Parses a module
+     * @param buffer Contents of the file
+     * @return The module
+     */
+    public static parse(buffer: Uint8Array): ModFile {
+        const signature = (buffer.length >= ModParser.SIGNATURE_OFFSET + 4) ? ModParser.readString(buffer, ModParser.SIGNATURE_OFFSET, 4) : "";
+        let channels = ModParser.getChannels(signature);
+        let samplesCount = 31;
+        if (channels === undefined) {
+            // Original Soundtracker module without signature
+            channels = 4;
+            samplesCount = 15;
+        }
+        const songOffset = 20 + samplesCount * ModParser.SAMPLE_HEADER_SIZE;
+        const patternsOffset = songOffset + 130 + ((samplesCount === 31) ? 4 : 0);
+        if (buffer.length < patternsOffset) {
+            throw new Error("Not a ProTracker module: the file is too short");
+        }
+        const title = ModParser.readString(buffer, 0, 20);
+        const samples = new Array<ModSample>();
+        for (let i = 0; i < samplesCount; i++) {
+            const offset = 20 + i * ModParser.SAMPLE_HEADER_SIZE;
+            const finetune = buffer[offset + 24] & 0x0f;
+            samples.push({
+                name: ModParser.readString(buffer, offset, 22),
+                length: ModParser.readWord(buffer, offset + 22) * 2,
+                finetune: (finetune > 7) ? finetune - 16 : finetune,
+                volume: buffer[offset + 25],
+                loopStart: ModParser.readWord(buffer, offset + 26) * 2,
+                loopLength: ModParser.readWord(buffer, offset + 28) * 2
+            });
+        }
+        const songLength = buffer[songOffset];
+        if ((songLength === 0) || (songLength > 128)) {
+            throw new Error(`Not a ProTracker module: invalid song length ${songLength}`);
+        }
+        const positions = Array.from(buffer.subarray(songOffset + 2, songOffset + 130));
+        // All the positions are used to count the patterns, even after the song length
+        const patternsCount = Math.max(...positions) + 1;
+        const patternSize = ModParser.ROWS * channels * 4;
+        const samplesOffset = patternsOffset + patternsCount * patternSize;
+        if (buffer.length < samplesOffset) {
+            throw new Error(`Truncated module: ${patternsCount} patterns expected`);
+        }
+        const patterns = new Array<Array<Array<ModCell>>>();
+        for (let p = 0; p < patternsCount; p++) {
+            const rows = new Array<Array<ModCell>>();
+            for (let r = 0; r < ModParser.ROWS; r++) {
+                const cells = new Array<ModCell>();
+                for (let c = 0; c < channels; c++) {
+                    const offset = patternsOffset + p * patternSize + (r * channels + c) * 4;
+                    cells.push({
+                        sample: (buffer[offset] & 0xf0) | (buffer[offset + 2] >> 4),
+                        period: ((buffer[offset] & 0x0f) << 8) | buffer[offset + 1],
+                        effect: buffer[offset + 2] & 0x0f,
+                        parameter: buffer[offset + 3]
+                    });
+                }
+                rows.push(cells);
+            }
+            patterns.push(rows);
+        }
+        return {
+            title: title,
+            signature: signature,
+            channels: channels,
+            samples: samples,
+            restartPosition: buffer[songOffset + 1],
+            order: positions.slice(0, songLength),
+            patterns: patterns,
+            samplesSize: samples.reduce((size, s) => size + s.length, 0),
+            size: buffer.length
+        };
+    }
+
+    /**
+     * Retrieves the number of channels of a signature
+     * @param signature Signature of the module
+     * @return The number of channels or undefined if it is not a signature
+     */
+    public static getChannels(signature: string): number | undefined {
+        if (["M.K.", "M!K!", "FLT4", "4CHN"].includes(signature)) {
+            return 4;
+        } else if (["FLT8", "OCTA", "CD81"].includes(signature)) {
+            return 8;
+        }
+        let match = /^(\d)CHN$/.exec(signature);
+        if (!match) {
+            match = /^(\d\d)CH$/.exec(signature);
+        }
+        if (match) {
+            return parseInt(match[1]);
+        }
+        return undefined;
+    }
+
+    private static readString(buffer: Uint8Array, offset: number, length: number): string {
+        let text = "";
+        for (let i = offset; i < offset + length; i++) {
+            if (buffer[i] === 0) {
+                break;
+            }
+            text += String.fromCharCode(buffer[i]);
+        }
+        return text.trimRight();
+    }
+
+    private static readWord(buffer: Uint8Array, offset: number): number {
+        return (buffer[offset] << 8) | buffer[offset + 1];
+    }
+}
+
+/**
+ * Parsed module file
+ */
+export class ModDocument implements vscode.CustomDocument {
+    public readonly uri: vscode.Uri;
+    public readonly mod?: ModFile;
+    public readonly error?: string;
+
+    public constructor(uri: vscode.Uri, mod?: ModFile, error?: string) {
+        this.uri = uri;
+        this.mod = mod;
+        this.error = error;
+    }
+
+    public dispose(): void {
+        // Nothing to release
+    }
+}
+
+/**
+ * Read only editor showing the contents of a ProTracker module
+ */
+export class ModInspectorProvider implements vscode.CustomReadonlyEditorProvider<ModDocument> {
+    public static readonly VIEW_TYPE = 'amiga-assembly.modInspector';
+    /** Default chip RAM budget of the samples in KB: chip RAM of an OCS Amiga */
+    public static readonly CHIP_RAM_BUDGET_DEFAULT = 512;
+    public static readonly CHIP_RAM_BUDGET_KEY = 'modInspector.chipRamBudget';
+
+    /**
+     * Registers the editor provider
+     */
+    public static register(): vscode.Disposable {
+        return vscode.window.registerCustomEditorProvider(ModInspectorProvider.VIEW_TYPE, new ModInspectorProvider(), {
+            supportsMultipleEditorsPerDocument: true
+        });
+    }
+
+    public async openCustomDocument(uri: vscode.Uri): Promise<ModDocument> {
+        try {
+            const buffer = await new FileProxy(uri).readFile();
+            return new ModDocument(uri, ModParser.parse(buffer));
+        } catch (err) {
+            return new ModDocument(uri, undefined, err.message);
+        }
+    }
+
+    public async resolveCustomEditor(document: ModDocument, webviewPanel: vscode.WebviewPanel): Promise<void> {
+        webviewPanel.webview.options = {
+            enableScripts: true
+        };
+        webviewPanel.webview.html = this.getHtmlForWebview(document);
+        webviewPanel.webview.onDidReceiveMessage(async message => {
+            if (message.command === 'scaffolding') {
+                try {
+                    await ModInspectorProvider.openScaffolding(document.uri);
+                } catch (err) {
+                    vscode.window.showErrorMessage(err.message);
+                }
+            }
+        });
+    }
+
+    /**
+     * Retrieves the warnings about the sizes of the samples: only the samples have to be in chip RAM
+     * @param mod Parsed module
+     * @param chipRamBudget Chip RAM available for the samples in KB
+     * @return The warning messages
+     */
+    public static getWarnings(mod: ModFile, chipRamBudget = ModInspectorProvider.CHIP_RAM_BUDGET_DEFAULT): Array<string> {
+        const warnings = new Array<string>();
+        const budget = chipRamBudget * 1024;
+        let samplesEnd = 0;
+        mod.samples.forEach((sample, index) => {
+            if ((sample.loopLength > 2) && (sample.loopStart + sample.loopLength > sample.length)) {
+                warnings.push(`Sample ${index + 1}: the loop ends after the end of the sample`);
+            }
+            samplesEnd += sample.length;
+            if ((sample.length > 0) && (samplesEnd > budget)) {
+                warnings.push(`Sample ${index + 1}: ends at ${samplesEnd} bytes, after the ${chipRamBudget} KB chip RAM budget`);
+            }
+        });
+        if ((mod.samplesSize <= budget) && (mod.samplesSize > budget / 2)) {
+            warnings.push(`The samples (${mod.samplesSize} bytes) use more than half of the ${chipRamBudget} KB chip RAM budget`);
+        }
+        return warnings;
+    }
+
+    /**
+     * Formats a cell of a pattern as in ProTracker: note, sample and effect
+     * @param cell Cell to format
+     * @return Text of the cell (e.g. "C-2 01 C40")
+     */
+    public static formatCell(cell: ModCell): string {
+        const note = (cell.period > 0) ? PaulaCalculator.periodToNote(cell.period) : "---";
+        const sample = (cell.sample > 0) ? ModInspectorProvider.toHex(cell.sample, 2) : "..";
+        const effect = ((cell.effect > 0) || (cell.parameter > 0)) ? `${cell.effect.toString(16).toUpperCase()}${ModInspectorProvider.toHex(cell.parameter, 2)}` : "...";
+        return `${note} ${sample} ${effect}`;
+    }
+
+    /**
+     * Generates the source to include a module in chip RAM
+     * @param label Label of the module
+     * @param filePath Path of the module in the incbin directive
+     * @return Source code
+     */
+    public static toScaffolding(label: string, filePath: string): string {
+        return [
+            "; The replayer reads the samples with the DMA: the module must be in chip RAM",
+            `    SECTION ${label},DATA_C`,
+            "    even",
+            `${label}:`,
+            `    incbin "${filePath}"`,
+            `${label}_end:`,
+            ""].join("\n");
+    }
+
+    /**
+     * Opens a new document with the source to include a module
+     * @param uri Module file
+     */
+    public static async openScaffolding(uri: vscode.Uri): Promise<void> {
+        const label = FileConverter.toLabel(uri.fsPath);
+        const filePath = vscode.workspace.asRelativePath(uri, false).replace(/\\/g, "/");
+        const textDocument = await vscode.workspace.openTextDocument({ language: "m68k", content: ModInspectorProvider.toScaffolding(label, filePath) });
+        await vscode.window.showTextDocument(textDocument);
+    }
+
+    private static toHex(value: number, digits: number): string {
+        return StringUtils.padStart(value.toString(16).toUpperCase(), digits, "0");
+    }
+
+    private static renderModule(mod: ModFile, chipRamBudget: number): string {
+        const escape = WebviewUtils.escapeHtml;
+        let html = `<h2>${escape(mod.title)}</h2>`;
+        html += `<p class="description">${mod.signature ? escape(mod.signature) : "Soundtracker"} - ${mod.channels} channels - ${mod.size} bytes, ${mod.samplesSize} bytes of samples</p>`;
+        html += '<button id="scaffolding">Generate incbin</button>';
+        for (const warning of ModInspectorProvider.getWarnings(mod, chipRamBudget)) {
+            html += `<p class="warning">&#9888; ${escape(warning)}</p>`;
+        }
+        html += "<h3>Samples</h3><table><tr><th>#</th><th>Name</th><th>Length</th><th>Finetune</th><th>Volume</th><th>Loop start</th><th>Loop length</th></tr>";
+        mod.samples.forEach((sample, index) => {
+            if ((sample.length > 0) || sample.name) {
+                html += `<tr><td>${ModInspectorProvider.toHex(index + 1, 2)}</td><td>${escape(sample.name)}</td><td>${sample.length}</td><td>${sample.finetune}</td><td>${sample.volume}</td>`;
+                html += (sample.loopLength > 2) ? `<td>${sample.loopStart}</td><td>${sample.loopLength}</td></tr>` : "<td></td><td></td></tr>";
+            }
+        });
+        html += "</table>";
+        html += `<h3>Order</h3><p class="order">${mod.order.map(p => ModInspectorProvider.toHex(p, 2)).join(" ")}</p>`;
+        html += "<h3>Patterns</h3>";
+        mod.patterns.forEach((pattern, index) => {
+            html += `<details><summary>Pattern ${ModInspectorProvider.toHex(index, 2)}</summary><table class="pattern">`;
+            pattern.forEach((row, rowIndex) => {
+                html += `<tr><th>${ModInspectorProvider.toHex(rowIndex, 2)}</th>${row.map(cell => `<td>${ModInspectorProvider.formatCell(cell)}</td>`).join("")}</tr>`;
+            });
+            html += "</table></details>";
+        });
+        return html;
+    }
+
+    private getHtmlForWebview(document: ModDocument): string {
+        const nonce = WebviewUtils.getNonce();
+        let body: string;
+        if (document.mod) {
+            const configuration = ConfigurationHelper.getDefaultConfiguration(document.uri);
+            const chipRamBudget = ConfigurationHelper.retrieveNumberProperty(configuration, ModInspectorProvider.CHIP_RAM_BUDGET_KEY, ModInspectorProvider.CHIP_RAM_BUDGET_DEFAULT);
+            body = ModInspectorProvider.renderModule(document.mod, chipRamBudget);
+        } else {
+            body = `<p class="error">${WebviewUtils.escapeHtml(document.error ? document.error : "Invalid module")}</p>`;
+        }
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>${WebviewUtils.escapeHtml(path.basename(document.uri.fsPath))}</title>
+                <style nonce="${nonce}">
+                    body { font-family: var(--vscode-editor-font-family); }
+                    th, td { padding: 0 8px; text-align: left; }
+                    table.pattern td { white-space: pre; }
+                    .description { color: var(--vscode-descriptionForeground); }
+                    .warning { color: var(--vscode-editorWarning-foreground); }
+                    .error { color: var(--vscode-errorForeground); }
+                </style>
+            </head>
+            <body>
+                ${body}
+                <script nonce="${nonce}">
+                    const vscode = acquireVsCodeApi();
+                    const button = document.getElementById('scaffolding');
+                    if (button) {
+                        button.addEventListener('click', () => vscode.postMessage({ command: 'scaffolding' }));
+                    }
+                </script>
+            </body>
+        </html>`;
+    }
+}
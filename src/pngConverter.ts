@@ -0,0 +1,673 @@
+import { EventEmitter, Uri } from 'vscode';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { FileProxy } from './fsProxy';
+import { FileConverter } from './fileConverter';
+
+/**
+ * Output formats of the PNG conversion
+ */
+export enum PngOutputFormat {
+    /** Raw bitplanes */
+    BITPLANES = "bitplanes",
+    /** Hardware sprites: 3 colors and transparent, one sprite per column of 16 pixels */
+    SPRITE = "sprite",
+    /** Attached hardware sprites: 15 colors and transparent, two sprites per column of 16 pixels */
+    ATTACHED_SPRITE = "attachedSprite",
+    /** Interleaved bitplanes with an interleaved mask for the blitter */
+    BOB = "bob"
+}
+
+/**
+ * Definition of a conversion of a PNG image in the build task
+ */
+export interface PngConversion {
+    /** PNG image to convert */
+    input: string;
+    /** Output binary file */
+    output: string;
+    /** Output format: bitplanes, sprite, attachedSprite or bob */
+    format?: PngOutputFormat;
+    /** Maximum number of colors for the bitplanes and bobs (2 to 32) */
+    colors?: number;
+    /** Floyd-Steinberg dithering of the reduced colors */
+    dither?: boolean;
+    /** The lines of the bitplanes are interleaved */
+    interleaved?: boolean;
+    /** Output include file with the labels, sizes and palette */
+    include?: string;
+    /** Output binary file of the mask (bitplanes and bob formats) */
+    mask?: string;
+    /** Position of the sprites written in the control words */
+    spriteX?: number;
+    spriteY?: number;
+}
+
+/**
+ * Decoded PNG image
+ */
+export interface PngImage {
+    width: number;
+    height: number;
+    /** RGBA components of the pixels, line by line */
+    pixels: Uint8Array;
+}
+
+/**
+ * Image reduced to an Amiga palette
+ */
+export interface ReducedImage {
+    width: number;
+    height: number;
+    /** 12 bits colors ($0RGB) */
+    palette: Array<number>;
+    /** Color index of each pixel */
+    indexes: Uint8Array;
+    /** Opaque pixels */
+    opaque: Uint8Array;
+}
+
+/**
+ * Decoder of the PNG images
+ */
+export class PngDecoder {
+    private static readonly SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+    /**
+     * Decodes a PNG file
+     * @param buffer Content of the file
+     * @return Decoded image
+     */
+    public static decode(buffer: Uint8Array): PngImage {
+        if ((buffer.length < 8) || PngDecoder.SIGNATURE.some((b, i) => buffer[i] !== b)) {
+            throw new Error("Not a PNG file");
+        }
+        const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+        let width = 0;
+        let height = 0;
+        let bitDepth = 0;
+        let colorType = 0;
+        let palette: Uint8Array | undefined;
+        let transparency: Uint8Array | undefined;
+        const dataChunks = new Array<Uint8Array>();
+        let offset = 8;
+        while (offset + 8 <= buffer.length) {
+            const size = view.getUint32(offset, false);
+            const type = String.fromCharCode(buffer[offset + 4], buffer[offset + 5], buffer[offset + 6], buffer[offset + 7]);
+            const data = buffer.subarray(offset + 8, offset + 8 + size);
+            if (type === "IHDR") {
+                width = view.getUint32(offset + 8, false);
+                height = view.getUint32(offset + 12, false);
+                bitDepth = data[8];
+                colorType = data[9];
+                if (data[12] !== 0) {
+                    throw new Error("Interlaced PNG images are not supported");
+                }
+            } else if (type === "PLTE") {
+                palette = data;
+            } else if (type === "tRNS") {
+                transparency = data;
+            } else if (type === "IDAT") {
+                dataChunks.push(data);
+            } else if (type === "IEND") {
+                break;
+            }
+            // Data followed by the CRC
+            offset += 12 + size;
+        }
+        if ((width === 0) || (height === 0) || (dataChunks.length === 0)) {
+            throw new Error("Invalid PNG file");
+        }
+        const channels = [1, 0, 3, 1, 2, 0, 4][colorType];
+        if (!channels) {
+            throw new Error(`Unsupported PNG color type: ${colorType}`);
+        }
+        const raw = zlib.inflateSync(Buffer.concat(dataChunks));
+        const lines = PngDecoder.unfilter(raw, width, height, channels, bitDepth);
+        const stride = Math.ceil(width * channels * bitDepth / 8);
+        const pixels = new Uint8Array(width * height * 4);
+        const maxSample = (1 << bitDepth) - 1;
+        for (let y = 0; y < height; y++) {
+            const line = lines.subarray(y * stride, (y + 1) * stride);
+            for (let x = 0; x < width; x++) {
+                const samples = new Array<number>();
+                for (let c = 0; c < channels; c++) {
+                    samples.push(PngDecoder.readSample(line, x * channels + c, bitDepth));
+                }
+                let r: number;
+                let g: number;
+                let b: number;
+                let a = 255;
+                if (colorType === 3) {
+                    const index = samples[0];
+                    if (!palette || (index * 3 + 2 >= palette.length)) {
+                        throw new Error("Invalid PNG palette");
+                    }
+                    [r, g, b] = [palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2]];
+                    if (transparency && (index < transparency.length)) {
+                        a = transparency[index];
+                    }
+                } else {
+                    // Scales the samples to 8 bits
+                    const scaled = samples.map(v => (bitDepth === 16) ? (v >> 8) : Math.round(v * 255 / maxSample));
+                    if ((colorType === 0) || (colorType === 4)) {
+                        [r, g, b] = [scaled[0], scaled[0], scaled[0]];
+                        if (colorType === 4) {
+                            a = scaled[1];
+                        } else if (transparency && (transparency.length >= 2) && (samples[0] === ((transparency[0] << 8) | transparency[1]))) {
+                            a = 0;
+                        }
+                    } else {
+                        [r, g, b] = [scaled[0], scaled[1], scaled[2]];
+                        if (colorType === 6) {
+                            a = scaled[3];
+                        } else if (transparency && (transparency.length >= 6) && (samples[0] === ((transparency[0] << 8) | transparency[1]))
+                            && (samples[1] === ((transparency[2] << 8) | transparency[3])) && (samples[2] === ((transparency[4] << 8) | transparency[5]))) {
+                            a = 0;
+                        }
+                    }
+                }
+                pixels.set([r, g, b, a], (y * width + x) * 4);
+            }
+        }
+        return { width: width, height: height, pixels: pixels };
+    }
+
+    private static readSample(line: Uint8Array, index: number, bitDepth: number): number {
+        if (bitDepth === 8) {
+            return line[index];
+        } else if (bitDepth === 16) {
+            return (line[index * 2] << 8) | line[index * 2 + 1];
+        }
+        const bitOffset = index * bitDepth;
+        const byte = line[bitOffset >> 3];
+        return (byte >> (8 - bitDepth - (bitOffset & 7))) & ((1 << bitDepth) - 1);
+    }
+
+    /**
+     * Reverts the filters of the scan lines
+     * @return The lines without the filter type byte
+     */
+    private static unfilter(raw: Uint8Array, width: number, height: number, channels: number, bitDepth: number): Uint8Array {
+        const stride = Math.ceil(width * channels * bitDepth / 8);
+        const bytesPerPixel = Math.max(1, channels * bitDepth / 8);
+        const output = new Uint8Array(stride * height);
+        if (raw.length < (stride + 1) * height) {
+            throw new Error("The PNG image data is truncated");
+        }
+        for (let y = 0; y < height; y++) {
+            const filter = raw[y * (stride + 1)];
+            const line = y * stride;
+            for (let x = 0; x < stride; x++) {
+                const value = raw[y * (stride + 1) + 1 + x];
+                const left = (x >= bytesPerPixel) ? output[line + x - bytesPerPixel] : 0;
+                const up = (y > 0) ? output[line - stride + x] : 0;
+                const upLeft = ((y > 0) && (x >= bytesPerPixel)) ? output[line - stride + x - bytesPerPixel] : 0;
+                let predictor: number;
+                switch (filter) {
+                    case 0:
+                        predictor = 0;
+                        break;
+                    case 1:
+                        predictor = left;
+                        break;
+                    case 2:
+                        predictor = up;
+                        break;
+                    case 3:
+                        predictor = (left + up) >> 1;
+                        break;
+                    case 4: {
+                        const p = left + up - upLeft;
+                        const pa = Math.abs(p - left);
+                        const pb = Math.abs(p - up);
+                        const pc = Math.abs(p - upLeft);
+                        predictor = ((pa <= pb) && (pa <= pc)) ? left : ((pb <= pc) ? up : upLeft);
+                        break;
+                    }
+                    default:
+                        throw new Error(`Invalid PNG filter type: ${filter}`);
+                }
+                output[line + x] = (value + predictor) & 0xff;
+            }
+        }
+        return output;
+    }
+}
+
+/**
+ * Reduces the colors of an image to the OCS palette (4 bits per component)
+ */
+export class ColorReducer {
+    /**
+     * Reduces the colors of an image.
+     * The transparent pixels (alpha < 128) use the color 0, which is reserved if needed.
+     * @param image Image to reduce
+     * @param colorCount Number of colors of the palette
+     * @param dither If true the Floyd-Steinberg dithering is applied
+     * @param reserveTransparent If true the color 0 is always reserved for the transparent pixels
+     * @return The reduced image
+     */
+    public static reduce(image: PngImage, colorCount: number, dither: boolean, reserveTransparent: boolean): ReducedImage {
+        const pixelCount = image.width * image.height;
+        const opaque = new Uint8Array(pixelCount);
+        const histogram = new Map<number, number>();
+        for (let i = 0; i < pixelCount; i++) {
+            if (image.pixels[i * 4 + 3] >= 128) {
+                opaque[i] = 1;
+                const color = ColorReducer.to12Bits(image.pixels[i * 4], image.pixels[i * 4 + 1], image.pixels[i * 4 + 2]);
+                histogram.set(color, (histogram.get(color) || 0) + 1);
+            }
+        }
+        const hasTransparent = opaque.includes(0);
+        const firstColor = (reserveTransparent || hasTransparent) ? 1 : 0;
+        const available = colorCount - firstColor;
+        if (available < 1) {
+            throw new Error("Not enough colors for the image");
+        }
+        let colors: Array<number>;
+        if (histogram.size <= available) {
+            colors = Array.from(histogram.keys());
+        } else {
+            colors = ColorReducer.medianCut(histogram, available);
+        }
+        const palette = (firstColor > 0) ? [0, ...colors] : colors;
+        const indexes = new Uint8Array(pixelCount);
+        // Components of the pixels with the diffused errors
+        const components = Float32Array.from(image.pixels);
+        for (let y = 0; y < image.height; y++) {
+            for (let x = 0; x < image.width; x++) {
+                const i = y * image.width + x;
+                if (!opaque[i]) {
+                    continue;
+                }
+                const [r, g, b] = [components[i * 4], components[i * 4 + 1], components[i * 4 + 2]];
+                const index = ColorReducer.findNearest(palette, firstColor, r, g, b);
+                indexes[i] = index;
+                if (dither) {
+                    const color = palette[index];
+                    const errors = [r - ((color >> 8) & 0xf) * 0x11, g - ((color >> 4) & 0xf) * 0x11, b - (color & 0xf) * 0x11];
+                    for (const [dx, dy, weight] of [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]]) {
+                        const nx = x + dx;
+                        const ny = y + dy;
+                        if ((nx >= 0) && (nx < image.width) && (ny < image.height)) {
+                            const n = (ny * image.width + nx) * 4;
+                            for (let c = 0; c < 3; c++) {
+                                components[n + c] += errors[c] * weight;
+                            }
+                        }
+                    }
+                }
+            }
+        }
+        return { width: image.width, height: image.height, palette: palette, indexes: indexes, opaque: opaque };
+    }
+
+    /**
+     * Converts a color to the 12 bits OCS format, with rounding
+     */
+    public static to12Bits(r: number, g: number, b: number): number {
+        const toNibble = (v: number) => Math.min(15, Math.max(0, Math.round(v / 0x11)));
+        return (toNibble(r) << 8) | (toNibble(g) << 4) | toNibble(b);
+    }
+
+    private static findNearest(palette: Array<number>, firstColor: number, r: number, g: number, b: number): number {
+        let best = firstColor;
+        let bestDistance = Number.MAX_VALUE;
+        for (let i = firstColor; i < palette.length; i++) {
+            const color = palette[i];
+            const dr = r - ((color >> 8) & 0xf) * 0x11;
+            const dg = g - ((color >> 4) & 0xf) * 0x11;
+            const db = b - (color & 0xf) * 0x11;
+            // Weighted by the perceived luminance
+            const distance = dr * dr * 3 + dg * dg * 4 + db * db * 2;
+            if (distance < bestDistance) {
+                best = i;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Median cut of the colors histogram
+     * @param histogram Count of pixels by 12 bits color
+     * @param count Number of colors to create
+     * @return 12 bits colors
+     */
+    private static medianCut(histogram: Map<number, number>, count: number): Array<number> {
+        const component = (color: number, c: number) => (color >> (8 - c * 4)) & 0xf;
+        let boxes: Array<Array<[number, number]>> = [Array.from(histogram.entries())];
+        while (boxes.length < count) {
+            // Splits the box with the largest range
+            let selected = -1;
+            let selectedRange = 0;
+            let selectedComponent = 0;
+            boxes.forEach((box, index) => {
+                for (let c = 0; c < 3; c++) {
+                    const values = box.map(([color]) => component(color, c));
+                    const range = Math.max(...values) - Math.min(...values);
+                    if (range > selectedRange) {
+                        selected = index;
+                        selectedRange = range;
+                        selectedComponent = c;
+                    }
+                }
+            });
+            if (selected < 0) {
+                break;
+            }
+            const box = boxes[selected].sort((a, b) => component(a[0], selectedComponent) - component(b[0], selectedComponent));
+            const total = box.reduce((sum, [, n]) => sum + n, 0);
+            let accumulated = 0;
+            let split = 1;
+            for (let i = 0; i < box.length - 1; i++) {
+                accumulated += box[i][1];
+                split = i + 1;
+                if (accumulated * 2 >= total) {
+                    break;
+                }
+            }
+            boxes = [...boxes.slice(0, selected), box.slice(0, split), box.slice(split), ...boxes.slice(selected + 1)];
+        }
+        return boxes.map(box => {
+            const total = box.reduce((sum, [, n]) => sum + n, 0);
+            const average = [0, 1, 2].map(c => box.reduce((sum, [color, n]) => sum + component(color, c) * n, 0) / total);
+            return (Math.round(average[0]) << 8) | (Math.round(average[1]) << 4) | Math.round(average[2]);
+        });
+    }
+}
+
+/**
+ * Encodes the reduced images to the Amiga formats
+ */
+export class AmigaImageEncoder {
+    /** Number of hardware sprites */
+    private static readonly SPRITES_COUNT = 8;
+
+    /**
+     * Number of bitplanes for a number of colors
+     */
+    public static getDepth(colorCount: number): number {
+        return Math.max(1, Math.ceil(Math.log2(colorCount)));
+    }
+
+    /**
+     * Encodes the pixels as bitplanes
+     * @param image Reduced image
+     * @param depth Number of bitplanes
+     * @param interleaved If true the lines of the planes are interleaved
+     * @return Bitplanes data
+     */
+    public static toBitplanes(image: ReducedImage, depth: number, interleaved: boolean): Uint8Array {
+        const rowBytes = Math.ceil(image.width / 16) * 2;
+        const output = new Uint8Array(rowBytes * image.height * depth);
+        for (let y = 0; y < image.height; y++) {
+            for (let plane = 0; plane < depth; plane++) {
+                const rowOffset = interleaved ? (y * depth + plane) * rowBytes : (plane * image.height + y) * rowBytes;
+                for (let x = 0; x < image.width; x++) {
+                    if (image.indexes[y * image.width + x] & (1 << plane)) {
+                        output[rowOffset + (x >> 3)] |= 0x80 >> (x & 7);
+                    }
+                }
+            }
+        }
+        return output;
+    }
+
+    /**
+     * Encodes the mask of the opaque pixels
+     * @param image Reduced image
+     * @param depth Number of bitplanes
+     * @param interleaved If true the mask lines are repeated for each plane
+     * @return Mask data
+     */
+    public static toMask(image: ReducedImage, depth: number, interleaved: boolean): Uint8Array {
+        const rowBytes = Math.ceil(image.width / 16) * 2;
+        const repeat = interleaved ? depth : 1;
+        const output = new Uint8Array(rowBytes * image.height * repeat);
+        for (let y = 0; y < image.height; y++) {
+            for (let x = 0; x < image.width; x++) {
+                if (image.opaque[y * image.width + x]) {
+                    for (let plane = 0; plane < repeat; plane++) {
+                        output[(y * repeat + plane) * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+                    }
+                }
+            }
+        }
+        return output;
+    }
+
+    /**
+     * Encodes the image as hardware sprites: a sprite for each column of 16 pixels (two for the attached sprites).
+     * Each sprite starts with its control words and ends with two null words.
+     * @param image Reduced image
+     * @param attached If true the sprites are attached (4 bitplanes)
+     * @param x Horizontal position of the first column (low resolution pixels)
+     * @param y Vertical position (lines)
+     * @return Sprites data
+     */
+    public static toSprites(image: ReducedImage, attached: boolean, x: number, y: number): Uint8Array {
+        const columns = Math.ceil(image.width / 16);
+        const maxColumns = attached ? AmigaImageEncoder.SPRITES_COUNT / 2 : AmigaImageEncoder.SPRITES_COUNT;
+        if (columns > maxColumns) {
+            throw new Error(`The image is ${image.width} pixels wide: the ${attached ? "attached " : ""}hardware sprites display at most ${maxColumns * 16} pixels`);
+        }
+        const words = new Array<number>();
+        for (let column = 0; column < columns; column++) {
+            for (let sprite = 0; sprite < (attached ? 2 : 1); sprite++) {
+                const [pos, ctl] = AmigaImageEncoder.getSpriteControlWords(x + column * 16, y, image.height, sprite === 1);
+                words.push(pos, ctl);
+                for (let line = 0; line < image.height; line++) {
+                    let dataA = 0;
+                    let dataB = 0;
+                    for (let bit = 0; bit < 16; bit++) {
+                        const px = column * 16 + bit;
+                        if (px < image.width) {
+                            const index = image.indexes[line * image.width + px] >> (sprite * 2);
+                            dataA |= (index & 1) << (15 - bit);
+                            dataB |= ((index >> 1) & 1) << (15 - bit);
+                        }
+                    }
+                    words.push(dataA, dataB);
+                }
+                words.push(0, 0);
+            }
+        }
+        const output = new Uint8Array(words.length * 2);
+        words.forEach((word, i) => {
+            output[i * 2] = word >> 8;
+            output[i * 2 + 1] = word & 0xff;
+        });
+        return output;
+    }
+
+    /**
+     * Computes the SPRxPOS and SPRxCTL values
+     * @param x Horizontal position (low resolution pixels)
+     * @param y Vertical start position
+     * @param height Height in lines
+     * @param attach Value of the attach bit
+     * @return The control words
+     */
+    public static getSpriteControlWords(x: number, y: number, height: number, attach: boolean): [number, number] {
+        const vstop = y + height;
+        const pos = ((y & 0xff) << 8) | ((x >> 1) & 0xff);
+        const ctl = ((vstop & 0xff) << 8) | (attach ? 0x80 : 0) | (((y >> 8) & 1) << 2) | (((vstop >> 8) & 1) << 1) | (x & 1);
+        return [pos, ctl];
+    }
+
+    /**
+     * Generates the include file with the sizes, the palette and the binary data
+     * @param label Base label
+     * @param image Reduced image
+     * @param format Output format
+     * @param depth Number of bitplanes
+     * @param binaryFile Path of the binary file, relative to the include file
+     * @param maskFile Path of the mask file, relative to the include file
+     * @return Source code
+     */
+    public static toIncludeSource(label: string, image: ReducedImage, format: PngOutputFormat, depth: number, binaryFile: string, maskFile?: string): string {
+        const constantPrefix = label.toUpperCase();
+        const rowBytes = Math.ceil(image.width / 16) * 2;
+        const lines = [
+            `${constantPrefix}_WIDTH equ ${image.width}`,
+            `${constantPrefix}_HEIGHT equ ${image.height}`];
+        if ((format === PngOutputFormat.SPRITE) || (format === PngOutputFormat.ATTACHED_SPRITE)) {
+            const spritesCount = Math.ceil(image.width / 16) * ((format === PngOutputFormat.ATTACHED_SPRITE) ? 2 : 1);
+            lines.push(`${constantPrefix}_SPRITES equ ${spritesCount}`);
+            lines.push(`${constantPrefix}_SPRITE_SIZE equ ${(image.height + 2) * 4}`);
+        } else {
+            lines.push(`${constantPrefix}_DEPTH equ ${depth}`);
+            lines.push(`${constantPrefix}_BYTES_PER_ROW equ ${rowBytes}`);
+            lines.push(`${constantPrefix}_PLANE_SIZE equ ${rowBytes * image.height}`);
+        }
+        lines.push("");
+        lines.push(`${label}_palette:`);
+        let firstRegister = 0x180;
+        if ((format === PngOutputFormat.SPRITE) || (format === PngOutputFormat.ATTACHED_SPRITE)) {
+            // Colors of the sprites 0 and 1
+            firstRegister = 0x1a0;
+        }
+        image.palette.forEach((color, i) => {
+            lines.push(`    dc.w $${(firstRegister + i * 2).toString(16).padStart(4, "0")},$${color.toString(16).padStart(4, "0")}`);
+        });
+        lines.push(`${constantPrefix}_COLORS equ ${image.palette.length}`);
+        lines.push("");
+        lines.push(`${label}:`);
+        lines.push(`    incbin "${binaryFile}"`);
+        lines.push(`${label}_end:`);
+        if (maskFile) {
+            lines.push(`${label}_mask:`);
+            lines.push(`    incbin "${maskFile}"`);
+        }
+        return lines.join("\n") + "\n";
+    }
+}
+
+/**
+ * Converts the PNG images to Amiga bitplanes, sprites or bobs
+ */
+export class PngConverter extends FileConverter {
+    /**
+     * Converts the images of the build configuration.
+     * An image is converted only if an output file is missing or older, or if the options changed.
+     * @param conversions Conversions to execute
+     * @param rootDir Root directory of the workspace, base of the relative paths
+     * @param logEmitter Log emitter
+     */
+    public async convertAll(conversions: Array<PngConversion>, rootDir: Uri | null, logEmitter?: EventEmitter<string>): Promise<void> {
+        for (const conversion of conversions) {
+            const input = this.resolveFile(conversion.input, rootDir);
+            const output = this.resolveFile(conversion.output, rootDir);
+            const outputs = [output];
+            const format = PngConverter.getFormat(conversion);
+            if (conversion.mask && (format !== PngOutputFormat.SPRITE) && (format !== PngOutputFormat.ATTACHED_SPRITE)) {
+                // The sprites have no mask
+                outputs.push(this.resolveFile(conversion.mask, rootDir));
+            }
+            if (conversion.include) {
+                outputs.push(this.resolveFile(conversion.include, rootDir));
+            }
+            if (await this.isUpToDate(input, outputs, conversion)) {
+                continue;
+            }
+            if (logEmitter) {
+                logEmitter.fire(`Converting ${conversion.input}\r\n`);
+            }
+            await this.convert(input, conversion, rootDir);
+            await this.saveOptions(output, conversion);
+        }
+    }
+
+    /**
+     * Converts a PNG file
+     * @param input PNG file
+     * @param conversion Conversion options
+     * @param rootDir Root directory of the workspace, base of the relative paths
+     * @return The reduced image
+     */
+    public async convert(input: FileProxy, conversion: PngConversion, rootDir: Uri | null = null): Promise<ReducedImage> {
+        const image = PngDecoder.decode(await input.readFile());
+        const reduced = PngConverter.reduce(image, conversion);
+        const [data, mask, depth] = PngConverter.encode(reduced, conversion);
+        const output = this.resolveFile(conversion.output, rootDir);
+        await this.writeFile(output, Buffer.from(data));
+        let maskFile: FileProxy | undefined;
+        if (mask && conversion.mask) {
+            maskFile = this.resolveFile(conversion.mask, rootDir);
+            await this.writeFile(maskFile, Buffer.from(mask));
+        }
+        if (conversion.include) {
+            const includeFile = this.resolveFile(conversion.include, rootDir);
+            const includeDir = path.dirname(includeFile.getPath());
+            const toRelative = (file: FileProxy) => path.relative(includeDir, file.getPath()).replace(/\\/g, "/");
+            const label = FileConverter.toLabel(output.getPath());
+            const source = AmigaImageEncoder.toIncludeSource(label, reduced, PngConverter.getFormat(conversion), depth, toRelative(output), maskFile ? toRelative(maskFile) : undefined);
+            await this.writeFile(includeFile, Buffer.from(source));
+        }
+        return reduced;
+    }
+
+    /**
+     * Reduces the colors of the image for the conversion
+     * @param image Decoded image
+     * @param conversion Conversion options
+     */
+    public static reduce(image: PngImage, conversion: PngConversion): ReducedImage {
+        const format = PngConverter.getFormat(conversion);
+        const dither = conversion.dither === true;
+        if (format === PngOutputFormat.SPRITE) {
+            return ColorReducer.reduce(image, 4, dither, true);
+        } else if (format === PngOutputFormat.ATTACHED_SPRITE) {
+            return ColorReducer.reduce(image, 16, dither, true);
+        }
+        const colors = conversion.colors ? conversion.colors : 32;
+        if ((colors < 2) || (colors > 32)) {
+            throw new Error("The number of colors must be between 2 and 32");
+        }
+        return ColorReducer.reduce(image, colors, dither, format === PngOutputFormat.BOB);
+    }
+
+    /**
+     * Encodes the reduced image
+     * @param image Reduced image
+     * @param conversion Conversion options
+     * @return The data, the mask and the depth
+     */
+    public static encode(image: ReducedImage, conversion: PngConversion): [Uint8Array, Uint8Array | undefined, number] {
+        const format = PngConverter.getFormat(conversion);
+        if ((format === PngOutputFormat.SPRITE) || (format === PngOutputFormat.ATTACHED_SPRITE)) {
+            const x = (conversion.spriteX !== undefined) ? conversion.spriteX : 0x80;
+            const y = (conversion.spriteY !== undefined) ? conversion.spriteY : 0x2c;
+            return [AmigaImageEncoder.toSprites(image, format === PngOutputFormat.ATTACHED_SPRITE, x, y), undefined, (format === PngOutputFormat.SPRITE) ? 2 : 4];
+        }
+        const depth = AmigaImageEncoder.getDepth(conversion.colors ? conversion.colors : image.palette.length);
+        const interleaved = (format === PngOutputFormat.BOB) || (conversion.interleaved === true);
+        return [AmigaImageEncoder.toBitplanes(image, depth, interleaved), AmigaImageEncoder.toMask(image, depth, interleaved), depth];
+    }
+
+    private static getFormat(conversion: PngConversion): PngOutputFormat {
+        return conversion.format ? conversion.format : PngOutputFormat.BITPLANES;
+    }
+
+    /**
+     * Creates the default conversion of a file: the outputs are next to the image
+     * @param imageUri PNG image
+     * @param format Output format
+     */
+    public static getDefaultConversion(imageUri: Uri, format: PngOutputFormat): PngConversion {
+        const inputPath = imageUri.fsPath;
+        const basePath = path.join(path.dirname(inputPath), path.basename(inputPath, path.extname(inputPath)));
+        const conversion: PngConversion = {
+            input: inputPath,
+            output: `${basePath}.${(format === PngOutputFormat.BITPLANES) || (format === PngOutputFormat.BOB) ? "raw" : "spr"}`,
+            format: format,
+            include: `${basePath}.i`
+        };
+        if (format === PngOutputFormat.BOB) {
+            conversion.mask = `${basePath}.mask`;
+        }
+        return conversion;
+    }
+}
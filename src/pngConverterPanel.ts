@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileProxy } from './fsProxy';
+import { PngConversion, PngConverter, PngDecoder, PngImage, PngOutputFormat } from './pngConverter';
+import { WebviewUtils } from './webviewUtils';
+
+/**
+ * Manages the PNG conversion preview webview panels
+ */
+export class PngConverterPanel {
+    public static readonly VIEW_TYPE = 'pngConverter';
+    private static readonly SCRIPTS_PATH = 'webviews/pngconverter';
+
+    private readonly panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private imageUri: vscode.Uri;
+    private image: PngImage | undefined;
+
+    /**
+     * Opens the conversion preview of an image
+     * @param extensionPath Path of the extension
+     * @param imageUri PNG image
+     */
+    public static async create(extensionPath: string, imageUri: vscode.Uri): Promise<PngConverterPanel> {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+        const panel = vscode.window.createWebviewPanel(
+            PngConverterPanel.VIEW_TYPE,
+            `Convert ${path.basename(imageUri.fsPath)}`,
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                localResourceRoots: [vscode.Uri.file(path.join(extensionPath, PngConverterPanel.SCRIPTS_PATH))],
+                retainContextWhenHidden: true
+            }
+        );
+        const view = new PngConverterPanel(panel, extensionPath, imageUri);
+        await view.preview(PngConverter.getDefaultConversion(imageUri, PngOutputFormat.BITPLANES));
+        return view;
+    }
+
+    private constructor(panel: vscode.WebviewPanel, extensionPath: string, imageUri: vscode.Uri) {
+        this.panel = panel;
+        this.imageUri = imageUri;
+        this.panel.webview.html = this.getHtmlForWebview(extensionPath);
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage(
+            async message => {
+                try {
+                    const conversion = this.getConversion(message);
+                    if (message.command === 'preview') {
+                        await this.preview(conversion);
+                    } else if (message.command === 'convert') {
+                        await new PngConverter().convert(new FileProxy(this.imageUri), conversion);
+                        vscode.window.showInformationMessage(`${path.basename(this.imageUri.fsPath)} converted to ${path.basename(conversion.output)}`);
+                    }
+                } catch (err) {
+                    vscode.window.showErrorMessage(err.message);
+                }
+            },
+            null,
+            this.disposables
+        );
+    }
+
+    public dispose(): void {
+        this.panel.dispose();
+        while (this.disposables.length) {
+            const x = this.disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private getConversion(message: { format: PngOutputFormat, colors: string, dither: boolean, interleaved: boolean }): PngConversion {
+        const conversion = PngConverter.getDefaultConversion(this.imageUri, message.format);
+        conversion.colors = parseInt(message.colors);
+        conversion.dither = message.dither;
+        conversion.interleaved = message.interleaved;
+        return conversion;
+    }
+
+    /**
+     * Shows the original and the reduced images
+     * @param conversion Conversion options
+     */
+    private async preview(conversion: PngConversion): Promise<void> {
+        if (!this.image) {
+            this.image = PngDecoder.decode(await new FileProxy(this.imageUri).readFile());
+        }
+        const reduced = PngConverter.reduce(this.image, conversion);
+        const pixels = new Uint8Array(reduced.width * reduced.height * 4);
+        for (let i = 0; i < reduced.indexes.length; i++) {
+            if (reduced.opaque[i]) {
+                const color = reduced.palette[reduced.indexes[i]];
+                pixels.set([((color >> 8) & 0xf) * 0x11, ((color >> 4) & 0xf) * 0x11, (color & 0xf) * 0x11, 255], i * 4);
+            }
+        }
+        await this.panel.webview.postMessage({
+            command: 'showImages',
+            width: this.image.width,
+            height: this.image.height,
+            original: Array.from(this.image.pixels),
+            reduced: Array.from(pixels),
+            palette: reduced.palette.map(c => `#${c.toString(16).padStart(3, "0")}`)
+        });
+    }
+
+    private getHtmlForWebview(extensionPath: string) {
+        const mainUri = this.panel.webview.asWebviewUri(vscode.Uri.file(path.join(extensionPath, PngConverterPanel.SCRIPTS_PATH, 'main.js')));
+        const nonce = WebviewUtils.getNonce();
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <style nonce="${nonce}">
+                    form { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 8px; }
+                    .images { display: flex; flex-wrap: wrap; gap: 16px; }
+                    canvas { image-rendering: pixelated; border: 1px solid var(--vscode-panel-border); background: repeating-conic-gradient(#808080 0% 25%, #c0c0c0 0% 50%) 50% / 16px 16px; }
+                    .swatch { display: inline-block; width: 16px; height: 16px; margin-right: 2px; border: 1px solid var(--vscode-panel-border); }
+                </style>
+                <title>PNG Converter</title>
+            </head>
+            <body>
+                <form id="options">
+                    <label>Format <select id="format">
+                        <option value="${PngOutputFormat.BITPLANES}">Bitplanes</option>
+                        <option value="${PngOutputFormat.BOB}">BOB with mask</option>
+                        <option value="${PngOutputFormat.SPRITE}">Sprite</option>
+                        <option value="${PngOutputFormat.ATTACHED_SPRITE}">Attached sprite</option>
+                    </select></label>
+                    <label>Colors <select id="colors"><option>2</option><option>4</option><option>8</option><option>16</option><option selected>32</option></select></label>
+                    <label><input id="dither" type="checkbox"> Dithering</label>
+                    <label><input id="interleaved" type="checkbox"> Interleaved</label>
+                    <button id="convert" type="submit">Convert</button>
+                </form>
+                <div id="palette"></div>
+                <div class="images">
+                    <canvas id="original_canvas"></canvas>
+                    <canvas id="reduced_canvas"></canvas>
+                </div>
+                <script nonce="${nonce}" src="${mainUri}"></script>
+            </body>
+        </html>`;
+    }
+}
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import { M68kDefinitionHandler } from './definitionHandler';
+import { MemoryLabelsRegistry } from './customMemoryAddresses';
+import { MacroExpander } from './macroExpander';
+import { ASMLine } from './parser';
+
+/**
+ * Semantic token of a source line
+ */
+export interface M68kSemanticToken {
+    range: vscode.Range;
+    tokenType: string;
+    tokenModifiers: Array<string>;
+}
+
+/**
+ * Provides the semantic tokens resolved with the symbols of the workspace:
+ * the grammar cannot tell a macro from a label
+ */
+export class M68kSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider, vscode.Disposable {
+    static readonly TOKEN_TYPES = ["label", "localLabel", "macro", "constant", "external", "customRegister", "dataRegister", "addressRegister", "unresolved"];
+    static readonly TOKEN_MODIFIERS = ["declaration"];
+    static readonly LEGEND = new vscode.SemanticTokensLegend(M68kSemanticTokensProvider.TOKEN_TYPES, M68kSemanticTokensProvider.TOKEN_MODIFIERS);
+    /** Directives with data which are not symbols */
+    static readonly IGNORED_DATA_DIRECTIVES = ["section", "opt", "incdir", "include", "incbin", "output", "machine", "fpu", "idnt", "ifd", "ifnd", "ifmacrod", "ifmacrond"];
+    static readonly REFRESH_DELAY = 500;
+    private definitionHandler: M68kDefinitionHandler;
+    private onDidChangeSemanticTokensEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeSemanticTokens = this.onDidChangeSemanticTokensEmitter.event;
+    private refreshTimeout: NodeJS.Timeout | undefined;
+    private symbolsListener: vscode.Disposable;
+
+    /**
+     * Constructor
+     * @param definitionHandler Handler of the workspace symbols
+     */
+    constructor(definitionHandler: M68kDefinitionHandler) {
+        this.definitionHandler = definitionHandler;
+        // The tokens depend on the symbols of the other files
+        this.symbolsListener = definitionHandler.onDidChangeSymbols(() => this.scheduleRefresh());
+    }
+
+    /**
+     * Requests the tokens of the documents after the changes of the symbols: the scans of the workspace are grouped
+     */
+    private scheduleRefresh(): void {
+        if (this.refreshTimeout) {
+            clearTimeout(this.refreshTimeout);
+        }
+        this.refreshTimeout = setTimeout(() => {
+            this.refreshTimeout = undefined;
+            this.onDidChangeSemanticTokensEmitter.fire();
+        }, M68kSemanticTokensProvider.REFRESH_DELAY);
+    }
+
+    public dispose(): void {
+        if (this.refreshTimeout) {
+            clearTimeout(this.refreshTimeout);
+        }
+        this.symbolsListener.dispose();
+        this.onDidChangeSemanticTokensEmitter.dispose();
+    }
+
+    public async provideDocumentSemanticTokens(document: vscode.TextDocument): Promise<vscode.SemanticTokens> {
+        const builder = new vscode.SemanticTokensBuilder(M68kSemanticTokensProvider.LEGEND);
+        for (const token of await this.computeTokens(document)) {
+            builder.push(token.range, token.tokenType, token.tokenModifiers);
+        }
+        return builder.build();
+    }
+
+    /**
+     * Computes the semantic tokens of a document
+     * @param document Document to analyse
+     * @return Tokens in the document order
+     */
+    public async computeTokens(document: vscode.TextDocument): Promise<Array<M68kSemanticToken>> {
+        const file = await this.definitionHandler.scanFile(document.uri, document);
+        // The symbols may be defined in the missing included files
+        const flagUnresolved = !this.definitionHandler.hasUnresolvedIncludes(document.uri);
+        const tokens = new Array<M68kSemanticToken>();
+        let lastLabel = "";
+        let inMacro = false;
+        for (let i = 0; i < document.lineCount; i++) {
+            if (file.isInactiveLine(i)) {
+                continue;
+            }
+            const line = document.lineAt(i);
+            const asmLine = new ASMLine(line.text, line);
+            const instruction = asmLine.instruction.toLowerCase();
+            if (inMacro && MacroExpander.isEndOfMacro(line.text)) {
+                inMacro = false;
+                continue;
+            }
+            // Declarations
+            const [symbol, range] = asmLine.getSymbolFromLabelOrVariable();
+            if ((symbol !== undefined) && (range !== undefined) && (symbol.length > 0)) {
+                if (asmLine.variable.length > 0) {
+                    tokens.push({ range: range, tokenType: "constant", tokenModifiers: ["declaration"] });
+                } else if (instruction.startsWith("macro")) {
+                    tokens.push({ range: range, tokenType: "macro", tokenModifiers: ["declaration"] });
+                    inMacro = true;
+                } else if (symbol.startsWith(".") || symbol.includes("\\@")) {
+                    tokens.push({ range: range, tokenType: "localLabel", tokenModifiers: ["declaration"] });
+                } else {
+                    tokens.push({ range: range, tokenType: "label", tokenModifiers: ["declaration"] });
+                    if (!inMacro) {
+                        lastLabel = symbol;
+                    }
+                }
+            }
+            // Macro invocation
+            const macroName = asmLine.instruction.split(".")[0];
+            if ((macroName.length > 0) && this.definitionHandler.getMacroByName(macroName)) {
+                const start = asmLine.instructionRange.start;
+                tokens.push({ range: new vscode.Range(start, start.translate(0, macroName.length)), tokenType: "macro", tokenModifiers: [] });
+            }
+            // Operands
+            if (instruction === "macro") {
+                // ` macro <name>` syntax
+                if (asmLine.label.length === 0) {
+                    tokens.push({ range: asmLine.dataRange, tokenType: "macro", tokenModifiers: ["declaration"] });
+                }
+                inMacro = true;
+            } else if (instruction === "xref") {
+                for (const [, range] of M68kSemanticTokensProvider.findIdentifiers(asmLine)) {
+                    tokens.push({ range: range, tokenType: "external", tokenModifiers: ["declaration"] });
+                }
+            } else if (!M68kSemanticTokensProvider.IGNORED_DATA_DIRECTIVES.includes(instruction)) {
+                const identifiers = M68kSemanticTokensProvider.findIdentifiers(asmLine);
+                if (asmLine.variable.length > 0) {
+                    identifiers.push(...M68kSemanticTokensProvider.findIdentifiersInText(asmLine.value, asmLine.valueRange.start));
+                }
+                for (const [identifier, range] of identifiers) {
+                    const tokenType = this.classifyIdentifier(identifier, lastLabel);
+                    if ((tokenType === "dataRegister") || (tokenType === "addressRegister")) {
+                        // Without the index size
+                        tokens.push({ range: new vscode.Range(range.start, range.start.translate(0, 2)), tokenType: tokenType, tokenModifiers: [] });
+                    } else if ((tokenType !== undefined) && !((inMacro || !flagUnresolved) && (tokenType === "unresolved"))) {
+                        // The parameters of the macros are unknown before the expansion
+                        tokens.push({ range: range, tokenType: tokenType, tokenModifiers: [] });
+                    }
+                }
+            }
+        }
+        return tokens;
+    }
+
+    /**
+     * Retrieves the type of an identifier of the operands
+     * @param identifier Identifier to classify
+     * @param lastLabel Last global label: parent of the local labels
+     * @return The token type or undefined if it is not highlighted
+     */
+    public classifyIdentifier(identifier: string, lastLabel: string): string | undefined {
+        const register = /^([ad][0-7]|sp)(\.[wl])?$/i.exec(identifier);
+        if (register) {
+            return (register[1].charAt(0).toLowerCase() === "d") ? "dataRegister" : "addressRegister";
+        }
+        const name = identifier.replace(/\\@/g, "");
+        if (/^(pc|sr|ccr|usp|vbr|narg)$/i.test(name) || /^\.[bwlsx]$/i.test(name)) {
+            return undefined;
+        }
+        if (name.startsWith(".")) {
+            return (this.definitionHandler.getLabelByName(lastLabel + name) || identifier.includes("\\@")) ? "localLabel" : "unresolved";
+        } else if (this.definitionHandler.getMacroByName(name)) {
+            return "macro";
+        } else if (this.definitionHandler.getXrefByName(name)) {
+            return "external";
+        } else if (this.definitionHandler.getLabelByName(name)) {
+            return "label";
+        } else if (MemoryLabelsRegistry.getCustomAddress(name.toUpperCase()) !== undefined) {
+            return "customRegister";
+        } else if (this.definitionHandler.getVariableByName(name)) {
+            return "constant";
+        }
+        return "unresolved";
+    }
+
+    /**
+     * Finds the identifiers of the operands: the numbers and the strings are skipped
+     * @param asmLine Parsed line
+     * @return Identifiers and their ranges
+     */
+    public static findIdentifiers(asmLine: ASMLine): Array<[string, vscode.Range]> {
+        return M68kSemanticTokensProvider.findIdentifiersInText(asmLine.data, asmLine.dataRange.start);
+    }
+
+    /**
+     * Finds the identifiers of an expression
+     * @param text Text of the expression
+     * @param start Position of the text in the document
+     * @return Identifiers and their ranges
+     */
+    public static findIdentifiersInText(text: string, start: vscode.Position): Array<[string, vscode.Range]> {
+        const identifiers = new Array<[string, vscode.Range]>();
+        const regexp = /("[^"]*"?|'[^']*'?)|([$%@][0-9a-f]+(\.[bwl])?)|(\d+\w*)|(\\\d)|([a-z_.][\w.]*(\\@)?)/gi;
+        let match = regexp.exec(text);
+        while (match) {
+            const identifier = match[6];
+            if (identifier !== undefined) {
+                const range = new vscode.Range(start.translate(0, match.index), start.translate(0, match.index + identifier.length));
+                identifiers.push([identifier, range]);
+            }
+            match = regexp.exec(text);
+        }
+        return identifiers;
+    }
+}
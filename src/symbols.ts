@@ -2,6 +2,8 @@
 import { Range, Uri, workspace, TextDocument } from 'vscode';
 import { ASMLine } from './parser';
 import { StringUtils } from './stringUtils';
+import { MacroExpander } from './macroExpander';
+import { ConditionalAssembly, ConditionalDirective } from './conditionalAssembly';
 
 export class SymbolFile {
     private uri: Uri;
@@ -11,11 +13,14 @@ export class SymbolFile {
     private variables = new Array<Symbol>();
     private labels = new Array<Symbol>();
     private macros = new Array<Symbol>();
+    private macroLabels = new Array<Symbol>();
     private xrefs = new Array<Symbol>();
     private subroutines = new Array<string>();
     private dcLabel = new Array<Symbol>();
     private includeDirs = new Array<Symbol>();
     private includedFiles = new Array<Symbol>();
+    private conditionalDirectives = new Array<ConditionalDirective>();
+    private inactiveRanges = new Array<Range>();
 
     constructor(uri: Uri) {
         this.uri = uri;
@@ -32,13 +37,17 @@ export class SymbolFile {
         this.clear();
         this.document = document;
         let lastLabel: Symbol | null = null;
+        let currentMacro: Symbol | null = null;
         const labelsBeforeRts = Array<Symbol>();
         for (let i = 0; i < document.lineCount; i++) {
             const line = document.lineAt(i);
             const asmLine = new ASMLine(line.text, line);
             let [symbol, range] = asmLine.getSymbolFromLabelOrVariable();
             if ((symbol !== undefined) && (range !== undefined)) {
-                this.definedSymbols.push(new Symbol(symbol, this, range));
+                // The labels of the macro bodies are read without their unique id
+                if (!currentMacro || ((asmLine.variable.length > 0) && !asmLine.variable.includes("\\"))) {
+                    this.definedSymbols.push(new Symbol(symbol, this, range));
+                }
             } else {
                 const results = asmLine.getSymbolFromData();
                 for (let k = 0; k < results.length; k++) {
@@ -49,7 +58,21 @@ export class SymbolFile {
                 }
             }
             const instruct = asmLine.instruction.toLowerCase();
-            if (asmLine.label.length > 0) {
+            // The conditions of the macro bodies depend on the expansion
+            const directive = currentMacro ? undefined : ConditionalAssembly.parseDirective(line.text, i);
+            if (directive) {
+                this.conditionalDirectives.push(directive);
+            }
+            if (currentMacro) {
+                if (MacroExpander.isEndOfMacro(line.text)) {
+                    currentMacro = null;
+                    continue;
+                }
+                // The labels of the macro bodies are not global labels
+                if (asmLine.label.length > 0) {
+                    this.readMacroLabel(asmLine, currentMacro);
+                }
+            } else if (asmLine.label.length > 0) {
                 let label = asmLine.label.replace(":", "");
                 const isLocal = label.indexOf(".") === 0;
                 if (isLocal) {
@@ -60,6 +83,7 @@ export class SymbolFile {
                 if (instruct.indexOf("macro") === 0) {
                     this.macros.push(s);
                     this.definedSymbols.push(s);
+                    currentMacro = s;
                 } else {
                     this.labels.push(s);
                     if (!isLocal) {
@@ -75,20 +99,14 @@ export class SymbolFile {
                 const s = new Symbol(asmLine.data, this, asmLine.dataRange);
                 this.macros.push(s);
                 this.definedSymbols.push(s);
+                currentMacro = s;
             }
-            if (asmLine.variable.length > 0) {
+            // The variables built from the macro parameters are unknown before the expansion
+            if ((asmLine.variable.length > 0) && !asmLine.variable.includes("\\")) {
                 this.variables.push(new Symbol(asmLine.variable, this, asmLine.variableRange, asmLine.value));
             }
             if (instruct.indexOf("bsr") >= 0) {
                 this.subroutines.push(asmLine.data);
-            } else if ((instruct.indexOf("dc") === 0) || (instruct.indexOf("ds") === 0) || (instruct.indexOf("incbin") === 0)) {
-                if (lastLabel) {
-                    this.dcLabel.push(lastLabel);
-                }
-            } else if (instruct.indexOf("rts") >= 0) {
-                if (lastLabel) {
-                    labelsBeforeRts.push(lastLabel);
-                }
             } else if (instruct === "incdir") {
                 const includeSymbol = new Symbol(StringUtils.parseQuoted(asmLine.data), this, asmLine.dataRange);
                 this.includeDirs.push(includeSymbol);
@@ -97,6 +115,16 @@ export class SymbolFile {
                 const includeSymbol = new Symbol(StringUtils.parseQuoted(asmLine.data), this, asmLine.dataRange);
                 this.includedFiles.push(includeSymbol);
                 this.definedSymbols.push(includeSymbol);
+            } else if (currentMacro) {
+                // The data and the returns of a macro body are not attached to the last label
+            } else if ((instruct.indexOf("dc") === 0) || (instruct.indexOf("ds") === 0) || (instruct.indexOf("incbin") === 0)) {
+                if (lastLabel) {
+                    this.dcLabel.push(lastLabel);
+                }
+            } else if (instruct.indexOf("rts") >= 0) {
+                if (lastLabel) {
+                    labelsBeforeRts.push(lastLabel);
+                }
             }
         }
         let inSub = false;
@@ -116,17 +144,65 @@ export class SymbolFile {
         }
     }
 
+    /**
+     * Reads a label defined in a macro body: the unique id \@ is removed from its name
+     * @param asmLine Line of the macro body
+     * @param macro Symbol of the macro
+     */
+    private readMacroLabel(asmLine: ASMLine, macro: Symbol): void {
+        const [symbol, range] = asmLine.getSymbolFromLabelOrVariable();
+        if ((symbol !== undefined) && (range !== undefined)) {
+            const label = symbol.replace(/\\@/g, "");
+            // The labels built from the parameters are unknown before the expansion
+            if ((label.length > 0) && !label.includes("\\")) {
+                const s = new Symbol(label, this, range);
+                s.setParent(macro.getLabel());
+                this.macroLabels.push(s);
+                this.definedSymbols.push(s);
+            }
+        }
+    }
+
+    /**
+     * Removes the symbols defined in the blocks which are not assembled
+     * @param ranges Ranges of the inactive lines
+     */
+    public setInactiveRanges(ranges: Array<Range>): void {
+        this.inactiveRanges = ranges;
+        const isActive = (s: Symbol) => !this.isInactiveLine(s.getRange().start.line);
+        this.definedSymbols = this.definedSymbols.filter(isActive);
+        this.variables = this.variables.filter(isActive);
+        this.labels = this.labels.filter(isActive);
+        this.macros = this.macros.filter(isActive);
+        this.macroLabels = this.macroLabels.filter(isActive);
+        this.xrefs = this.xrefs.filter(isActive);
+        this.dcLabel = this.dcLabel.filter(isActive);
+        this.includeDirs = this.includeDirs.filter(isActive);
+        this.includedFiles = this.includedFiles.filter(isActive);
+    }
+
+    /**
+     * Checks if a line is in a block which is not assembled
+     * @param line Line number
+     */
+    public isInactiveLine(line: number): boolean {
+        return this.inactiveRanges.some(r => (r.start.line <= line) && (line <= r.end.line));
+    }
+
     public clear(): void {
         this.definedSymbols = new Array<Symbol>();
         this.referredSymbols = new Array<Symbol>();
         this.variables = new Array<Symbol>();
         this.labels = new Array<Symbol>();
         this.macros = new Array<Symbol>();
+        this.macroLabels = new Array<Symbol>();
         this.xrefs = new Array<Symbol>();
         this.subroutines = new Array<string>();
         this.dcLabel = new Array<Symbol>();
         this.includeDirs = new Array<Symbol>();
         this.includedFiles = new Array<Symbol>();
+        this.conditionalDirectives = new Array<ConditionalDirective>();
+        this.inactiveRanges = new Array<Range>();
     }
 
     public getUri(): Uri {
@@ -147,6 +223,9 @@ export class SymbolFile {
     public getMacros(): Array<Symbol> {
         return this.macros;
     }
+    public getMacroLabels(): Array<Symbol> {
+        return this.macroLabels;
+    }
     public getXrefs(): Array<Symbol> {
         return this.xrefs;
     }
@@ -162,6 +241,12 @@ export class SymbolFile {
     public getIncludedFiles(): Array<Symbol> {
         return this.includedFiles;
     }
+    public getConditionalDirectives(): Array<ConditionalDirective> {
+        return this.conditionalDirectives;
+    }
+    public getInactiveRanges(): Array<Range> {
+        return this.inactiveRanges;
+    }
     public getDocument(): TextDocument | null {
         return this.document;
     }
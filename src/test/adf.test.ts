@@ -7,16 +7,12 @@ import * as chai from 'chai';
 import { ADFTools } from '../adf';
 import * as chaiAsPromised from 'chai-as-promised';
 import * as path from 'path';
-import { ExecutorHelper } from '../execHelper';
-import { instance, when, anything, mock, capture, reset } from '@johanblumenberg/ts-mockito';
 import * as fs from 'fs';
 import * as temp from 'temp';
 import { Uri } from 'vscode';
 
 chai.use(chaiAsPromised);
 describe("ADFTools test", function () {
-    let mockedExecutor: ExecutorHelper;
-    let executor: ExecutorHelper;
     before(async () => {
         // Automatically track and cleanup files at exit
         temp.track();
@@ -26,53 +22,39 @@ describe("ADFTools test", function () {
             await ext.activate();
         }
     });
-    beforeEach(function () {
-        mockedExecutor = mock(ExecutorHelper);
-        executor = instance(mockedExecutor);
-    });
-    afterEach(function () {
-        reset(mockedExecutor);
-    });
     it("Should create a bootable disk", async function () {
-        const rootToolsDir = __dirname;
-        const adfDiskName = "mydisk.adf";
+        const tempDir = temp.mkdirSync("adf-test");
+        const adfDiskName = path.join(tempDir, "mydisk.adf");
         const adfRootDir = path.join(__dirname, "..", "..", "test_files", "debug", "fs-uae", "hd0");
-        when(mockedExecutor.runToolRetrieveStdout(anything(), anything(), anything(), anything(), anything())).thenResolve("Done.\n");
-        const adfTools = new ADFTools(rootToolsDir);
-        adfTools.setTestContext(executor);
-        await adfTools.createBootableADFDiskFromDir(adfDiskName, adfRootDir, "s/*", "**/.*", ["myopt", "myopt2"]);
-        let i = 0;
-        let [args, , commandFilename, ,] = capture(mockedExecutor.runToolRetrieveStdout).byCallIndex(i++);
-        expect(commandFilename).to.be.equal(path.join(rootToolsDir, "adfcreate"));
-        expect(args.length).to.be.equal(3);
-        expect(args[0]).to.be.equal("myopt");
-        expect(args[1]).to.be.equal("myopt2");
-        expect(args[2]).to.be.equal(adfDiskName);
-        [args, , commandFilename, ,] = capture(mockedExecutor.runToolRetrieveStdout).byCallIndex(i++);
-        expect(commandFilename).to.be.equal(path.join(rootToolsDir, "adfinst"));
-        expect(args[0]).to.be.equal("-i");
-        expect(args[1]).to.be.equal(adfDiskName);
-        [args, , commandFilename, ,] = capture(mockedExecutor.runToolRetrieveStdout).byCallIndex(i++);
-        expect(commandFilename).to.be.equal(path.join(rootToolsDir, "adfmakedir"));
-        expect(args[0]).to.be.equal(adfDiskName);
-        // tslint:disable-next-line:no-unused-expression
-        expect(args[1]).to.be.equal("s");
-        [args, , commandFilename, ,] = capture(mockedExecutor.runToolRetrieveStdout).byCallIndex(i);
-        expect(commandFilename).to.be.equal(path.join(rootToolsDir, "adfcopy"));
-        expect(args[0]).to.be.equal(adfDiskName);
-        // tslint:disable-next-line:no-unused-expression
-        expect(args[1].indexOf("Startup") >= 0).to.be.true;
-        expect(args[2]).to.be.equal("s");
+        const adfTools = new ADFTools();
+        await adfTools.createBootableADFDiskFromDir(adfDiskName, adfRootDir, "s/*", "**/.*", ["--label=MYDISK", "--ffs"]);
+        const disk = await adfTools.readDisk(adfDiskName);
+        expect(disk.getLabel()).to.be.equal("MYDISK");
+        expect(disk.isFFS()).to.be.true;
+        const bootBlock = disk.getBootBlock();
+        expect(bootBlock.toString("latin1", 0, 4)).to.be.equal("DOS\x01");
+        expect(bootBlock.readUInt32BE(4)).to.be.equal(adfTools.calculateChecksum(bootBlock));
+        expect(disk.readDir("s").map(e => e.name)).to.be.eql(["Startup-Sequence"]);
+        const expected = fs.readFileSync(path.join(adfRootDir, "s", "Startup-Sequence"));
+        expect(await adfTools.readFromADFDisk(adfDiskName, "s/startup-sequence")).to.be.eql(expected);
     });
-    it("Should catch an error", async function () {
-        const rootToolsDir = "rootDir";
-        const adfDiskName = "mydisk.adf";
+    it("Should ignore the unsupported create options", async function () {
+        const tempDir = temp.mkdirSync("adf-test");
+        const adfDiskName = path.join(tempDir, "mydisk.adf");
         const adfRootDir = path.join(__dirname, "..", "..", "test_files", "debug", "fs-uae", "hd0");
-        when(mockedExecutor.runToolRetrieveStdout(anything(), anything(), anything(), anything(), anything())).thenResolve("Not good\n");
-        const adfTools = new ADFTools(rootToolsDir);
-        adfTools.setTestContext(executor);
-        // tslint:disable-next-line:no-unused-expression
-        return expect(adfTools.createBootableADFDiskFromDir(adfDiskName, adfRootDir, "**/genc*", "**/.*", ["opts"])).to.be.rejected;
+        const adfTools = new ADFTools();
+        const logs = new Array<string>();
+        const logEmitter = new vscode.EventEmitter<string>();
+        logEmitter.event((log) => logs.push(log));
+        await adfTools.createBootableADFDiskFromDir(adfDiskName, adfRootDir, "**/genc*", "**/.*", ["opts", "--label=MYDISK"], undefined, logEmitter);
+        expect(logs).to.include("Ignoring unsupported ADF create option 'opts'\r\n");
+        expect(fs.existsSync(adfDiskName)).to.be.true;
+    });
+    it("Should parse the create options", function () {
+        const adfTools = new ADFTools();
+        expect(adfTools.parseCreateOptions(["--label=MYDISK", "--ffs", "--dircache"])).to.be.eql({ label: "MYDISK", ffs: true, dirCache: true });
+        expect(adfTools.parseCreateOptions(["-l", "DISK", "--intl", "--hd"])).to.be.eql({ label: "DISK", intl: true, highDensity: true });
+        expect(adfTools.parseCreateOptions(["-t", "--label=DISK"])).to.be.eql({ label: "DISK" });
     });
     context("Boot Block", function () {
         let referenceBootBlock: Buffer;
@@ -81,8 +63,7 @@ describe("ADFTools test", function () {
         before(function () {
             // Automatically track and cleanup files at exit
             temp.track();
-            const rootToolsDir = "rootDir";
-            adfTools = new ADFTools(rootToolsDir);
+            adfTools = new ADFTools();
             const bootBlockFileName = path.join(__dirname, "..", "..", "test_files", "bootblock", "OS13.bb");
             let fileSizeInBytes = fs.statSync(bootBlockFileName).size;
             referenceBootBlock = Buffer.alloc(fileSizeInBytes);
@@ -102,6 +83,9 @@ describe("ADFTools test", function () {
         it("Should create a bootblock from a binary file", async function () {
             expect(adfTools.createBootBlock(binaryBootBlockData)).to.be.eql(referenceBootBlock);
         });
+        it("Should reject a bootblock larger than 1024 bytes", async function () {
+            expect(() => adfTools.createBootBlock(Buffer.alloc(1030))).to.throw("Boot block too large: 1030 bytes, the maximum is 1024 bytes");
+        });
         it("Should write a bootblock file from a binary file", async function () {
             const tempDir = temp.mkdirSync("build-test");
             const outputFile = path.join(tempDir, "boot.bb");
@@ -0,0 +1,157 @@
+//
+// Tests of the ADF disk file system
+//
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ADFDisk, ADFEntryType } from '../adfDisk';
+
+describe("ADF disk", function () {
+    const BLOCK_SIZE = 512;
+    function sumBlock(disk: ADFDisk, block: number): number {
+        const buffer = disk.getBuffer();
+        let sum = 0;
+        for (let i = 0; i < BLOCK_SIZE / 4; i++) {
+            sum = (sum + buffer.readUInt32BE(block * BLOCK_SIZE + i * 4)) >>> 0;
+        }
+        return sum;
+    }
+    function createContents(size: number): Buffer {
+        const contents = Buffer.alloc(size);
+        for (let i = 0; i < size; i++) {
+            contents[i] = (i * 7) & 0xff;
+        }
+        return contents;
+    }
+    it("Should format an empty disk", function () {
+        const disk = ADFDisk.create({ label: "MYDISK" });
+        expect(disk.getBuffer().length).to.be.equal(901120);
+        expect(disk.getLabel()).to.be.equal("MYDISK");
+        expect(disk.isFFS()).to.be.false;
+        expect(disk.getFreeBlocksCount()).to.be.equal(1758 - 2);
+        expect(disk.readDir("/")).to.be.eql([]);
+        // root block and bitmap block checksums
+        expect(sumBlock(disk, 880)).to.be.equal(0);
+        expect(sumBlock(disk, 881)).to.be.equal(0);
+    });
+    it("Should install the standard bootblock", function () {
+        const disk = ADFDisk.create();
+        disk.installBootBlock();
+        const reference = fs.readFileSync(path.join(__dirname, "..", "..", "test_files", "bootblock", "OS13.bb"));
+        expect(disk.getBootBlock()).to.be.eql(reference);
+        const ffsDisk = ADFDisk.create({ ffs: true });
+        ffsDisk.installBootBlock(reference);
+        const bootBlock = ffsDisk.getBootBlock();
+        expect(bootBlock.readUInt8(3)).to.be.equal(ADFDisk.DOSTYPE_FFS);
+        expect(bootBlock.readUInt32BE(4)).to.be.equal(ADFDisk.calculateBootBlockChecksum(bootBlock));
+        expect(() => ffsDisk.installBootBlock(Buffer.alloc(1025))).to.throw("Bootblock too large");
+    });
+    for (const ffs of [false, true]) {
+        it(`Should write and read files on ${ffs ? "FFS" : "OFS"}`, function () {
+            const disk = ADFDisk.create({ ffs: ffs });
+            disk.mkdir("s");
+            disk.mkdir("s/sub");
+            const small = Buffer.from("echo \"hello\"\n");
+            // more than 72 data blocks: needs an extension block
+            const large = createContents(100 * 512);
+            disk.writeFile("s/startup-sequence", small);
+            disk.writeFile("s/sub/large", large);
+            disk.writeFile("empty", Buffer.alloc(0));
+            expect(disk.readFile("S/Startup-Sequence")).to.be.eql(small);
+            expect(disk.readFile("s/sub/large")).to.be.eql(large);
+            expect(disk.readFile("empty")).to.be.eql(Buffer.alloc(0));
+            const entries = disk.readDir("");
+            expect(entries.map(e => [e.name, e.type, e.size])).to.be.eql([["empty", ADFEntryType.FILE, 0], ["s", ADFEntryType.DIRECTORY, 0]]);
+            // Replace the file and check that the blocks are released
+            const freeBlocks = disk.getFreeBlocksCount();
+            disk.writeFile("s/sub/large", small);
+            expect(disk.readFile("s/sub/large")).to.be.eql(small);
+            expect(disk.getFreeBlocksCount()).to.be.greaterThan(freeBlocks);
+            const entry = disk.getEntry("s/sub/large");
+            expect(entry?.size).to.be.equal(small.length);
+            if (entry) {
+                expect(sumBlock(disk, entry.block)).to.be.equal(0);
+            }
+            expect(disk.getEntry("s/unknown")).to.be.undefined;
+        });
+    }
+    it("Should reject invalid operations", function () {
+        const disk = ADFDisk.create();
+        disk.mkdir("dir");
+        expect(() => disk.mkdir("dir")).to.throw("'dir' already exists");
+        expect(() => disk.mkdir("unknown/dir")).to.throw("'unknown' not found");
+        expect(() => disk.writeFile("a".repeat(31), Buffer.alloc(1))).to.throw("Invalid name");
+        expect(() => disk.writeFile("dir", Buffer.alloc(1))).to.throw("'dir' is a directory");
+        expect(() => disk.readFile("dir")).to.throw("'dir' is not a file");
+        const freeBlocks = disk.getFreeBlocksCount();
+        expect(() => disk.writeFile("big", Buffer.alloc(901120))).to.throw("Disk full");
+        expect(disk.getFreeBlocksCount()).to.be.equal(freeBlocks);
+        expect(disk.getEntry("big")).to.be.undefined;
+        expect(() => new ADFDisk(Buffer.alloc(100))).to.throw("Invalid ADF size");
+        expect(() => new ADFDisk(Buffer.alloc(901120)).readDir("")).to.throw("Not a DOS disk");
+    });
+    it("Should delete and rename the entries", function () {
+        const disk = ADFDisk.create({ ffs: true, dirCache: true });
+        const freeBlocks = disk.getFreeBlocksCount();
+        disk.mkdir("dir");
+        disk.mkdir("dir/sub");
+        disk.writeFile("dir/file", createContents(2000));
+        expect(() => disk.delete("dir")).to.throw("Directory 'dir' not empty");
+        disk.rename("dir/file", "moved");
+        expect(disk.readFile("MOVED")).to.be.eql(createContents(2000));
+        expect(disk.readDir("dir").map(e => e.name)).to.be.eql(["sub"]);
+        disk.rename("dir", "Dir");
+        expect(disk.getEntry("dir")?.name).to.be.equal("Dir");
+        expect(() => disk.rename("dir", "dir/sub/dir")).to.throw("into itself");
+        disk.writeFile("other", Buffer.alloc(1));
+        expect(() => disk.rename("other", "moved")).to.throw("'moved' already exists");
+        expect(() => disk.delete("unknown")).to.throw("'unknown' not found");
+        disk.delete("dir/sub");
+        disk.delete("dir");
+        disk.delete("moved");
+        disk.delete("other");
+        expect(disk.readDir("/")).to.be.eql([]);
+        expect(disk.getFreeBlocksCount()).to.be.equal(freeBlocks);
+    });
+    it("Should compare the names in international mode", function () {
+        expect(ADFDisk.hashName("startup-sequence", false)).to.be.equal(ADFDisk.hashName("STARTUP-SEQUENCE", false));
+        expect(ADFDisk.hashName("été", true)).to.be.equal(ADFDisk.hashName("ÉTÉ", true));
+        const disk = ADFDisk.create({ intl: true });
+        disk.writeFile("été", Buffer.from("summer"));
+        expect(disk.readFile("ÉTÉ")).to.be.eql(Buffer.from("summer"));
+        const ofsDisk = ADFDisk.create();
+        ofsDisk.writeFile("été", Buffer.from("summer"));
+        expect(ofsDisk.getEntry("ÉTÉ")).to.be.undefined;
+    });
+    it("Should maintain the directory cache", function () {
+        const disk = ADFDisk.create({ ffs: true, dirCache: true });
+        expect(disk.getDosType()).to.be.equal(ADFDisk.DOSTYPE_FFS | ADFDisk.DOSTYPE_INTL | ADFDisk.DOSTYPE_DIRCACHE);
+        for (let i = 0; i < 30; i++) {
+            disk.writeFile(`file_with_a_long_name_${i}`, Buffer.from(`${i}`));
+        }
+        const buffer = disk.getBuffer();
+        // root extension points to the cache blocks
+        let cacheBlock = buffer.readUInt32BE(880 * BLOCK_SIZE + BLOCK_SIZE - 8);
+        let records = 0;
+        let blocks = 0;
+        while (cacheBlock !== 0) {
+            expect(buffer.readUInt32BE(cacheBlock * BLOCK_SIZE)).to.be.equal(33);
+            expect(buffer.readUInt32BE(cacheBlock * BLOCK_SIZE + 8)).to.be.equal(880);
+            expect(sumBlock(disk, cacheBlock)).to.be.equal(0);
+            records += buffer.readUInt32BE(cacheBlock * BLOCK_SIZE + 12);
+            cacheBlock = buffer.readUInt32BE(cacheBlock * BLOCK_SIZE + 16);
+            blocks++;
+        }
+        expect(records).to.be.equal(30);
+        expect(blocks).to.be.equal(4);
+        expect(disk.readFile("FILE_WITH_A_LONG_NAME_12")).to.be.eql(Buffer.from("12"));
+    });
+    it("Should create a high density disk", function () {
+        const disk = ADFDisk.create({ highDensity: true, ffs: true, label: "HD" });
+        expect(disk.getBuffer().length).to.be.equal(3520 * BLOCK_SIZE);
+        expect(disk.isHighDensity()).to.be.true;
+        disk.writeFile("file", createContents(1000));
+        expect(new ADFDisk(disk.getBuffer()).readFile("file")).to.be.eql(createContents(1000));
+        expect(sumBlock(disk, 1760)).to.be.equal(0);
+    });
+});
@@ -0,0 +1,78 @@
+//
+// Tests of the ADF file system provider
+//
+import * as vscode from 'vscode';
+import { expect } from 'chai';
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as temp from 'temp';
+import { ADFDisk } from '../adfDisk';
+import { ADFFileSystemProvider } from '../adfFileSystemProvider';
+
+chai.use(chaiAsPromised);
+describe("ADF file system provider", function () {
+    let adfFileUri: vscode.Uri;
+    let provider: ADFFileSystemProvider;
+    before(function () {
+        // Automatically track and cleanup files at exit
+        temp.track();
+    });
+    beforeEach(function () {
+        const tempDir = temp.mkdirSync("adf-fs-test");
+        const adfFileName = path.join(tempDir, "My Disk.adf");
+        const disk = ADFDisk.create({ label: "MYDISK" });
+        disk.mkdir("s");
+        disk.writeFile("s/startup-sequence", Buffer.from("run prog\n"));
+        fs.writeFileSync(adfFileName, disk.getBuffer());
+        adfFileUri = vscode.Uri.file(adfFileName);
+        provider = new ADFFileSystemProvider();
+    });
+    function adfUri(entryPath: string): vscode.Uri {
+        return ADFFileSystemProvider.toAdfUri(adfFileUri, entryPath);
+    }
+    function readDisk(): ADFDisk {
+        return new ADFDisk(fs.readFileSync(adfFileUri.fsPath));
+    }
+    it("Should encode the ADF file in the uri", function () {
+        const uri = adfUri("s/startup-sequence");
+        expect(uri.scheme).to.be.equal("adf");
+        expect(uri.path).to.be.equal("/s/startup-sequence");
+        const parsed = vscode.Uri.parse(uri.toString());
+        expect(ADFFileSystemProvider.getAdfFileUri(parsed).fsPath).to.be.equal(adfFileUri.fsPath);
+    });
+    it("Should list and read the files", async function () {
+        expect(await provider.readDirectory(adfUri("/"))).to.be.eql([["s", vscode.FileType.Directory]]);
+        expect(await provider.readDirectory(adfUri("/s"))).to.be.eql([["startup-sequence", vscode.FileType.File]]);
+        const stat = await provider.stat(adfUri("/S/Startup-Sequence"));
+        expect(stat.type).to.be.equal(vscode.FileType.File);
+        expect(stat.size).to.be.equal(9);
+        expect(Buffer.from(await provider.readFile(adfUri("/s/startup-sequence"))).toString()).to.be.equal("run prog\n");
+        await expect(provider.stat(adfUri("/unknown"))).to.be.rejectedWith(vscode.FileSystemError);
+        await expect(provider.readFile(adfUri("/s"))).to.be.rejectedWith(vscode.FileSystemError);
+    });
+    it("Should reject an invalid ADF file with a file system error", async function () {
+        fs.writeFileSync(adfFileUri.fsPath, Buffer.alloc(100));
+        await expect(provider.stat(adfUri("/s"))).to.be.rejectedWith(vscode.FileSystemError);
+        await expect(provider.readDirectory(adfUri("/"))).to.be.rejectedWith(vscode.FileSystemError);
+        await expect(provider.readFile(adfUri("/s/startup-sequence"))).to.be.rejectedWith(vscode.FileSystemError);
+    });
+    it("Should write, rename and delete the files", async function () {
+        await provider.createDirectory(adfUri("/c"));
+        await provider.writeFile(adfUri("/c/prog"), Buffer.from("code"), { create: true, overwrite: false });
+        await expect(provider.writeFile(adfUri("/c/prog"), Buffer.from("code"), { create: true, overwrite: false })).to.be.rejectedWith(vscode.FileSystemError);
+        await expect(provider.writeFile(adfUri("/c/other"), Buffer.from("code"), { create: false, overwrite: true })).to.be.rejectedWith(vscode.FileSystemError);
+        expect(readDisk().readFile("c/prog")).to.be.eql(Buffer.from("code"));
+        await provider.rename(adfUri("/c/prog"), adfUri("/s/prog"), { overwrite: false });
+        await expect(provider.rename(adfUri("/s/prog"), adfUri("/s/startup-sequence"), { overwrite: false })).to.be.rejectedWith(vscode.FileSystemError);
+        await provider.rename(adfUri("/s/prog"), adfUri("/s/startup-sequence"), { overwrite: true });
+        expect(readDisk().readFile("s/startup-sequence")).to.be.eql(Buffer.from("code"));
+        await expect(provider.delete(adfUri("/s"), { recursive: false })).to.be.rejectedWith(vscode.FileSystemError);
+        await provider.delete(adfUri("/s"), { recursive: true });
+        await provider.delete(adfUri("/c"), { recursive: false });
+        const disk = readDisk();
+        expect(disk.readDir("/")).to.be.eql([]);
+        expect(disk.getFreeBlocksCount()).to.be.equal(ADFDisk.create().getFreeBlocksCount());
+    });
+});
@@ -3,7 +3,7 @@
 //
 
 import { expect } from 'chai';
-import { HunkParser, HunkType } from '../amigaHunkParser';
+import { HunkParser, HunkType, MemoryType } from '../amigaHunkParser';
 import * as Path from 'path';
 import { Uri } from 'vscode';
 
@@ -91,4 +91,133 @@ describe("AmigaHunkFile", function () {
             expect(sourceFile.name).to.be.equal("hello.c");
         }
     });
-});
\ No newline at end of file
+    describe("Synthetic hunk files", function () {
+        function longs(values: Array<number>): Buffer {
+            const buffer = Buffer.alloc(values.length * 4);
+            values.forEach((v, i) => buffer.writeUInt32BE(v >>> 0, i * 4));
+            return buffer;
+        }
+        function words(values: Array<number>): Buffer {
+            const buffer = Buffer.alloc(values.length * 2);
+            values.forEach((v, i) => buffer.writeUInt16BE(v, i * 2));
+            return buffer;
+        }
+        function header(count: number): Buffer {
+            const sizes = new Array<number>();
+            for (let i = 0; i < count; i++) {
+                sizes.push(1);
+            }
+            return longs([HunkType.HEADER, 0, count, 0, count - 1].concat(sizes));
+        }
+        function stab(strx: number, type: number, desc: number, value: number): Buffer {
+            const buffer = Buffer.alloc(12);
+            buffer.writeUInt32BE(strx, 0);
+            buffer.writeUInt8(type, 4);
+            buffer.writeUInt16BE(desc, 6);
+            buffer.writeUInt32BE(value, 8);
+            return buffer;
+        }
+        it("Should parse the stabs debug info", function () {
+            const strings = Buffer.from("\0\0\0\0/work/\0main.c\0main:F1\0inc.h\0\0\0\0\0");
+            strings.writeUInt32BE(strings.length, 0);
+            const stabs = Buffer.concat([
+                stab(4, 0x64, 0, 0), // N_SO directory
+                stab(11, 0x64, 0, 0), // N_SO file
+                stab(18, 0x24, 0, 0), // N_FUN
+                stab(0, 0x44, 3, 0), // N_SLINE
+                stab(0, 0x44, 4, 4),
+                stab(26, 0x84, 0, 8), // N_SOL
+                stab(0, 0x44, 10, 8),
+            ]);
+            const debugData = Buffer.concat([longs([0x10b, stabs.length]), stabs, strings]);
+            const contents = Buffer.concat([
+                header(1),
+                longs([HunkType.CODE, 1, 0x4e754e75]),
+                longs([HunkType.DEBUG, debugData.length / 4]), debugData,
+                longs([HunkType.END]),
+            ]);
+            const hunks = new HunkParser().parse_file(contents);
+            expect(hunks.length).to.be.equal(1);
+            const hunk = hunks[0];
+            expect(hunk.symbols).to.be.eql([{ name: "main", offset: 0 }]);
+            expect(hunk.lineDebugInfo).to.be.eql([
+                { name: "/work/main.c", baseOffset: 0, lines: [{ line: 3, offset: 0 }, { line: 4, offset: 4 }] },
+                { name: "/work/inc.h", baseOffset: 0, lines: [{ line: 10, offset: 8 }] },
+            ]);
+        });
+        it("Should keep the unsupported debug blocks", function () {
+            const contents = Buffer.concat([
+                header(1),
+                longs([HunkType.CODE, 1, 0x4e754e75]),
+                longs([HunkType.DEBUG, 3, 0x10, 0x4f444546, 0xcafebabe]), // ODEF
+                longs([HunkType.DEBUG, 6, 0, 0x4c494e45, 1, 0x612e7300, 12, 0]), // LINE
+                longs([HunkType.END]),
+            ]);
+            const hunk = new HunkParser().parse_file(contents)[0];
+            expect(hunk.debugBlocks).to.be.eql([{ tag: "ODEF", baseOffset: 0x10, data: new Uint8Array([0xca, 0xfe, 0xba, 0xbe]) }]);
+            expect(hunk.lineDebugInfo).to.be.eql([{ name: "a.s", baseOffset: 0, lines: [{ line: 12, offset: 0 }] }]);
+        });
+        it("Should parse the SAS/C compressed line numbers", function () {
+            const deltas = Buffer.from([5, 2, 1, 4, 0, 0x01, 0x2c, 0, 0, 0, 0, 0x01, 0x11, 0x70, 0, 0]);
+            const debugData = Buffer.concat([longs([0x10, 0x48434c4e, 1, 0x612e7300, 3]), deltas]);
+            const contents = Buffer.concat([
+                header(1),
+                longs([HunkType.CODE, 1, 0x4e754e75]),
+                longs([HunkType.DEBUG, debugData.length / 4]), debugData,
+                longs([HunkType.END]),
+            ]);
+            const hunk = new HunkParser().parse_file(contents)[0];
+            expect(hunk.debugBlocks).to.be.undefined;
+            expect(hunk.lineDebugInfo).to.be.eql([{
+                name: "a.s", baseOffset: 0x10, lines: [
+                    { line: 5, offset: 0x12 }, { line: 6, offset: 0x16 }, { line: 306, offset: 0x16 + 70000 }
+                ]
+            }]);
+        });
+        it("Should parse the short relocations and the overlays", function () {
+            const contents = Buffer.concat([
+                header(3),
+                longs([HunkType.CODE, 1, 0]),
+                longs([HunkType.RELOC32SHORT]), words([2, 1, 0, 4, 0, 0]),
+                longs([HunkType.DREL32]), words([1, 2, 8, 0]),
+                longs([HunkType.RELRELOC32]), words([1, 0, 2, 0]),
+                longs([HunkType.END]),
+                longs([HunkType.OVERLAY, 1, 0, 0]),
+                longs([HunkType.DATA, 1, 0]),
+                longs([HunkType.END]),
+                longs([HunkType.BREAK]),
+                longs([HunkType.BSS, 1]),
+                longs([HunkType.END]),
+                longs([HunkType.BREAK]),
+            ]);
+            const hunks = new HunkParser().parse_file(contents);
+            expect(hunks.length).to.be.equal(3);
+            expect(hunks[0].reloc32).to.be.eql([{ target: 1, offsets: [0, 4] }, { target: 2, offsets: [8] }]);
+            expect(hunks[0].relReloc32).to.be.eql([{ target: 0, offsets: [2] }]);
+            expect(hunks[1].hunkType).to.be.equal(HunkType.DATA);
+            expect(hunks[2].hunkType).to.be.equal(HunkType.BSS);
+        });
+        it("Should parse an object file", function () {
+            const contents = Buffer.concat([
+                longs([HunkType.UNIT, 1, 0x612e6f00]),
+                longs([HunkType.NAME, 1, 0x636f6465]),
+                longs([HunkType.CODE, 0x40000001, 0x4e754e75]),
+                longs([HunkType.EXT, 0x01000001, 0x5f6d6169, 0, 0x81000001, 0x5f657874, 1, 2, 0]),
+                longs([HunkType.DREL32, 2, 1, 0, 4, 0]),
+                longs([HunkType.END]),
+                longs([HunkType.BSS, 0x80000002]),
+                longs([HunkType.END]),
+            ]);
+            const hunks = new HunkParser().parse_file(contents);
+            expect(hunks.length).to.be.equal(2);
+            expect(hunks[0].memType).to.be.equal(MemoryType.CHIP);
+            expect(hunks[0].allocSize).to.be.equal(4);
+            expect(hunks[0].symbols).to.be.eql([{ name: "_mai", offset: 0 }]);
+            expect(hunks[0].drel32).to.be.eql([{ target: 1, offsets: [0, 4] }]);
+            expect(hunks[0].reloc32).to.be.undefined;
+            expect(hunks[1].hunkType).to.be.equal(HunkType.BSS);
+            expect(hunks[1].memType).to.be.equal(MemoryType.FAST);
+            expect(hunks[1].allocSize).to.be.equal(8);
+        });
+    });
+});
@@ -0,0 +1,65 @@
+import { expect } from 'chai';
+import { AudioConverter, PaulaCalculator, PaulaClock, WavDecoder } from '../audioConverter';
+
+describe("Audio converter Tests", function () {
+    function createWav(format: number, channels: number, sampleRate: number, bitsPerSample: number, data: number[]): Buffer {
+        const header = Buffer.alloc(44);
+        header.write("RIFF", 0);
+        header.writeUInt32LE(36 + data.length, 4);
+        header.write("WAVE", 8);
+        header.write("fmt ", 12);
+        header.writeUInt32LE(16, 16);
+        header.writeUInt16LE(format, 20);
+        header.writeUInt16LE(channels, 22);
+        header.writeUInt32LE(sampleRate, 24);
+        header.writeUInt32LE(sampleRate * channels * bitsPerSample / 8, 28);
+        header.writeUInt16LE(channels * bitsPerSample / 8, 32);
+        header.writeUInt16LE(bitsPerSample, 34);
+        header.write("data", 36);
+        header.writeUInt32LE(data.length, 40);
+        return Buffer.concat([header, Buffer.from(data)]);
+    }
+    it("Should convert between notes, frequencies and periods", function () {
+        expect(PaulaCalculator.parseNote("C-2")).to.be.equal(12);
+        expect(PaulaCalculator.parseNote("a#1")).to.be.equal(10);
+        expect(PaulaCalculator.parseNote("428")).to.be.undefined;
+        expect(PaulaCalculator.noteToPeriod(12)).to.be.equal(428);
+        expect(PaulaCalculator.noteToPeriod(35)).to.be.equal(113);
+        expect(PaulaCalculator.periodToNote(428)).to.be.equal("C-2");
+        expect(PaulaCalculator.periodToNote(254)).to.be.equal("A-2");
+        expect(PaulaCalculator.frequencyToPeriod(8287, PaulaClock.PAL)).to.be.equal(428);
+        expect(PaulaCalculator.frequencyToPeriod(8287, PaulaClock.NTSC)).to.be.equal(432);
+        expect(Math.round(PaulaCalculator.periodToFrequency(428))).to.be.equal(8287);
+        expect(AudioConverter.parsePeriod("C-2")).to.be.equal(428);
+        expect(AudioConverter.parsePeriod("300")).to.be.equal(300);
+        expect(AudioConverter.parsePeriod("100")).to.be.undefined;
+    });
+    it("Should decode 8 and 16 bits WAV files", function () {
+        const sound8 = WavDecoder.decode(createWav(1, 1, 8000, 8, [0x80, 0xc0, 0x00]));
+        expect(sound8.sampleRate).to.be.equal(8000);
+        expect(Array.from(sound8.samples)).to.be.eql([0, 0.5, -1]);
+        // Stereo channels are mixed
+        const sound16 = WavDecoder.decode(createWav(1, 2, 22050, 16, [0x00, 0x40, 0x00, 0x00, 0x00, 0xc0, 0x00, 0xc0]));
+        expect(Array.from(sound16.samples)).to.be.eql([0.25, -0.5]);
+        expect(() => WavDecoder.decode(Buffer.from("RIFF\x00\x00\x00\x00AVI "))).to.throw();
+        expect(() => WavDecoder.decode(createWav(2, 1, 8000, 4, [0]))).to.throw();
+    });
+    it("Should resample to signed 8 bits samples", function () {
+        const sound = { sampleRate: 16000, samples: new Float32Array([0, 0.5, 1, -1, -0.5, 0.25]) };
+        // Half of the rate: one sample in two, padded to an even length
+        expect(Array.from(AudioConverter.toSamples(sound, 8000))).to.be.eql([0, 127, -64, 0]);
+        // Double of the rate: interpolated
+        expect(Array.from(AudioConverter.toSamples({ sampleRate: 8000, samples: new Float32Array([0, 0.5]) }, 16000))).to.be.eql([0, 32, 64, 64]);
+    });
+    it("Should generate the include file", function () {
+        expect(AudioConverter.toIncludeSource("drum", 428, 1000, "drum.raw")).to.be.equal([
+            "DRUM_PER equ 428",
+            "DRUM_LEN equ 500",
+            "",
+            "; The samples must be in chip RAM",
+            "drum:",
+            "    incbin \"drum.raw\"",
+            "drum_end:",
+            ""].join("\n"));
+    });
+});
@@ -0,0 +1,47 @@
+import { expect } from 'chai';
+import { BitplaneDecoder, BitplaneLayout } from '../bitplaneViewer';
+
+describe("Bitplane viewer Tests", function () {
+    it("Should compute the memory size of the bitplanes", function () {
+        const layout: BitplaneLayout = { width: 320, height: 256, depth: 3, modulo: 0, interleaved: false };
+        expect(BitplaneDecoder.getBytesPerRow(layout)).to.be.equal(40);
+        expect(BitplaneDecoder.getPlaneOffset(layout)).to.be.equal(40 * 256);
+        expect(BitplaneDecoder.getMemorySize(layout)).to.be.equal(40 * 256 * 3);
+        const interleaved: BitplaneLayout = { width: 20, height: 2, depth: 2, modulo: 4, interleaved: true };
+        expect(BitplaneDecoder.getBytesPerRow(interleaved)).to.be.equal(4);
+        expect(BitplaneDecoder.getPlaneOffset(interleaved)).to.be.equal(4);
+        expect(BitplaneDecoder.getMemorySize(interleaved)).to.be.equal(16);
+        expect(() => BitplaneDecoder.checkLayout({ width: 320, height: 256, depth: 9, modulo: 0, interleaved: false })).to.throw();
+        expect(() => BitplaneDecoder.checkLayout({ width: 4096, height: 4096, depth: 8, modulo: 0, interleaved: false })).to.throw();
+    });
+    it("Should decode the bitplanes", function () {
+        // 16x2 pixels, 2 planes with a modulo of 2 bytes
+        const memory = new Uint8Array([
+            0xf0, 0x00, 0xff, 0xff,
+            0x0f, 0x01, 0xff, 0xff,
+            0xff, 0x00, 0xff, 0xff,
+            0x00, 0x80, 0xff, 0xff]);
+        const pixels = BitplaneDecoder.decode(memory, { width: 16, height: 2, depth: 2, modulo: 2, interleaved: false });
+        expect(Array.from(pixels.slice(0, 16))).to.be.eql([3, 3, 3, 3, 2, 2, 2, 2, 0, 0, 0, 0, 0, 0, 0, 0]);
+        expect(Array.from(pixels.slice(16))).to.be.eql([0, 0, 0, 0, 1, 1, 1, 1, 2, 0, 0, 0, 0, 0, 0, 1]);
+        const interleaved = BitplaneDecoder.decode(memory, { width: 16, height: 2, depth: 2, modulo: 6, interleaved: true });
+        expect(Array.from(interleaved.slice(0, 8))).to.be.eql([3, 3, 3, 3, 2, 2, 2, 2]);
+        expect(Array.from(interleaved.slice(16, 24))).to.be.eql([3, 3, 3, 3, 3, 3, 3, 3]);
+    });
+    it("Should read the palettes", function () {
+        expect(BitplaneDecoder.parseColorRegisters("0f000a50")).to.be.eql([[0xff, 0, 0], [0xaa, 0x55, 0]]);
+        const copperPalette = BitplaneDecoder.getCopperPalette(new Map<string, number>([["COLOR01", 0x0a50]]));
+        expect(copperPalette.length).to.be.equal(32);
+        expect(copperPalette.slice(0, 2)).to.be.eql([[0, 0, 0], [0xaa, 0x55, 0]]);
+        const iff = new Uint8Array([
+            0x46, 0x4f, 0x52, 0x4d, 0, 0, 0, 30, 0x49, 0x4c, 0x42, 0x4d,
+            0x42, 0x4d, 0x48, 0x44, 0, 0, 0, 1, 0, 0,
+            0x43, 0x4d, 0x41, 0x50, 0, 0, 0, 6, 0x10, 0x20, 0x30, 0xff, 0xee, 0xdd]);
+        expect(BitplaneDecoder.parseIffPalette(iff)).to.be.eql([[0x10, 0x20, 0x30], [0xff, 0xee, 0xdd]]);
+        expect(() => BitplaneDecoder.parseIffPalette(new Uint8Array(16))).to.throw();
+        const palette = BitplaneDecoder.expandPalette([[0xff, 0xee, 0x00]], 6);
+        expect(palette.length).to.be.equal(64);
+        expect(palette[0]).to.be.eql([0xff, 0xee, 0]);
+        expect(palette[32]).to.be.eql([0x78, 0x70, 0]);
+    });
+});
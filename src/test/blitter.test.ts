@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { BlitterDecoder, BlitterRegisters, BlitterSimulator } from '../blitter';
+
+describe("Blitter Tests", function () {
+    it("Should convert a minterm to a logic expression", function () {
+        expect(BlitterDecoder.mintermToExpression(0xca)).to.be.equal("AB + aC");
+        expect(BlitterDecoder.mintermToExpression(0xf0)).to.be.equal("A");
+        expect(BlitterDecoder.mintermToExpression(0x0f)).to.be.equal("a");
+        expect(BlitterDecoder.mintermToExpression(0x00)).to.be.equal("0");
+        expect(BlitterDecoder.mintermToExpression(0xff)).to.be.equal("1");
+    });
+    it("Should convert a logic expression to a minterm", function () {
+        expect(BlitterDecoder.expressionToMinterm("A&B | ~A&C")).to.be.equal(0xca);
+        expect(BlitterDecoder.expressionToMinterm("AB + aC")).to.be.equal(0xca);
+        expect(BlitterDecoder.expressionToMinterm("A")).to.be.equal(0xf0);
+        expect(BlitterDecoder.expressionToMinterm("!(A | B) ^ C")).to.be.equal(0xa9);
+        expect(BlitterDecoder.expressionToMinterm("A * (B + C)")).to.be.equal(0xe0);
+        expect(BlitterDecoder.expressionToMinterm("1")).to.be.equal(0xff);
+        expect(() => BlitterDecoder.expressionToMinterm("A & D")).to.throw();
+        expect(() => BlitterDecoder.expressionToMinterm("(A | B")).to.throw();
+        for (let minterm = 0; minterm < 256; minterm++) {
+            expect(BlitterDecoder.expressionToMinterm(BlitterDecoder.mintermToExpression(minterm))).to.be.equal(minterm);
+        }
+    });
+    it("Should retrieve the channels used by a minterm", function () {
+        expect(BlitterDecoder.getUseBits(0xca)).to.be.equal(0x0f00);
+        expect(BlitterDecoder.getUseBits(0xf0)).to.be.equal(0x0900);
+        expect(BlitterDecoder.getUseBits(0x00)).to.be.equal(0x0100);
+        expect(BlitterDecoder.getChannels(0x0bfa)).to.be.eql(["A", "C", "D"]);
+    });
+    it("Should read the blitter registers from the source", async function () {
+        const source = [
+            "blit:",
+            "    move.l  #$09f00000,BLTCON0(a6)",
+            "    move.w  #$ffff,BLTAFWM(a6)",
+            ".l: move.w  #-1,$46(a6)",
+            "    clr.w   $dff064",
+            "    move.w  #20,(BLTDMOD).l",
+            "    move.w  #SIZE,BLTSIZE(a6)"].join("\n");
+        const registers = await BlitterRegisters.fromSource(source, async (expression: string) => {
+            if (expression === "SIZE") {
+                return (16 << 6) | 2;
+            }
+            throw new Error("Unknown");
+        });
+        expect(registers.get(0xdff040)).to.be.equal(0x09f0);
+        expect(registers.get(0xdff042)).to.be.equal(0);
+        expect(registers.get(0xdff044)).to.be.equal(0xffff);
+        expect(registers.get(0xdff046)).to.be.equal(0xffff);
+        expect(registers.get(0xdff064)).to.be.equal(0);
+        expect(registers.get(0xdff066)).to.be.equal(20);
+        expect(BlitterDecoder.getSize(registers)).to.be.eql([2, 16]);
+    });
+    it("Should read the blitter registers from the memory", function () {
+        const memory = "09f0" + "0002" + "ffff".repeat(2) + "0".repeat(0x38 * 2 - 16);
+        const registers = BlitterRegisters.fromMemory(memory);
+        expect(BlitterDecoder.getMinterm(registers)).to.be.equal(0xf0);
+        expect(registers.getValue(0xdff042)).to.be.equal(2);
+    });
+    it("Should describe an area blit", function () {
+        const registers = new BlitterRegisters();
+        registers.set(0xdff040, 0x2fca);
+        registers.set(0xdff042, 0x2002);
+        registers.set(0xdff058, (10 << 6) | 3);
+        const items = BlitterDecoder.describe(registers);
+        const values = new Map(items.map(i => [i.name, i.value]));
+        expect(values.get("Mode")).to.be.equal("Area");
+        expect(values.get("Minterm")).to.be.equal("$ca: D = AB + aC");
+        expect(values.get("Channels")).to.be.equal("A B C D");
+        expect(values.get("Size")).to.be.equal("3 words (48 pixels) x 10 lines");
+        expect(values.get("Shifts")).to.be.equal("A 2, B 2 (left)");
+        expect(values.get("Direction")).to.be.equal("Descending");
+    });
+    it("Should describe the register values for the hover", function () {
+        expect(BlitterDecoder.describeRegister("BLTCON0", 0x09f0)).to.contain("A");
+        expect(BlitterDecoder.describeRegister("BLTSIZE", (16 << 6) | 2)).to.contain("16");
+        expect(BlitterDecoder.describeRegister("BLTAMOD", 2)).to.be.undefined;
+    });
+    it("Should preview a copy and a fill", function () {
+        const registers = new BlitterRegisters();
+        registers.set(0xdff040, 0x09f0);
+        registers.set(0xdff042, 0);
+        registers.set(0xdff044, 0xffff);
+        registers.set(0xdff046, 0xffff);
+        registers.set(0xdff058, (8 << 6) | 2);
+        let preview = BlitterSimulator.preview(registers);
+        expect(preview.width).to.be.equal(2);
+        expect(preview.height).to.be.equal(8);
+        expect(preview.result).to.be.eql(preview.sources.get("A"));
+
+        // Inclusive fill of a line with two edges
+        registers.set(0xdff040, 0x01f0);
+        registers.set(0xdff042, 0x000a);
+        registers.set(0xdff074, 0x0810);
+        registers.set(0xdff058, (1 << 6) | 1);
+        preview = BlitterSimulator.preview(registers);
+        expect(preview.result[0][0]).to.be.equal(0x0ff0);
+    });
+});
@@ -0,0 +1,45 @@
+//
+// Tests of the bootblock analyzer
+//
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ADFDisk } from '../adfDisk';
+import { BootBlockAnalyzer, BootBlockIssueSeverity } from '../bootBlockAnalyzer';
+
+describe("Bootblock analyzer", function () {
+    let source: Buffer;
+    let analyzer: BootBlockAnalyzer;
+    before(function () {
+        source = fs.readFileSync(path.join(__dirname, "..", "..", "test_files", "bootblock", "OS13Crop.bb"));
+        analyzer = new BootBlockAnalyzer();
+    });
+    it("Should accept the standard bootblock", function () {
+        expect(analyzer.analyze(source, 0)).to.be.eql([]);
+    });
+    it("Should check the header of the source", function () {
+        const noHeader = source.subarray(12);
+        let issues = analyzer.analyze(noHeader, 0);
+        expect(issues[0].severity).to.be.equal(BootBlockIssueSeverity.ERROR);
+        expect(issues[0].header).to.be.true;
+        expect(issues[0].message).to.contain("'DOS' header");
+        issues = analyzer.analyze(source, ADFDisk.DOSTYPE_FFS);
+        expect(issues.map(i => [i.severity, i.message])).to.be.eql([[BootBlockIssueSeverity.WARNING, "The bootblock declares the DOS\\0 type, the disk type DOS\\1 is used"]]);
+    });
+    it("Should check the size of the code", function () {
+        const large = Buffer.concat([source, Buffer.alloc(1100 - source.length)]);
+        const issues = analyzer.analyze(large, 0);
+        expect(issues.map(i => [i.severity, i.message])).to.be.eql([[BootBlockIssueSeverity.ERROR, "The bootblock code is 1088 bytes long, the maximum is 1012 bytes"]]);
+    });
+    it("Should warn when the code does not jump to the dos.library init", function () {
+        const noDos = Buffer.from(source);
+        noDos.write("xxx", noDos.indexOf("dos.library"), "latin1");
+        let issues = analyzer.analyze(noDos, 0);
+        expect(issues.map(i => [i.severity, i.header])).to.be.eql([[BootBlockIssueSeverity.WARNING, false]]);
+        expect(issues[0].message).to.contain("'dos.library'");
+        const noCall = Buffer.from(source);
+        noCall.writeUInt32BE(0x4e714e71, 16);
+        issues = analyzer.analyze(noCall, 0);
+        expect(issues.map(i => i.message)).to.be.eql(["The bootblock code does not call FindResident to jump to the dos.library init"]);
+    });
+});
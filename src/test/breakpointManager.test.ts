@@ -220,6 +220,53 @@ describe('Breakpoint Manager', () => {
         BreakpointManager.loadStoredDataBreakpoints();
         expect(BreakpointManager.getStoredDataBreakpointsList()).to.be.eql([]);
     });
+    it('should check the hit conditions', function () {
+        expect(BreakpointManager.checkHitCondition("3", 3)).to.be.true;
+        expect(BreakpointManager.checkHitCondition("== 3", 2)).to.be.false;
+        expect(BreakpointManager.checkHitCondition(">2", 3)).to.be.true;
+        expect(BreakpointManager.checkHitCondition(">= 4", 3)).to.be.false;
+        expect(BreakpointManager.checkHitCondition("<2", 1)).to.be.true;
+        expect(BreakpointManager.checkHitCondition("<=2", 3)).to.be.false;
+        expect(BreakpointManager.checkHitCondition("%2", 4)).to.be.true;
+        expect(BreakpointManager.checkHitCondition("%2", 3)).to.be.false;
+        expect(() => BreakpointManager.checkHitCondition("two", 3)).to.throw();
+    });
+    it('should stop on a conditional breakpoint', async function () {
+        const source = <DebugProtocol.Source>{ path: SOURCE_PATH };
+        const bp = bpManager.createBreakpoint(source, 1, "d0 == 1", ">1");
+        expect(BreakpointManager.isConditional(bp)).to.be.true;
+        expect(BreakpointManager.isConditional(bpManager.createBreakpoint(source, 1))).to.be.false;
+        let conditionValue = false;
+        const evaluator = () => Promise.resolve(conditionValue);
+        await expect(bpManager.shouldStopOnBreakpoint(bp, evaluator)).to.eventually.be.false;
+        expect(bp.hitCount).to.be.equal(0);
+        conditionValue = true;
+        await expect(bpManager.shouldStopOnBreakpoint(bp, evaluator)).to.eventually.be.false;
+        expect(bp.hitCount).to.be.equal(1);
+        await expect(bpManager.shouldStopOnBreakpoint(bp, evaluator)).to.eventually.be.true;
+        expect(bp.hitCount).to.be.equal(2);
+    });
+    it('should create a logpoint', function () {
+        const source = <DebugProtocol.Source>{ path: SOURCE_PATH };
+        const bp = bpManager.createBreakpoint(source, 1, undefined, undefined, "frame={d7}");
+        expect(BreakpointManager.isLogpoint(bp)).to.be.true;
+        expect(BreakpointManager.isConditional(bp)).to.be.false;
+        expect(BreakpointManager.isLogpoint(bpManager.createBreakpoint(source, 1))).to.be.false;
+    });
+    it('should retrieve the breakpoints at an address', async function () {
+        const source = <DebugProtocol.Source>{ path: SOURCE_PATH };
+        const bp = bpManager.createBreakpoint(source, 1, "d0 == 1");
+        bpManager.setDebugInfo(instance(mockedDebugInfo));
+        when(mockedDebugInfo.getAddressSeg(SOURCE_PATH, 1)).thenResolve([0, 4]);
+        when(mockedGdbProxy.setBreakpoint(anything())).thenResolve();
+        when(mockedGdbProxy.toRelativeOffset(0x104)).thenReturn([0, 4]);
+        when(mockedGdbProxy.toRelativeOffset(0x108)).thenReturn([0, 8]);
+        expect(bpManager.hasBreakpointsToEvaluate()).to.be.false;
+        await bpManager.setBreakpoint(bp);
+        expect(bpManager.hasBreakpointsToEvaluate()).to.be.true;
+        expect(bpManager.getBreakpointsAtAddress(0x104)).to.be.eql([bp]);
+        expect(bpManager.getBreakpointsAtAddress(0x108)).to.be.eql([]);
+    });
     it('should parse the data ID', async function () {
         expect(bpManager.parseDataIdAddress("myvar(0xb)")).to.be.eql(["myvar", "0xb", 11]);
         expect(bpManager.parseDataIdAddress("myvar(10)")).to.be.eql(["myvar", "10", 10]);
@@ -50,6 +50,18 @@ describe("Calc Tests", function () {
         expect(c.formatResult(null, 2145)).to.be.equal("#2145/$861/%100001100001");
         expect(c.formatResult("$1000+$100", 4352)).to.be.equal("#4352/$1100/%1000100000000");
     });
+    it("Should calculate a minterm", async function () {
+        const c = new CalcComponent();
+        await expect(c.calculateMinterm("A&B | ~A&C")).to.be.eventually.eql([0x0fca, "LF $ca, BLTCON0 $0fca (channels A B C D)"]);
+        await expect(c.calculateMinterm("$f0")).to.be.eventually.eql([0xf0, "LF $f0: D = A"]);
+        await expect(c.calculateMinterm("$09f0")).to.be.eventually.eql([0x09f0, "BLTCON0 $09f0: Channels A D, shift A 0, minterm $f0: D = A"]);
+    });
+    it("Should convert between notes, frequencies and Paula periods", async function () {
+        const c = new CalcComponent();
+        await expect(c.calculatePaula("C-2")).to.be.eventually.eql([428, "C-2: period 428, PAL 8287 Hz, NTSC 8363 Hz"]);
+        await expect(c.calculatePaula("8287 Hz")).to.be.eventually.eql([428, "8287 Hz: period PAL 428, NTSC 432 (C-2)"]);
+        await expect(c.calculatePaula("$1ac")).to.be.eventually.eql([428, "Period 428: PAL 8287 Hz, NTSC 8363 Hz (C-2)"]);
+    });
     it("Should calculate an expression with variables", async function () {
         const c = new CalcComponent();
         await expect(c.calculate("#(BPLSIZE+COPPER_WAIT)/2")).to.be.eventually.equal(((320 * 256 / 8) + 0xFFFE) / 2);
@@ -0,0 +1,127 @@
+import { expect } from 'chai';
+import { ConditionalAssembly, ConditionalDirective, ConditionEvaluator } from '../conditionalAssembly';
+import { DummyTextDocument } from './dummy';
+
+describe("Conditional assembly Tests", function () {
+    const values = new Map<string, number>([["DEBUG", 1], ["CHIPSET", 2], ["ZERO", 0]]);
+    const evaluator: ConditionEvaluator = {
+        isDefined: (name: string) => values.has(name),
+        evaluate: async (expression: string) => {
+            const value = values.get(expression);
+            if (value !== undefined) {
+                return value;
+            } else if (/^\d+$/.test(expression)) {
+                return parseInt(expression);
+            }
+            throw new Error(`Formula '${expression}' can't be evaluated`);
+        }
+    };
+    function parse(lines: Array<string>): Array<ConditionalDirective> {
+        const directives = new Array<ConditionalDirective>();
+        lines.forEach((line, i) => {
+            const directive = ConditionalAssembly.parseDirective(line, i);
+            if (directive) {
+                directives.push(directive);
+            }
+        });
+        return directives;
+    }
+    async function getInactiveLines(lines: Array<string>): Promise<Array<Array<number>>> {
+        const ranges = await ConditionalAssembly.getInactiveRanges(parse(lines), evaluator, lines.length - 1);
+        return ranges.map(r => [r.start.line, r.end.line]);
+    }
+    it("Should parse the directives", function () {
+        expect(ConditionalAssembly.parseDirective("    IFD DEBUG ; debug build", 3)).to.be.eql({ line: 3, directive: "ifd", condition: "DEBUG" });
+        expect(ConditionalAssembly.parseDirective("IFEQ CHIPSET - 1", 0)).to.be.eql({ line: 0, directive: "ifeq", condition: "CHIPSET - 1" });
+        expect(ConditionalAssembly.parseDirective("label: else", 0)).to.be.eql({ line: 0, directive: "else", condition: "" });
+        expect(ConditionalAssembly.parseDirective("\tENDC", 1)).to.be.eql({ line: 1, directive: "endc", condition: "" });
+        expect(ConditionalAssembly.parseDirective("    move.l  d0,d1 ; if", 0)).to.be.undefined;
+        expect(ConditionalAssembly.parseDirective("* if it is set", 0)).to.be.undefined;
+    });
+    it("Should evaluate the conditions", async function () {
+        expect(await ConditionalAssembly.evaluateCondition({ line: 0, directive: "ifnd", condition: "DEBUG" }, evaluator)).to.be.false;
+        expect(await ConditionalAssembly.evaluateCondition({ line: 0, directive: "ifeq", condition: "ZERO" }, evaluator)).to.be.true;
+        expect(await ConditionalAssembly.evaluateCondition({ line: 0, directive: "ifne", condition: "ZERO" }, evaluator)).to.be.false;
+        expect(await ConditionalAssembly.evaluateCondition({ line: 0, directive: "if", condition: "CHIPSET>=2" }, evaluator)).to.be.true;
+        expect(await ConditionalAssembly.evaluateCondition({ line: 0, directive: "if", condition: "CHIPSET = 1" }, evaluator)).to.be.false;
+        expect(await ConditionalAssembly.evaluateCondition({ line: 0, directive: "if", condition: "UNKNOWN" }, evaluator)).to.be.undefined;
+        expect(await ConditionalAssembly.evaluateCondition({ line: 0, directive: "ifc", condition: "'a','a'" }, evaluator)).to.be.undefined;
+        expect(await ConditionalAssembly.evaluateCondition({ line: 0, directive: "ifmacrod", condition: "DEBUG" }, evaluator)).to.be.undefined;
+    });
+    it("Should compute the inactive ranges", async function () {
+        expect(await getInactiveLines([
+            "    IFD DEBUG",
+            "    bsr  log",
+            "    ELSE",
+            "    nop",
+            "    nop",
+            "    ENDC"])).to.be.eql([[3, 4]]);
+        // Nested blocks in an inactive branch are ignored
+        expect(await getInactiveLines([
+            "    IFEQ DEBUG",
+            "    IFD CHIPSET",
+            "    nop",
+            "    ELSE",
+            "    nop",
+            "    ENDC",
+            "    ELSEIF CHIPSET=2",
+            "aga:",
+            "    ELSE",
+            "ocs:",
+            "    ENDC"])).to.be.eql([[1, 5], [9, 9]]);
+        // The blocks with unknown conditions are considered as assembled
+        expect(await getInactiveLines([
+            "    IF UNKNOWN",
+            "    nop",
+            "    IFNE ZERO",
+            "    nop",
+            "    ELSE",
+            "    nop",
+            "    ENDC",
+            "    ELSE",
+            "    nop",
+            "    ENDC"])).to.be.eql([[3, 3]]);
+        // The macro and parameters conditions are unknown: their ENDC closes their own block
+        expect(await getInactiveLines([
+            "    IFD DEBUG",
+            "    IFMACROND X",
+            "X   macro",
+            "    endm",
+            "    ENDC",
+            "    nop",
+            "    ELSE",
+            "    IFNB \\1",
+            "    nop",
+            "    ENDC",
+            "    ENDC"])).to.be.eql([[7, 9]]);
+        // Only the definitions of the preceding assembled lines are visible
+        const definitionLines = new Map<string, number>([["LATE", 6], ["INACTIVE", 1]]);
+        const orderEvaluator: ConditionEvaluator = {
+            isDefined: (name: string, isVisible: (line: number) => boolean) => definitionLines.has(name) && isVisible(definitionLines.get(name) as number),
+            evaluate: evaluator.evaluate
+        };
+        const lines = [
+            "    IFD LATE",
+            "INACTIVE = 1",
+            "    ENDC",
+            "    IFD INACTIVE",
+            "    nop",
+            "    ENDC",
+            "LATE = 1",
+            "    IFD LATE",
+            "    nop",
+            "    ENDC"];
+        const ranges = await ConditionalAssembly.getInactiveRanges(parse(lines), orderEvaluator, lines.length - 1);
+        expect(ranges.map(r => [r.start.line, r.end.line])).to.be.eql([[1, 1], [4, 4]]);
+        // Unterminated block
+        expect(await getInactiveLines(["    IFND DEBUG", "    nop", "    nop"])).to.be.eql([[1, 2]]);
+    });
+    it("Should compute the indentation folding ranges", function () {
+        const document = new DummyTextDocument();
+        for (const line of ["; header", "start:", "    nop", "", "    rts", "", "data:", "    dc.w 0", "end:"]) {
+            document.addLine(line);
+        }
+        const ranges = ConditionalAssembly.getIndentationFoldingRanges(document);
+        expect(ranges.map(r => [r.start, r.end])).to.be.eql([[1, 4], [6, 7]]);
+    });
+});
@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import { CopperAssembler } from '../copperAssembler';
+import { CopperDisassembler, CopperMove, CopperSkip, CopperWait } from '../copperDisassembler';
+
+describe("Copper Assembler Tests", function () {
+    const assembler = new CopperAssembler();
+    it("Should assemble the disassembled instructions", function () {
+        const memory = "018005023fd37ffe9601ff006401ff0100e00001fffffffe";
+        const source = new CopperDisassembler(memory).toString();
+        const instructions = assembler.assemble(source);
+        expect(assembler.toBinary(instructions).toString("hex")).to.be.equal(memory);
+        expect(assembler.toSource(instructions, "")).to.be.equal(source);
+    });
+    it("Should assemble the symbolic instructions", function () {
+        const instructions = assembler.assemble([
+            "copper:",
+            "    MOVE COLOR00,$0fff",
+            "    move $dff182,0x0f00",
+            "    CMOVE bpl1pth,1",
+            "    WAIT $2c/$d2",
+            "    WAIT 150,0 BLIT",
+            "    SKIP $64/$00 MASK $0f/$fe",
+            "* comment",
+            "    END ; end of list"].join("\n"));
+        expect(assembler.toBinary(instructions).toString("hex")).to.be.equal("01800fff01820f0000e000012cd3fffe96017ffe64018ffffffffffe");
+        expect(instructions[0] instanceof CopperMove).to.be.true;
+        expect(instructions[3] instanceof CopperWait).to.be.true;
+        expect(instructions[5] instanceof CopperSkip).to.be.true;
+        expect(instructions.map(i => i.getSymbolicInstruction())).to.be.eql([
+            "MOVE COLOR00,$0fff",
+            "MOVE COLOR01,$0f00",
+            "MOVE BPL1PTH,$0001",
+            "WAIT $2c/$d2",
+            "WAIT $96/$00 BLIT",
+            "SKIP $64/$00 MASK $0f/$fe",
+            "END"]);
+    });
+    it("Should reject invalid instructions", function () {
+        expect(() => assembler.assemble("    MOVE $181,$0")).to.throw("Line 1: Invalid copper register '$181'");
+        expect(() => assembler.assemble("\n    MOVE UNKNOWN,$0")).to.throw("Line 2: Invalid value 'UNKNOWN'");
+        expect(() => assembler.assemble("    WAIT $2c/$d3")).to.throw("The horizontal position must be even");
+        expect(() => assembler.assemble("    WAIT $12c/$d2")).to.throw("out of range");
+        expect(() => assembler.assemble("    dc.w $0180")).to.throw("two words");
+        expect(() => assembler.assemble("    JUMP $0")).to.throw("Invalid copper instruction 'JUMP $0'");
+    });
+    it("Should reject the registers protected from the copper", function () {
+        expect(() => assembler.assemble("    MOVE COPCON,$2")).to.throw("The copper cannot write the register 'COPCON'");
+        expect(() => assembler.assemble("    MOVE BLTCON0,$09f0")).to.throw("The copper writes the register 'BLTCON0' only with the danger bit (CDANG of COPCON)");
+        const dangerousAssembler = new CopperAssembler(true);
+        expect(dangerousAssembler.toBinary(dangerousAssembler.assemble("    MOVE BLTCON0,$09f0")).toString("hex")).to.be.equal("004009f0");
+        expect(() => dangerousAssembler.assemble("    MOVE $03e,$0")).to.throw("The copper cannot write the register '$03e'");
+    });
+    it("Should toggle a copper list source", function () {
+        const source = [
+            "copper: dc.w $0180,$0fff,$2cd3,$fffe",
+            "\t; the end",
+            "\tdc.w $ffff,$fffe"].join("\n");
+        const symbolic = assembler.toggleSource(source);
+        expect(symbolic).to.be.equal([
+            "copper: MOVE COLOR00,$0fff",
+            "        WAIT $2c/$d2",
+            "\t; the end",
+            "\tEND"].join("\n"));
+        expect(assembler.toggleSource(symbolic)).to.be.equal([
+            "copper: dc.w $0180,$0fff    ; COLOR00 := $0fff",
+            "        dc.w $2cd3,$fffe    ; Wait for vpos >= 0x2c and hpos >= 0xd2",
+            "\t; the end",
+            "\tdc.w $ffff,$fffe    ; End of CopperList"].join("\n"));
+        // selection without the indentation
+        expect(assembler.toggleSource("WAIT $2c/$d2")).to.be.equal("dc.w $2cd3,$fffe    ; Wait for vpos >= 0x2c and hpos >= 0xd2");
+    });
+});
@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import { CopperAssembler } from '../copperAssembler';
+import { CopperTimeline, CopperTimelinePanel } from '../copperTimeline';
+import { DebugVariableResolver } from '../debugVariableResolver';
+
+describe("Copper timeline Tests", function () {
+    const source = [
+        "    MOVE DMACON,$0020",
+        "    MOVE COLOR00,$0000",
+        "    WAIT $2c/$00",
+        "    MOVE COLOR00,$0f00",
+        "    MOVE COLOR01,$00f0",
+        "    WAIT $40/$00 BLIT",
+        "    SKIP $50/$00",
+        "    MOVE COLOR00,$0000",
+        "    WAIT $ff/$de",
+        "    WAIT $10/$00",
+        "    MOVE $1fe,$0000",
+        "    END",
+        "    MOVE COLOR00,$0fff"].join("\n");
+    it("Should group the moves by wait position", function () {
+        const events = CopperTimeline.build(new CopperAssembler().assemble(source));
+        expect(events.map(e => [e.index, e.vertical, e.horizontal, e.blitter, e.skips.length])).to.be.eql([
+            [-1, 0, 0, false, 0],
+            [2, 0x2c, 0, false, 0],
+            [5, 0x40, 0, true, 1],
+            [8, 0xff, 0xde, false, 0],
+            [9, 0x110, 0, false, 0]
+        ]);
+        expect(events[0].moves).to.be.eql([{ register: "DMACON", value: 0x20 }, { register: "COLOR00", value: 0, color: "#000" }]);
+        expect(events[1].moves).to.be.eql([{ register: "COLOR00", value: 0xf00, color: "#f00" }, { register: "COLOR01", value: 0xf0, color: "#0f0" }]);
+        expect(events[4].moves).to.be.eql([{ register: "NO-OP(NULL)", value: 0 }]);
+    });
+    it("Should render the raster and the register changes", function () {
+        const events = CopperTimeline.build(new CopperAssembler().assemble(source));
+        const raster = CopperTimeline.renderRaster(events);
+        expect(raster).to.contain('<rect class="band" x="0" y="0" width="227" height="44" fill="#000"/>');
+        expect(raster).to.contain('<rect class="band" x="0" y="44" width="227" height="20" fill="#f00"/>');
+        expect(raster).to.contain('<rect class="band" x="0" y="64" width="227" height="249" fill="#000"/>');
+        expect(raster.match(/<circle class="wait"/g)?.length).to.be.equal(4);
+        const table = CopperTimeline.renderTable(events);
+        expect(table).to.contain("<td>Start</td>");
+        expect(table).to.contain("line 64 ($40) / hpos $0 + blitter");
+        expect(table).to.contain('COLOR01 := $00f0 <svg class="swatch" width="12" height="12"><rect width="12" height="12" fill="#0f0" stroke="#888"/></svg>');
+        expect(table).to.contain("SKIP if $50/$0");
+    });
+    it("Should retrieve the registers set by the copper list", function () {
+        const values = CopperTimeline.getRegisterValues(new CopperAssembler().assemble(source));
+        expect(values.get("COLOR00")).to.be.equal(0);
+        expect(values.get("COLOR01")).to.be.equal(0xf0);
+        const pointers = CopperTimeline.getRegisterValues(new CopperAssembler().assemble("    MOVE BPL1PTH,$0002\n    MOVE BPL1PTL,$1000\n    MOVE SPR0PTL,$0020"));
+        expect(CopperTimeline.getPointer(pointers, "BPL1PT")).to.be.equal(0x21000);
+        expect(CopperTimeline.getPointer(pointers, "SPR0PT")).to.be.equal(0x20);
+        expect(CopperTimeline.getPointer(pointers, "BPL2PT")).to.be.undefined;
+    });
+    it("Should read a copper list in memory", async function () {
+        const memory = "01800f00" + "2c01fffe".repeat(300) + "fffffffe" + "01800000";
+        const resolver = <DebugVariableResolver>{
+            getMemory: async (address: number, size: number): Promise<string> => {
+                return memory.substring((address - 0x1000) * 2, (address - 0x1000 + size) * 2).padEnd(size * 2, "0");
+            }
+        };
+        const instructions = await CopperTimelinePanel.readCopperList(0x1000, resolver);
+        expect(instructions.length).to.be.equal(302);
+        expect(instructions[301].first).to.be.equal(0xffff);
+    });
+});
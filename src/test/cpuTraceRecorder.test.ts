@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import { mock, instance, when, anything, verify, reset } from '@johanblumenberg/ts-mockito';
+import { CpuTraceRecorder, ResumeMode, UncapturedMemoryReason } from '../cpuTraceRecorder';
+import { GdbProxy } from '../gdbProxy';
+import { GdbRegister } from '../gdbProxyCore';
+import { Capstone } from '../capstone';
+chai.use(chaiAsPromised);
+
+describe('Cpu trace recorder', () => {
+    const registers: Array<GdbRegister> = [
+        { name: "pc", value: 0x1000 },
+        { name: "d0", value: 0x10002 },
+        { name: "a1", value: 0x2000 },
+        { name: "a7", value: 0x8000 },
+        { name: "sr", value: 0x2000 },
+        { name: "SR_T1", value: 0 },
+    ];
+    let mockedGdbProxy: GdbProxy;
+    let mockedCapstone: Capstone;
+    beforeEach(function () {
+        mockedGdbProxy = mock(GdbProxy);
+        mockedCapstone = mock(Capstone);
+    });
+    afterEach(function () {
+        reset(mockedGdbProxy);
+        reset(mockedCapstone);
+    });
+    it('should find the memory written by an instruction', function () {
+        expect(CpuTraceRecorder.getMemoryWrite("move.l    d0, (a1)", registers)).to.be.eql([0x2000, 4]);
+        expect(CpuTraceRecorder.getMemoryWrite("move.w    d0, $10(a1)", registers)).to.be.eql([0x2010, 2]);
+        expect(CpuTraceRecorder.getMemoryWrite("move.w    d0, -$10(a1)", registers)).to.be.eql([0x1ff0, 2]);
+        expect(CpuTraceRecorder.getMemoryWrite("move.b    d0, $4(a1,d0.w)", registers)).to.be.eql([0x2006, 1]);
+        expect(CpuTraceRecorder.getMemoryWrite("move.l    d0, -(a1)", registers)).to.be.eql([0x1ffc, 4]);
+        expect(CpuTraceRecorder.getMemoryWrite("clr.w     $dff180.l", registers)).to.be.eql([0xdff180, 2]);
+        expect(CpuTraceRecorder.getMemoryWrite("movem.l   d0-d7/a0-a6, -(a7)", registers)).to.be.eql([0x8000 - 60, 60]);
+        expect(CpuTraceRecorder.getMemoryWrite("jsr       (a1)", registers)).to.be.eql([0x7ffc, 4]);
+        expect(CpuTraceRecorder.getMemoryWrite("link.w    a5, #-$8", registers)).to.be.eql([0x7ffc, 4]);
+        expect(CpuTraceRecorder.getMemoryWrite("move.l    (a1), d0", registers)).to.be.undefined;
+        expect(CpuTraceRecorder.getMemoryWrite("movem.l   (a7)+, d0-d7", registers)).to.be.undefined;
+        expect(CpuTraceRecorder.getMemoryWrite("cmp.l     d0, (a1)", registers)).to.be.undefined;
+        expect(CpuTraceRecorder.getMemoryWrite("rts", registers)).to.be.undefined;
+        expect(CpuTraceRecorder.getMemoryWrite("fmove.x   fp0, (a1)", registers)).to.be.eql([0x2000, 12]);
+        expect(CpuTraceRecorder.getMemoryWrite("fmove.d   fp0, -(a1)", registers)).to.be.eql([0x1ff8, 8]);
+        expect(CpuTraceRecorder.getMemoryWrite("fmove.s   fp0, (a1)", registers)).to.be.eql([0x2000, 4]);
+        expect(CpuTraceRecorder.getMemoryWrite("fmove.p   fp0, (a1)", registers)).to.be.eql([0x2000, 12]);
+    });
+    it('should not record if disabled', async function () {
+        const recorder = new CpuTraceRecorder(instance(mockedGdbProxy));
+        await expect(recorder.record()).to.eventually.be.undefined;
+        expect(recorder.getHistoryLength()).to.be.equal(0);
+    });
+    it('should record and restore the cpu states', async function () {
+        when(mockedGdbProxy.registers(null, null)).thenResolve(registers);
+        when(mockedGdbProxy.getMemory(0x1000, 10)).thenResolve("22c0");
+        when(mockedGdbProxy.getMemory(0x2000, 4)).thenResolve("0000cafe");
+        when(mockedGdbProxy.setMemory(anything(), anything())).thenResolve();
+        when(mockedGdbProxy.setRegister(anything(), anything())).thenResolve("");
+        when(mockedCapstone.disassemble("22c0")).thenResolve("0  22 c0  move.l\td0, (a1)+");
+        const recorder = new CpuTraceRecorder(instance(mockedGdbProxy), 2);
+        recorder.setCapstone(instance(mockedCapstone));
+        recorder.setEnabled(true);
+        const snapshot = await recorder.record();
+        expect(snapshot?.registers.length).to.be.equal(5);
+        expect(snapshot?.memoryWrites).to.be.eql([{ address: 0x2000, previousValue: "0000cafe" }]);
+        await recorder.record();
+        await recorder.record();
+        // ring buffer size
+        expect(recorder.getHistoryLength()).to.be.equal(2);
+        const restored = await recorder.stepBack();
+        expect(restored?.registers.length).to.be.equal(5);
+        verify(mockedGdbProxy.setMemory(0x2000, "0000cafe")).once();
+        verify(mockedGdbProxy.setRegister("pc", "1000")).once();
+        verify(mockedGdbProxy.setRegister("d0", "10002")).once();
+        expect(recorder.getHistoryLength()).to.be.equal(1);
+        await recorder.stepBack();
+        await expect(recorder.stepBack()).to.eventually.be.undefined;
+        recorder.setEnabled(false);
+        expect(recorder.getHistoryLength()).to.be.equal(0);
+    });
+    it('should mark the uncaptured memory of a continue or of a step over a call', async function () {
+        when(mockedGdbProxy.registers(null, null)).thenResolve(registers);
+        when(mockedGdbProxy.getMemory(0x1000, 10)).thenResolve("4e91");
+        when(mockedCapstone.disassemble("4e91")).thenResolve("0  4e 91  jsr\t(a1)");
+        when(mockedGdbProxy.getMemory(0x7ffc, 4)).thenResolve("00000000");
+        when(mockedGdbProxy.setMemory(anything(), anything())).thenResolve();
+        when(mockedGdbProxy.setRegister(anything(), anything())).thenResolve("");
+        const recorder = new CpuTraceRecorder(instance(mockedGdbProxy));
+        recorder.setCapstone(instance(mockedCapstone));
+        recorder.setEnabled(true);
+        let snapshot = await recorder.record(ResumeMode.STEP);
+        expect(snapshot?.uncapturedMemory).to.be.undefined;
+        snapshot = await recorder.record(ResumeMode.CONTINUE);
+        expect(snapshot?.uncapturedMemory).to.be.equal(UncapturedMemoryReason.CONTINUE);
+        // Stepping over a call executes the subroutine
+        snapshot = await recorder.record(ResumeMode.STEP_OVER);
+        expect(snapshot?.uncapturedMemory).to.be.equal(UncapturedMemoryReason.SUBROUTINE);
+        expect(snapshot?.memoryWrites).to.be.eql([{ address: 0x7ffc, previousValue: "00000000" }]);
+        // The history is kept
+        expect(recorder.getHistoryLength()).to.be.equal(3);
+        await expect(recorder.stepBack()).to.eventually.have.property("uncapturedMemory", UncapturedMemoryReason.SUBROUTINE);
+        await expect(recorder.stepBack()).to.eventually.have.property("uncapturedMemory", UncapturedMemoryReason.CONTINUE);
+        expect(recorder.getHistoryLength()).to.be.equal(1);
+    });
+});
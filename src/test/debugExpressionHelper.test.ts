@@ -48,6 +48,38 @@ describe("debug expression helper Tests", function () {
             expect(helper.getAddressFromExpression("${pc} + $a + BPLSIZE", 1, variableResolver)).to.eventually.be.equal(0xf + 0xa + (256 * 320) / 8)
         ]);
     });
+    it("Should evaluate a breakpoint condition", function () {
+        const helper = new DebugExpressionHelper();
+        const mockedVariableResolver = mock(DummyVariableResolver);
+        when(mockedVariableResolver.getVariableValue("d0", 1)).thenResolve("0x00000010");
+        when(mockedVariableResolver.getVariableValue("d1", 1)).thenResolve("0x00000002");
+        when(mockedVariableResolver.getVariablePointedMemory("a1", 1)).thenResolve("00000008");
+        const variableResolver = instance(mockedVariableResolver);
+        return Promise.all([
+            expect(helper.evaluateCondition("d0 == $10", 1, variableResolver)).to.eventually.be.true,
+            expect(helper.evaluateCondition("d0 != $10", 1, variableResolver)).to.eventually.be.false,
+            expect(helper.evaluateCondition("d0 == $10 && (a1) > 4", 1, variableResolver)).to.eventually.be.true,
+            expect(helper.evaluateCondition("d0 == $11 || (a1) <= 4", 1, variableResolver)).to.eventually.be.false,
+            expect(helper.evaluateCondition("(d0 == $11 || d1 << 2 >= 8) && !(d1 > 2)", 1, variableResolver)).to.eventually.be.true,
+            expect(helper.evaluateCondition("d1 - 2", 1, variableResolver)).to.eventually.be.false,
+            expect(helper.evaluateCondition("", 1, variableResolver)).to.be.rejected
+        ]);
+    });
+    it("Should interpolate a logpoint message", function () {
+        const helper = new DebugExpressionHelper();
+        const mockedVariableResolver = mock(DummyVariableResolver);
+        when(mockedVariableResolver.getVariableValue("d7", 1)).thenResolve("0x0000002a");
+        when(mockedVariableResolver.getMemory(0x10, 1)).thenReject(Error("No"));
+        when(mockedVariableResolver.getMemory(0xdff080, 4)).thenResolve("00c01234");
+        when(mockedVariableResolver.getMemory(0xdff080, 2)).thenResolve("00c0");
+        const variableResolver = instance(mockedVariableResolver);
+        return Promise.all([
+            expect(helper.interpolateLogMessage("frame={d7} copper={$dff080.l}", 1, variableResolver)).to.eventually.be.equal("frame=$2a copper=$00c01234"),
+            expect(helper.interpolateLogMessage("{$dff080.w}!", 1, variableResolver)).to.eventually.be.equal("$00c0!"),
+            expect(helper.interpolateLogMessage("no value", 1, variableResolver)).to.eventually.be.equal("no value"),
+            expect(helper.interpolateLogMessage("v={$10.b}", 1, variableResolver)).to.eventually.be.equal("v=<No>")
+        ]);
+    });
     it("Should process a memory dump", function () {
         const helper = new DebugExpressionHelper();
         let memory = "aa0000";
@@ -94,6 +94,51 @@ describe("Definition handler Tests", function () {
             });
         });
     });
+    context("conditional assembly", function () {
+        const SOURCE = Path.join(__dirname, '..', '..', 'test_files', 'conditional.s');
+        const dHnd = new M68kDefinitionHandler();
+        before(async function () {
+            await dHnd.scanFile(Uri.file(SOURCE));
+        });
+        it("Should exclude the symbols of the inactive blocks", function () {
+            expect(dHnd.getLabelByName("debug_log")).to.not.be.undefined;
+            expect(dHnd.getLabelByName("release_log")).to.be.undefined;
+            expect(dHnd.getVariableValue("BPLCON3_VALUE")).to.be.equal("0");
+            expect(dHnd.getLabelByName("early")).to.not.be.undefined;
+            expect(dHnd.getVariableValue("UNUSED")).to.be.undefined;
+            expect(dHnd.getLabelByName("unused_label")).to.be.undefined;
+        });
+        it("Should retrieve the inactive ranges", async function () {
+            const document = await workspace.openTextDocument(Uri.file(SOURCE));
+            const ranges = await dHnd.getInactiveRanges(document);
+            expect(ranges.map(r => [r.start.line, r.end.line])).to.be.eql([[9, 10], [15, 15], [23, 23], [26, 26]]);
+        });
+    });
+    context("symbols changes", function () {
+        it("Should notify the changes of the symbols", async function () {
+            const dHnd = new M68kDefinitionHandler();
+            const changes = new Array<string>();
+            dHnd.onDidChangeSymbols(uri => changes.push(uri.toString()));
+            const document = new DummyTextDocument();
+            document.addLine("start:");
+            await dHnd.scanFile(document.uri, document);
+            await dHnd.scanFile(document.uri, document);
+            expect(changes).to.be.eql([document.uri.toString()]);
+            document.addLine("end:");
+            await dHnd.scanFile(document.uri, document);
+            expect(changes.length).to.be.equal(2);
+        });
+        it("Should detect the missing included files", async function () {
+            const dHnd = new M68kDefinitionHandler();
+            const document = new DummyTextDocument();
+            document.addLine("start:");
+            await dHnd.scanFile(document.uri, document);
+            expect(dHnd.hasUnresolvedIncludes(document.uri)).to.be.false;
+            document.addLine(" include \"missing/unknown.i\"");
+            await dHnd.scanFile(document.uri, document);
+            expect(dHnd.hasUnresolvedIncludes(document.uri)).to.be.true;
+        });
+    });
     context("Functions", function () {
         const dHnd = new M68kDefinitionHandler();
         it("Should find used registers", async () => {
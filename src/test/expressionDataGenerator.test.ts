@@ -1,8 +1,13 @@
 // The module 'chai' provides assertion methods from node
 import { expect } from 'chai';
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
 import { ExpressionDataGenerator, ExpressionDataVariable, OutputDataType, ExpressionDataGeneratorSerializer, DataGeneratorCodeLensProvider } from '../expressionDataGenerator';
 import { Uri, Position, window, CancellationTokenSource, commands } from "vscode";
 import { fail } from 'assert';
+import * as Path from 'path';
+
+chai.use(chaiAsPromised);
 
 describe("Expression data generator", function () {
     it("should generate a line expression data", function () {
@@ -184,6 +189,89 @@ describe("Expression data generator", function () {
         const output = serializer.print(result);
         expect(comment).to.be.equal(output);
     });
+    it("should generate nested loops of variables", function () {
+        const expDGen = new ExpressionDataGenerator("y*10+x", [new ExpressionDataVariable("y", 0, 2, 1), new ExpressionDataVariable("x", 3, 1, -1)]);
+        expect(expDGen.evalRows()).to.be.eql([[3, 2, 1], [13, 12, 11], [23, 22, 21]]);
+        expect(expDGen.eval()).to.be.eql([3, 2, 1, 13, 12, 11, 23, 22, 21]);
+        expDGen.setOutputDataType(OutputDataType.BYTE);
+        expDGen.setValuesPerLine(2);
+        expDGen.setSplitRows(true);
+        expDGen.setLabel("table");
+        expect(expDGen.evalString()).to.be.equal("table:\ndc.b 3, 2\ndc.b 1\ndc.b 13, 12\ndc.b 11\ndc.b 23, 22\ndc.b 21");
+    });
+    it("should evaluate the math helpers", function () {
+        const expVar = new ExpressionDataVariable("x", 0, 3, 1);
+        expect(new ExpressionDataGenerator("clamp(x*2, 1, 5)", expVar).eval()).to.be.eql([1, 2, 4, 5]);
+        expect(new ExpressionDataGenerator("fix(x/4, 8)", expVar).eval()).to.be.eql([0, 64, 128, 192]);
+        expect(new ExpressionDataGenerator("fsin(x*pi/2, 14)", expVar).eval()).to.be.eql([0, 16384, 0, -16384]);
+        expect(new ExpressionDataGenerator("fcos(x*pi/2, 14)", expVar).eval()).to.be.eql([16384, 0, -16384, 0]);
+        // Fibonacci from previous values
+        expect(new ExpressionDataGenerator("max(prev(1) + prev(2), 1)", new ExpressionDataVariable("x", 0, 5, 1)).eval()).to.be.eql([1, 1, 2, 3, 5, 8]);
+        expect(new ExpressionDataGenerator("prev(1) + x", expVar).eval()).to.be.eql([0, 1, 3, 6]);
+    });
+    it("should parse and print a multiple variables data generator", function () {
+        const serializer = new ExpressionDataGeneratorSerializer();
+        const expDGen = new ExpressionDataGenerator("x+y", [new ExpressionDataVariable("y", 0, 1, 1), new ExpressionDataVariable("x", 0, 2, 1)]);
+        expDGen.setLabel("zoom");
+        expDGen.setSplitRows(true);
+        const output = serializer.print(expDGen);
+        expect(output).to.contain(`;${ExpressionDataGeneratorSerializer.EXPRESSION_KEYWORD}(y, x as variables): x+y\n`);
+        expect(output).to.contain(" zoom:\n dc.w 0, 1, 2\n dc.w 1, 2, 3\n");
+        const result = serializer.parse(output);
+        expect(result.variables.map(v => v.name)).to.be.eql(["y", "x"]);
+        expect(result.variables[1].endValue).to.be.equal(2);
+        expect(result.label).to.be.equal("zoom");
+        expect(result.splitRows).to.be.true;
+        expect(serializer.print(result)).to.be.equal(output);
+    });
+    it("should generate data from a script", async function () {
+        const rootDir = Uri.file(Path.join(__dirname, '..', '..', 'test_files'));
+        const expDGen = new ExpressionDataGenerator("", []);
+        expDGen.setScriptFile("datagen/table.js");
+        expDGen.setSplitRows(true);
+        expect(() => expDGen.eval()).to.throw("File 'datagen/table.js' not loaded");
+        await expect(expDGen.loadFiles(rootDir)).to.be.rejectedWith("The script 'datagen/table.js' is only run in a trusted workspace with the 'dataGenerator.allowScripts' setting enabled");
+        await expDGen.loadFiles(rootDir, true);
+        expect(expDGen.evalRows()).to.be.eql([[0, 1, 4, 9], [16, 25, 36, 49]]);
+        expect(expDGen.evalString()).to.be.equal("dc.w 0, 1, 4, 9\ndc.w 16, 25, 36, 49");
+    });
+    it("should embed a binary file", async function () {
+        const rootDir = Uri.file(Path.join(__dirname, '..', '..', 'test_files'));
+        const expDGen = new ExpressionDataGenerator("", []);
+        expDGen.setBinaryFile("datagen/data.bin", 2, 4);
+        await expDGen.loadFiles(rootDir);
+        expDGen.setOutputInHex(true);
+        expect(expDGen.eval()).to.be.eql([2, 3, 4, 5]);
+        expect(expDGen.evalString()).to.be.equal("; datagen/data.bin: 4 bytes from offset 2\ndc.b $02, $03, $04, $05 ; $00000002");
+        expDGen.setBinaryFile("datagen/data.bin", 8, 16);
+        expect(() => expDGen.eval()).to.throw("The range 8 - 24 is outside of the file 'datagen/data.bin' (16 bytes)");
+        expDGen.setBinaryFile("datagen/data.bin");
+        expDGen.setOutputInHex(false);
+        expDGen.setValuesPerLine(6);
+        expDGen.setLabel("data");
+        expect(expDGen.evalString()).to.be.equal([
+            "; datagen/data.bin: 16 bytes from offset 0",
+            "data:",
+            "dc.b 0, 1, 2, 3, 4, 5 ; $00000000",
+            "dc.b 6, 7, 8, 9, 10, 11 ; $00000006",
+            "dc.b 12, 13, 14, 15 ; $0000000c"].join("\n"));
+    });
+    it("should parse and print a binary file data generator", async function () {
+        const serializer = new ExpressionDataGeneratorSerializer();
+        const expDGen = new ExpressionDataGenerator("", []);
+        expDGen.setBinaryFile("datagen/data.bin", 0, 2);
+        await expDGen.loadFiles(Uri.file(Path.join(__dirname, '..', '..', 'test_files')));
+        const output = serializer.print(expDGen);
+        expect(output).to.contain(`;${ExpressionDataGeneratorSerializer.BINARY_FILE_KEYWORD}: datagen/data.bin\n`);
+        expect(output).to.not.contain(ExpressionDataGeneratorSerializer.EXPRESSION_KEYWORD);
+        expect(output).to.not.contain(ExpressionDataGeneratorSerializer.OUTPUTTYPE_KEYWORD);
+        expect(output).to.contain(" dc.b 0, 1 ; $00000000\n");
+        const result = serializer.parse(output);
+        expect(result.binaryFile).to.be.equal("datagen/data.bin");
+        expect(result.binaryOffset).to.be.equal(0);
+        expect(result.binaryLength).to.be.equal(2);
+        expect(result.scriptFile).to.be.equal("");
+    });
     context("CodeLens provider", function () {
         const expVar = new ExpressionDataVariable("x", 0, 3, 1);
         const expDGen = new ExpressionDataGenerator("round(sin(x*pi/180)*pow(2,14))", expVar);
@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import * as Path from 'path';
+import * as fs from 'fs';
+import { Hunk, HunkParser, HunkType, MemoryType } from '../amigaHunkParser';
+import { HunkDisassembler } from '../hunkDisassembler';
+
+describe("Hunk Disassembler Tests", function () {
+    const PROJECT_ROOT = Path.join(__dirname, '..', '..');
+    it("Should disassemble a program with its symbols and relocations", function () {
+        const programFilename = Path.join(PROJECT_ROOT, 'test_files', 'debug', 'fs-uae', 'hd0', 'gencop');
+        const hunks = new HunkParser().parse_file(fs.readFileSync(programFilename));
+        const source = new HunkDisassembler().disassembleHunks(hunks);
+        expect(source).to.contain("VPOSR       equ $dff004\n");
+        expect(source).to.contain("    SECTION code_0,CODE\ninit:\n    movea.l $4.w,a6\n");
+        expect(source).to.contain("    move.l d0,(copper_list).l\n    lea.l gfxname(pc),a1\n");
+        expect(source).to.contain("    move.w #$7fff,(INTENA).l\n");
+        expect(source).to.contain("    dbf d0,loopbar\n");
+        expect(source).to.contain("waitras1:\n    ds.b 4\n");
+    });
+    it("Should disassemble the data and bss sections", function () {
+        const code = <Hunk>{
+            index: 0, memType: MemoryType.ANY, hunkType: HunkType.CODE, allocSize: 12, dataSize: 12,
+            // lea data+2,a0 / bra.b * / unreachable bytes
+            codeData: new Uint32Array([0x41f90000, 0x000260fe, 0xa0004e71]),
+            reloc32: [{ target: 1, offsets: [2] }],
+            symbols: [{ name: "start", offset: 0 }]
+        };
+        const data = <Hunk>{
+            index: 1, memType: MemoryType.CHIP, hunkType: HunkType.DATA, allocSize: 12, dataSize: 8,
+            codeData: new Uint32Array([0x01020304, 0x00000004]),
+            reloc32: [{ target: 2, offsets: [4] }],
+            symbols: [{ name: "data", offset: 0 }]
+        };
+        const bss = <Hunk>{ index: 2, memType: MemoryType.ANY, hunkType: HunkType.BSS, allocSize: 8, dataSize: 2 };
+        const source = new HunkDisassembler().disassembleHunks([code, data, bss]);
+        expect(source).to.be.equal([
+            "; Assemble with: vasmm68k_mot -Fhunkexe -no-opt",
+            "",
+            "    SECTION code_0,CODE",
+            "start:",
+            "    lea.l (lab_1_0002).l,a0",
+            "lab_0_0006:",
+            "    bra.b lab_0_0006",
+            "    dc.b $a0,$00,$4e,$71",
+            "",
+            "    SECTION data_1,DATA_C",
+            "data:",
+            "    dc.b $01,$02",
+            "lab_1_0002:",
+            "    dc.b $03,$04",
+            "    dc.l lab_2_0004",
+            "    ds.b 4",
+            "",
+            "    SECTION bss_2,BSS",
+            "lab_2_0000:",
+            "    ds.b 4",
+            "lab_2_0004:",
+            "    ds.b 4",
+            ""].join("\n"));
+    });
+});
@@ -0,0 +1,46 @@
+//
+// Tests of the hunk explorer
+//
+
+import { expect } from 'chai';
+import { Hunk, HunkType, MemoryType } from '../amigaHunkParser';
+import { HunkExplorerProvider } from '../hunkExplorer';
+
+describe("Hunk explorer", function () {
+    const hunk = <Hunk>{
+        index: 0,
+        fileOffset: 0,
+        memType: MemoryType.CHIP,
+        hunkType: HunkType.CODE,
+        allocSize: 12,
+        dataSize: 12,
+        dataOffset: 0,
+        codeData: new Uint32Array([0x4e714e71, 0x4e754e71, 0x4e754e75]),
+        reloc32: [{ target: 1, offsets: [0, 4] }],
+        symbols: [{ name: "start", offset: 0 }, { name: "<loop>", offset: 6 }],
+        lineDebugInfo: [{ name: "main.s", baseOffset: 0, lines: [{ line: 1, offset: 0 }] }],
+    };
+    it("Should build the tree of the hunks", function () {
+        const nodes = HunkExplorerProvider.buildTree([hunk]);
+        expect(nodes.length).to.be.equal(1);
+        expect(nodes[0].label).to.be.equal("Hunk #0 CODE");
+        expect(nodes[0].description).to.be.equal("CHIP - 12 bytes");
+        const children = nodes[0].children;
+        expect(children?.map(c => c.label)).to.be.eql(["Memory type", "Allocation size", "Data size", "Relocations", "Symbols", "Source lines"]);
+        expect(children?.[3].description).to.be.equal("2");
+        expect(children?.[3].children?.[0].label).to.be.equal("To hunk #1");
+        expect(children?.[4].children?.[1].symbol).to.be.eql({ name: "<loop>", hunkIndex: 0, offset: 6 });
+        expect(children?.[5].children?.[0].description).to.be.equal("1 lines");
+    });
+    it("Should render the tree to escaped html", function () {
+        const html = HunkExplorerProvider.renderNodes(HunkExplorerProvider.buildTree([hunk]));
+        expect(html).to.contain('<a href="#" class="symbol" data-hunk="0" data-offset="6" data-name="&lt;loop&gt;">&lt;loop&gt;</a>');
+        expect(html).to.contain('<span class="description">CHIP - 12 bytes</span>');
+    });
+    it("Should retrieve the code of a symbol", function () {
+        expect(HunkExplorerProvider.getSymbolEnd(hunk, 0)).to.be.equal(6);
+        expect(HunkExplorerProvider.getSymbolEnd(hunk, 6)).to.be.equal(12);
+        expect(HunkExplorerProvider.getCodeHex(hunk, 0, 6)).to.be.equal("4e714e714e75");
+        expect(HunkExplorerProvider.getCodeHex(hunk, 6, 12)).to.be.equal("4e714e754e75");
+    });
+});
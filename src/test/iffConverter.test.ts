@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as Path from 'path';
+import * as temp from 'temp';
+import { Uri } from 'vscode';
+import { IffConverter, IlbmImage, IlbmParser } from '../iffConverter';
+
+describe("IFF converter Tests", function () {
+    const PROJECT_ROOT = Path.join(__dirname, '..', '..');
+    // 16x2 pixels, 2 bitplanes: the ILBM body contains the line of each plane
+    const image: IlbmImage = {
+        width: 16,
+        height: 2,
+        depth: 2,
+        masking: 0,
+        transparentColor: 0,
+        palette: [[0, 0, 0], [0xff, 0x80, 0x10]],
+        body: new Uint8Array([
+            0xf0, 0x00, 0x0f, 0x00,
+            0x00, 0x01, 0x80, 0x00])
+    };
+    it("Should decompress ByteRun1 data", function () {
+        const data = new Uint8Array([0x02, 1, 2, 3, 0xfe, 0xaa, 0x80, 0x00, 4]);
+        expect(Array.from(IlbmParser.unpackByteRun1(data, 7))).to.be.eql([1, 2, 3, 0xaa, 0xaa, 0xaa, 4]);
+        expect(Array.from(IlbmParser.unpackByteRun1(data, 4))).to.be.eql([1, 2, 3, 0xaa]);
+    });
+    it("Should parse a compressed IFF ILBM file", function () {
+        const parsed = IlbmParser.parse(fs.readFileSync(Path.join(PROJECT_ROOT, 'test_files', 'TRU256.IFF')));
+        expect(parsed.width).to.be.equal(256);
+        expect(parsed.height).to.be.equal(64);
+        expect(parsed.depth).to.be.equal(6);
+        expect(parsed.palette.length).to.be.equal(16);
+        expect(parsed.body.length).to.be.equal(32 * 6 * 64);
+        expect(parsed.mask).to.be.undefined;
+        expect(() => IlbmParser.parse(Buffer.from("FORM\x00\x00\x00\x04ANIM"))).to.throw();
+    });
+    it("Should separate the mask plane", function () {
+        const file = Buffer.from([
+            ...Buffer.from("FORM"), 0, 0, 0, 48, ...Buffer.from("ILBM"),
+            ...Buffer.from("BMHD"), 0, 0, 0, 20, 0, 16, 0, 1, 0, 0, 0, 0, 1, 1, 0, 0, 0, 0, 10, 11, 0, 16, 0, 1,
+            ...Buffer.from("BODY"), 0, 0, 0, 4, 0x12, 0x34, 0xff, 0x00]);
+        const parsed = IlbmParser.parse(file);
+        expect(Array.from(parsed.body)).to.be.eql([0x12, 0x34]);
+        expect(Array.from(parsed.mask ? parsed.mask : [])).to.be.eql([0xff, 0x00]);
+    });
+    it("Should convert to raw bitplanes", function () {
+        expect(Array.from(IffConverter.toBitplanes(image, true))).to.be.eql(Array.from(image.body));
+        expect(Array.from(IffConverter.toBitplanes(image, false))).to.be.eql([
+            0xf0, 0x00, 0x00, 0x01,
+            0x0f, 0x00, 0x80, 0x00]);
+    });
+    it("Should compute the mask", function () {
+        expect(Array.from(IffConverter.toMask(image, false))).to.be.eql([0xff, 0x00, 0x80, 0x01]);
+        expect(Array.from(IffConverter.toMask(image, true))).to.be.eql([0xff, 0x00, 0xff, 0x00, 0x80, 0x01, 0x80, 0x01]);
+        expect(Array.from(IffConverter.toMask({ ...image, masking: 2, transparentColor: 1 }, false))).to.be.eql([0x0f, 0xff, 0xff, 0xfe]);
+    });
+    it("Should generate the palette source", function () {
+        expect(IffConverter.toPaletteSource(image.palette, "img_palette")).to.be.equal("img_palette:\n    dc.w $0180,$0000\n    dc.w $0182,$0f81\n");
+        expect(IffConverter.toLabel("/tmp/my image.iff")).to.be.equal("my_image");
+        expect(IffConverter.toLabel("1.iff")).to.be.equal("_1");
+    });
+    it("Should reject the palettes of more than 32 colors", function () {
+        const palette = new Array<[number, number, number]>(64).fill([0, 0, 0]);
+        expect(() => IffConverter.toPaletteSource(palette, "img_palette")).to.throw("The palette has 64 colors: only 32 color registers can be set");
+    });
+    it("Should convert again when an output is missing or the options changed", async function () {
+        temp.track();
+        const tempDir = temp.mkdirSync("iff-test");
+        const input = Path.join(tempDir, "image.iff");
+        fs.copyFileSync(Path.join(PROJECT_ROOT, 'test_files', 'TRU256.IFF'), input);
+        // The relative paths are in the workspace
+        const rootDir = Uri.file(tempDir);
+        const conversion = { input: "image.iff", output: "image.raw", palette: "image_palette.s" };
+        const output = Path.join(tempDir, conversion.output);
+        const palette = Path.join(tempDir, conversion.palette);
+        const converter = new IffConverter();
+        await converter.convertAll([conversion], rootDir);
+        const outputTime = fs.statSync(output).mtimeMs;
+        // Up to date
+        await converter.convertAll([conversion], rootDir);
+        expect(fs.statSync(output).mtimeMs).to.be.equal(outputTime);
+        // Missing palette
+        fs.unlinkSync(palette);
+        await converter.convertAll([conversion], rootDir);
+        expect(fs.existsSync(palette)).to.be.true;
+        // Changed options
+        fs.unlinkSync(output);
+        fs.writeFileSync(output, "");
+        await converter.convertAll([{ ...conversion, interleaved: true }], rootDir);
+        expect(fs.statSync(output).size).to.be.equal(32 * 6 * 64);
+    });
+});
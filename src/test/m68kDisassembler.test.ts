@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import { M68kDisassembler, M68kOperandKind } from '../m68kDisassembler';
+
+describe("M68k Disassembler Tests", function () {
+    const disassembler = new M68kDisassembler();
+    function disassemble(code: string): Array<string> {
+        return disassembler.disassembleInstructions(code).map(i => M68kDisassembler.formatInstruction(i));
+    }
+    const addressingModes: Array<[string, string, string]> = [
+        ["data register direct", "3001", "move.w d1, d0"],
+        ["address register direct", "3009", "move.w a1, d0"],
+        ["address register indirect", "3011", "move.w (a1), d0"],
+        ["postincrement", "3019", "move.w (a1)+, d0"],
+        ["predecrement", "3021", "move.w -(a1), d0"],
+        ["displacement", "30290010", "move.w $10(a1), d0"],
+        ["index", "30311004", "move.w $4(a1,d1.w), d0"],
+        ["absolute short", "30381234", "move.w $1234.w, d0"],
+        ["absolute long", "303900dff006", "move.w $dff006.l, d0"],
+        ["pc displacement", "303a0010", "move.w $10(pc), d0"],
+        ["pc index", "303b1004", "move.w $4(pc,d1.w), d0"],
+        ["immediate", "303c1234", "move.w #$1234, d0"],
+        ["destination postincrement", "20fc00000001", "move.l #$1, (a0)+"],
+        ["destination absolute long", "23c800001000", "move.l a0, $1000.l"],
+        ["68020 scaled index", "30301c04", "move.w $4(a0,d1.l*4), d0"],
+        ["68020 memory indirect", "303001210010", "move.w ([$10,a0,d0.w]), d0"],
+    ];
+    for (const [mode, code, expected] of addressingModes) {
+        it(`Should disassemble the ${mode} addressing mode`, function () {
+            expect(disassemble(code)).to.be.eql([expected]);
+        });
+    }
+    const instructionGroups: Array<[string, Array<[string, string]>]> = [
+        ["data movement", [
+            ["3049", "movea.w a1, a0"],
+            ["4851", "pea (a1)"],
+            ["4840", "swap d0"],
+            ["4e56fff0", "link.w a6, #-$10"],
+            ["4e5e", "unlk a6"],
+            ["01880004", "movep.w d0, $4(a0)"],
+        ]],
+        ["integer arithmetic", [
+            ["d041", "add.w d1, d0"],
+            ["d1c9", "adda.l a1, a0"],
+            ["068000000001", "addi.l #$1, d0"],
+            ["5240", "addq.w #$1, d0"],
+            ["5188", "subq.l #$8, a0"],
+            ["c0c1", "mulu.w d1, d0"],
+            ["81c1", "divs.w d1, d0"],
+            ["4480", "neg.l d0"],
+            ["4210", "clr.b (a0)"],
+            ["4880", "ext.w d0"],
+            ["b081", "cmp.l d1, d0"],
+            ["4a40", "tst.w d0"],
+            ["d181", "addx.l d1, d0"],
+            ["c101", "abcd.b d1, d0"],
+        ]],
+        ["logical", [
+            ["c041", "and.w d1, d0"],
+            ["8081", "or.l d1, d0"],
+            ["b141", "eor.w d0, d1"],
+            ["4600", "not.b d0"],
+            ["0200000f", "andi.b #$f, d0"],
+            ["003c0010", "ori.b #$10, ccr"],
+        ]],
+        ["shift and rotate", [
+            ["e280", "asr.l #$1, d0"],
+            ["e268", "lsr.w d1, d0"],
+            ["e918", "rol.b #$4, d0"],
+            ["e250", "roxr.w #$1, d0"],
+            ["e1d0", "asl.w (a0)"],
+        ]],
+        ["bit manipulation", [
+            ["08000003", "btst.l #$3, d0"],
+            ["03d0", "bset.b d1, (a0)"],
+            ["08900007", "bclr.b #$7, (a0)"],
+            ["0340", "bchg.l d1, d0"],
+        ]],
+        ["program control", [
+            ["6002", "bra.b $4"],
+            ["67000004", "beq.w $6"],
+            ["66fe", "bne.b $0"],
+            ["4ed0", "jmp (a0)"],
+            ["4e90", "jsr (a0)"],
+            ["57c0", "seq.b d0"],
+        ]],
+        ["system control", [
+            ["4e73", "rte"],
+            ["4181", "chk.w d1, d0"],
+            ["4e76", "trapv"],
+            ["4e722700", "stop #$2700"],
+            ["4e70", "reset"],
+            ["4afc", "illegal"],
+        ]],
+    ];
+    for (const [group, cases] of instructionGroups) {
+        it(`Should disassemble the ${group} instructions`, function () {
+            for (const [code, expected] of cases) {
+                expect(disassemble(code), code).to.be.eql([expected]);
+            }
+        });
+    }
+    it("Should disassemble the 68000 instructions", function () {
+        expect(disassemble("9091" + "4e75" + "41f900dff180" + "2f3c12345678" + "48e7fffe" + "4cdf7fff" + "70ff" + "0c6800ff0010" + "e548" + "51c8fffe")).to.be.eql([
+            "sub.l (a1), d0",
+            "rts",
+            "lea.l $dff180.l, a0",
+            "move.l #$12345678, -(a7)",
+            "movem.l d0-d7/a0-a6, -(a7)",
+            "movem.l (a7)+, d0-d7/a0-a6",
+            "moveq.l #-$1, d0",
+            "cmpi.w #$ff, $10(a0)",
+            "lsl.w #$2, d0",
+            "dbf d0, $22"
+        ]);
+        expect(disassemble("303b0006" + "027c2700" + "4e41" + "c34a")).to.be.eql([
+            "move.w $6(pc,d0.w), d0",
+            "andi.w #$2700, sr",
+            "trap #$1",
+            "exg.l a1, a2"
+        ]);
+    });
+    it("Should disassemble the 68020+ instructions", function () {
+        expect(disassemble("49c0" + "4c001801" + "4c412003" + "e9c01108" + "30300910" + "4e7b0801")).to.be.eql([
+            "extb.l d0",
+            "muls.l d0, d1",
+            "divul.l d1, d3:d2",
+            "bfextu d0{4:8}, d1",
+            "move.w (a0,d0.l), d0",
+            "movec.l d0, vbr"
+        ]);
+    });
+    it("Should disassemble the FPU and MMU instructions", function () {
+        expect(disassemble("f2000422" + "f23c4400" + "3f800000" + "f2005c32" + "f23c9000" + "00000000" + "f28e0004" + "f4f8" + "f6209000" + "f0104000")).to.be.eql([
+            "fadd.x fp1, fp0",
+            "fmove.s #$3f800000, fp0",
+            "fmovecr.x #$32, fp0",
+            "fmove.l #$0, fpcr",
+            "fbne.w $1e",
+            "cpusha bc",
+            "move16 (a0)+, (a1)+",
+            "pmove (a0), tc"
+        ]);
+    });
+    it("Should return structured instructions with the branch targets", function () {
+        const labels = new Map<number, string>([[0x1000, "start"], [0x100a, "loop"]]);
+        const instructions = disassembler.disassembleInstructions("6100000861f64eb90000100a4e71", 0x1000, (address) => labels.get(address));
+        expect(instructions.map(i => [i.address, i.length, i.mnemonic, i.size, i.branchTarget])).to.be.eql([
+            [0x1000, 4, "bsr", "w", 0x100a],
+            [0x1004, 2, "bsr", "b", 0xffc],
+            [0x1006, 6, "jsr", undefined, 0x100a],
+            [0x100c, 2, "nop", undefined, undefined]
+        ]);
+        expect(instructions[0].operands[0]).to.be.eql({ kind: M68kOperandKind.BRANCH_TARGET, text: "loop", address: 0x100a });
+        expect(instructions[1].operands[0].text).to.be.equal("$ffc");
+        expect(instructions[2].operands[0].text).to.be.equal("loop.l");
+        expect(instructions[0].bytes).to.be.equal("61 00 00 08");
+    });
+    it("Should disassemble with the labels", function () {
+        const labels = new Map<number, string>([[0x1000, "start"]]);
+        expect(disassembler.disassembleWithLabels("60fe4e75", 0x1000, (address) => labels.get(address))).to.be.eql([
+            { address: 0x1000, bytes: "60 fe", mnemonic: "bra.b", operands: "start" },
+            { address: 0x1002, bytes: "4e 75", mnemonic: "rts", operands: undefined }
+        ]);
+    });
+    it("Should keep the invalid words as data", function () {
+        const instructions = disassembler.disassembleInstructions("a0004e7100");
+        expect(instructions.map(i => M68kDisassembler.formatInstruction(i))).to.be.eql(["dc.w $a000", "nop", "dc.b $00"]);
+        expect(instructions[0].invalid).to.be.true;
+    });
+    it("Should output the cstool format", async function () {
+        expect(await disassembler.disassemble("90914e75")).to.be.equal("\n 0  90 91  sub.l\t(a1), d0\n 2  4e 75  rts\n");
+    });
+});
@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import { MacroDefinition, MacroExpander } from '../macroExpander';
+import { DummyTextDocument } from './dummy';
+
+describe("Macro expander Tests", function () {
+    const definitions = new Map<string, MacroDefinition>([
+        ["WAITBLIT", { name: "WAITBLIT", body: [".wait\\@:   btst       #6,dmaconr(a6)", "           bne.s      .wait\\@"] }],
+        ["COPY", { name: "COPY", body: ["           WAITBLIT", "           move.\\0    \\1,\\2 ; NARG args"] }],
+        ["LOOP", { name: "LOOP", body: ["           LOOP"] }]
+    ]);
+    const resolver = (name: string) => definitions.get(name);
+    it("Should parse an invocation", function () {
+        expect(MacroExpander.parseInvocation("lbl:  COPY.w d0,<a,b>,(a0,d1.w),\"x,y\" ; comment")).to.be.eql({
+            label: "lbl:",
+            name: "COPY",
+            qualifier: "w",
+            arguments: ["d0", "a,b", "(a0,d1.w)", "\"x,y\""]
+        });
+        expect(MacroExpander.parseInvocation("  WAITBLIT")).to.be.eql({ label: "", name: "WAITBLIT", qualifier: "", arguments: [] });
+        expect(MacroExpander.parseInvocation("; comment")).to.be.undefined;
+    });
+    it("Should substitute the parameters", function () {
+        const invocation = { label: "", name: "COPY", qualifier: "l", arguments: ["d0", "d1"] };
+        expect(MacroExpander.substitute(" move.\\0 \\1,\\2 ; \\3", invocation, 12)).to.be.equal(" move.l d0,d1 ; ");
+        expect(MacroExpander.substitute("l\\@: dc.w NARG,\\#", invocation, 12)).to.be.equal("l_000012: dc.w 2,2");
+    });
+    it("Should detect the end of a macro", function () {
+        expect(MacroExpander.isEndOfMacro("    endm")).to.be.true;
+        expect(MacroExpander.isEndOfMacro("    ENDM ; end")).to.be.true;
+        expect(MacroExpander.isEndOfMacro("endm")).to.be.true;
+        expect(MacroExpander.isEndOfMacro("    endmacro2")).to.be.false;
+    });
+    it("Should expand the nested macros with unique ids", function () {
+        const expander = new MacroExpander(resolver);
+        const invocation = MacroExpander.parseInvocation("label: COPY.b (a0)+,(a1)+");
+        expect(invocation).to.not.be.undefined;
+        if (invocation) {
+            expect(expander.expand(invocation)).to.be.eql([
+                "label:",
+                ".wait_000001:   btst       #6,dmaconr(a6)",
+                "           bne.s      .wait_000001",
+                "           move.b    (a0)+,(a1)+ ; 2 args"]);
+            // Recursion is limited
+            const lines = expander.expand({ label: "", name: "LOOP", qualifier: "", arguments: [] });
+            expect(lines).to.be.eql(["           LOOP"]);
+        }
+        expect(expander.expand({ label: "", name: "rts", qualifier: "", arguments: [] })).to.be.undefined;
+    });
+    it("Should count the preceding invocations of a document", function () {
+        const document = new DummyTextDocument();
+        for (const line of ["WAITBLIT macro", ".w\\@: nop", " endm", " WAITBLIT", " nop", " COPY.w d0,d1"]) {
+            document.addLine(line);
+        }
+        const expander = new MacroExpander(resolver);
+        expect(expander.expandAt(document, 5)).to.be.eql([
+            ".wait_000002:   btst       #6,dmaconr(a6)",
+            "           bne.s      .wait_000002",
+            "           move.w    d0,d1 ; 2 args"]);
+        expect(expander.expandAt(document, 4)).to.be.undefined;
+    });
+    it("Should compute the ids once per document version", function () {
+        const document = new DummyTextDocument();
+        for (const line of [" WAITBLIT", " nop", " WAITBLIT"]) {
+            document.addLine(line);
+        }
+        let resolved = 0;
+        const expander = new MacroExpander(name => {
+            resolved++;
+            return definitions.get(name);
+        });
+        const expected = [".wait_000001:   btst       #6,dmaconr(a6)", "           bne.s      .wait_000001"];
+        expect(expander.expandAt(document, 2)).to.be.eql(expected);
+        const firstResolved = resolved;
+        resolved = 0;
+        expect(expander.expandAt(document, 2)).to.be.eql(expected);
+        expect(resolved).to.be.lessThan(firstResolved);
+        Object.assign(document, { version: 2 });
+        resolved = 0;
+        expect(expander.expandAt(document, 2)).to.be.eql(expected);
+        expect(resolved).to.be.equal(firstResolved);
+        expander.forgetDocument(document.uri);
+        resolved = 0;
+        expect(expander.expandAt(document, 2)).to.be.eql(expected);
+        expect(resolved).to.be.equal(firstResolved);
+    });
+});
@@ -0,0 +1,59 @@
+import { expect } from 'chai';
+import { anyNumber, imock, instance, verify, when } from '@johanblumenberg/ts-mockito';
+import { DebugVariableResolver } from '../debugVariableResolver';
+import { MemoryMapDataProvider } from '../memoryMap';
+
+describe("Memory map Tests", function () {
+    it("Should retrieve the memory region of an address", function () {
+        expect(MemoryMapDataProvider.getRegion(0x1000)).to.be.equal("Chip RAM");
+        expect(MemoryMapDataProvider.getRegion(0x1fffff)).to.be.equal("Chip RAM");
+        expect(MemoryMapDataProvider.getRegion(0x200000)).to.be.equal("Fast RAM");
+        expect(MemoryMapDataProvider.getRegion(0xc01000)).to.be.equal("Slow RAM");
+        expect(MemoryMapDataProvider.getRegion(0x40000000)).to.be.equal("Fast RAM");
+        expect(MemoryMapDataProvider.getRegion(0xf80000)).to.be.equal("I/O or ROM");
+    });
+    it("Should retrieve the memory region of an address with the chip RAM size", function () {
+        expect(MemoryMapDataProvider.getRegion(0x90000, 0x80000)).to.be.equal("Fast RAM");
+        expect(MemoryMapDataProvider.getChipRamEnd({ type: "fs-uae", name: "", request: "launch", options: ["--chip_memory=1024"] })).to.be.equal(0x100000);
+        expect(MemoryMapDataProvider.getChipRamEnd({ type: "winuae", name: "", request: "launch", options: ["-s", "chipmem_size=1"] })).to.be.equal(0x80000);
+        expect(MemoryMapDataProvider.getChipRamEnd({ type: "winuae", name: "", request: "launch" })).to.be.equal(MemoryMapDataProvider.CHIP_RAM_END);
+    });
+    it("Should read the DMA pointers from the copper list", async function () {
+        const resolverMock = imock<DebugVariableResolver>();
+        when(resolverMock.getMemory(0xdff080, 4)).thenResolve("00c01000");
+        // BPL1PTH, BPL1PTL, SPR0PTL, end
+        when(resolverMock.getMemory(0xc01000, anyNumber())).thenResolve("00e0000200e2100001220020fffffffe");
+        const pointers = await MemoryMapDataProvider.readPointers(instance(resolverMock));
+        expect(pointers.length).to.be.equal(16);
+        expect(pointers[0]).to.be.eql({ name: "COP1LC", address: 0xc01000 });
+        expect(pointers[2]).to.be.eql({ name: "BPL1PT", address: 0x21000 });
+        expect(pointers[3]).to.be.eql({ name: "BPL2PT", address: 0 });
+        expect(pointers[8]).to.be.eql({ name: "SPR0PT", address: 0x20 });
+        verify(resolverMock.getMemory(0xdff0e0, anyNumber())).never();
+    });
+    it("Should build the segments and pointers items", function () {
+        const provider = new MemoryMapDataProvider();
+        provider.setMemoryMap([
+            { id: 0, name: "", address: 0xc01000, size: 0x100, memType: "ANY", hunkType: "CODE" },
+            { id: 1, name: "", address: 0x20000, size: 0x2800, memType: "CHIP", hunkType: "DATA" }
+        ], [
+            { name: "COP1LC", address: 0xc01010 },
+            { name: "BPL1PT", address: 0x20100 },
+            { name: "BPL2PT", address: 0 }
+        ]);
+        const items = provider.buildItems();
+        expect(items.map(i => i.label)).to.be.eql(["Segments", "Pointers"]);
+        const [segments, pointers] = items.map(i => i.children);
+        expect(segments.map(i => [i.label, i.description])).to.be.eql([
+            ["#0 CODE", "$00c01000-$00c010ff 256 bytes, Slow RAM"],
+            ["#1 DATA_C", "$00020000-$000227ff 10240 bytes, Chip RAM"]
+        ]);
+        expect(pointers.map(i => [i.label, i.description])).to.be.eql([
+            ["COP1LC", "$00c01010 Slow RAM, segment #0 +$10"],
+            ["BPL1PT", "$00020100 Chip RAM, segment #1 +$100"],
+            ["BPL2PT", "not set"]
+        ]);
+        expect(pointers[0].tooltip).to.be.equal("The DMA can only access chip RAM");
+        expect(pointers[1].tooltip).to.be.undefined;
+    });
+});
@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import { ModFile, ModInspectorProvider, ModParser } from '../modInspector';
+
+describe("MOD inspector Tests", function () {
+    function createModule(): Buffer {
+        const buffer = Buffer.alloc(1084 + 2 * 1024 + 8);
+        buffer.write("test song", 0);
+        // Sample 1: 8 bytes, finetune -1, volume 64, loop of 4 bytes at 2
+        buffer.write("kick", 20);
+        buffer.writeUInt16BE(4, 42);
+        buffer[44] = 0x0f;
+        buffer[45] = 64;
+        buffer.writeUInt16BE(1, 46);
+        buffer.writeUInt16BE(2, 48);
+        buffer[950] = 3;
+        buffer[951] = 0;
+        buffer[952] = 0;
+        buffer[953] = 1;
+        buffer[954] = 0;
+        buffer.write("M.K.", 1080);
+        // Pattern 1, row 2, channel 3: C-2 sample 1, set volume $40
+        buffer.set([0x01, 0xac, 0x1c, 0x40], 1084 + 1024 + (2 * 4 + 3) * 4);
+        return buffer;
+    }
+    it("Should parse a module", function () {
+        const mod = ModParser.parse(createModule());
+        expect(mod.title).to.be.equal("test song");
+        expect(mod.signature).to.be.equal("M.K.");
+        expect(mod.channels).to.be.equal(4);
+        expect(mod.samples.length).to.be.equal(31);
+        expect(mod.samples[0]).to.be.eql({ name: "kick", length: 8, finetune: -1, volume: 64, loopStart: 2, loopLength: 4 });
+        expect(mod.samplesSize).to.be.equal(8);
+        expect(mod.order).to.be.eql([0, 1, 0]);
+        expect(mod.patterns.length).to.be.equal(2);
+        expect(mod.patterns[1][2][3]).to.be.eql({ sample: 1, period: 428, effect: 0xc, parameter: 0x40 });
+        expect(mod.patterns[0][0][0]).to.be.eql({ sample: 0, period: 0, effect: 0, parameter: 0 });
+    });
+    it("Should reject invalid modules", function () {
+        expect(() => ModParser.parse(Buffer.alloc(100))).to.throw();
+        expect(() => ModParser.parse(createModule().subarray(0, 2000))).to.throw();
+    });
+    it("Should retrieve the channels of a signature", function () {
+        expect(ModParser.getChannels("M!K!")).to.be.equal(4);
+        expect(ModParser.getChannels("6CHN")).to.be.equal(6);
+        expect(ModParser.getChannels("FLT8")).to.be.equal(8);
+        expect(ModParser.getChannels("16CH")).to.be.equal(16);
+        expect(ModParser.getChannels("\x00\x00\x00\x00")).to.be.undefined;
+    });
+    it("Should format the cells", function () {
+        expect(ModInspectorProvider.formatCell({ sample: 1, period: 428, effect: 0xc, parameter: 0x40 })).to.be.equal("C-2 01 C40");
+        expect(ModInspectorProvider.formatCell({ sample: 0x1f, period: 113, effect: 0, parameter: 0x37 })).to.be.equal("B-3 1F 037");
+        expect(ModInspectorProvider.formatCell({ sample: 0, period: 0, effect: 0, parameter: 0 })).to.be.equal("--- .. ...");
+    });
+    it("Should warn about the chip RAM", function () {
+        const mod = ModParser.parse(createModule());
+        expect(ModInspectorProvider.getWarnings(mod)).to.be.eql([]);
+        const bigMod: ModFile = { ...mod, size: 600 * 1024, samplesSize: 300 * 1024 };
+        bigMod.samples = [{ name: "", length: 300 * 1024, finetune: 0, volume: 64, loopStart: 0, loopLength: 0 }];
+        expect(ModInspectorProvider.getWarnings(bigMod)).to.be.eql(["The samples (307200 bytes) use more than half of the 512 KB chip RAM budget"]);
+        bigMod.samplesSize = 300 * 1024 + 8;
+        bigMod.samples.push({ name: "", length: 0, finetune: 0, volume: 0, loopStart: 0, loopLength: 0 });
+        bigMod.samples.push({ name: "", length: 8, finetune: 0, volume: 64, loopStart: 6, loopLength: 4 });
+        expect(ModInspectorProvider.getWarnings(bigMod, 256)).to.be.eql([
+            "Sample 1: ends at 307200 bytes, after the 256 KB chip RAM budget",
+            "Sample 3: the loop ends after the end of the sample",
+            "Sample 3: ends at 307208 bytes, after the 256 KB chip RAM budget"]);
+    });
+    it("Should generate the incbin scaffolding", function () {
+        expect(ModInspectorProvider.toScaffolding("music", "data/music.mod")).to.be.equal([
+            "; The replayer reads the samples with the DMA: the module must be in chip RAM",
+            "    SECTION music,DATA_C",
+            "    even",
+            "music:",
+            "    incbin \"data/music.mod\"",
+            "music_end:",
+            ""].join("\n"));
+    });
+});
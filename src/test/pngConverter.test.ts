@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import * as zlib from 'zlib';
+import { AmigaImageEncoder, ColorReducer, PngConverter, PngDecoder, PngImage, PngOutputFormat, ReducedImage } from '../pngConverter';
+
+/**
+ * Creates a PNG file (the CRC are not checked by the decoder)
+ */
+function createPng(width: number, height: number, bitDepth: number, colorType: number, lines: Array<Array<number>>, extraChunks: Array<[string, Array<number>]> = []): Buffer {
+    const chunk = (type: string, data: Array<number> | Buffer) => {
+        const size = Buffer.alloc(4);
+        size.writeUInt32BE(data.length, 0);
+        return Buffer.concat([size, Buffer.from(type), Buffer.from(data), Buffer.alloc(4)]);
+    };
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = bitDepth;
+    header[9] = colorType;
+    const raw = Buffer.from(lines.reduce((all, line) => all.concat(line), new Array<number>()));
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        chunk("IHDR", header),
+        ...extraChunks.map(([type, data]) => chunk(type, data)),
+        chunk("IDAT", zlib.deflateSync(raw)),
+        chunk("IEND", [])]);
+}
+
+describe("PNG converter Tests", function () {
+    it("Should decode a RGBA PNG image with filters", function () {
+        // Line 1: no filter, line 2: up filter
+        const png = createPng(2, 2, 8, 6, [
+            [0, 255, 0, 0, 255, 0, 255, 0, 128],
+            [2, 0, 0, 255, 0, 0, 0, 0, 127]]);
+        const image = PngDecoder.decode(png);
+        expect(image.width).to.be.equal(2);
+        expect(image.height).to.be.equal(2);
+        expect(Array.from(image.pixels)).to.be.eql([255, 0, 0, 255, 0, 255, 0, 128, 255, 0, 255, 255, 0, 255, 0, 255]);
+        expect(() => PngDecoder.decode(Buffer.from("not a png file"))).to.throw();
+    });
+    it("Should decode a paletted PNG image with transparency", function () {
+        // 4 pixels of 2 bits: indexes 0, 1, 2, 1
+        const png = createPng(4, 1, 2, 3, [[0, 0x19]], [["PLTE", [0, 0, 0, 255, 255, 255, 0, 0, 255]], ["tRNS", [0]]]);
+        const image = PngDecoder.decode(png);
+        expect(Array.from(image.pixels)).to.be.eql([0, 0, 0, 0, 255, 255, 255, 255, 0, 0, 255, 255, 255, 255, 255, 255]);
+    });
+    const image: PngImage = {
+        width: 4, height: 2, pixels: new Uint8Array([
+            255, 0, 0, 255, 255, 0, 0, 255, 0, 0, 0, 0, 0, 0, 255, 255,
+            0, 0, 255, 255, 250, 5, 0, 255, 0, 0, 0, 0, 255, 255, 255, 255])
+    };
+    it("Should reduce the colors to the OCS palette", function () {
+        let reduced = ColorReducer.reduce(image, 4, false, false);
+        expect(reduced.palette).to.be.eql([0x000, 0xf00, 0x00f, 0xfff]);
+        expect(Array.from(reduced.indexes)).to.be.eql([1, 1, 0, 2, 2, 1, 0, 3]);
+        expect(Array.from(reduced.opaque)).to.be.eql([1, 1, 0, 1, 1, 1, 0, 1]);
+        // Median cut: 2 colors for red, blue and white
+        reduced = ColorReducer.reduce(image, 3, false, true);
+        expect(reduced.palette.length).to.be.equal(3);
+        expect(reduced.palette[0]).to.be.equal(0);
+        expect(ColorReducer.to12Bits(0x88, 0x44, 0xff)).to.be.equal(0x84f);
+    });
+    it("Should encode bitplanes, masks and sprites", function () {
+        const reduced = ColorReducer.reduce(image, 4, false, false);
+        expect(Array.from(AmigaImageEncoder.toBitplanes(reduced, 2, false))).to.be.eql([
+            0xc0, 0x00, 0x50, 0x00, 0x10, 0x00, 0x90, 0x00]);
+        expect(Array.from(AmigaImageEncoder.toBitplanes(reduced, 2, true))).to.be.eql([
+            0xc0, 0x00, 0x10, 0x00, 0x50, 0x00, 0x90, 0x00]);
+        expect(Array.from(AmigaImageEncoder.toMask(reduced, 2, true))).to.be.eql([
+            0xd0, 0x00, 0xd0, 0x00, 0xd0, 0x00, 0xd0, 0x00]);
+        expect(AmigaImageEncoder.getSpriteControlWords(0x80, 0x2c, 16, false)).to.be.eql([0x2c40, 0x3c00]);
+        expect(AmigaImageEncoder.getSpriteControlWords(0x81, 0xf8, 16, true)).to.be.eql([0xf840, 0x0883]);
+        const sprites = AmigaImageEncoder.toSprites(reduced, false, 0x80, 0x2c);
+        expect(Array.from(sprites)).to.be.eql([0x2c, 0x40, 0x2e, 0x00, 0xc0, 0x00, 0x10, 0x00, 0x50, 0x00, 0x90, 0x00, 0, 0, 0, 0]);
+    });
+    it("Should reject the sprites wider than the hardware sprites", function () {
+        const wide: ReducedImage = { width: 129, height: 1, palette: [0], indexes: new Uint8Array(129), opaque: new Uint8Array(129) };
+        expect(() => AmigaImageEncoder.toSprites(wide, false, 0x80, 0x2c)).to.throw("The image is 129 pixels wide: the hardware sprites display at most 128 pixels");
+        expect(() => PngConverter.encode({ ...wide, width: 65 }, { input: "", output: "", format: PngOutputFormat.ATTACHED_SPRITE })).to.throw("The image is 65 pixels wide: the attached hardware sprites display at most 64 pixels");
+        expect(AmigaImageEncoder.toSprites({ ...wide, width: 128 }, false, 0x80, 0x2c).length).to.be.equal(8 * 12);
+    });
+    it("Should generate the include file", function () {
+        const reduced = PngConverter.reduce(image, { input: "", output: "", format: PngOutputFormat.BOB, colors: 4 });
+        const [data, mask, depth] = PngConverter.encode(reduced, { input: "", output: "", format: PngOutputFormat.BOB, colors: 4 });
+        expect(depth).to.be.equal(2);
+        expect(data.length).to.be.equal(8);
+        expect(mask ? mask.length : 0).to.be.equal(8);
+        const source = AmigaImageEncoder.toIncludeSource("ship", reduced, PngOutputFormat.BOB, depth, "ship.raw", "ship.mask");
+        expect(source).to.contain("SHIP_WIDTH equ 4\nSHIP_HEIGHT equ 2\nSHIP_DEPTH equ 2\nSHIP_BYTES_PER_ROW equ 2\nSHIP_PLANE_SIZE equ 4\n");
+        expect(source).to.contain("ship_palette:\n    dc.w $0180,$0000\n");
+        expect(source).to.contain("ship:\n    incbin \"ship.raw\"\nship_end:\nship_mask:\n    incbin \"ship.mask\"\n");
+    });
+});
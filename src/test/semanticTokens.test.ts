@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import * as Path from 'path';
+import * as vscode from 'vscode';
+import { M68kDefinitionHandler } from '../definitionHandler';
+import { ExtensionState } from '../extension';
+import { ASMLine } from '../parser';
+import { M68kSemanticTokensProvider } from '../semanticTokens';
+import { DummyTextDocument } from './dummy';
+
+describe("Semantic tokens Tests", function () {
+    const SOURCE = Path.join(__dirname, '..', '..', 'test_files', 'semantic.s');
+    before(async function () {
+        // activate the extension
+        const ext = vscode.extensions.getExtension('prb28.amiga-assembly');
+        if (ext) {
+            await ext.activate();
+        }
+        const state = ExtensionState.getCurrent();
+        ASMLine.init(await state.getLanguage());
+    });
+    it("Should find the identifiers of the operands", function () {
+        const identifiers = M68kSemanticTokensProvider.findIdentifiersInText("#$dff000+WIDTH*2,\"a,b\",(a0,d1.w),.loop\\@,\\1", new vscode.Position(3, 10));
+        expect(identifiers.map(([identifier, range]) => [identifier, range.start.character, range.end.character])).to.be.eql([
+            ["WIDTH", 19, 24],
+            ["a0", 34, 36],
+            ["d1.w", 37, 41],
+            [".loop\\@", 43, 50]
+        ]);
+    });
+    it("Should compute the tokens of a document", async function () {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(SOURCE));
+        const provider = new M68kSemanticTokensProvider(new M68kDefinitionHandler());
+        const tokens = await provider.computeTokens(document);
+        const results = tokens.map(t => [t.range.start.line, document.getText(t.range), t.tokenType, t.tokenModifiers.join(",")]);
+        expect(results).to.be.eql([
+            [1, "SCREEN_WIDTH", "constant", "declaration"],
+            [2, "_LVOOpenLibrary", "external", "declaration"],
+            [4, "WAITBLIT", "macro", "declaration"],
+            [5, ".wait\\@", "localLabel", "declaration"],
+            [5, "dmaconr", "customRegister", ""],
+            [5, "a6", "addressRegister", ""],
+            [6, ".wait\\@", "localLabel", ""],
+            [9, "start", "label", "declaration"],
+            [10, "WAITBLIT", "macro", ""],
+            [11, "SCREEN_WIDTH", "constant", ""],
+            [11, "d0", "dataRegister", ""],
+            [12, "start", "label", ""],
+            [12, "a0", "addressRegister", ""],
+            [13, ".loop", "localLabel", "declaration"],
+            [13, "_LVOOpenLibrary", "external", ""],
+            [13, "a6", "addressRegister", ""],
+            [14, "d0", "dataRegister", ""],
+            [14, ".loop", "localLabel", ""],
+            [15, "missing", "unresolved", ""]
+        ]);
+    });
+    it("Should not flag the unresolved symbols with a missing included file", async function () {
+        const document = new DummyTextDocument();
+        document.addLine(" include \"missing/unknown.i\"");
+        document.addLine("start:");
+        document.addLine(" move.l missing,d0");
+        const provider = new M68kSemanticTokensProvider(new M68kDefinitionHandler());
+        const tokens = await provider.computeTokens(document);
+        expect(tokens.map(t => [t.range.start.line, t.tokenType])).to.be.eql([[1, "label"], [2, "dataRegister"]]);
+        provider.dispose();
+    });
+});
@@ -50,6 +50,22 @@ describe("Symbols reader Tests", function () {
         expect(sf.getIncludedFiles()[0].getLabel()).to.be.eql("hw.i");
     });
 
+    it("Should read the labels of the macro bodies", async function () {
+        const sf = new SymbolFile(Uri.file(Path.join(PROJECT_ROOT, 'test_files', 'macros.s')));
+        const symbolFile = await sf.readFile();
+        const macroLabels = symbolFile.getMacroLabels();
+        expect(macroLabels.length).to.be.equal(1);
+        expect(macroLabels[0].getLabel()).to.be.equal(".wait");
+        expect(macroLabels[0].getParent()).to.be.equal("WAITBLIT");
+        expect(symbolFile.getDefinedSymbols().map(s => s.getLabel())).to.be.eql(["WAITBLIT", "WAITBLIT", ".wait", "COPY", "COPY", "start", "CALLLIB", "CALLLIB", "_LVO_SIZE", "lvo.i", "savelib"]);
+        expect(symbolFile.getLabels().map(s => s.getLabel())).to.be.eql(["start", "savelib"]);
+        expect(symbolFile.getReferredSymbols().filter(s => s.getLabel() === ".wait").length).to.be.equal(1);
+        // The other statements of the macro bodies are read
+        expect(symbolFile.getVariables().map(s => s.getLabel())).to.be.eql(["_LVO_SIZE"]);
+        expect(symbolFile.getIncludedFiles().map(s => s.getLabel())).to.be.eql(["lvo.i"]);
+        expect(symbolFile.getSubRoutines()).to.be.eql(["savelib"]);
+    });
+
     context("comment docs", () => {
         const COMMENTS_SOURCE = Path.join(PROJECT_ROOT, 'test_files', 'comment-docs.s');
         let symbolFile: SymbolFile;
@@ -0,0 +1,13 @@
+import { expect } from 'chai';
+import { WebviewUtils } from '../webviewUtils';
+
+describe("Webview utils", function () {
+    it("Should create the nonces", function () {
+        const nonce = WebviewUtils.getNonce();
+        expect(nonce).to.match(/^[A-Za-z0-9]{32}$/);
+        expect(WebviewUtils.getNonce()).to.not.be.equal(nonce);
+    });
+    it("Should escape the html", function () {
+        expect(WebviewUtils.escapeHtml(`<a href="x">'R&D'</a>`)).to.be.equal("&lt;a href=&quot;x&quot;&gt;&#39;R&amp;D&#39;&lt;/a&gt;");
+    });
+});
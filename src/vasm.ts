@@ -251,6 +251,16 @@ export class VASMCompiler {
           const files = await this.listFilesToBuild(folder, vlinkConf);
           filesURI = filesURI.concat(files)
         }
+        // Regenerates the data of the generators to build up to date tables
+        const report = await ExtensionState.getCurrent().getDataGenerator().regenerateFiles(filesURI);
+        if (logEmitter) {
+          for (const message of report.messages.concat(report.errors)) {
+            logEmitter.fire(`${message}\r\n`);
+          }
+        }
+        if (report.errors.length > 0) {
+          throw new Error(`Data generator error: ${report.errors[0]}`);
+        }
         const promises: Thenable<ICheckResult[]>[] = [];
         for (const f of filesURI) {
           promises.push(
@@ -0,0 +1,26 @@
+/**
+ * Helpers for the html of the webviews
+ */
+export class WebviewUtils {
+    /**
+     * Creates a random nonce for the content security policy of the scripts
+     * @return Nonce of 32 characters
+     */
+    public static getNonce(): string {
+        let text = '';
+        const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+        for (let i = 0; i < 32; i++) {
+            text += possible.charAt(Math.floor(Math.random() * possible.length));
+        }
+        return text;
+    }
+
+    /**
+     * Escapes a text for the html contents and the attribute values
+     * @param text Text to escape
+     * @return Escaped text
+     */
+    public static escapeHtml(text: string): string {
+        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+    }
+}
@@ -8,6 +8,7 @@ import { GdbProxy } from './gdbProxy';
 import { InputBoxOptions, window } from 'vscode';
 import { VariableFormatter } from './variableFormatter';
 import { BreakpointManager } from './breakpointManager';
+import { ResumeMode } from './cpuTraceRecorder';
 
 
 export class WinUAEDebugSession extends FsUAEDebugSession {
@@ -56,6 +57,7 @@ export class WinUAEDebugSession extends FsUAEDebugSession {
                 const frame = stk.frames[0];
                 const startAddress = frame.pc;
                 const endAddress = frame.pc;
+                await this.recordCpuState(thread, ResumeMode.STEP_OVER);
                 await this.gdbProxy.stepToRange(thread, startAddress, endAddress);
                 this.sendResponse(response);
             } catch (err) {
@@ -75,6 +77,7 @@ export class WinUAEDebugSession extends FsUAEDebugSession {
                     const frame = stk.frames[1];
                     const bpArray = this.breakpointManager.createTemporaryBreakpointArray([frame.pc + 1, frame.pc + 2, frame.pc + 4]);
                     await this.breakpointManager.addTemporaryBreakpointArray(bpArray);
+                    await this.recordCpuState(thread, ResumeMode.CONTINUE);
                     await this.gdbProxy.continueExecution(thread);
                     this.sendResponse(response);
                 } else {
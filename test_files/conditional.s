@@ -0,0 +1,29 @@
+; Build variants
+DEBUG = 1
+CHIPSET = 0
+
+start:
+    IFNE DEBUG
+debug_log:
+    bsr     log
+    ELSE
+release_log:
+    nop
+    ENDC
+    IFEQ CHIPSET
+BPLCON3_VALUE = 0
+    ELSE
+BPLCON3_VALUE = $c00
+    ENDC
+    ; Only the preceding assembled definitions are visible
+    IFND LATE
+early:
+    ENDC
+LATE = 1
+    IFEQ DEBUG
+UNUSED = 1
+    ENDC
+    IFD UNUSED
+unused_label:
+    ENDC
+    rts
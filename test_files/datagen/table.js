@@ -0,0 +1,10 @@
+// Generates a 2x4 table of squares
+const rows = [];
+for (let y = 0; y < 2; y++) {
+    const row = [];
+    for (let x = 0; x < 4; x++) {
+        row.push((y * 4 + x) * (y * 4 + x));
+    }
+    rows.push(row);
+}
+rows;
@@ -1 +1,129 @@
- sub.l	(a1),d0; 0  90 91  sub.l	(a1), d0
+; Assemble with: vasmm68k_mot -Fhunkexe -no-opt
+
+VPOSR       equ $dff004
+INTENAR     equ $dff01c
+COP1LCH     equ $dff080
+COPJMP1     equ $dff088
+INTENA      equ $dff09a
+
+    SECTION code_0,CODE
+init:
+    movea.l $4.w,a6
+    moveq.l #$0,d0
+    move.l #$3e8,d0
+    move.l #$10002,d1
+    movea.l $4.w,a6
+    jsr -$c6(a6)
+    move.l d0,(copper_list).l
+    lea.l gfxname(pc),a1
+    jsr -$198(a6)
+    movea.l d0,a1
+    move.l $26(a1),d4
+    jsr -$19e(a6)
+    move.b #$80,d7
+    move.w #$ffff,d6
+    move.w (INTENAR).l,d5
+    move.w #$7fff,(INTENA).l
+    movea.l copper_list(pc),a0
+    move.w #$1fc,(a0)+
+    move.w #$0,(a0)+
+    move.w #$100,(a0)+
+    move.w #$200,(a0)+
+    move.w #$180,(a0)+
+    move.w #$349,(a0)+
+    move.w #$2b07,(a0)+
+    move.w #$fffe,(a0)+
+    move.w #$180,(a0)+
+    move.w #$56c,(a0)+
+    move.w #$2c07,(a0)+
+    move.w #$fffe,(a0)+
+    move.w #$180,(a0)+
+    move.w #$113,(a0)+
+    move.w #$9,d0
+    move.w #$50,d1
+    move.w #$8007,d3
+    move.l a0,(waitras1).l
+loopbar:
+    move.w d3,(a0)+
+    move.w #$fffe,(a0)+
+    move.w #$180,(a0)+
+    move.w d1,(a0)+
+    add.w #$100,d3
+    add.w #$10,d1
+    dbf d0,loopbar
+    move.w #$9,d0
+loopbar2:
+    move.w d3,(a0)+
+    move.w #$fffe,(a0)+
+    move.w #$180,(a0)+
+    move.w d1,(a0)+
+    add.w #$100,d3
+    sub.w #$10,d1
+    dbf d0,loopbar2
+    move.l a0,(waitras2).l
+    move.w d3,(a0)+
+    move.w #$fffe,(a0)+
+    move.w #$180,(a0)+
+    move.w #$113,(a0)+
+    move.w #$ffdf,(a0)+
+    move.w #$fffe,(a0)+
+    move.w #$2c07,(a0)+
+    move.w #$fffe,(a0)+
+    move.w #$180,(a0)+
+    move.w #$56c,(a0)+
+    move.w #$2d07,(a0)+
+    move.w #$fffe,(a0)+
+    move.w #$180,(a0)+
+    move.w #$349,(a0)+
+    move.w #$ffdf,(a0)+
+    move.w #$fffe,(a0)+
+    move.l #$fffffffe,(a0)
+    move.l copper_list(pc),(COP1LCH).l
+    clr.w (COPJMP1).l
+resetcount:
+    moveq.l #$50,d2
+    neg.w d6
+mainloop:
+    move.w #$c,d0
+    bsr.w WaitRaster
+    add.w d6,d7
+    dbf d2,continue
+    bra.b resetcount
+continue:
+    move.w #$13,d0
+    move.w d7,d3
+    movea.l waitras1(pc),a3
+moveloop:
+    move.b d3,(a3)
+    addq.w #$1,d3
+    addq.w #$6,a3
+    addq.w #$2,a3
+    dbf d0,moveloop
+    movea.l waitras2(pc),a3
+    move.b d3,(a3)
+checkmouse:
+    btst.b #$6,$bfe001.l
+    bne.b mainloop
+exit:
+    move.l d4,(COP1LCH).l
+    or.w #$c000,d5
+    move.w d5,(INTENA).l
+    rts
+WaitRaster:
+    move.l (VPOSR).l,d1
+    lsr.l #$1,d1
+    lsr.w #$7,d1
+    cmp.w d0,d1
+    bne.b WaitRaster
+    rts
+gfxname:
+    dc.b $67,$72,$61,$70,$68,$69,$63,$73,$2e,$6c,$69,$62,$72,$61,$72,$79
+    dc.b $00,$00
+waitras1:
+    ds.b 4
+colorcpline:
+    ds.b 4
+waitras2:
+    ds.b 4
+copper_list:
+    ds.b 4
@@ -0,0 +1,27 @@
+; Waits the end of the blitter operation
+WAITBLIT   macro
+.wait\@:   btst       #6,dmaconr(a6)
+           bne.s      .wait\@
+           endm
+
+; Copies \2 to \3 with the size \0 and waits the blitter
+COPY       macro
+           WAITBLIT
+           move.\0    \1,\2
+           endm
+
+start:
+           WAITBLIT
+           COPY.w     d0,<(a0,d1.w)>
+           rts
+
+; Calls the routine \1 of the library in a6
+CALLLIB    macro
+_LVO_SIZE  equ        6
+           include    "lvo.i"
+           bsr        savelib
+           jsr        _LVO\1(a6)
+           endm
+
+savelib:
+           rts
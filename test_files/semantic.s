@@ -0,0 +1,16 @@
+; Semantic tokens
+SCREEN_WIDTH = 320
+           xref    _LVOOpenLibrary
+
+WAITBLIT   macro
+.wait\@:   btst    #6,dmaconr(a6)
+           bne.s   .wait\@
+           endm
+
+start:
+           WAITBLIT
+           move.w  #SCREEN_WIDTH,d0
+           lea     start(pc),a0
+.loop:     jsr     _LVOOpenLibrary(a6)
+           dbf     d0,.loop
+           bra     missing
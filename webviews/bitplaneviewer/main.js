@@ -0,0 +1,87 @@
+(function () {
+    // Inside a webview script
+    const vscode = acquireVsCodeApi();
+    const canvas = document.getElementById('bitplane_canvas');
+    const info = document.getElementById('info');
+    const paletteSelect = document.getElementById('palette');
+    const zoomSelect = document.getElementById('zoom');
+    let lastImage = null;
+
+    function readLayout() {
+        return {
+            width: parseInt(document.getElementById('width').value),
+            height: parseInt(document.getElementById('height').value),
+            depth: parseInt(document.getElementById('depth').value),
+            modulo: parseInt(document.getElementById('modulo').value),
+            interleaved: document.getElementById('interleaved').checked
+        };
+    }
+
+    function refresh() {
+        const state = {
+            address: document.getElementById('address').value,
+            layout: readLayout(),
+            iffPalette: paletteSelect.value === 'iff'
+        };
+        vscode.setState(state);
+        vscode.postMessage({ command: 'refresh', address: state.address, layout: state.layout, iffPalette: state.iffPalette });
+    }
+
+    function draw(message) {
+        canvas.width = message.width;
+        canvas.height = message.height;
+        const zoom = parseInt(zoomSelect.value);
+        canvas.style.width = (message.width * zoom) + 'px';
+        canvas.style.height = (message.height * zoom) + 'px';
+        const context = canvas.getContext('2d');
+        const imageData = context.createImageData(message.width, message.height);
+        for (let i = 0; i < message.pixels.length; i++) {
+            const color = message.palette[message.pixels[i]];
+            imageData.data[i * 4] = color[0];
+            imageData.data[i * 4 + 1] = color[1];
+            imageData.data[i * 4 + 2] = color[2];
+            imageData.data[i * 4 + 3] = 255;
+        }
+        context.putImageData(imageData, 0, 0);
+        info.textContent = '$' + message.address.toString(16).padStart(8, '0') + ': ' + message.width + 'x' + message.height + ', ' + message.palette.length + ' colors';
+    }
+
+    document.getElementById('layout').addEventListener('submit', event => {
+        event.preventDefault();
+        refresh();
+    });
+    paletteSelect.addEventListener('change', () => {
+        if (paletteSelect.value === 'iff') {
+            vscode.postMessage({ command: 'selectPalette' });
+        } else {
+            refresh();
+        }
+    });
+    zoomSelect.addEventListener('change', () => {
+        if (lastImage) {
+            draw(lastImage);
+        }
+    });
+
+    // Handle messages sent from the extension to the webview
+    window.addEventListener('message', event => {
+        const message = event.data; // The json data that the extension sent
+        if (message.command === 'showImage') {
+            lastImage = message;
+            draw(message);
+        } else if (message.command === 'paletteSelected') {
+            paletteSelect.options[1].text = message.name;
+        }
+    });
+
+    // Check if we have an old state to restore from
+    const previousState = vscode.getState();
+    if (previousState) {
+        document.getElementById('address').value = previousState.address;
+        document.getElementById('width').value = previousState.layout.width;
+        document.getElementById('height').value = previousState.layout.height;
+        document.getElementById('depth').value = previousState.layout.depth;
+        document.getElementById('modulo').value = previousState.layout.modulo;
+        document.getElementById('interleaved').checked = previousState.layout.interleaved;
+    }
+}());
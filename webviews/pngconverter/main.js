@@ -0,0 +1,56 @@
+(function () {
+    // Inside a webview script
+    const vscode = acquireVsCodeApi();
+    const fields = ['format', 'colors', 'dither', 'interleaved'].map(id => document.getElementById(id));
+
+    function readOptions(command) {
+        return {
+            command: command,
+            format: document.getElementById('format').value,
+            colors: document.getElementById('colors').value,
+            dither: document.getElementById('dither').checked,
+            interleaved: document.getElementById('interleaved').checked
+        };
+    }
+
+    function draw(canvasId, width, height, pixels) {
+        const canvas = document.getElementById(canvasId);
+        canvas.width = width;
+        canvas.height = height;
+        const zoom = Math.max(1, Math.floor(320 / width));
+        canvas.style.width = (width * zoom) + 'px';
+        canvas.style.height = (height * zoom) + 'px';
+        const context = canvas.getContext('2d');
+        const imageData = context.createImageData(width, height);
+        imageData.data.set(pixels);
+        context.putImageData(imageData, 0, 0);
+    }
+
+    for (const field of fields) {
+        field.addEventListener('change', () => {
+            vscode.postMessage(readOptions('preview'));
+        });
+    }
+    document.getElementById('options').addEventListener('submit', event => {
+        event.preventDefault();
+        vscode.postMessage(readOptions('convert'));
+    });
+
+    // Handle messages sent from the extension to the webview
+    window.addEventListener('message', event => {
+        const message = event.data; // The json data that the extension sent
+        if (message.command === 'showImages') {
+            draw('original_canvas', message.width, message.height, message.original);
+            draw('reduced_canvas', message.width, message.height, message.reduced);
+            const palette = document.getElementById('palette');
+            palette.textContent = '';
+            for (const color of message.palette) {
+                const swatch = document.createElement('span');
+                swatch.className = 'swatch';
+                swatch.style.backgroundColor = color;
+                swatch.title = color;
+                palette.appendChild(swatch);
+            }
+        }
+    });
+}());